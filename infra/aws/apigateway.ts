@@ -1,5 +1,5 @@
 import * as aws from '@pulumi/aws';
-import { projectName, stackName, tags } from './config';
+import { multiWorkspace, projectName, stackName, tags } from './config';
 import { slackLambda } from './lambda';
 
 // API Gateway for Slack webhook endpoint
@@ -30,6 +30,19 @@ export const slackEventsRoute = new aws.apigatewayv2.Route(
   },
 );
 
+// Routes: GET /slack/install and GET /slack/oauth_redirect
+// (OAuth install flow of multi-workspace apps)
+export const slackOAuthRoutes = multiWorkspace
+  ? ['install', 'oauth_redirect'].map(
+      (path) =>
+        new aws.apigatewayv2.Route(`slack-${path.replace('_', '-')}-route`, {
+          apiId: api.id,
+          routeKey: `GET /slack/${path}`,
+          target: lambdaIntegration.id.apply((id) => `integrations/${id}`),
+        }),
+    )
+  : [];
+
 // Default stage with auto-deploy
 export const stage = new aws.apigatewayv2.Stage('default-stage', {
   apiId: api.id,
@@ -13,6 +13,11 @@ function getConfig(key: string, envVar: string): string {
   return config.require(key);
 }
 
+// Helper to get optional config from env var or Pulumi config
+function getOptionalConfig(key: string, envVar: string): string {
+  return process.env[envVar] || config.get(key) || '';
+}
+
 // Email domain configuration
 export const emailDomain = getConfig('emailDomain', 'EMAIL_DOMAIN');
 export const route53ZoneId = getConfig('route53ZoneId', 'ROUTE53_ZONE_ID');
@@ -22,8 +27,100 @@ export const slackSigningSecret = getConfig(
   'slackSigningSecret',
   'SLACK_SIGNING_SECRET',
 );
-export const slackBotToken = getConfig('slackBotToken', 'SLACK_BOT_TOKEN');
-export const slackChannelId = getConfig('slackChannelId', 'SLACK_CHANNEL_ID');
+// Slack OAuth app credentials (optional): set to install the app into many
+// workspaces through /slack/install instead of using a single bot token
+export const slackClientId = getOptionalConfig(
+  'slackClientId',
+  'SLACK_CLIENT_ID',
+);
+export const multiWorkspace = slackClientId !== '';
+export const slackClientSecret = multiWorkspace
+  ? getConfig('slackClientSecret', 'SLACK_CLIENT_SECRET')
+  : '';
+// Secret signing the OAuth state (any random string)
+export const slackStateSecret = multiWorkspace
+  ? getConfig('slackStateSecret', 'SLACK_STATE_SECRET')
+  : '';
+// Registered OAuth redirect URL (optional; defaults to the API endpoint)
+export const slackOAuthRedirectUri = getOptionalConfig(
+  'slackOAuthRedirectUri',
+  'SLACK_OAUTH_REDIRECT_URI',
+);
+// JSON object of the domains each workspace may use, by team ID, e.g.
+// {"T0123":["acme.example.com"]}; /mail-setup rejects other domains
+export const slackWorkspaceDomains = getOptionalConfig(
+  'slackWorkspaceDomains',
+  'SLACK_WORKSPACE_DOMAINS',
+);
+// Not needed by multi-workspace apps, except for bounces and complaints on
+// emails not sent from Slack (SLACK_FEEDBACK_CHANNEL_ID)
+export const slackBotToken = multiWorkspace
+  ? getOptionalConfig('slackBotToken', 'SLACK_BOT_TOKEN')
+  : getConfig('slackBotToken', 'SLACK_BOT_TOKEN');
+export const slackChannelId = multiWorkspace
+  ? getOptionalConfig('slackChannelId', 'SLACK_CHANNEL_ID')
+  : getConfig('slackChannelId', 'SLACK_CHANNEL_ID');
+// JSON array of recipient-based routes; slackChannelId is the catch-all
+export const slackChannelRoutes = getOptionalConfig(
+  'slackChannelRoutes',
+  'SLACK_CHANNEL_ROUTES',
+);
+// Channel for emails that fail the SES spam/virus scan (optional)
+export const slackQuarantineChannelId = getOptionalConfig(
+  'slackQuarantineChannelId',
+  'SLACK_QUARANTINE_CHANNEL_ID',
+);
+// Channel for bounces/complaints on emails not sent from Slack (optional)
+export const slackFeedbackChannelId = getOptionalConfig(
+  'slackFeedbackChannelId',
+  'SLACK_FEEDBACK_CHANNEL_ID',
+);
+// JSON array of sender allow/block and drop rules for inbound mail (optional)
+export const emailFilterRules = getOptionalConfig(
+  'emailFilterRules',
+  'EMAIL_FILTER_RULES',
+);
+// JSON array of redaction rules for content posted to Slack (optional)
+export const redactionRules = getOptionalConfig(
+  'redactionRules',
+  'REDACTION_RULES',
+);
+// JSON array of digest rules for low-priority senders (optional)
+export const slackDigestRules = getOptionalConfig(
+  'slackDigestRules',
+  'SLACK_DIGEST_RULES',
+);
+// EventBridge schedule of the daily digest (UTC)
+export const digestDailySchedule =
+  getOptionalConfig('digestDailySchedule', 'DIGEST_DAILY_SCHEDULE') ||
+  'cron(0 9 * * ? *)';
+// Comma-separated Slack user IDs allowed to run /mail-replay (optional)
+export const slackAdminUserIds = getOptionalConfig(
+  'slackAdminUserIds',
+  'SLACK_ADMIN_USER_IDS',
+);
+// Comma-separated Slack user IDs allowed to view redacted originals (optional)
+export const slackRedactionViewerUserIds = getOptionalConfig(
+  'slackRedactionViewerUserIds',
+  'SLACK_REDACTION_VIEWER_USER_IDS',
+);
+// Multi-workspace apps set their channels and users per workspace with
+// /mail-setup (including the quarantine channel); these name channels and
+// users of one workspace
+if (multiWorkspace) {
+  const unsupported = [
+    slackChannelRoutes && 'SLACK_CHANNEL_ROUTES',
+    slackQuarantineChannelId && 'SLACK_QUARANTINE_CHANNEL_ID',
+    slackDigestRules && 'SLACK_DIGEST_RULES',
+    slackAdminUserIds && 'SLACK_ADMIN_USER_IDS',
+    slackRedactionViewerUserIds && 'SLACK_REDACTION_VIEWER_USER_IDS',
+  ].filter(Boolean);
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Not supported by multi-workspace apps (SLACK_CLIENT_ID set): ${unsupported.join(', ')} (set channels and users per workspace with /mail-setup; channel routes and digests are not available)`,
+    );
+  }
+}
 
 // Sentry configuration (optional - for production error tracking)
 // Set via GitHub Actions secret, not committed to repository
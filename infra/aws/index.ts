@@ -1,9 +1,20 @@
 import { stage } from './apigateway';
 import { emailDomain, projectName, stackName } from './config';
-import { s3Lambda, s3LambdaRole, slackLambda, slackLambdaRole } from './lambda';
-import { emailBucket } from './s3';
-import { sesDomainIdentity } from './ses';
+import {
+  digestLambda,
+  digestLambdaRole,
+  feedbackLambda,
+  feedbackLambdaRole,
+  s3Lambda,
+  s3LambdaRole,
+  slackLambda,
+  slackLambdaRole,
+} from './lambda';
+import { emailBucket, stateBucket } from './s3';
+import { sesConfigurationSet, sesDomainIdentity } from './ses';
 import './s3-notification'; // S3 event notification setup
+import { digestRules } from './schedule';
+import { deliveryEventsTopic, feedbackTopic } from './sns';
 
 // =============================================================================
 // Exports
@@ -13,6 +24,7 @@ export const project = projectName;
 export const stack = stackName;
 export const emailBucketName = emailBucket.bucket;
 export const emailBucketArn = emailBucket.arn;
+export const stateBucketName = stateBucket.bucket;
 
 // S3 Lambda (email processing)
 export const s3LambdaFunctionName = s3Lambda.name;
@@ -24,6 +36,20 @@ export const slackLambdaFunctionName = slackLambda.name;
 export const slackLambdaFunctionArn = slackLambda.arn;
 export const slackLambdaRoleArn = slackLambdaRole.arn;
 
+// Feedback Lambda (SES bounces, complaints and delivery events via SNS)
+export const feedbackLambdaFunctionName = feedbackLambda.name;
+export const feedbackLambdaFunctionArn = feedbackLambda.arn;
+export const feedbackLambdaRoleArn = feedbackLambdaRole.arn;
+export const feedbackTopicArn = feedbackTopic.arn;
+export const deliveryEventsTopicArn = deliveryEventsTopic.arn;
+
+// Digest Lambda (hourly/daily digests via EventBridge)
+export const digestLambdaFunctionName = digestLambda.name;
+export const digestLambdaFunctionArn = digestLambda.arn;
+export const digestLambdaRoleArn = digestLambdaRole.arn;
+export const digestScheduleRuleNames = digestRules.map((rule) => rule.name);
+
 export const apiEndpoint = stage.invokeUrl;
 export const sesEmailDomain = emailDomain;
 export const sesDomainArn = sesDomainIdentity.arn;
+export const sesConfigurationSetName = sesConfigurationSet.configurationSetName;
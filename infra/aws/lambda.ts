@@ -2,15 +2,29 @@ import * as aws from '@pulumi/aws';
 import * as pulumi from '@pulumi/pulumi';
 import {
   emailDomain,
+  emailFilterRules,
+  projectName,
+  redactionRules,
   sentryDsn,
+  slackAdminUserIds,
   slackBotToken,
   slackChannelId,
+  slackChannelRoutes,
+  slackClientId,
+  slackClientSecret,
+  slackDigestRules,
+  slackFeedbackChannelId,
+  slackOAuthRedirectUri,
+  slackQuarantineChannelId,
+  slackRedactionViewerUserIds,
   slackSigningSecret,
+  slackStateSecret,
+  slackWorkspaceDomains,
   stackName,
   tags,
 } from './config';
-import { emailBucket } from './s3';
-import { sesDomainIdentity } from './ses';
+import { emailBucket, stateBucket } from './s3';
+import { sesConfigurationSet, sesDomainIdentity } from './ses';
 
 // Get AWS region and account ID for constructing ARNs
 const currentRegion = aws.getRegion();
@@ -32,6 +46,21 @@ export const s3LambdaLogGroup = new aws.cloudwatch.LogGroup(
   },
 );
 
+// Count of emails dropped by EMAIL_FILTER_RULES (the filter stage logs
+// "Dropped email by filter:" with the matching rule for each of them)
+export const s3LambdaDroppedEmailsMetricFilter =
+  new aws.cloudwatch.LogMetricFilter('s3-lambda-dropped-emails-metric-filter', {
+    name: 'slackmail-dropped-emails',
+    logGroupName: s3LambdaLogGroup.name,
+    pattern: '"Dropped email by filter:"',
+    metricTransformation: {
+      name: 'DroppedEmails',
+      namespace: projectName,
+      value: '1',
+      defaultValue: '0',
+    },
+  });
+
 // IAM role for S3 Lambda execution
 export const s3LambdaRole = new aws.iam.Role('s3-lambda-role', {
   assumeRolePolicy: JSON.stringify({
@@ -88,6 +117,36 @@ export const s3LambdaS3Policy = new aws.iam.RolePolicy('s3-lambda-s3-policy', {
   }`,
 });
 
+// Policy: read/write access to the state bucket (thread index, digest buffer;
+// listing installations of multi-workspace apps)
+// ListBucket lets GetObject report missing keys as NoSuchKey instead of AccessDenied
+export const s3LambdaStatePolicy = new aws.iam.RolePolicy(
+  's3-lambda-state-policy',
+  {
+    role: s3LambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject",
+          "s3:PutObject"
+        ],
+        "Resource": "${stateBucket.arn}/*"
+      },
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:ListBucket"
+        ],
+        "Resource": "${stateBucket.arn}"
+      }
+    ]
+  }`,
+  },
+);
+
 // S3 Lambda function (email processing)
 export const s3Lambda = new aws.lambda.Function('s3-lambda', {
   name: s3LambdaName,
@@ -103,9 +162,19 @@ export const s3Lambda = new aws.lambda.Function('s3-lambda', {
     variables: {
       NODE_ENV: stackName,
       EMAIL_BUCKET_NAME: emailBucket.bucket,
+      STATE_BUCKET_NAME: stateBucket.bucket,
       SLACK_SIGNING_SECRET: slackSigningSecret,
       SLACK_BOT_TOKEN: slackBotToken,
       SLACK_CHANNEL_ID: slackChannelId,
+      SLACK_CLIENT_ID: slackClientId,
+      SLACK_CHANNEL_ROUTES: slackChannelRoutes,
+      SLACK_QUARANTINE_CHANNEL_ID: slackQuarantineChannelId,
+      SLACK_DIGEST_RULES: slackDigestRules,
+      EMAIL_FILTER_RULES: emailFilterRules,
+      REDACTION_RULES: redactionRules,
+      // SES prepends its own Authentication-Results header
+      TRUSTED_AUTHSERV_IDS: 'amazonses.com',
+      SLACK_WORKSPACE_DOMAINS: slackWorkspaceDomains,
       SENTRY_DSN: sentryDsn,
     },
   },
@@ -168,14 +237,20 @@ export const slackLambdaLogsPolicy = new aws.iam.RolePolicy(
 );
 
 // Policy: SES send email access for Slack Lambda
-// Allow sending from domain identity and any email address under that domain
+// Allow sending from domain identity and any email address under that domain,
+// with the configuration set that publishes delivery events
 export const slackLambdaSesPolicy = new aws.iam.RolePolicy(
   'slack-lambda-ses-policy',
   {
     role: slackLambdaRole.id,
     policy: pulumi
-      .all([sesDomainIdentity.arn, currentRegion, currentIdentity])
-      .apply(([domainArn, region, identity]) =>
+      .all([
+        sesDomainIdentity.arn,
+        sesConfigurationSet.arn,
+        currentRegion,
+        currentIdentity,
+      ])
+      .apply(([domainArn, configurationSetArn, region, identity]) =>
         JSON.stringify({
           Version: '2012-10-17',
           Statement: [
@@ -187,6 +262,8 @@ export const slackLambdaSesPolicy = new aws.iam.RolePolicy(
                 domainArn,
                 // Email address identities under this domain
                 `arn:aws:ses:${region.name}:${identity.accountId}:identity/*`,
+                // Configuration set (delivery events)
+                configurationSetArn,
               ],
             },
           ],
@@ -195,6 +272,58 @@ export const slackLambdaSesPolicy = new aws.iam.RolePolicy(
   },
 );
 
+// Policy: S3 read access for email bucket ("Reveal" on quarantined emails)
+export const slackLambdaS3Policy = new aws.iam.RolePolicy(
+  'slack-lambda-s3-policy',
+  {
+    role: slackLambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject"
+        ],
+        "Resource": "${emailBucket.arn}/*"
+      }
+    ]
+  }`,
+  },
+);
+
+// Policy: read/write access to the state bucket (/mail-replay reads and
+// removes dead-letter records, and replays update the thread index;
+// /mail-search lists and reads the search index; the OAuth flow and
+// /mail-setup store installations)
+export const slackLambdaStatePolicy = new aws.iam.RolePolicy(
+  'slack-lambda-state-policy',
+  {
+    role: slackLambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject",
+          "s3:PutObject",
+          "s3:DeleteObject"
+        ],
+        "Resource": "${stateBucket.arn}/*"
+      },
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:ListBucket"
+        ],
+        "Resource": "${stateBucket.arn}"
+      }
+    ]
+  }`,
+  },
+);
+
 // Slack Lambda function (API Gateway / Slack events)
 export const slackLambda = new aws.lambda.Function('slack-lambda', {
   name: slackLambdaName,
@@ -210,9 +339,268 @@ export const slackLambda = new aws.lambda.Function('slack-lambda', {
     variables: {
       NODE_ENV: stackName,
       EMAIL_DOMAIN: emailDomain,
+      EMAIL_BUCKET_NAME: emailBucket.bucket,
+      STATE_BUCKET_NAME: stateBucket.bucket,
+      SLACK_SIGNING_SECRET: slackSigningSecret,
+      SLACK_BOT_TOKEN: slackBotToken,
+      SLACK_CHANNEL_ID: slackChannelId,
+      SLACK_CLIENT_ID: slackClientId,
+      SLACK_CLIENT_SECRET: slackClientSecret,
+      SLACK_STATE_SECRET: slackStateSecret,
+      SLACK_OAUTH_REDIRECT_URI: slackOAuthRedirectUri,
+      SLACK_CHANNEL_ROUTES: slackChannelRoutes,
+      SLACK_QUARANTINE_CHANNEL_ID: slackQuarantineChannelId,
+      SLACK_ADMIN_USER_IDS: slackAdminUserIds,
+      SLACK_REDACTION_VIEWER_USER_IDS: slackRedactionViewerUserIds,
+      EMAIL_FILTER_RULES: emailFilterRules,
+      REDACTION_RULES: redactionRules,
+      TRUSTED_AUTHSERV_IDS: 'amazonses.com',
+      SLACK_WORKSPACE_DOMAINS: slackWorkspaceDomains,
+      SES_CONFIGURATION_SET: sesConfigurationSet.configurationSetName,
+    },
+  },
+  tags,
+});
+
+// =============================================================================
+// Feedback Lambda (SES bounce/complaint notifications and delivery events via SNS)
+// =============================================================================
+
+const feedbackLambdaName = 'slackmail-sns-handler';
+
+// CloudWatch Log Group for Feedback Lambda
+export const feedbackLambdaLogGroup = new aws.cloudwatch.LogGroup(
+  'feedback-lambda-log-group',
+  {
+    name: `/aws/lambda/${feedbackLambdaName}`,
+    retentionInDays: 14,
+    tags,
+  },
+);
+
+// IAM role for Feedback Lambda execution
+export const feedbackLambdaRole = new aws.iam.Role('feedback-lambda-role', {
+  assumeRolePolicy: JSON.stringify({
+    Version: '2012-10-17',
+    Statement: [
+      {
+        Action: 'sts:AssumeRole',
+        Principal: {
+          Service: 'lambda.amazonaws.com',
+        },
+        Effect: 'Allow',
+      },
+    ],
+  }),
+  tags,
+});
+
+// Policy: CloudWatch Logs access for Feedback Lambda
+export const feedbackLambdaLogsPolicy = new aws.iam.RolePolicy(
+  'feedback-lambda-logs-policy',
+  {
+    role: feedbackLambdaRole.id,
+    policy: pulumi
+      .all([currentRegion, currentIdentity])
+      .apply(([region, identity]) =>
+        JSON.stringify({
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Effect: 'Allow',
+              Action: ['logs:CreateLogStream', 'logs:PutLogEvents'],
+              Resource: `arn:aws:logs:${region.name}:${identity.accountId}:log-group:/aws/lambda/${feedbackLambdaName}:*`,
+            },
+          ],
+        }),
+      ),
+  },
+);
+
+// Policy: read/write access to the state bucket (sent email records and
+// their delivery status)
+export const feedbackLambdaStatePolicy = new aws.iam.RolePolicy(
+  'feedback-lambda-state-policy',
+  {
+    role: feedbackLambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject",
+          "s3:PutObject"
+        ],
+        "Resource": "${stateBucket.arn}/*"
+      },
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:ListBucket"
+        ],
+        "Resource": "${stateBucket.arn}"
+      }
+    ]
+  }`,
+  },
+);
+
+// Feedback Lambda function (posts bounces and complaints to Slack and
+// updates send confirmations with the delivery status)
+export const feedbackLambda = new aws.lambda.Function('feedback-lambda', {
+  name: feedbackLambdaName,
+  runtime: aws.lambda.Runtime.NodeJS22dX,
+  handler: 'sns-handler.handler',
+  role: feedbackLambdaRole.arn,
+  code: new pulumi.asset.AssetArchive({
+    'sns-handler.js': new pulumi.asset.FileAsset('./dist/sns-handler.js'),
+  }),
+  timeout: 30,
+  memorySize: 256,
+  environment: {
+    variables: {
+      NODE_ENV: stackName,
+      STATE_BUCKET_NAME: stateBucket.bucket,
+      SLACK_SIGNING_SECRET: slackSigningSecret,
+      SLACK_BOT_TOKEN: slackBotToken,
+      SLACK_CHANNEL_ID: slackChannelId,
+      // Multi-workspace apps post with the sending workspace's token
+      SLACK_CLIENT_ID: slackClientId,
+      SLACK_FEEDBACK_CHANNEL_ID: slackFeedbackChannelId,
+    },
+  },
+  tags,
+});
+
+// =============================================================================
+// Digest Lambda (hourly/daily digests via EventBridge)
+// =============================================================================
+
+const digestLambdaName = 'slackmail-digest-handler';
+
+// CloudWatch Log Group for Digest Lambda
+export const digestLambdaLogGroup = new aws.cloudwatch.LogGroup(
+  'digest-lambda-log-group',
+  {
+    name: `/aws/lambda/${digestLambdaName}`,
+    retentionInDays: 14,
+    tags,
+  },
+);
+
+// IAM role for Digest Lambda execution
+export const digestLambdaRole = new aws.iam.Role('digest-lambda-role', {
+  assumeRolePolicy: JSON.stringify({
+    Version: '2012-10-17',
+    Statement: [
+      {
+        Action: 'sts:AssumeRole',
+        Principal: {
+          Service: 'lambda.amazonaws.com',
+        },
+        Effect: 'Allow',
+      },
+    ],
+  }),
+  tags,
+});
+
+// Policy: CloudWatch Logs access for Digest Lambda
+export const digestLambdaLogsPolicy = new aws.iam.RolePolicy(
+  'digest-lambda-logs-policy',
+  {
+    role: digestLambdaRole.id,
+    policy: pulumi
+      .all([currentRegion, currentIdentity])
+      .apply(([region, identity]) =>
+        JSON.stringify({
+          Version: '2012-10-17',
+          Statement: [
+            {
+              Effect: 'Allow',
+              Action: ['logs:CreateLogStream', 'logs:PutLogEvents'],
+              Resource: `arn:aws:logs:${region.name}:${identity.accountId}:log-group:/aws/lambda/${digestLambdaName}:*`,
+            },
+          ],
+        }),
+      ),
+  },
+);
+
+// Policy: S3 read access for email bucket (buffered emails are re-read)
+export const digestLambdaS3Policy = new aws.iam.RolePolicy(
+  'digest-lambda-s3-policy',
+  {
+    role: digestLambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject"
+        ],
+        "Resource": "${emailBucket.arn}/*"
+      }
+    ]
+  }`,
+  },
+);
+
+// Policy: read/write access to the state bucket (lists and removes digest
+// buffer entries, updates the thread and search indexes)
+export const digestLambdaStatePolicy = new aws.iam.RolePolicy(
+  'digest-lambda-state-policy',
+  {
+    role: digestLambdaRole.id,
+    policy: pulumi.interpolate`{
+    "Version": "2012-10-17",
+    "Statement": [
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:GetObject",
+          "s3:PutObject",
+          "s3:DeleteObject"
+        ],
+        "Resource": "${stateBucket.arn}/*"
+      },
+      {
+        "Effect": "Allow",
+        "Action": [
+          "s3:ListBucket"
+        ],
+        "Resource": "${stateBucket.arn}"
+      }
+    ]
+  }`,
+  },
+);
+
+// Digest Lambda function (posts the emails buffered by digest rules)
+export const digestLambda = new aws.lambda.Function('digest-lambda', {
+  name: digestLambdaName,
+  runtime: aws.lambda.Runtime.NodeJS22dX,
+  handler: 'digest-handler.handler',
+  role: digestLambdaRole.arn,
+  code: new pulumi.asset.AssetArchive({
+    'digest-handler.js': new pulumi.asset.FileAsset('./dist/digest-handler.js'),
+  }),
+  timeout: 300,
+  memorySize: 256,
+  environment: {
+    variables: {
+      NODE_ENV: stackName,
+      EMAIL_BUCKET_NAME: emailBucket.bucket,
+      STATE_BUCKET_NAME: stateBucket.bucket,
       SLACK_SIGNING_SECRET: slackSigningSecret,
       SLACK_BOT_TOKEN: slackBotToken,
       SLACK_CHANNEL_ID: slackChannelId,
+      SLACK_CHANNEL_ROUTES: slackChannelRoutes,
+      SLACK_DIGEST_RULES: slackDigestRules,
+      REDACTION_RULES: redactionRules,
+      TRUSTED_AUTHSERV_IDS: 'amazonses.com',
     },
   },
   tags,
@@ -19,3 +19,22 @@ export const emailBucketPublicAccessBlock = new aws.s3.BucketPublicAccessBlock(
     restrictPublicBuckets: true,
   },
 );
+
+// S3 Bucket for application state (thread index, etc.)
+// Kept separate from the email bucket so writes don't trigger the S3 handler
+export const stateBucket = new aws.s3.Bucket('state-bucket', {
+  bucket: `${projectName}-${stackName}-state`,
+  forceDestroy: stackName === 'dev',
+  tags,
+});
+
+export const stateBucketPublicAccessBlock = new aws.s3.BucketPublicAccessBlock(
+  'state-bucket-public-access-block',
+  {
+    bucket: stateBucket.id,
+    blockPublicAcls: true,
+    blockPublicPolicy: true,
+    ignorePublicAcls: true,
+    restrictPublicBuckets: true,
+  },
+);
@@ -0,0 +1,46 @@
+import * as aws from '@pulumi/aws';
+import { digestDailySchedule, tags } from './config';
+import { digestLambda } from './lambda';
+
+// =============================================================================
+// Digest Schedules (EventBridge)
+// =============================================================================
+
+const digestSchedules = {
+  hourly: 'rate(1 hour)',
+  daily: digestDailySchedule,
+};
+
+export const digestRules = Object.entries(digestSchedules).map(
+  ([schedule, scheduleExpression]) => {
+    const rule = new aws.cloudwatch.EventRule(`digest-${schedule}-rule`, {
+      name: `slackmail-digest-${schedule}`,
+      description: `Post the ${schedule} email digest`,
+      scheduleExpression,
+      tags,
+    });
+
+    // Permission for EventBridge to invoke the Digest Lambda
+    const permission = new aws.lambda.Permission(
+      `digest-${schedule}-invoke-lambda-permission`,
+      {
+        action: 'lambda:InvokeFunction',
+        function: digestLambda.name,
+        principal: 'events.amazonaws.com',
+        sourceArn: rule.arn,
+      },
+    );
+
+    new aws.cloudwatch.EventTarget(
+      `digest-${schedule}-target`,
+      {
+        rule: rule.name,
+        arn: digestLambda.arn,
+        input: JSON.stringify({ schedule }),
+      },
+      { dependsOn: [permission] },
+    );
+
+    return rule;
+  },
+);
@@ -1,7 +1,7 @@
 import * as aws from '@pulumi/aws';
 import * as pulumi from '@pulumi/pulumi';
 
-import { emailDomain, route53ZoneId } from './config';
+import { emailDomain, multiWorkspace, route53ZoneId } from './config';
 import { emailBucket } from './s3';
 
 // Get current AWS region and account
@@ -53,6 +53,20 @@ export const mxRecord = new aws.route53.Record('mx-record', {
     .apply((region) => [`10 inbound-smtp.${region.name}.amazonaws.com`]),
 });
 
+// Multi-workspace apps: workspaces can receive on subdomains
+// (e.g. acme.<emailDomain>, set with /mail-setup domain)
+export const workspaceMxRecord = multiWorkspace
+  ? new aws.route53.Record('workspace-mx-record', {
+      zoneId: route53ZoneId,
+      name: `*.${emailDomain}`,
+      type: 'MX',
+      ttl: 600,
+      records: pulumi
+        .output(currentRegion)
+        .apply((region) => [`10 inbound-smtp.${region.name}.amazonaws.com`]),
+    })
+  : undefined;
+
 // =============================================================================
 // SPF Record
 // =============================================================================
@@ -197,7 +211,9 @@ export const receiptRule = new aws.ses.ReceiptRule(
     ruleSetName: receiptRuleSet.ruleSetName,
     name: 'store-to-s3',
     enabled: true,
-    recipients: [emailDomain],
+    recipients: multiWorkspace
+      ? [emailDomain, `.${emailDomain}`]
+      : [emailDomain],
     scanEnabled: true,
     s3Actions: [
       {
@@ -210,3 +226,14 @@ export const receiptRule = new aws.ses.ReceiptRule(
     dependsOn: [emailBucketPolicy, sesDomainVerification],
   },
 );
+
+// =============================================================================
+// SES Configuration Set (delivery events for sent emails)
+// =============================================================================
+
+export const sesConfigurationSet = new aws.sesv2.ConfigurationSet(
+  'ses-configuration-set',
+  {
+    configurationSetName: 'slackmail-events',
+  },
+);
@@ -0,0 +1,110 @@
+import * as aws from '@pulumi/aws';
+import { tags } from './config';
+import { feedbackLambda } from './lambda';
+import { sesConfigurationSet, sesDomainIdentity } from './ses';
+
+// =============================================================================
+// SES Feedback Notifications (bounces and complaints)
+// =============================================================================
+
+export const feedbackTopic = new aws.sns.Topic('ses-feedback-topic', {
+  name: 'slackmail-ses-feedback',
+  tags,
+});
+
+// Publish bounce and complaint notifications for the domain identity
+export const bounceNotificationTopic = new aws.ses.IdentityNotificationTopic(
+  'ses-bounce-notification-topic',
+  {
+    identity: sesDomainIdentity.domain,
+    notificationType: 'Bounce',
+    topicArn: feedbackTopic.arn,
+    includeOriginalHeaders: false,
+  },
+);
+
+export const complaintNotificationTopic = new aws.ses.IdentityNotificationTopic(
+  'ses-complaint-notification-topic',
+  {
+    identity: sesDomainIdentity.domain,
+    notificationType: 'Complaint',
+    topicArn: feedbackTopic.arn,
+    includeOriginalHeaders: false,
+  },
+);
+
+// Permission for SNS to invoke the Feedback Lambda
+export const snsInvokeLambdaPermission = new aws.lambda.Permission(
+  'sns-invoke-lambda-permission',
+  {
+    action: 'lambda:InvokeFunction',
+    function: feedbackLambda.name,
+    principal: 'sns.amazonaws.com',
+    sourceArn: feedbackTopic.arn,
+  },
+);
+
+export const feedbackSubscription = new aws.sns.TopicSubscription(
+  'ses-feedback-subscription',
+  {
+    topic: feedbackTopic.arn,
+    protocol: 'lambda',
+    endpoint: feedbackLambda.arn,
+  },
+  {
+    dependsOn: [snsInvokeLambdaPermission],
+  },
+);
+
+// =============================================================================
+// SES Delivery Events (send, delivery, bounce, complaint, reject, delay)
+// =============================================================================
+
+export const deliveryEventsTopic = new aws.sns.Topic('ses-events-topic', {
+  name: 'slackmail-ses-events',
+  tags,
+});
+
+// Publish delivery events of emails sent with the configuration set
+export const deliveryEventDestination =
+  new aws.sesv2.ConfigurationSetEventDestination('ses-events-destination', {
+    configurationSetName: sesConfigurationSet.configurationSetName,
+    eventDestinationName: 'slack-delivery-status',
+    eventDestination: {
+      enabled: true,
+      matchingEventTypes: [
+        'SEND',
+        'DELIVERY',
+        'BOUNCE',
+        'COMPLAINT',
+        'REJECT',
+        'DELIVERY_DELAY',
+      ],
+      snsDestination: {
+        topicArn: deliveryEventsTopic.arn,
+      },
+    },
+  });
+
+// Permission for SNS to invoke the Feedback Lambda with delivery events
+export const snsEventsInvokeLambdaPermission = new aws.lambda.Permission(
+  'sns-events-invoke-lambda-permission',
+  {
+    action: 'lambda:InvokeFunction',
+    function: feedbackLambda.name,
+    principal: 'sns.amazonaws.com',
+    sourceArn: deliveryEventsTopic.arn,
+  },
+);
+
+export const deliveryEventsSubscription = new aws.sns.TopicSubscription(
+  'ses-events-subscription',
+  {
+    topic: deliveryEventsTopic.arn,
+    protocol: 'lambda',
+    endpoint: feedbackLambda.arn,
+  },
+  {
+    dependsOn: [snsEventsInvokeLambdaPermission],
+  },
+);
@@ -0,0 +1,103 @@
+import { createSlackApp, isDigestSchedule } from '@rindrics/slackmail';
+import type { Handler } from 'aws-lambda';
+import { S3StorageRepository } from '@/infrastructure/s3StorageRepository';
+import {
+  createMailDigestPublisher,
+  loadReceiveMailConfig,
+  type ReceiveMailConfig,
+} from '@/receiveMail';
+
+/**
+ * Required environment variables configuration for the digest handler
+ */
+interface EnvConfig extends ReceiveMailConfig {
+  slackSigningSecret: string;
+  slackBotToken: string;
+  emailBucketName: string;
+}
+
+/**
+ * Input of the EventBridge schedule rules
+ */
+interface DigestEvent {
+  schedule?: unknown;
+}
+
+/**
+ * Validate and load required environment variables.
+ * Fails fast with clear error messages if any are missing.
+ */
+function loadEnvConfig(): EnvConfig {
+  const slackSigningSecret = process.env.SLACK_SIGNING_SECRET?.trim();
+  const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim();
+  const slackChannelId = process.env.SLACK_CHANNEL_ID?.trim();
+  const emailBucketName = process.env.EMAIL_BUCKET_NAME?.trim();
+
+  if (
+    !slackSigningSecret ||
+    !slackBotToken ||
+    !slackChannelId ||
+    !emailBucketName
+  ) {
+    const missing = [
+      !slackSigningSecret && 'SLACK_SIGNING_SECRET',
+      !slackBotToken && 'SLACK_BOT_TOKEN',
+      !slackChannelId && 'SLACK_CHANNEL_ID',
+      !emailBucketName && 'EMAIL_BUCKET_NAME',
+    ].filter(Boolean);
+
+    for (const name of missing) {
+      console.error(`[Config Error] ${name} is required but not set`);
+    }
+    throw new Error(
+      `Missing required environment variables: ${missing.join(', ')}`,
+    );
+  }
+
+  return {
+    slackSigningSecret,
+    slackBotToken,
+    emailBucketName,
+    ...loadReceiveMailConfig(slackChannelId),
+  };
+}
+
+// Validate environment variables at startup (fail fast)
+const config = loadEnvConfig();
+
+const { app } = createSlackApp({
+  signingSecret: config.slackSigningSecret,
+  botToken: config.slackBotToken,
+  channel: config.slackChannelId,
+});
+
+// Buffered emails are read back from the email bucket
+const publish = createMailDigestPublisher(
+  app,
+  new S3StorageRepository(config.emailBucketName),
+  config,
+);
+
+/**
+ * Lambda handler for the digest schedules.
+ * Triggered by EventBridge with `{ "schedule": "hourly" | "daily" }`; posts
+ * the emails buffered for that schedule.
+ */
+export const handler: Handler<DigestEvent> = async (event) => {
+  if (!isDigestSchedule(event.schedule)) {
+    throw new Error(
+      `Invalid digest schedule: ${JSON.stringify(event.schedule)}`,
+    );
+  }
+  if (!publish) {
+    console.log(
+      'Digest mode is disabled (SLACK_DIGEST_RULES or STATE_BUCKET_NAME is not set)',
+    );
+    return;
+  }
+
+  const result = await publish(event.schedule);
+  console.log(
+    `Posted ${event.schedule} digest: ${result.posted} emails, ${result.failed} failed`,
+  );
+};
@@ -0,0 +1,85 @@
+import {
+  createImapFlowClient,
+  createSlackApp,
+  FileDeadLetterRepository,
+  ImapPoller,
+} from '@rindrics/slackmail';
+import { createReceiveMailUseCase, loadReceiveMailConfig } from '@/receiveMail';
+
+/**
+ * Post emails from an existing IMAP mailbox to Slack.
+ *
+ * Usage:
+ *   IMAP_HOST=imap.example.com IMAP_USER=... IMAP_PASSWORD=... pnpm imap
+ *
+ * Uses the Slack variables of the S3 handler (SLACK_CHANNEL_ROUTES,
+ * SLACK_QUARANTINE_CHANNEL_ID, EMAIL_FILTER_RULES, REDACTION_RULES and
+ * TRUSTED_AUTHSERV_IDS, e.g. the mail provider's host, are supported), plus:
+ *   IMAP_PORT       Port (default: 993)
+ *   IMAP_TLS        "false" for a plain connection upgraded with STARTTLS
+ *   IMAP_MAILBOX    Mailbox to read (default: INBOX)
+ *   IMAP_MOVE_TO    Mailbox to move posted messages to (default: mark seen only)
+ *   DEAD_LETTER_DIR Store failures (the messages also stay unseen)
+ *
+ * With STATE_BUCKET_NAME, posted messages are recorded (so a message that
+ * could not be marked seen is not posted again), indexed for /mail-search
+ * and threaded, as with the S3 handler.
+ *
+ * SLACK_DIGEST_RULES is not supported: digests re-read the stored email,
+ * and the poller does not keep one.
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    console.error(`[Config Error] ${name} is required but not set`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const host = requireEnv('IMAP_HOST');
+  const user = requireEnv('IMAP_USER');
+  const pass = requireEnv('IMAP_PASSWORD');
+  const secure = process.env.IMAP_TLS?.trim() !== 'false';
+  const port = Number(process.env.IMAP_PORT?.trim() || (secure ? 993 : 143));
+
+  const { app } = createSlackApp({
+    signingSecret: requireEnv('SLACK_SIGNING_SECRET'),
+    botToken: requireEnv('SLACK_BOT_TOKEN'),
+    channel: requireEnv('SLACK_CHANNEL_ID'),
+  });
+  const config = {
+    ...loadReceiveMailConfig(requireEnv('SLACK_CHANNEL_ID')),
+    slackDigestRules: [],
+  };
+  const deadLetterDir = process.env.DEAD_LETTER_DIR?.trim();
+
+  const poller = new ImapPoller({
+    createClient: () =>
+      createImapFlowClient({ host, port, secure, auth: { user, pass } }),
+    mailbox: process.env.IMAP_MAILBOX?.trim() || undefined,
+    moveTo: process.env.IMAP_MOVE_TO?.trim() || undefined,
+    createReceiveMailUseCase: (storageRepository) =>
+      createReceiveMailUseCase(
+        app,
+        storageRepository,
+        config,
+        deadLetterDir ? new FileDeadLetterRepository(deadLetterDir) : undefined,
+      ),
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      poller.stop().then(() => process.exit(0));
+    });
+  }
+
+  await poller.start();
+}
+
+main().catch((error) => {
+  console.error('IMAP poller failed:', error);
+  process.exit(1);
+});
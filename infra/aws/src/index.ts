@@ -4,8 +4,12 @@
  * This module re-exports handlers from dedicated files:
  * - s3Handler: Handles S3 events for email processing
  * - slackHandler: Handles API Gateway events for Slack interactions
+ * - snsHandler: Handles SES bounce and complaint notifications
+ * - digestHandler: Posts the hourly and daily digests
  */
 
+// Re-export digest handler for the EventBridge schedules
+export { handler as digestHandler } from './digest-handler';
 // Re-export S3 handler for email processing
 // Default export for backwards compatibility with tests
 // Note: In production, use separate Lambda functions with dedicated handlers
@@ -16,3 +20,5 @@ export {
 } from './s3-handler';
 // Re-export Slack handler for API Gateway
 export { handler as slackHandler } from './slack-handler';
+// Re-export SNS handler for SES feedback notifications
+export { handler as snsHandler } from './sns-handler';
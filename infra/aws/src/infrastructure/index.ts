@@ -1 +1,10 @@
+export { S3DeadLetterRepository } from './s3DeadLetterRepository';
+export { S3DigestBufferRepository } from './s3DigestBufferRepository';
+export { S3InstallationRepository } from './s3InstallationRepository';
+export { S3ProcessedEmailRepository } from './s3ProcessedEmailRepository';
+export { S3SearchIndexRepository } from './s3SearchIndexRepository';
+export { S3SentEmailRepository } from './s3SentEmailRepository';
 export { S3StorageRepository } from './s3StorageRepository';
+export { S3ThreadIndexRepository } from './s3ThreadIndexRepository';
+export { S3TriageRepository } from './s3TriageRepository';
+export { parseSesEvent, parseSesNotification } from './sesFeedbackParser';
@@ -0,0 +1,109 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  type DeadLetterRecord,
+  type DeadLetterRepository,
+  parseDeadLetterRecord,
+  serializeDeadLetterRecord,
+} from '@rindrics/slackmail';
+
+/**
+ * S3-based implementation of DeadLetterRepository.
+ * Stores one JSON object per record under a key prefix.
+ */
+export class S3DeadLetterRepository implements DeadLetterRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for records
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'dead-letter/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async save(record: DeadLetterRecord): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(record.id),
+        Body: serializeDeadLetterRecord(record),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  async list(): Promise<DeadLetterRecord[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key?.endsWith('.json')) {
+          keys.push(object.Key);
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const records: DeadLetterRecord[] = [];
+    for (const key of keys) {
+      const record = await this.get(key);
+      if (record) {
+        records.push(record);
+      }
+    }
+    return records.sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+  }
+
+  async find(id: string): Promise<DeadLetterRecord | undefined> {
+    return this.get(this.toKey(id));
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toKey(id) }),
+    );
+  }
+
+  private async get(key: string): Promise<DeadLetterRecord | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      return parseDeadLetterRecord(await response.Body.transformToString());
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * IDs come from user input (CLI, Slack command), so they are URI-encoded.
+   */
+  private toKey(id: string): string {
+    return `${this.prefix}${encodeURIComponent(id)}.json`;
+  }
+}
@@ -0,0 +1,121 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type {
+  DigestBufferRepository,
+  DigestEntry,
+  DigestSchedule,
+} from '@rindrics/slackmail';
+
+type StoredDigestEntry = Omit<DigestEntry, 'date' | 'bufferedAt'> & {
+  date: string;
+  bufferedAt: string;
+};
+
+/**
+ * S3-based implementation of DigestBufferRepository.
+ *
+ * Stores one JSON object per email under
+ * `<prefix><schedule>/<storage key>.json`, so a digest run only lists the
+ * keys of its schedule.
+ */
+export class S3DigestBufferRepository implements DigestBufferRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for buffered emails
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'digest/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async addToDigest(entry: DigestEntry): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(entry),
+        Body: JSON.stringify({
+          ...entry,
+          date: entry.date.toISOString(),
+          bufferedAt: entry.bufferedAt.toISOString(),
+        }),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  async listDigest(schedule: DigestSchedule): Promise<DigestEntry[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: `${this.prefix}${schedule}/`,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key?.endsWith('.json')) {
+          keys.push(object.Key);
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const entries: DigestEntry[] = [];
+    for (const key of keys) {
+      const entry = await this.get(key);
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async removeFromDigest(entry: DigestEntry): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toKey(entry) }),
+    );
+  }
+
+  private async get(key: string): Promise<DigestEntry | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const entry = JSON.parse(
+        await response.Body.transformToString(),
+      ) as StoredDigestEntry;
+      return {
+        ...entry,
+        date: new Date(entry.date),
+        bufferedAt: new Date(entry.bufferedAt),
+      };
+    } catch (error) {
+      // Removed by a concurrent digest run between listing and reading
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toKey(entry: DigestEntry): string {
+    return `${this.prefix}${entry.schedule}/${encodeURIComponent(entry.storageKey)}.json`;
+  }
+}
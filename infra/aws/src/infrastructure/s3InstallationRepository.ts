@@ -0,0 +1,118 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  getInstallationId,
+  type InstallationQuery,
+  type InstallationRepository,
+  parseWorkspaceInstallation,
+  serializeWorkspaceInstallation,
+  type WorkspaceInstallation,
+} from '@rindrics/slackmail';
+
+/**
+ * S3-based implementation of InstallationRepository.
+ * Stores one JSON object per installation, keyed by team (or enterprise)
+ * ID. The objects hold bot tokens, so keep the bucket private.
+ */
+export class S3InstallationRepository implements InstallationRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for installations
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'installations/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async saveInstallation(installation: WorkspaceInstallation): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(installation),
+        Body: serializeWorkspaceInstallation(installation),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  async findInstallation(
+    query: InstallationQuery,
+  ): Promise<WorkspaceInstallation | undefined> {
+    return this.get(this.toKey(query));
+  }
+
+  async listInstallations(): Promise<WorkspaceInstallation[]> {
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key?.endsWith('.json')) {
+          keys.push(object.Key);
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const installations: WorkspaceInstallation[] = [];
+    for (const key of keys) {
+      const installation = await this.get(key);
+      if (installation) {
+        installations.push(installation);
+      }
+    }
+    return installations.sort(
+      (a, b) => a.installedAt.getTime() - b.installedAt.getTime(),
+    );
+  }
+
+  async deleteInstallation(query: InstallationQuery): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: this.toKey(query) }),
+    );
+  }
+
+  private async get(key: string): Promise<WorkspaceInstallation | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      return parseWorkspaceInstallation(
+        await response.Body.transformToString(),
+      );
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * IDs come from Slack requests, so they are URI-encoded.
+   */
+  private toKey(query: InstallationQuery): string {
+    return `${this.prefix}${encodeURIComponent(getInstallationId(query))}.json`;
+  }
+}
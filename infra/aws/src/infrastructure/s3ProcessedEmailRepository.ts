@@ -0,0 +1,87 @@
+import {
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type {
+  ProcessedEmailKey,
+  ProcessedEmailRepository,
+} from '@rindrics/slackmail';
+
+/**
+ * S3-based implementation of ProcessedEmailRepository.
+ *
+ * Writes one marker object per storage key and one per Message-ID, so
+ * lookups are single HeadObject calls (key-value access, no listing).
+ */
+export class S3ProcessedEmailRepository implements ProcessedEmailRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for marker objects
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'processed/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async hasProcessed(key: ProcessedEmailKey): Promise<boolean> {
+    return (
+      (await this.exists(this.toStorageKeyMarker(key.storageKey))) ||
+      (await this.exists(this.toMessageIdMarker(key.messageId)))
+    );
+  }
+
+  async markProcessed(key: ProcessedEmailKey): Promise<void> {
+    const body = JSON.stringify({
+      storageKey: key.storageKey,
+      messageId: key.messageId,
+      processedAt: new Date().toISOString(),
+    });
+    for (const markerKey of [
+      this.toStorageKeyMarker(key.storageKey),
+      this.toMessageIdMarker(key.messageId),
+    ]) {
+      await this.client.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: markerKey,
+          Body: body,
+          ContentType: 'application/json',
+        }),
+      );
+    }
+  }
+
+  private async exists(markerKey: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: markerKey }),
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof NotFound) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Storage keys and Message IDs may contain characters that are awkward
+   * in S3 keys (e.g., "/", "+"), so they are URI-encoded.
+   */
+  private toStorageKeyMarker(storageKey: string): string {
+    return `${this.prefix}storage-key/${encodeURIComponent(storageKey)}.json`;
+  }
+
+  private toMessageIdMarker(messageId: string): string {
+    return `${this.prefix}message-id/${encodeURIComponent(messageId)}.json`;
+  }
+}
@@ -0,0 +1,135 @@
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  type EmailSearchDocument,
+  type EmailSearchQuery,
+  matchesEmailSearchQuery,
+  type SearchIndexRepository,
+  sortEmailSearchResults,
+} from '@rindrics/slackmail';
+
+/** Documents read per search by default: the most recently indexed ones */
+const DEFAULT_MAX_SCANNED_DOCUMENTS = 2000;
+
+/** Documents read from S3 at the same time */
+const READ_CONCURRENCY = 16;
+
+/**
+ * S3-based implementation of SearchIndexRepository.
+ *
+ * Stores one JSON document per email under `<prefix><Message-ID>.json`.
+ * Searching lists the documents and reads the most recently indexed ones
+ * (at most `maxScannedDocuments`), which keeps the index free of extra
+ * infrastructure but is only suited to modest mail volumes: older emails
+ * are not found once the limit is reached.
+ */
+export class S3SearchIndexRepository implements SearchIndexRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly maxScannedDocuments: number;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for documents
+   * @param maxScannedDocuments - Documents read per search (default: 2000)
+   */
+  constructor(
+    bucket: string,
+    client?: S3Client,
+    prefix = 'search/',
+    maxScannedDocuments = DEFAULT_MAX_SCANNED_DOCUMENTS,
+  ) {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+    this.maxScannedDocuments = maxScannedDocuments;
+  }
+
+  async indexEmail(document: EmailSearchDocument): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: `${this.prefix}${encodeURIComponent(document.messageId)}.json`,
+        Body: JSON.stringify({
+          ...document,
+          date: document.date.toISOString(),
+        }),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  async search(
+    query: EmailSearchQuery,
+    limit = Number.POSITIVE_INFINITY,
+  ): Promise<EmailSearchDocument[]> {
+    const objects: { key: string; indexedAt: number }[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: this.prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key?.endsWith('.json')) {
+          objects.push({
+            key: object.Key,
+            indexedAt: object.LastModified?.getTime() ?? 0,
+          });
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const keys = objects
+      .sort((a, b) => b.indexedAt - a.indexedAt)
+      .slice(0, this.maxScannedDocuments)
+      .map((object) => object.key);
+
+    const documents: EmailSearchDocument[] = [];
+    let next = 0;
+    const read = async (): Promise<void> => {
+      while (next < keys.length) {
+        const document = await this.get(keys[next++]);
+        if (document && matchesEmailSearchQuery(document, query)) {
+          documents.push(document);
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(READ_CONCURRENCY, keys.length) }, read),
+    );
+    return sortEmailSearchResults(documents).slice(0, limit);
+  }
+
+  private async get(key: string): Promise<EmailSearchDocument | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const document = JSON.parse(
+        await response.Body.transformToString(),
+      ) as Omit<EmailSearchDocument, 'date'> & { date: string };
+      return { ...document, date: new Date(document.date) };
+    } catch (error) {
+      // Removed between listing and reading
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+}
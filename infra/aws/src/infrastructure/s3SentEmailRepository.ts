@@ -0,0 +1,183 @@
+import {
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import type {
+  RecipientDeliveryStatuses,
+  SentEmailRecord,
+  SentEmailRepository,
+} from '@rindrics/slackmail';
+
+/**
+ * Stored form of a record: dates are ISO strings
+ */
+type StoredSentEmail = Partial<
+  Omit<SentEmailRecord, 'sentAt' | 'deliveries'>
+> & {
+  sentAt?: string;
+  deliveries?: Record<
+    string,
+    Omit<RecipientDeliveryStatuses[string], 'timestamp'> & {
+      timestamp: string;
+    }
+  >;
+};
+
+function toDeliveries(
+  stored: StoredSentEmail['deliveries'],
+): RecipientDeliveryStatuses | undefined {
+  if (!stored) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(stored).map(([address, delivery]) => [
+      address,
+      { ...delivery, timestamp: new Date(delivery.timestamp) },
+    ]),
+  );
+}
+
+/** Attempts of updateSentEmail before giving up on concurrent writers */
+const MAX_UPDATE_ATTEMPTS = 5;
+
+/**
+ * Whether a conditional write failed because the object changed since it
+ * was read (412), or another conditional write was in progress (409)
+ */
+function isWriteConflict(error: unknown): boolean {
+  return (
+    error instanceof S3ServiceException &&
+    (error.$metadata.httpStatusCode === 412 ||
+      error.$metadata.httpStatusCode === 409)
+  );
+}
+
+/**
+ * S3-based implementation of SentEmailRepository.
+ *
+ * Stores one JSON object per SES message ID under a key prefix, so the
+ * feedback handler finds the confirmation message with a single GetObject.
+ * Updates are conditional on the ETag read (If-Match) and retried when
+ * another delivery event updated the record in between.
+ */
+export class S3SentEmailRepository implements SentEmailRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for records
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'sent-emails/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async saveSentEmail(record: SentEmailRecord): Promise<void> {
+    await this.putSentEmail(record);
+  }
+
+  async findSentEmail(messageId: string): Promise<SentEmailRecord | undefined> {
+    return (await this.readSentEmail(messageId))?.record;
+  }
+
+  async updateSentEmail(
+    messageId: string,
+    update: (record: SentEmailRecord) => SentEmailRecord,
+  ): Promise<SentEmailRecord | undefined> {
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readSentEmail(messageId);
+      if (!current) {
+        return undefined;
+      }
+      const updated = update(current.record);
+      try {
+        await this.putSentEmail(updated, current.etag);
+        return updated;
+      } catch (error) {
+        if (!isWriteConflict(error) || attempt >= MAX_UPDATE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * @param etag - Write only if the stored object still has this ETag
+   */
+  private async putSentEmail(
+    record: SentEmailRecord,
+    etag?: string,
+  ): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(record.messageId),
+        Body: JSON.stringify({
+          ...record,
+          sentAt: record.sentAt.toISOString(),
+        }),
+        ContentType: 'application/json',
+        IfMatch: etag,
+      }),
+    );
+  }
+
+  private async readSentEmail(
+    messageId: string,
+  ): Promise<{ record: SentEmailRecord; etag?: string } | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.toKey(messageId),
+        }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const entry = JSON.parse(
+        await response.Body.transformToString(),
+      ) as StoredSentEmail;
+      if (!entry.channel || !entry.messageTs) {
+        return undefined;
+      }
+      return {
+        record: {
+          messageId,
+          channel: entry.channel,
+          messageTs: entry.messageTs,
+          threadTs: entry.threadTs,
+          recipients: entry.recipients ?? [],
+          subject: entry.subject ?? '',
+          from: entry.from,
+          isReply: entry.isReply,
+          sentBy: entry.sentBy,
+          sentAt: new Date(entry.sentAt ?? 0),
+          deliveries: toDeliveries(entry.deliveries),
+          installation: entry.installation,
+        },
+        etag: response.ETag,
+      };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * SES message IDs are URL-safe, but are encoded like Message-IDs in the
+   * thread index for consistency.
+   */
+  private toKey(messageId: string): string {
+    return `${this.prefix}${encodeURIComponent(messageId)}.json`;
+  }
+}
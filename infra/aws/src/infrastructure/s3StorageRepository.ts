@@ -1,5 +1,5 @@
 import { GetObjectCommand, S3Client } from '@aws-sdk/client-s3';
-import type { StorageRepository } from 'slackmail';
+import type { StorageRepository } from '@rindrics/slackmail';
 
 export class S3StorageRepository implements StorageRepository {
   private readonly client: S3Client;
@@ -10,7 +10,7 @@ export class S3StorageRepository implements StorageRepository {
     this.client = client ?? new S3Client();
   }
 
-  async fetchRawEmail(key: string): Promise<string> {
+  async fetchRawEmail(key: string): Promise<Buffer> {
     const command = new GetObjectCommand({
       Bucket: this.bucket,
       Key: key,
@@ -22,6 +22,8 @@ export class S3StorageRepository implements StorageRepository {
       throw new Error(`Empty response body for key: ${key}`);
     }
 
-    return response.Body.transformToString();
+    // Keep the raw bytes: decoding as UTF-8 here would corrupt 8-bit
+    // non-UTF-8 bodies and binary attachments before mailparser sees them
+    return Buffer.from(await response.Body.transformToByteArray());
   }
 }
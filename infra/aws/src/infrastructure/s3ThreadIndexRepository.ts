@@ -0,0 +1,94 @@
+import {
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type {
+  ThreadIndexRepository,
+  ThreadLocation,
+} from '@rindrics/slackmail';
+
+/**
+ * S3-based implementation of ThreadIndexRepository.
+ *
+ * Stores one small JSON object per Message-ID under a key prefix, so lookups
+ * are single GetObject calls (key-value access, no listing or scanning).
+ */
+export class S3ThreadIndexRepository implements ThreadIndexRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for index entries
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'thread-index/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async findThread(messageIds: string[]): Promise<ThreadLocation | undefined> {
+    for (const messageId of messageIds) {
+      const location = await this.getThread(messageId);
+      if (location) {
+        return location;
+      }
+    }
+    return undefined;
+  }
+
+  async saveThread(messageId: string, location: ThreadLocation): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(messageId),
+        Body: JSON.stringify({
+          channel: location.channel,
+          threadTs: location.threadTs,
+        }),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  private async getThread(
+    messageId: string,
+  ): Promise<ThreadLocation | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({
+          Bucket: this.bucket,
+          Key: this.toKey(messageId),
+        }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const entry = JSON.parse(await response.Body.transformToString()) as {
+        channel?: string;
+        threadTs?: string;
+      };
+      if (!entry.channel || !entry.threadTs) {
+        return undefined;
+      }
+      return { channel: entry.channel, threadTs: entry.threadTs };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Message IDs may contain characters that are awkward in S3 keys
+   * (e.g., "/", "+"), so they are URI-encoded.
+   */
+  private toKey(messageId: string): string {
+    return `${this.prefix}${encodeURIComponent(messageId)}.json`;
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  matchesTriageQuery,
+  type TriageQuery,
+  type TriageRepository,
+  type TriageState,
+} from '@rindrics/slackmail';
+
+/**
+ * S3-based implementation of TriageRepository.
+ *
+ * Stores one JSON object per post under `<prefix><channel>/<ts>.json`, so a
+ * post's state is a single GetObject and queries for one channel only list
+ * that channel's keys.
+ */
+export class S3TriageRepository implements TriageRepository {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * @param bucket - State bucket name (must not trigger the email S3 handler)
+   * @param client - Optional S3Client instance (defaults to new client)
+   * @param prefix - Key prefix for states
+   */
+  constructor(bucket: string, client?: S3Client, prefix = 'triage/') {
+    this.bucket = bucket;
+    this.client = client ?? new S3Client();
+    this.prefix = prefix;
+  }
+
+  async saveTriage(state: TriageState): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: this.toKey(state.channel, state.messageTs),
+        Body: JSON.stringify({
+          ...state,
+          updatedAt: state.updatedAt.toISOString(),
+        }),
+        ContentType: 'application/json',
+      }),
+    );
+  }
+
+  async findTriage(
+    channel: string,
+    messageTs: string,
+  ): Promise<TriageState | undefined> {
+    return this.get(this.toKey(channel, messageTs));
+  }
+
+  async listTriage(query: TriageQuery = {}): Promise<TriageState[]> {
+    const prefix =
+      query.channel !== undefined
+        ? `${this.prefix}${encodeURIComponent(query.channel)}/`
+        : this.prefix;
+    const keys: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucket,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        if (object.Key?.endsWith('.json')) {
+          keys.push(object.Key);
+        }
+      }
+      continuationToken = response.NextContinuationToken;
+    } while (continuationToken);
+
+    const states: TriageState[] = [];
+    for (const key of keys) {
+      const state = await this.get(key);
+      if (state && matchesTriageQuery(state, query)) {
+        states.push(state);
+      }
+    }
+    return states.sort(
+      (a, b) => Number.parseFloat(a.messageTs) - Number.parseFloat(b.messageTs),
+    );
+  }
+
+  private async get(key: string): Promise<TriageState | undefined> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucket, Key: key }),
+      );
+      if (!response.Body) {
+        return undefined;
+      }
+      const state = JSON.parse(await response.Body.transformToString()) as Omit<
+        TriageState,
+        'updatedAt'
+      > & { updatedAt: string };
+      return { ...state, updatedAt: new Date(state.updatedAt) };
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  private toKey(channel: string, messageTs: string): string {
+    return `${this.prefix}${encodeURIComponent(channel)}/${encodeURIComponent(messageTs)}.json`;
+  }
+}
@@ -0,0 +1,221 @@
+import type {
+  DeliveryEvent,
+  DeliveryEventType,
+  DeliveryFeedback,
+  DeliveryFeedbackRecipient,
+} from '@rindrics/slackmail';
+
+/**
+ * Parsing of SES bounce and complaint notifications and of SES event
+ * publishing records, as delivered in the Message of an SNS notification.
+ *
+ * @see https://docs.aws.amazon.com/ses/latest/dg/notification-contents.html
+ * @see https://docs.aws.amazon.com/ses/latest/dg/event-publishing-retrieving-sns-contents.html
+ */
+
+interface SesMail {
+  messageId?: string;
+  timestamp?: string;
+  source?: string;
+  destination?: string[];
+  commonHeaders?: {
+    subject?: string;
+    from?: string[];
+  };
+}
+
+interface SesBounce {
+  bounceType?: string;
+  bounceSubType?: string;
+  timestamp?: string;
+  bouncedRecipients?: {
+    emailAddress?: string;
+    status?: string;
+    diagnosticCode?: string;
+  }[];
+}
+
+interface SesComplaint {
+  complaintFeedbackType?: string;
+  timestamp?: string;
+  complainedRecipients?: { emailAddress?: string }[];
+}
+
+interface SesNotification {
+  notificationType?: string;
+  mail?: SesMail;
+  bounce?: SesBounce;
+  complaint?: SesComplaint;
+}
+
+/**
+ * Event publishing record: like a notification, with eventType instead of
+ * notificationType and more event types
+ */
+interface SesEventRecord {
+  eventType?: string;
+  mail?: SesMail;
+  bounce?: SesBounce;
+  complaint?: SesComplaint;
+  delivery?: { timestamp?: string; recipients?: string[] };
+  reject?: { reason?: string };
+  deliveryDelay?: {
+    timestamp?: string;
+    delayType?: string;
+    delayedRecipients?: { emailAddress?: string }[];
+  };
+}
+
+const EVENT_TYPES = new Map<string, DeliveryEventType>([
+  ['Send', 'send'],
+  ['Delivery', 'delivery'],
+  ['Bounce', 'bounce'],
+  ['Complaint', 'complaint'],
+  ['Reject', 'reject'],
+  ['DeliveryDelay', 'delay'],
+]);
+
+function parseJson<T>(message: string): T | undefined {
+  try {
+    return JSON.parse(message) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function toRecipients(
+  recipients: {
+    emailAddress?: string;
+    status?: string;
+    diagnosticCode?: string;
+  }[] = [],
+): DeliveryFeedbackRecipient[] {
+  return recipients
+    .filter((recipient) => recipient.emailAddress)
+    .map((recipient) => ({
+      address: recipient.emailAddress as string,
+      status: recipient.status || undefined,
+      diagnostic: recipient.diagnosticCode || undefined,
+    }));
+}
+
+/**
+ * Read a bounce or complaint from an SES notification.
+ *
+ * @param message - The SNS message body (JSON)
+ * @returns The feedback, or undefined for other notifications (e.g.
+ *   Delivery) and messages that are not SES notifications
+ */
+export function parseSesNotification(
+  message: string,
+): DeliveryFeedback | undefined {
+  const notification = parseJson<SesNotification>(message);
+  const messageId = notification?.mail?.messageId;
+  if (!messageId) {
+    return undefined;
+  }
+  const original = {
+    messageId,
+    subject: notification.mail?.commonHeaders?.subject,
+    from:
+      notification.mail?.commonHeaders?.from?.[0] ?? notification.mail?.source,
+  };
+
+  if (notification.notificationType === 'Bounce' && notification.bounce) {
+    const { bounce } = notification;
+    return {
+      type: 'bounce',
+      ...original,
+      recipients: toRecipients(bounce.bouncedRecipients),
+      timestamp: new Date(bounce.timestamp ?? Date.now()),
+      bounceType: bounce.bounceType,
+      bounceSubType: bounce.bounceSubType,
+    };
+  }
+
+  if (notification.notificationType === 'Complaint' && notification.complaint) {
+    const { complaint } = notification;
+    return {
+      type: 'complaint',
+      ...original,
+      recipients: toRecipients(complaint.complainedRecipients),
+      timestamp: new Date(complaint.timestamp ?? Date.now()),
+      complaintType: complaint.complaintFeedbackType,
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the recipients and detail of an event publishing record
+ */
+function getEventDetails(
+  record: SesEventRecord,
+  type: DeliveryEventType,
+): Pick<DeliveryEvent, 'recipients' | 'detail'> & { timestamp?: string } {
+  const addresses = (recipients: { emailAddress?: string }[] = []) =>
+    recipients
+      .map((recipient) => recipient.emailAddress)
+      .filter((address): address is string => Boolean(address));
+
+  switch (type) {
+    case 'delivery':
+      return {
+        recipients: record.delivery?.recipients ?? [],
+        timestamp: record.delivery?.timestamp,
+      };
+    case 'bounce':
+      return {
+        recipients: addresses(record.bounce?.bouncedRecipients),
+        timestamp: record.bounce?.timestamp,
+        detail: [record.bounce?.bounceType, record.bounce?.bounceSubType]
+          .filter(Boolean)
+          .join(': '),
+      };
+    case 'complaint':
+      return {
+        recipients: addresses(record.complaint?.complainedRecipients),
+        timestamp: record.complaint?.timestamp,
+        detail: record.complaint?.complaintFeedbackType,
+      };
+    case 'delay':
+      return {
+        recipients: addresses(record.deliveryDelay?.delayedRecipients),
+        timestamp: record.deliveryDelay?.timestamp,
+        detail: record.deliveryDelay?.delayType,
+      };
+    case 'reject':
+      return {
+        recipients: record.mail?.destination ?? [],
+        detail: record.reject?.reason,
+      };
+    case 'send':
+      return { recipients: record.mail?.destination ?? [] };
+  }
+}
+
+/**
+ * Read a delivery event from an SES event publishing record.
+ *
+ * @param message - The SNS message body (JSON)
+ * @returns The event, or undefined for other event types (e.g. Open) and
+ *   messages that are not event publishing records
+ */
+export function parseSesEvent(message: string): DeliveryEvent | undefined {
+  const record = parseJson<SesEventRecord>(message);
+  const messageId = record?.mail?.messageId;
+  const type = EVENT_TYPES.get(record?.eventType ?? '');
+  if (!record || !messageId || !type) {
+    return undefined;
+  }
+
+  const { timestamp, ...details } = getEventDetails(record, type);
+  return {
+    type,
+    messageId,
+    ...details,
+    detail: details.detail || undefined,
+    timestamp: new Date(timestamp ?? record.mail?.timestamp ?? Date.now()),
+  };
+}
@@ -12,6 +12,7 @@ export class SESMailRepository implements MailRepository {
   private readonly sesClient: SESv2Client;
   private readonly allowedSenderDomain: string;
   private readonly defaultSenderAddress: string;
+  private readonly configurationSetName?: string;
 
   /**
    * Create a new SESMailRepository.
@@ -20,14 +21,17 @@ export class SESMailRepository implements MailRepository {
    * @param config.allowedSenderDomain - Domain that sender addresses must match (e.g., "example.com")
    * @param config.defaultSenderAddress - Default sender address when From is not specified
    * @param config.sesClient - Optional SESv2Client instance (defaults to new client)
+   * @param config.configurationSetName - Optional SES configuration set, to publish delivery events for sent emails
    */
   constructor(config: {
     allowedSenderDomain: string;
     defaultSenderAddress: string;
     sesClient?: SESv2Client;
+    configurationSetName?: string;
   }) {
     this.allowedSenderDomain = config.allowedSenderDomain;
     this.defaultSenderAddress = config.defaultSenderAddress;
+    this.configurationSetName = config.configurationSetName;
     this.sesClient = config.sesClient ?? new SESv2Client({});
   }
 
@@ -79,6 +83,7 @@ export class SESMailRepository implements MailRepository {
             Data: rawMessage,
           },
         },
+        ConfigurationSetName: this.configurationSetName,
       });
 
       const result = await this.sesClient.send(command);
@@ -0,0 +1,98 @@
+import {
+  createSlackApp,
+  DigestScheduler,
+  FileDeadLetterRepository,
+  InMemoryDigestBufferRepository,
+  MaildirStorageRepository,
+  MaildirWatcher,
+} from '@rindrics/slackmail';
+import {
+  createMailDigestPublisher,
+  createReceiveMailUseCase,
+  loadReceiveMailConfig,
+} from '@/receiveMail';
+
+/**
+ * Post emails from a local Maildir to Slack, without AWS.
+ *
+ * Usage:
+ *   MAILDIR=~/Maildir pnpm maildir
+ *
+ * Uses the Slack variables of the S3 handler (SLACK_CHANNEL_ROUTES,
+ * SLACK_QUARANTINE_CHANNEL_ID, EMAIL_FILTER_RULES, REDACTION_RULES and
+ * TRUSTED_AUTHSERV_IDS, e.g. the host of an MTA in front, are supported).
+ * Handled messages are moved to cur/: flagged "S" when posted (or dropped
+ * by a filter rule), "F" when posting failed. Failures are stored in
+ * DEAD_LETTER_DIR when set, and can be replayed with
+ * `MAILDIR=... DEAD_LETTER_DIR=... pnpm replay`.
+ *
+ * With SLACK_DIGEST_RULES, matching emails are kept in memory and posted
+ * as hourly/daily digests (DIGEST_DAILY_HOUR, local time, default: 9);
+ * pending digests are posted on shutdown.
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    console.error(`[Config Error] ${name} is required but not set`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const maildir = new MaildirStorageRepository(requireEnv('MAILDIR'));
+  const { app } = createSlackApp({
+    signingSecret: requireEnv('SLACK_SIGNING_SECRET'),
+    botToken: requireEnv('SLACK_BOT_TOKEN'),
+    channel: requireEnv('SLACK_CHANNEL_ID'),
+  });
+  // Local runs keep no state in S3: Maildir flags replace the idempotency store
+  const config = {
+    ...loadReceiveMailConfig(requireEnv('SLACK_CHANNEL_ID')),
+    stateBucketName: undefined,
+  };
+  const deadLetterDir = process.env.DEAD_LETTER_DIR?.trim();
+  const digestBuffer =
+    config.slackDigestRules.length > 0
+      ? new InMemoryDigestBufferRepository()
+      : undefined;
+  const publish = createMailDigestPublisher(app, maildir, config, digestBuffer);
+  const digests = publish
+    ? new DigestScheduler({
+        publish,
+        dailyHour: process.env.DIGEST_DAILY_HOUR?.trim()
+          ? Number(process.env.DIGEST_DAILY_HOUR)
+          : undefined,
+      })
+    : undefined;
+
+  const watcher = new MaildirWatcher({
+    maildir,
+    receiveMailUseCase: createReceiveMailUseCase(
+      app,
+      maildir,
+      config,
+      deadLetterDir ? new FileDeadLetterRepository(deadLetterDir) : undefined,
+      digestBuffer,
+    ),
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      watcher
+        .stop()
+        .then(() => digests?.stop())
+        .then(() => digests?.flush())
+        .then(() => process.exit(0));
+    });
+  }
+
+  await watcher.start();
+  digests?.start();
+}
+
+main().catch((error) => {
+  console.error('Maildir runner failed:', error);
+  process.exit(1);
+});
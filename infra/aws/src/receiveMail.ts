@@ -0,0 +1,420 @@
+import {
+  type ApprovedDomains,
+  type ChannelRoute,
+  createDeadLetterHandler,
+  createDigestPublisher,
+  createEmailReceivedHandler,
+  createSlackApp,
+  createWorkspaceEmailRouter,
+  type DeadLetterRepository,
+  type DigestBufferRepository,
+  type DigestPublisher,
+  type DigestRule,
+  type EmailFilterRule,
+  type EmailParser,
+  getInstallationId,
+  type InstallationRepository,
+  MailparserEmailParser,
+  parseApprovedDomains,
+  parseChannelRoutes,
+  parseDigestRules,
+  parseEmailFilterRules,
+  parseRedactionRules,
+  ReceiveMailUseCase,
+  type RedactionRule,
+  type StorageRepository,
+} from '@rindrics/slackmail';
+import { S3DeadLetterRepository } from '@/infrastructure/s3DeadLetterRepository';
+import { S3DigestBufferRepository } from '@/infrastructure/s3DigestBufferRepository';
+import { S3InstallationRepository } from '@/infrastructure/s3InstallationRepository';
+import { S3ProcessedEmailRepository } from '@/infrastructure/s3ProcessedEmailRepository';
+import { S3SearchIndexRepository } from '@/infrastructure/s3SearchIndexRepository';
+import { S3ThreadIndexRepository } from '@/infrastructure/s3ThreadIndexRepository';
+import { S3TriageRepository } from '@/infrastructure/s3TriageRepository';
+
+/**
+ * Inbound email processing shared by the S3 handler, the replay entry
+ * points (Slack `/mail-replay` command and CLI) and the local Maildir
+ * runner, so every email goes through exactly the same pipeline.
+ */
+
+type SlackApp = ReturnType<typeof createSlackApp>['app'];
+
+/**
+ * Environment configuration for delivering inbound emails to Slack
+ */
+export interface ReceiveMailConfig {
+  /** Catch-all channel (unused by multi-workspace apps) */
+  slackChannelId: string;
+  slackChannelRoutes: ChannelRoute[];
+  slackQuarantineChannelId?: string;
+  /** Rules for emails summarized in digests instead of posted one by one */
+  slackDigestRules: DigestRule[];
+  /** Allow/block rules; blocked emails are dropped before they are posted */
+  emailFilterRules: EmailFilterRule[];
+  /** Sensitive content removed from emails before they are posted */
+  redactionRules: RedactionRule[];
+  /**
+   * authserv-ids whose Authentication-Results headers are trusted
+   * (e.g. amazonses.com); without any, SPF/DKIM/DMARC are not shown
+   */
+  trustedAuthServIds: string[];
+  /** Domains each workspace of a multi-workspace app may use */
+  approvedDomains: ApprovedDomains;
+  stateBucketName?: string;
+}
+
+/**
+ * Load optional delivery settings from environment variables.
+ *
+ * @param slackChannelId - Catch-all channel (validated by the caller)
+ * @throws {ChannelRouteConfigError} If SLACK_CHANNEL_ROUTES is invalid
+ * @throws {DigestRuleConfigError} If SLACK_DIGEST_RULES is invalid
+ * @throws {EmailFilterConfigError} If EMAIL_FILTER_RULES is invalid
+ * @throws {RedactionConfigError} If REDACTION_RULES is invalid
+ * @throws {ApprovedDomainsConfigError} If SLACK_WORKSPACE_DOMAINS is invalid
+ */
+export function loadReceiveMailConfig(
+  slackChannelId: string,
+): ReceiveMailConfig {
+  // Optional recipient-based routing; SLACK_CHANNEL_ID is the catch-all
+  const slackChannelRoutesJson = process.env.SLACK_CHANNEL_ROUTES?.trim();
+  let slackChannelRoutes: ChannelRoute[] = [];
+  if (slackChannelRoutesJson) {
+    try {
+      slackChannelRoutes = parseChannelRoutes(slackChannelRoutesJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[Config Error] SLACK_CHANNEL_ROUTES is invalid: ${message}`,
+      );
+      throw error;
+    }
+  }
+
+  // Optional digest mode for low-priority senders
+  const slackDigestRulesJson = process.env.SLACK_DIGEST_RULES?.trim();
+  let slackDigestRules: DigestRule[] = [];
+  if (slackDigestRulesJson) {
+    try {
+      slackDigestRules = parseDigestRules(slackDigestRulesJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Config Error] SLACK_DIGEST_RULES is invalid: ${message}`);
+      throw error;
+    }
+  }
+
+  // Optional sender allow/block lists and drop rules
+  const emailFilterRulesJson = process.env.EMAIL_FILTER_RULES?.trim();
+  let emailFilterRules: EmailFilterRule[] = [];
+  if (emailFilterRulesJson) {
+    try {
+      emailFilterRules = parseEmailFilterRules(emailFilterRulesJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Config Error] EMAIL_FILTER_RULES is invalid: ${message}`);
+      throw error;
+    }
+  }
+
+  // Optional redaction of card numbers, API keys, phone numbers, ...
+  const redactionRulesJson = process.env.REDACTION_RULES?.trim();
+  let redactionRules: RedactionRule[] = [];
+  if (redactionRulesJson) {
+    try {
+      redactionRules = parseRedactionRules(redactionRulesJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Config Error] REDACTION_RULES is invalid: ${message}`);
+      throw error;
+    }
+  }
+
+  // Domains the operator approved per workspace (multi-workspace apps)
+  const approvedDomainsJson = process.env.SLACK_WORKSPACE_DOMAINS?.trim();
+  let approvedDomains: ApprovedDomains = {};
+  if (approvedDomainsJson) {
+    try {
+      approvedDomains = parseApprovedDomains(approvedDomainsJson);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `[Config Error] SLACK_WORKSPACE_DOMAINS is invalid: ${message}`,
+      );
+      throw error;
+    }
+  }
+
+  return {
+    slackChannelId,
+    slackChannelRoutes,
+    slackQuarantineChannelId:
+      process.env.SLACK_QUARANTINE_CHANNEL_ID?.trim() || undefined,
+    slackDigestRules,
+    emailFilterRules,
+    redactionRules,
+    trustedAuthServIds: (process.env.TRUSTED_AUTHSERV_IDS ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    approvedDomains,
+    stateBucketName: process.env.STATE_BUCKET_NAME?.trim() || undefined,
+  };
+}
+
+/**
+ * Email parser trusting the configured authserv-ids
+ */
+export function createEmailParser(config: ReceiveMailConfig): EmailParser {
+  return new MailparserEmailParser({
+    trustedAuthServIds: config.trustedAuthServIds,
+  });
+}
+
+/**
+ * Dead-letter store in the state bucket
+ * (without a state bucket failed emails are only logged)
+ */
+export function createDeadLetterRepository(
+  config: ReceiveMailConfig,
+): DeadLetterRepository | undefined {
+  return config.stateBucketName
+    ? new S3DeadLetterRepository(config.stateBucketName)
+    : undefined;
+}
+
+/**
+ * Digest buffer in the state bucket
+ * (without a state bucket or digest rules every email is posted right away)
+ */
+export function createDigestBufferRepository(
+  config: ReceiveMailConfig,
+): DigestBufferRepository | undefined {
+  return config.stateBucketName && config.slackDigestRules.length > 0
+    ? new S3DigestBufferRepository(config.stateBucketName)
+    : undefined;
+}
+
+/**
+ * Create a ReceiveMailUseCase that reads emails from the given storage
+ * (the email bucket, or a local Maildir) and posts them to Slack.
+ *
+ * State (thread index, idempotency store, dead-letter store, triage state,
+ * search index) lives in the state bucket; each is disabled when
+ * STATE_BUCKET_NAME is unset.
+ *
+ * @param deadLetters - Where emails that still fail are stored
+ *   (defaults to the state bucket)
+ * @param digestBuffer - Where emails matching SLACK_DIGEST_RULES are held
+ *   until their digest (defaults to the state bucket)
+ */
+export function createReceiveMailUseCase(
+  app: SlackApp,
+  storageRepository: StorageRepository,
+  config: ReceiveMailConfig,
+  deadLetters = createDeadLetterRepository(config),
+  digestBuffer = createDigestBufferRepository(config),
+): ReceiveMailUseCase {
+  const onEmailReceived = createEmailReceivedHandler(
+    app,
+    config.slackChannelId,
+    {
+      routes: config.slackChannelRoutes,
+      // Message-ID → Slack thread index for posting replies into existing threads
+      threadIndex: config.stateBucketName
+        ? new S3ThreadIndexRepository(config.stateBucketName)
+        : undefined,
+      quarantineChannel: config.slackQuarantineChannelId,
+      // Assign / Mark done controls on posts (handled by the Slack handler)
+      triage: config.stateBucketName
+        ? new S3TriageRepository(config.stateBucketName)
+        : undefined,
+      onFailure: deadLetters ? createDeadLetterHandler(deadLetters) : undefined,
+      // Low-priority emails wait for their digest (posted by the digest handler)
+      digest:
+        digestBuffer && config.slackDigestRules.length > 0
+          ? { rules: config.slackDigestRules, buffer: digestBuffer }
+          : undefined,
+    },
+  );
+
+  return new ReceiveMailUseCase({
+    storageRepository,
+    emailParser: createEmailParser(config),
+    onEmailReceived,
+    filters: config.emailFilterRules,
+    redaction: config.redactionRules,
+    // Idempotency store: S3 events are at-least-once and a failed batch is
+    // retried as a whole, so already delivered emails must be skipped
+    processedEmails: config.stateBucketName
+      ? new S3ProcessedEmailRepository(config.stateBucketName)
+      : undefined,
+    // Full-text index for the /mail-search command
+    searchIndex: config.stateBucketName
+      ? new S3SearchIndexRepository(config.stateBucketName)
+      : undefined,
+  });
+}
+
+/**
+ * Create the publisher for emails buffered by createReceiveMailUseCase,
+ * reading them back from the same storage.
+ *
+ * @param digestBuffer - Must be the buffer given to createReceiveMailUseCase
+ *   (defaults to the state bucket)
+ * @returns The publisher, or undefined when digest mode is disabled
+ */
+export function createMailDigestPublisher(
+  app: SlackApp,
+  storageRepository: StorageRepository,
+  config: ReceiveMailConfig,
+  digestBuffer = createDigestBufferRepository(config),
+): DigestPublisher | undefined {
+  if (!digestBuffer) {
+    return undefined;
+  }
+  return createDigestPublisher(app, {
+    buffer: digestBuffer,
+    storageRepository,
+    emailParser: createEmailParser(config),
+    searchIndex: config.stateBucketName
+      ? new S3SearchIndexRepository(config.stateBucketName)
+      : undefined,
+    redaction: config.redactionRules,
+  });
+}
+
+/**
+ * Installations of a multi-workspace app (SLACK_CLIENT_ID set), stored in
+ * the state bucket
+ *
+ * @throws {Error} If STATE_BUCKET_NAME is not set
+ */
+export function createInstallationRepository(
+  config: ReceiveMailConfig,
+): InstallationRepository {
+  if (!config.stateBucketName) {
+    throw new Error('STATE_BUCKET_NAME is required for multi-workspace apps');
+  }
+  return new S3InstallationRepository(config.stateBucketName);
+}
+
+/**
+ * Reject settings multi-workspace apps cannot honor: channel routes,
+ * the quarantine channel and digest rules name channels of one workspace
+ * (each workspace sets its channels with `/mail-setup`). /mail-search and
+ * triage are not available either; they are not configured here.
+ *
+ * @throws {Error} If SLACK_CHANNEL_ROUTES, SLACK_QUARANTINE_CHANNEL_ID or
+ *   SLACK_DIGEST_RULES is set
+ */
+export function assertMultiWorkspaceConfig(config: ReceiveMailConfig): void {
+  const unsupported = [
+    config.slackChannelRoutes.length > 0 && 'SLACK_CHANNEL_ROUTES',
+    config.slackQuarantineChannelId && 'SLACK_QUARANTINE_CHANNEL_ID',
+    config.slackDigestRules.length > 0 && 'SLACK_DIGEST_RULES',
+  ].filter(Boolean);
+  if (unsupported.length === 0) {
+    return;
+  }
+
+  for (const name of unsupported) {
+    console.error(
+      `[Config Error] ${name} is not supported by multi-workspace apps (SLACK_CLIENT_ID set): it names channels of one workspace`,
+    );
+  }
+  throw new Error(
+    `Unsupported environment variables for multi-workspace apps: ${unsupported.join(', ')} (set the channel per workspace with /mail-setup; channel routes and digests are not available)`,
+  );
+}
+
+/** Apps posting with the bot token of one workspace, by token */
+const workspaceApps = new Map<string, SlackApp>();
+
+/**
+ * App posting with the bot token of one workspace, reused across
+ * invocations
+ */
+export function getWorkspaceApp(
+  signingSecret: string,
+  botToken: string,
+): SlackApp {
+  let app = workspaceApps.get(botToken);
+  if (!app) {
+    app = createSlackApp({ signingSecret, botToken }).app;
+    workspaceApps.set(botToken, app);
+  }
+  return app;
+}
+
+/**
+ * Create a ReceiveMailUseCase for a multi-workspace app: each email is
+ * posted with the bot token of every workspace set up for its recipients'
+ * domains, to that workspace's channel (see `/mail-setup`). Only domains
+ * approved for the workspace (SLACK_WORKSPACE_DOMAINS) are routed. Emails no
+ * workspace is set up for go to the dead-letter store. Delivered emails are
+ * recorded per workspace, so a retry only reaches the workspaces it missed.
+ *
+ * Flagged emails go to the workspace's quarantine channel, if set. Emails
+ * are not indexed for /mail-search and posts have no triage controls: the
+ * index and triage state are shared by the deployment, so searching would
+ * show one workspace the emails of another.
+ *
+ * @param deadLetters - Where emails that still fail are stored
+ *   (defaults to the state bucket)
+ * @throws {Error} If deployment-wide channel settings are configured (see
+ *   assertMultiWorkspaceConfig)
+ */
+export function createMultiWorkspaceReceiveMailUseCase(
+  signingSecret: string,
+  storageRepository: StorageRepository,
+  installations: InstallationRepository,
+  config: ReceiveMailConfig,
+  deadLetters = createDeadLetterRepository(config),
+): ReceiveMailUseCase {
+  assertMultiWorkspaceConfig(config);
+  const onFailure = deadLetters
+    ? createDeadLetterHandler(deadLetters)
+    : undefined;
+  const { stateBucketName } = config;
+
+  const onEmailReceived = createWorkspaceEmailRouter({
+    installations,
+    approvedDomains: config.approvedDomains,
+    getHandler: (installation, channel) =>
+      createEmailReceivedHandler(
+        getWorkspaceApp(signingSecret, installation.botToken),
+        channel,
+        {
+          // Threads are looked up in the email's workspace only
+          threadIndex: stateBucketName
+            ? new S3ThreadIndexRepository(
+                stateBucketName,
+                undefined,
+                `thread-index/${encodeURIComponent(getInstallationId(installation))}/`,
+              )
+            : undefined,
+          quarantineChannel: installation.config.quarantineChannel,
+          onFailure,
+        },
+      ),
+    getProcessedEmails: (installation) =>
+      stateBucketName
+        ? new S3ProcessedEmailRepository(
+            stateBucketName,
+            undefined,
+            `processed/${encodeURIComponent(getInstallationId(installation))}/`,
+          )
+        : undefined,
+    onFailure,
+  });
+
+  return new ReceiveMailUseCase({
+    storageRepository,
+    emailParser: createEmailParser(config),
+    onEmailReceived,
+    filters: config.emailFilterRules,
+    redaction: config.redactionRules,
+  });
+}
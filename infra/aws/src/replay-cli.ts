@@ -0,0 +1,124 @@
+import {
+  createSlackApp,
+  type DeadLetterRepository,
+  FileDeadLetterRepository,
+  MaildirStorageRepository,
+  parseReplayCommand,
+  ReplayFailedEmailsUseCase,
+  type StorageRepository,
+} from '@rindrics/slackmail';
+import { S3StorageRepository } from '@/infrastructure/s3StorageRepository';
+import {
+  createDeadLetterRepository,
+  createInstallationRepository,
+  createMultiWorkspaceReceiveMailUseCase,
+  createReceiveMailUseCase,
+  loadReceiveMailConfig,
+} from '@/receiveMail';
+
+/**
+ * Replay emails from the dead-letter store.
+ *
+ * Usage:
+ *   pnpm replay            List failed emails
+ *   pnpm replay <id> ...   Replay the given records
+ *   pnpm replay all        Replay every record
+ *
+ * Uses the same environment variables as the S3 handler, plus
+ * EMAIL_BUCKET_NAME. Records are read from STATE_BUCKET_NAME, or from a
+ * local directory when DEAD_LETTER_DIR is set. Set MAILDIR instead of
+ * EMAIL_BUCKET_NAME to replay emails from the local Maildir runner.
+ * Multi-workspace apps (SLACK_CLIENT_ID set) deliver each email to the
+ * workspace set up for its domain, including emails of every workspace
+ * and `no_installation` ones.
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    console.error(`[Config Error] ${name} is required but not set`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function main(): Promise<void> {
+  const maildir = process.env.MAILDIR?.trim();
+  const storageRepository: StorageRepository = maildir
+    ? new MaildirStorageRepository(maildir)
+    : new S3StorageRepository(requireEnv('EMAIL_BUCKET_NAME'));
+  const multiWorkspace = !!process.env.SLACK_CLIENT_ID?.trim();
+  const config = loadReceiveMailConfig(
+    multiWorkspace ? '' : requireEnv('SLACK_CHANNEL_ID'),
+  );
+
+  const deadLetterDir = process.env.DEAD_LETTER_DIR?.trim();
+  const deadLetters: DeadLetterRepository | undefined = deadLetterDir
+    ? new FileDeadLetterRepository(deadLetterDir)
+    : createDeadLetterRepository(config);
+  if (!deadLetters) {
+    console.error(
+      '[Config Error] STATE_BUCKET_NAME or DEAD_LETTER_DIR is required',
+    );
+    process.exit(1);
+  }
+
+  const command = parseReplayCommand(process.argv.slice(2).join(' '));
+
+  if (command.type === 'list') {
+    const records = await deadLetters.list();
+    if (records.length === 0) {
+      console.log('No failed emails.');
+      return;
+    }
+    for (const record of records) {
+      console.log(
+        `${record.id}  ${record.failedAt.toISOString()}  ${record.from}  ${record.subject}  (${record.errorCode ?? record.error})${
+          record.storageKey ? '' : '  [not replayable]'
+        }`,
+      );
+    }
+    return;
+  }
+
+  const signingSecret = requireEnv('SLACK_SIGNING_SECRET');
+  const replayUseCase = new ReplayFailedEmailsUseCase({
+    deadLetters,
+    receiveMailUseCase: multiWorkspace
+      ? createMultiWorkspaceReceiveMailUseCase(
+          signingSecret,
+          storageRepository,
+          createInstallationRepository(config),
+          config,
+          deadLetters,
+        )
+      : createReceiveMailUseCase(
+          createSlackApp({
+            signingSecret,
+            botToken: requireEnv('SLACK_BOT_TOKEN'),
+            channel: config.slackChannelId,
+          }).app,
+          storageRepository,
+          config,
+          deadLetters,
+        ),
+  });
+  const { results } = await replayUseCase.execute({ ids: command.ids });
+
+  for (const result of results) {
+    console.log(
+      `${result.id}  ${result.status}${result.error ? `: ${result.error}` : ''}`,
+    );
+  }
+  if (results.some((result) => result.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+// Exit explicitly: the Slack client may keep background requests alive
+main()
+  .then(() => process.exit(process.exitCode ?? 0))
+  .catch((error) => {
+    console.error('Replay failed:', error);
+    process.exit(1);
+  });
@@ -1,36 +1,50 @@
 import {
-  createEmailReceivedHandler,
+  CachedInstallationRepository,
   createSlackApp,
-  MailparserEmailParser,
-  ReceiveMailUseCase,
+  type ReceiveMailUseCase,
+  type StorageRepository,
 } from '@rindrics/slackmail';
 import { AWSLambda } from '@sentry/serverless';
 import type { S3Event, S3Handler } from 'aws-lambda';
 import { S3StorageRepository } from '@/infrastructure/s3StorageRepository';
+import {
+  createInstallationRepository,
+  createMultiWorkspaceReceiveMailUseCase,
+  createReceiveMailUseCase,
+  loadReceiveMailConfig,
+  type ReceiveMailConfig,
+} from '@/receiveMail';
 
 /**
  * Required environment variables configuration for S3 handler
  */
-interface EnvConfig {
+interface EnvConfig extends ReceiveMailConfig {
   slackSigningSecret: string;
-  slackBotToken: string;
-  slackChannelId: string;
+  /** Unset for multi-workspace apps (SLACK_CLIENT_ID set) */
+  slackBotToken?: string;
 }
 
 /**
  * Validate and load required environment variables.
  * Fails fast with clear error messages if any are missing.
+ *
+ * Multi-workspace apps (SLACK_CLIENT_ID set) post with the bot token and
+ * to the channel of each workspace's installation instead.
  */
 function loadEnvConfig(): EnvConfig {
   const slackSigningSecret = process.env.SLACK_SIGNING_SECRET?.trim();
   const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim();
   const slackChannelId = process.env.SLACK_CHANNEL_ID?.trim();
+  const multiWorkspace = !!process.env.SLACK_CLIENT_ID?.trim();
 
-  if (!slackSigningSecret || !slackBotToken || !slackChannelId) {
+  if (
+    !slackSigningSecret ||
+    (!multiWorkspace && (!slackBotToken || !slackChannelId))
+  ) {
     const missing = [
       !slackSigningSecret && 'SLACK_SIGNING_SECRET',
-      !slackBotToken && 'SLACK_BOT_TOKEN',
-      !slackChannelId && 'SLACK_CHANNEL_ID',
+      !multiWorkspace && !slackBotToken && 'SLACK_BOT_TOKEN',
+      !multiWorkspace && !slackChannelId && 'SLACK_CHANNEL_ID',
     ].filter(Boolean);
 
     for (const name of missing) {
@@ -43,20 +57,49 @@ function loadEnvConfig(): EnvConfig {
 
   return {
     slackSigningSecret,
-    slackBotToken,
-    slackChannelId,
+    // Multi-workspace apps post with each installation's token (the bot
+    // token may still be set for the digest and feedback handlers)
+    slackBotToken: multiWorkspace ? undefined : slackBotToken,
+    ...loadReceiveMailConfig(slackChannelId ?? ''),
   };
 }
 
 // Validate environment variables at startup (fail fast)
 const config = loadEnvConfig();
 
-// Initialize Slack App for posting emails to Slack
-const { app } = createSlackApp({
-  signingSecret: config.slackSigningSecret,
-  botToken: config.slackBotToken,
-  channel: config.slackChannelId,
-});
+// Installations of a multi-workspace app, listed once per invocation
+// instead of once per email
+const installations = config.slackBotToken
+  ? undefined
+  : new CachedInstallationRepository(createInstallationRepository(config));
+
+/**
+ * Initialize Slack App for posting emails to Slack
+ * (multi-workspace apps post with the bot token of each installation)
+ */
+function createUseCaseFactory(): (
+  storageRepository: StorageRepository,
+) => ReceiveMailUseCase {
+  if (installations) {
+    return (storageRepository) =>
+      createMultiWorkspaceReceiveMailUseCase(
+        config.slackSigningSecret,
+        storageRepository,
+        installations,
+        config,
+      );
+  }
+
+  const { app } = createSlackApp({
+    signingSecret: config.slackSigningSecret,
+    botToken: config.slackBotToken,
+    channel: config.slackChannelId,
+  });
+  return (storageRepository) =>
+    createReceiveMailUseCase(app, storageRepository, config);
+}
+
+const createUseCase = createUseCaseFactory();
 
 /**
  * Initialize Sentry for error tracking (optional, fail-safe)
@@ -87,6 +130,7 @@ function shouldCaptureError(error: Error): boolean {
   }
 
   const authErrorCodes = [
+    'no_installation',
     'invalid_auth',
     'invalid_channel',
     'channel_not_found',
@@ -134,6 +178,7 @@ export class BatchProcessingError extends Error {
 const rawHandler: S3Handler = async (event: S3Event) => {
   const failedRecords: FailedRecord[] = [];
   const totalRecords = event.Records.length;
+  installations?.clear();
 
   for (const record of event.Records) {
     const bucket = record.s3.bucket.name;
@@ -142,21 +187,16 @@ const rawHandler: S3Handler = async (event: S3Event) => {
     console.log(`Processing email from s3://${bucket}/${key}`);
 
     try {
-      const storageRepository = new S3StorageRepository(bucket);
-      const emailParser = new MailparserEmailParser();
-      const onEmailReceived = createEmailReceivedHandler(
-        app,
-        config.slackChannelId,
-      );
-
-      const useCase = new ReceiveMailUseCase({
-        storageRepository,
-        emailParser,
-        onEmailReceived,
-      });
+      const useCase = createUseCase(new S3StorageRepository(bucket));
 
       const result = await useCase.execute({ storageKey: key });
-      console.log(`Successfully processed email: ${result.email.messageId}`);
+      if (result.duplicate) {
+        console.log(`Skipped duplicate email: ${result.email.messageId}`);
+      } else if (result.droppedBy) {
+        console.log(`Dropped filtered email: ${result.email.messageId}`);
+      } else {
+        console.log(`Successfully processed email: ${result.email.messageId}`);
+      }
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
       console.error(`Failed to process email from s3://${bucket}/${key}:`, {
@@ -1,7 +1,20 @@
 import {
+  CachedInstallationRepository,
   createSlackApp,
+  createSlackOAuthHandlers,
+  isDomainApproved,
+  type MailSender,
+  ReplayFailedEmailsUseCase,
+  registerDeadLetterListeners,
+  registerInstallationListeners,
   registerMailSendingListeners,
+  registerQuarantineListeners,
+  registerRedactionListeners,
+  registerSearchListeners,
+  registerTriageListeners,
   SendMailUseCase,
+  SLACK_INSTALL_PATH,
+  SLACK_OAUTH_REDIRECT_PATH,
 } from '@rindrics/slackmail';
 import type {
   APIGatewayProxyEventV2,
@@ -9,42 +22,114 @@ import type {
   Callback,
   Context,
 } from 'aws-lambda';
+import { S3InstallationRepository } from '@/infrastructure/s3InstallationRepository';
+import { S3SearchIndexRepository } from '@/infrastructure/s3SearchIndexRepository';
+import { S3SentEmailRepository } from '@/infrastructure/s3SentEmailRepository';
+import { S3StorageRepository } from '@/infrastructure/s3StorageRepository';
+import { S3TriageRepository } from '@/infrastructure/s3TriageRepository';
 import { SESMailRepository } from '@/infrastructure/sesMailRepository';
+import {
+  createDeadLetterRepository,
+  createEmailParser,
+  createMultiWorkspaceReceiveMailUseCase,
+  createReceiveMailUseCase,
+  loadReceiveMailConfig,
+} from '@/receiveMail';
+
+/**
+ * OAuth settings of a multi-workspace app
+ */
+interface OAuthEnvConfig {
+  clientId: string;
+  clientSecret: string;
+  stateSecret: string;
+  /** Defaults to the redirect route on the requested host */
+  redirectUri?: string;
+  stateBucketName: string;
+}
 
 /**
  * Required environment variables configuration for Slack handler
  */
 interface EnvConfig {
   slackSigningSecret: string;
-  slackBotToken: string;
-  slackChannelId: string;
-  emailDomain: string;
-  defaultSenderAddress: string;
+  /** Unset for multi-workspace apps, which use each installation's token */
+  slackBotToken?: string;
+  slackChannelId?: string;
+  /** Unset for multi-workspace apps, which use each installation's domain */
+  emailDomain?: string;
+  /** Set for multi-workspace apps (SLACK_CLIENT_ID set) */
+  oauth?: OAuthEnvConfig;
+  emailBucketName?: string;
+  stateBucketName?: string;
+  /** SES configuration set that publishes delivery events */
+  sesConfigurationSetName?: string;
+  /**
+   * Slack user IDs allowed to run admin commands (e.g. /mail-replay);
+   * multi-workspace apps set them per workspace with /mail-setup
+   */
+  slackAdminUserIds: string[];
+  /**
+   * Slack user IDs allowed to view the original of redacted emails;
+   * multi-workspace apps set them per workspace with /mail-setup
+   */
+  slackRedactionViewerUserIds: string[];
 }
 
 /**
  * Validate and load required environment variables.
  * Fails fast with clear error messages if any are missing.
+ *
+ * Multi-workspace apps (SLACK_CLIENT_ID set) need the OAuth credentials
+ * and the state bucket instead of a bot token, channel and domain, and
+ * reject deployment-wide admins and redaction viewers.
  */
 function loadEnvConfig(): EnvConfig {
   const slackSigningSecret = process.env.SLACK_SIGNING_SECRET?.trim();
-  const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim();
-  const slackChannelId = process.env.SLACK_CHANNEL_ID?.trim();
-  const emailDomain = process.env.EMAIL_DOMAIN?.trim();
+  const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim() || undefined;
+  const slackChannelId = process.env.SLACK_CHANNEL_ID?.trim() || undefined;
+  const emailDomain = process.env.EMAIL_DOMAIN?.trim() || undefined;
+  const slackClientId = process.env.SLACK_CLIENT_ID?.trim();
+  const slackClientSecret = process.env.SLACK_CLIENT_SECRET?.trim();
+  const slackStateSecret = process.env.SLACK_STATE_SECRET?.trim();
+  const stateBucketName = process.env.STATE_BUCKET_NAME?.trim() || undefined;
 
-  if (
-    !slackSigningSecret ||
-    !slackBotToken ||
-    !slackChannelId ||
-    !emailDomain
-  ) {
-    const missing = [
-      !slackSigningSecret && 'SLACK_SIGNING_SECRET',
-      !slackBotToken && 'SLACK_BOT_TOKEN',
-      !slackChannelId && 'SLACK_CHANNEL_ID',
-      !emailDomain && 'EMAIL_DOMAIN',
-    ].filter(Boolean);
+  const missing = (
+    slackClientId
+      ? [
+          !slackSigningSecret && 'SLACK_SIGNING_SECRET',
+          !slackClientSecret && 'SLACK_CLIENT_SECRET',
+          !slackStateSecret && 'SLACK_STATE_SECRET',
+          !stateBucketName && 'STATE_BUCKET_NAME',
+        ]
+      : [
+          !slackSigningSecret && 'SLACK_SIGNING_SECRET',
+          !slackBotToken && 'SLACK_BOT_TOKEN',
+          !slackChannelId && 'SLACK_CHANNEL_ID',
+          !emailDomain && 'EMAIL_DOMAIN',
+        ]
+  ).filter(Boolean);
 
+  // User IDs belong to one workspace; set per workspace with /mail-setup
+  const unsupported = slackClientId
+    ? [
+        process.env.SLACK_ADMIN_USER_IDS?.trim() && 'SLACK_ADMIN_USER_IDS',
+        process.env.SLACK_REDACTION_VIEWER_USER_IDS?.trim() &&
+          'SLACK_REDACTION_VIEWER_USER_IDS',
+      ].filter(Boolean)
+    : [];
+  if (unsupported.length > 0) {
+    for (const name of unsupported) {
+      console.error(
+        `[Config Error] ${name} is not supported by multi-workspace apps (SLACK_CLIENT_ID set)`,
+      );
+    }
+    throw new Error(
+      `Unsupported environment variables for multi-workspace apps: ${unsupported.join(', ')}`,
+    );
+  }
+
+  if (!slackSigningSecret || missing.length > 0) {
     for (const name of missing) {
       console.error(`[Config Error] ${name} is required but not set`);
     }
@@ -58,43 +143,232 @@ function loadEnvConfig(): EnvConfig {
     slackBotToken,
     slackChannelId,
     emailDomain,
-    defaultSenderAddress: `noreply@${emailDomain}`,
+    oauth:
+      slackClientId && slackClientSecret && slackStateSecret && stateBucketName
+        ? {
+            clientId: slackClientId,
+            clientSecret: slackClientSecret,
+            stateSecret: slackStateSecret,
+            redirectUri:
+              process.env.SLACK_OAUTH_REDIRECT_URI?.trim() || undefined,
+            stateBucketName,
+          }
+        : undefined,
+    emailBucketName: process.env.EMAIL_BUCKET_NAME?.trim() || undefined,
+    stateBucketName,
+    sesConfigurationSetName:
+      process.env.SES_CONFIGURATION_SET?.trim() || undefined,
+    slackAdminUserIds: (process.env.SLACK_ADMIN_USER_IDS ?? '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
+    slackRedactionViewerUserIds: (
+      process.env.SLACK_REDACTION_VIEWER_USER_IDS ?? ''
+    )
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
   };
 }
 
 // Validate environment variables at startup (fail fast)
 const config = loadEnvConfig();
 
+// Installations of a multi-workspace app, with their channel and domain
+// (listed once per invocation, e.g. when /mail-replay routes many emails)
+const installations = config.oauth
+  ? new CachedInstallationRepository(
+      new S3InstallationRepository(config.oauth.stateBucketName),
+    )
+  : undefined;
+
 // Initialize Slack App with receiver for API Gateway
+// (multi-workspace apps authorize each request with its workspace's token)
 const { app, receiver } = createSlackApp({
   signingSecret: config.slackSigningSecret,
-  botToken: config.slackBotToken,
-  channel: config.slackChannelId,
+  ...(installations
+    ? { installations }
+    : { botToken: config.slackBotToken, channel: config.slackChannelId }),
 });
 
-// Initialize mail sending dependencies
-const mailRepository = new SESMailRepository({
-  allowedSenderDomain: config.emailDomain,
-  defaultSenderAddress: config.defaultSenderAddress,
-});
+/**
+ * Mail sending dependencies for a domain
+ */
+function createMailSender(emailDomain: string): MailSender {
+  const defaultSenderAddress = `noreply@${emailDomain}`;
+  const mailRepository = new SESMailRepository({
+    allowedSenderDomain: emailDomain,
+    defaultSenderAddress,
+    configurationSetName: config.sesConfigurationSetName,
+  });
+  return {
+    sendMailUseCase: new SendMailUseCase(mailRepository),
+    defaultSenderAddress,
+  };
+}
 
-const sendMailUseCase = new SendMailUseCase(mailRepository);
+// Delivery settings shared with the S3 handler (redaction, replay,
+// approved domains)
+const receiveMailConfig = loadReceiveMailConfig(config.slackChannelId ?? '');
 
 // Register mail sending listeners (template and send commands)
 registerMailSendingListeners(app, {
-  sendMailUseCase,
-  defaultSenderAddress: config.defaultSenderAddress,
+  // Workspaces send from the approved domain set with /mail-setup
+  ...(installations
+    ? {
+        resolveSender: async (query) => {
+          const domain = (await installations.findInstallation(query))?.config
+            .emailDomain;
+          return domain &&
+            isDomainApproved(receiveMailConfig.approvedDomains, query, domain)
+            ? createMailSender(domain)
+            : undefined;
+        },
+      }
+    : config.emailDomain
+      ? createMailSender(config.emailDomain)
+      : {}),
+  // Record confirmations so bounces can be posted in their thread and
+  // delivery events can update them
+  sentEmails: config.stateBucketName
+    ? new S3SentEmailRepository(config.stateBucketName)
+    : undefined,
 });
 
+// Register the "Reveal" button for quarantined emails and "View original"
+// for redacted ones (need the email bucket)
+if (config.emailBucketName) {
+  registerQuarantineListeners(app, {
+    storageRepository: new S3StorageRepository(config.emailBucketName),
+    emailParser: createEmailParser(receiveMailConfig),
+    redaction: receiveMailConfig.redactionRules,
+  });
+  registerRedactionListeners(app, {
+    storageRepository: new S3StorageRepository(config.emailBucketName),
+    emailParser: createEmailParser(receiveMailConfig),
+    // Each workspace sets its viewers with /mail-setup
+    ...(installations
+      ? {
+          resolveViewerUserIds: async (query) =>
+            (await installations.findInstallation(query))?.config
+              .redactionViewerUserIds ?? [],
+        }
+      : { viewerUserIds: config.slackRedactionViewerUserIds }),
+  });
+}
+
+// Register /mail-setup and removal of uninstalled workspaces
+if (installations) {
+  registerInstallationListeners(app, {
+    installations,
+    approvedDomains: receiveMailConfig.approvedDomains,
+  });
+}
+
+// Register the triage controls on email posts and the /mail-search command
+// (need the state bucket; single-workspace only, as their state is shared)
+if (config.stateBucketName && !installations) {
+  registerTriageListeners(app, {
+    triage: new S3TriageRepository(config.stateBucketName),
+  });
+  registerSearchListeners(app, {
+    searchIndex: new S3SearchIndexRepository(config.stateBucketName),
+  });
+}
+
+// Register the /mail-replay admin command (needs the email and state buckets)
+const deadLetters = createDeadLetterRepository(receiveMailConfig);
+if (config.emailBucketName && deadLetters) {
+  const storageRepository = new S3StorageRepository(config.emailBucketName);
+  registerDeadLetterListeners(app, {
+    deadLetters,
+    replayUseCase: new ReplayFailedEmailsUseCase({
+      deadLetters,
+      // Emails of workspaces set up since they failed are delivered there
+      receiveMailUseCase: installations
+        ? createMultiWorkspaceReceiveMailUseCase(
+            config.slackSigningSecret,
+            storageRepository,
+            installations,
+            receiveMailConfig,
+            deadLetters,
+          )
+        : createReceiveMailUseCase(app, storageRepository, receiveMailConfig),
+    }),
+    // Each workspace sets its admins with /mail-setup and sees the failed
+    // emails of its channels only
+    ...(installations
+      ? {
+          resolveScope: async (query) => {
+            const workspace = (await installations.findInstallation(query))
+              ?.config;
+            return {
+              adminUserIds: workspace?.adminUserIds ?? [],
+              channels: [
+                workspace?.channel,
+                workspace?.quarantineChannel,
+              ].filter((channel): channel is string => !!channel),
+            };
+          },
+        }
+      : { adminUserIds: config.slackAdminUserIds }),
+  });
+}
+
+/**
+ * Serve the OAuth install flow of multi-workspace apps
+ *
+ * @returns The response, or undefined for other routes
+ */
+async function handleOAuthRoute(
+  event: APIGatewayProxyEventV2,
+): Promise<APIGatewayProxyResultV2 | undefined> {
+  const { oauth } = config;
+  if (
+    !oauth ||
+    !installations ||
+    event.requestContext.http.method !== 'GET' ||
+    (event.rawPath !== SLACK_INSTALL_PATH &&
+      event.rawPath !== SLACK_OAUTH_REDIRECT_PATH)
+  ) {
+    return undefined;
+  }
+
+  const handlers = createSlackOAuthHandlers({
+    clientId: oauth.clientId,
+    clientSecret: oauth.clientSecret,
+    stateSecret: oauth.stateSecret,
+    redirectUri:
+      oauth.redirectUri ??
+      `https://${event.requestContext.domainName}${SLACK_OAUTH_REDIRECT_PATH}`,
+    installations,
+  });
+  const request = {
+    query: event.queryStringParameters ?? {},
+    cookie: event.cookies?.join('; '),
+  };
+  return event.rawPath === SLACK_INSTALL_PATH
+    ? handlers.handleInstall(request)
+    : handlers.handleOAuthRedirect(request);
+}
+
 /**
  * Slack Events API handler for API Gateway requests.
- * Handles Slack challenge verification and event callbacks.
+ * Handles the OAuth install flow, Slack challenge verification and event
+ * callbacks.
  */
 export const handler = async (
   event: APIGatewayProxyEventV2,
   context: Context,
   callback: Callback,
 ): Promise<APIGatewayProxyResultV2> => {
+  installations?.clear();
+  // Before logging the event: the redirect carries the OAuth code
+  const oauthResponse = await handleOAuthRoute(event);
+  if (oauthResponse) {
+    return oauthResponse;
+  }
+
   console.log(
     '[Slack Handler] Received event:',
     JSON.stringify(event, null, 2),
@@ -0,0 +1,133 @@
+import { readFileSync } from 'node:fs';
+import {
+  createSlackApp,
+  DigestScheduler,
+  FileDeadLetterRepository,
+  InMemoryDigestBufferRepository,
+  MaildirStorageRepository,
+  SmtpInboundServer,
+} from '@rindrics/slackmail';
+import {
+  createMailDigestPublisher,
+  createReceiveMailUseCase,
+  loadReceiveMailConfig,
+} from '@/receiveMail';
+
+/**
+ * Receive email over SMTP and post it to Slack, without SES.
+ *
+ * Usage:
+ *   MAILDIR=./Maildir EMAIL_DOMAIN=example.com pnpm smtp
+ *
+ * Uses the Slack variables of the S3 handler (SLACK_CHANNEL_ROUTES,
+ * SLACK_QUARANTINE_CHANNEL_ID, EMAIL_FILTER_RULES, REDACTION_RULES and
+ * TRUSTED_AUTHSERV_IDS, e.g. the host of an MTA in front, are supported), plus:
+ *   SMTP_PORT              Port to listen on (default: 2525)
+ *   SMTP_HOST              Interface to bind (default: all interfaces)
+ *   SMTP_DOMAINS           Comma-separated domains to accept (default: EMAIL_DOMAIN)
+ *   SMTP_MAX_MESSAGE_SIZE  Maximum message size in bytes (default: 25 MB)
+ *   SMTP_TLS_KEY_FILE / SMTP_TLS_CERT_FILE  Offer STARTTLS
+ *   DEAD_LETTER_DIR        Store failures for `pnpm replay`
+ *   DIGEST_DAILY_HOUR      Hour (local time) of the daily digest (default: 9)
+ *
+ * Accepted messages are stored in MAILDIR before they are posted. With
+ * SLACK_DIGEST_RULES, matching emails are kept in memory until their
+ * digest; pending digests are posted on shutdown.
+ */
+
+function requireEnv(name: string): string {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    console.error(`[Config Error] ${name} is required but not set`);
+    process.exit(1);
+  }
+  return value;
+}
+
+function optionalNumberEnv(name: string): number | undefined {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) {
+    console.error(`[Config Error] ${name} must be a non-negative integer`);
+    process.exit(1);
+  }
+  return number;
+}
+
+async function main(): Promise<void> {
+  const maildir = new MaildirStorageRepository(requireEnv('MAILDIR'));
+  const domains = (
+    process.env.SMTP_DOMAINS?.trim() || requireEnv('EMAIL_DOMAIN')
+  )
+    .split(',')
+    .map((domain) => domain.trim())
+    .filter(Boolean);
+  const { app } = createSlackApp({
+    signingSecret: requireEnv('SLACK_SIGNING_SECRET'),
+    botToken: requireEnv('SLACK_BOT_TOKEN'),
+    channel: requireEnv('SLACK_CHANNEL_ID'),
+  });
+  // Local runs keep no state in S3: Maildir flags replace the idempotency store
+  const config = {
+    ...loadReceiveMailConfig(requireEnv('SLACK_CHANNEL_ID')),
+    stateBucketName: undefined,
+  };
+  const deadLetterDir = process.env.DEAD_LETTER_DIR?.trim();
+  const tlsKeyFile = process.env.SMTP_TLS_KEY_FILE?.trim();
+  const tlsCertFile = process.env.SMTP_TLS_CERT_FILE?.trim();
+  const digestBuffer =
+    config.slackDigestRules.length > 0
+      ? new InMemoryDigestBufferRepository()
+      : undefined;
+  const publish = createMailDigestPublisher(app, maildir, config, digestBuffer);
+  const digests = publish
+    ? new DigestScheduler({
+        publish,
+        dailyHour: optionalNumberEnv('DIGEST_DAILY_HOUR'),
+      })
+    : undefined;
+
+  const server = new SmtpInboundServer({
+    domains,
+    maildir,
+    receiveMailUseCase: createReceiveMailUseCase(
+      app,
+      maildir,
+      config,
+      deadLetterDir ? new FileDeadLetterRepository(deadLetterDir) : undefined,
+      digestBuffer,
+    ),
+    maxMessageSize: optionalNumberEnv('SMTP_MAX_MESSAGE_SIZE'),
+    tls:
+      tlsKeyFile && tlsCertFile
+        ? { key: readFileSync(tlsKeyFile), cert: readFileSync(tlsCertFile) }
+        : undefined,
+  });
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.once(signal, () => {
+      server
+        .close()
+        .then(() => digests?.stop())
+        .then(() => digests?.flush())
+        .then(() => process.exit(0));
+    });
+  }
+
+  const address = await server.listen(
+    optionalNumberEnv('SMTP_PORT') ?? 2525,
+    process.env.SMTP_HOST?.trim() || undefined,
+  );
+  console.log(
+    `SMTP server listening on ${address.address}:${address.port} for ${domains.join(', ')}`,
+  );
+  digests?.start();
+}
+
+main().catch((error) => {
+  console.error('SMTP server failed:', error);
+  process.exit(1);
+});
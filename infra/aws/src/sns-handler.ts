@@ -0,0 +1,179 @@
+import {
+  createDeliveryFeedbackHandler,
+  createDeliveryStatusHandler,
+  createSlackApp,
+  type InstallationQuery,
+} from '@rindrics/slackmail';
+import type { SNSEvent, SNSHandler } from 'aws-lambda';
+import { S3InstallationRepository } from '@/infrastructure/s3InstallationRepository';
+import { S3SentEmailRepository } from '@/infrastructure/s3SentEmailRepository';
+import {
+  parseSesEvent,
+  parseSesNotification,
+} from '@/infrastructure/sesFeedbackParser';
+import { getWorkspaceApp } from '@/receiveMail';
+
+/**
+ * Required environment variables configuration for the SNS handler
+ */
+interface EnvConfig {
+  slackSigningSecret: string;
+  /**
+   * Unset for multi-workspace apps, which post with the token of the
+   * workspace each email was sent from; needed for the feedback channel
+   */
+  slackBotToken?: string;
+  slackChannelId?: string;
+  /** Multi-workspace app (SLACK_CLIENT_ID set) */
+  multiWorkspace: boolean;
+  stateBucketName?: string;
+  /** Channel for feedback on emails not sent from Slack */
+  slackFeedbackChannelId?: string;
+}
+
+/**
+ * Validate and load required environment variables.
+ * Fails fast with clear error messages if any are missing.
+ *
+ * Multi-workspace apps (SLACK_CLIENT_ID set) need the state bucket, where
+ * sent emails and installations are stored, instead of a bot token.
+ */
+function loadEnvConfig(): EnvConfig {
+  const slackSigningSecret = process.env.SLACK_SIGNING_SECRET?.trim();
+  const slackBotToken = process.env.SLACK_BOT_TOKEN?.trim() || undefined;
+  const slackChannelId = process.env.SLACK_CHANNEL_ID?.trim() || undefined;
+  const multiWorkspace = !!process.env.SLACK_CLIENT_ID?.trim();
+  const stateBucketName = process.env.STATE_BUCKET_NAME?.trim() || undefined;
+
+  const missing = (
+    multiWorkspace
+      ? [
+          !slackSigningSecret && 'SLACK_SIGNING_SECRET',
+          !stateBucketName && 'STATE_BUCKET_NAME',
+        ]
+      : [
+          !slackSigningSecret && 'SLACK_SIGNING_SECRET',
+          !slackBotToken && 'SLACK_BOT_TOKEN',
+          !slackChannelId && 'SLACK_CHANNEL_ID',
+        ]
+  ).filter(Boolean);
+
+  if (!slackSigningSecret || missing.length > 0) {
+    for (const name of missing) {
+      console.error(`[Config Error] ${name} is required but not set`);
+    }
+    throw new Error(
+      `Missing required environment variables: ${missing.join(', ')}`,
+    );
+  }
+
+  return {
+    slackSigningSecret,
+    slackBotToken,
+    slackChannelId,
+    multiWorkspace,
+    stateBucketName,
+    slackFeedbackChannelId:
+      process.env.SLACK_FEEDBACK_CHANNEL_ID?.trim() || undefined,
+  };
+}
+
+// Validate environment variables at startup (fail fast)
+const config = loadEnvConfig();
+
+// Posts feedback on emails not sent from a multi-workspace app's workspace
+const app = config.slackBotToken
+  ? createSlackApp({
+      signingSecret: config.slackSigningSecret,
+      botToken: config.slackBotToken,
+      channel: config.slackChannelId,
+    }).app
+  : undefined;
+
+const sentEmails = config.stateBucketName
+  ? new S3SentEmailRepository(config.stateBucketName)
+  : undefined;
+
+// Multi-workspace apps post with the token of the email's workspace
+const installations =
+  config.multiWorkspace && config.stateBucketName
+    ? new S3InstallationRepository(config.stateBucketName)
+    : undefined;
+const resolveApp = installations
+  ? async (query: InstallationQuery) => {
+      const installation = await installations.findInstallation(query);
+      return installation
+        ? getWorkspaceApp(config.slackSigningSecret, installation.botToken)
+        : undefined;
+    }
+  : undefined;
+
+const postFeedback = createDeliveryFeedbackHandler(app, {
+  sentEmails,
+  fallbackChannel: config.slackFeedbackChannelId,
+  resolveApp,
+});
+
+// Delivery status needs the recorded confirmations
+const updateStatus = sentEmails
+  ? createDeliveryStatusHandler(app, { sentEmails, resolveApp })
+  : undefined;
+
+/**
+ * Process one SNS message: a delivery event, or a bounce or complaint
+ */
+async function processRecord(message: SNSEvent['Records'][number]['Sns']) {
+  const deliveryEvent = parseSesEvent(message.Message);
+  if (deliveryEvent) {
+    if (updateStatus) {
+      console.log(
+        `Updating delivery status for ${deliveryEvent.messageId} (${deliveryEvent.type})`,
+      );
+      await updateStatus(deliveryEvent);
+    }
+    return;
+  }
+
+  const feedback = parseSesNotification(message.Message);
+  if (!feedback) {
+    console.log(
+      `Ignoring SNS message ${message.MessageId}: not an SES notification or delivery event`,
+    );
+    return;
+  }
+
+  console.log(`Posting ${feedback.type} for ${feedback.messageId} to Slack`);
+  await postFeedback(feedback);
+}
+
+/**
+ * Lambda handler for SES notifications.
+ * Triggered by the SNS topics SES publishes to: bounce and complaint
+ * notifications are posted as thread replies, and delivery events from
+ * the configuration set update the send confirmation.
+ *
+ * A failing message does not stop the others; the invocation fails once
+ * all are processed, so SNS retries it.
+ */
+export const handler: SNSHandler = async (event: SNSEvent) => {
+  const failedMessageIds: string[] = [];
+
+  for (const record of event.Records) {
+    try {
+      await processRecord(record.Sns);
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      console.error(`Failed to process SNS message ${record.Sns.MessageId}:`, {
+        error: err.message,
+        stack: err.stack,
+      });
+      failedMessageIds.push(record.Sns.MessageId);
+    }
+  }
+
+  if (failedMessageIds.length > 0) {
+    throw new Error(
+      `Failed to process ${failedMessageIds.length}/${event.Records.length} SNS messages: ${failedMessageIds.join(', ')}`,
+    );
+  }
+};
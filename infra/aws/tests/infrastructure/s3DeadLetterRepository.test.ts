@@ -0,0 +1,116 @@
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { DeadLetterRecord } from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3DeadLetterRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const record = (id: string, failedAt: string): DeadLetterRecord => ({
+  id,
+  storageKey: `emails/${id}`,
+  messageId: `${id}@example.com`,
+  from: 'sender@example.com',
+  subject: 'Hello',
+  channel: 'C123',
+  error: 'Channel not found',
+  errorCode: 'channel_not_found',
+  attempts: 3,
+  failedAt: new Date(failedAt),
+});
+
+const jsonBody = (value: DeadLetterRecord) =>
+  sdkStreamMixin(
+    Readable.from([
+      JSON.stringify({ ...value, failedAt: value.failedAt.toISOString() }),
+    ]),
+  );
+
+describe('S3DeadLetterRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should store records as JSON under the prefix', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    const repository = new S3DeadLetterRepository('state-bucket');
+    await repository.save(record('abc', '2025-01-01T00:00:00Z'));
+
+    const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(input.Bucket).toBe('state-bucket');
+    expect(input.Key).toBe('dead-letter/abc.json');
+    expect(JSON.parse(input.Body as string)).toMatchObject({
+      id: 'abc',
+      storageKey: 'emails/abc',
+      failedAt: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should find a record by ID', async () => {
+    s3Mock
+      .on(GetObjectCommand, { Key: 'dead-letter/abc.json' })
+      .resolves({ Body: jsonBody(record('abc', '2025-01-01T00:00:00Z')) });
+
+    const repository = new S3DeadLetterRepository('state-bucket');
+
+    expect(await repository.find('abc')).toEqual(
+      record('abc', '2025-01-01T00:00:00Z'),
+    );
+  });
+
+  it('should return undefined for missing records', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+    const repository = new S3DeadLetterRepository('state-bucket');
+
+    expect(await repository.find('missing')).toBeUndefined();
+  });
+
+  it('should list records across pages, oldest first', async () => {
+    s3Mock.on(ListObjectsV2Command, { ContinuationToken: undefined }).resolves({
+      Contents: [{ Key: 'dead-letter/new.json' }],
+      NextContinuationToken: 'page-2',
+    });
+    s3Mock
+      .on(ListObjectsV2Command, { ContinuationToken: 'page-2' })
+      .resolves({ Contents: [{ Key: 'dead-letter/old.json' }] });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'dead-letter/new.json' })
+      .resolves({ Body: jsonBody(record('new', '2025-01-02T00:00:00Z')) });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'dead-letter/old.json' })
+      .resolves({ Body: jsonBody(record('old', '2025-01-01T00:00:00Z')) });
+
+    const repository = new S3DeadLetterRepository('state-bucket');
+    const records = await repository.list();
+
+    expect(records.map((r) => r.id)).toEqual(['old', 'new']);
+    expect(
+      s3Mock.commandCalls(ListObjectsV2Command)[0].args[0].input.Prefix,
+    ).toBe('dead-letter/');
+  });
+
+  it('should delete records', async () => {
+    s3Mock.on(DeleteObjectCommand).resolves({});
+
+    const repository = new S3DeadLetterRepository('state-bucket');
+    await repository.remove('abc');
+
+    expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input).toEqual({
+      Bucket: 'state-bucket',
+      Key: 'dead-letter/abc.json',
+    });
+  });
+});
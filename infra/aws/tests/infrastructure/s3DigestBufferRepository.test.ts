@@ -0,0 +1,114 @@
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { DigestEntry } from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3DigestBufferRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const entry = (storageKey: string, date: string): DigestEntry => ({
+  storageKey,
+  messageId: `${storageKey}@example.com`,
+  from: 'news@example.com',
+  subject: 'Weekly news',
+  date: new Date(date),
+  channel: 'C123',
+  schedule: 'daily',
+  bufferedAt: new Date('2025-01-03T00:00:00Z'),
+});
+
+const jsonBody = (value: DigestEntry) =>
+  sdkStreamMixin(
+    Readable.from([
+      JSON.stringify({
+        ...value,
+        date: value.date.toISOString(),
+        bufferedAt: value.bufferedAt.toISOString(),
+      }),
+    ]),
+  );
+
+describe('S3DigestBufferRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should store entries as JSON under the schedule prefix', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    const repository = new S3DigestBufferRepository('state-bucket');
+    await repository.addToDigest(entry('emails/abc', '2025-01-01T00:00:00Z'));
+
+    const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(input.Bucket).toBe('state-bucket');
+    expect(input.Key).toBe('digest/daily/emails%2Fabc.json');
+    expect(JSON.parse(input.Body as string)).toMatchObject({
+      storageKey: 'emails/abc',
+      date: '2025-01-01T00:00:00.000Z',
+      bufferedAt: '2025-01-03T00:00:00.000Z',
+    });
+  });
+
+  it('should list entries of a schedule across pages, oldest email first', async () => {
+    s3Mock.on(ListObjectsV2Command, { ContinuationToken: undefined }).resolves({
+      Contents: [{ Key: 'digest/daily/new.json' }],
+      NextContinuationToken: 'page-2',
+    });
+    s3Mock
+      .on(ListObjectsV2Command, { ContinuationToken: 'page-2' })
+      .resolves({ Contents: [{ Key: 'digest/daily/old.json' }] });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'digest/daily/new.json' })
+      .resolves({ Body: jsonBody(entry('new', '2025-01-02T00:00:00Z')) });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'digest/daily/old.json' })
+      .resolves({ Body: jsonBody(entry('old', '2025-01-01T00:00:00Z')) });
+
+    const repository = new S3DigestBufferRepository('state-bucket');
+    const entries = await repository.listDigest('daily');
+
+    expect(entries).toEqual([
+      entry('old', '2025-01-01T00:00:00Z'),
+      entry('new', '2025-01-02T00:00:00Z'),
+    ]);
+    expect(
+      s3Mock.commandCalls(ListObjectsV2Command)[0].args[0].input.Prefix,
+    ).toBe('digest/daily/');
+  });
+
+  it('should skip entries removed between listing and reading', async () => {
+    s3Mock
+      .on(ListObjectsV2Command)
+      .resolves({ Contents: [{ Key: 'digest/daily/gone.json' }] });
+    s3Mock
+      .on(GetObjectCommand)
+      .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+    const repository = new S3DigestBufferRepository('state-bucket');
+
+    expect(await repository.listDigest('daily')).toEqual([]);
+  });
+
+  it('should delete entries', async () => {
+    s3Mock.on(DeleteObjectCommand).resolves({});
+
+    const repository = new S3DigestBufferRepository('state-bucket');
+    await repository.removeFromDigest(
+      entry('emails/abc', '2025-01-01T00:00:00Z'),
+    );
+
+    expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input).toEqual({
+      Bucket: 'state-bucket',
+      Key: 'digest/daily/emails%2Fabc.json',
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { WorkspaceInstallation } from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3InstallationRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const installation = (
+  teamId: string,
+  installedAt: string,
+): WorkspaceInstallation => ({
+  teamId,
+  isEnterpriseInstall: false,
+  botToken: `xoxb-${teamId}`,
+  botUserId: 'U_BOT',
+  botScopes: ['chat:write'],
+  installerUserId: 'U_ADMIN',
+  installedAt: new Date(installedAt),
+  config: { channel: 'C123', emailDomain: 'acme.example' },
+});
+
+const jsonBody = (value: WorkspaceInstallation) =>
+  sdkStreamMixin(
+    Readable.from([
+      JSON.stringify({
+        ...value,
+        installedAt: value.installedAt.toISOString(),
+      }),
+    ]),
+  );
+
+describe('S3InstallationRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should store installations as JSON under the prefix', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    const repository = new S3InstallationRepository('state-bucket');
+    await repository.saveInstallation(
+      installation('T1', '2025-01-01T00:00:00Z'),
+    );
+
+    const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(input.Bucket).toBe('state-bucket');
+    expect(input.Key).toBe('installations/T1.json');
+    expect(JSON.parse(input.Body as string)).toMatchObject({
+      teamId: 'T1',
+      botToken: 'xoxb-T1',
+      installedAt: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should key enterprise installs by enterprise ID', async () => {
+    s3Mock
+      .on(GetObjectCommand, { Key: 'installations/E1.json' })
+      .resolves({ Body: jsonBody(installation('T1', '2025-01-01T00:00:00Z')) });
+
+    const repository = new S3InstallationRepository('state-bucket');
+
+    expect(
+      await repository.findInstallation({
+        teamId: 'T1',
+        enterpriseId: 'E1',
+        isEnterpriseInstall: true,
+      }),
+    ).toEqual(installation('T1', '2025-01-01T00:00:00Z'));
+  });
+
+  it('should return undefined for workspaces without an installation', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+    const repository = new S3InstallationRepository('state-bucket');
+
+    expect(await repository.findInstallation({ teamId: 'T9' })).toBeUndefined();
+  });
+
+  it('should list installations across pages, oldest first', async () => {
+    s3Mock.on(ListObjectsV2Command, { ContinuationToken: undefined }).resolves({
+      Contents: [{ Key: 'installations/T_NEW.json' }],
+      NextContinuationToken: 'page-2',
+    });
+    s3Mock
+      .on(ListObjectsV2Command, { ContinuationToken: 'page-2' })
+      .resolves({ Contents: [{ Key: 'installations/T_OLD.json' }] });
+    s3Mock.on(GetObjectCommand, { Key: 'installations/T_NEW.json' }).resolves({
+      Body: jsonBody(installation('T_NEW', '2025-01-02T00:00:00Z')),
+    });
+    s3Mock.on(GetObjectCommand, { Key: 'installations/T_OLD.json' }).resolves({
+      Body: jsonBody(installation('T_OLD', '2025-01-01T00:00:00Z')),
+    });
+
+    const repository = new S3InstallationRepository('state-bucket');
+    const installations = await repository.listInstallations();
+
+    expect(installations.map((i) => i.teamId)).toEqual(['T_OLD', 'T_NEW']);
+  });
+
+  it('should delete installations', async () => {
+    s3Mock.on(DeleteObjectCommand).resolves({});
+
+    const repository = new S3InstallationRepository('state-bucket');
+    await repository.deleteInstallation({ teamId: 'T1' });
+
+    expect(s3Mock.commandCalls(DeleteObjectCommand)[0].args[0].input).toEqual({
+      Bucket: 'state-bucket',
+      Key: 'installations/T1.json',
+    });
+  });
+});
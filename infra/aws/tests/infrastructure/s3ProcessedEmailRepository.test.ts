@@ -0,0 +1,93 @@
+import {
+  HeadObjectCommand,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3ProcessedEmailRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const notFound = () => new NotFound({ message: 'not found', $metadata: {} });
+
+describe('S3ProcessedEmailRepository', () => {
+  const key = {
+    storageKey: 'emails/abc 123',
+    messageId: 'abc/123+x@example.com',
+  };
+
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  describe('markProcessed', () => {
+    it('should write markers for the storage key and the Message-ID', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const repository = new S3ProcessedEmailRepository('state-bucket');
+      await repository.markProcessed(key);
+
+      const keys = s3Mock
+        .commandCalls(PutObjectCommand)
+        .map((call) => call.args[0].input.Key);
+      expect(keys).toEqual([
+        'processed/storage-key/emails%2Fabc%20123.json',
+        'processed/message-id/abc%2F123%2Bx%40example.com.json',
+      ]);
+      expect(
+        s3Mock.commandCalls(PutObjectCommand)[0].args[0].input.Bucket,
+      ).toBe('state-bucket');
+    });
+  });
+
+  describe('hasProcessed', () => {
+    it('should return false when neither marker exists', async () => {
+      s3Mock.on(HeadObjectCommand).rejects(notFound());
+
+      const repository = new S3ProcessedEmailRepository('state-bucket');
+
+      expect(await repository.hasProcessed(key)).toBe(false);
+    });
+
+    it('should return true when the storage key was processed', async () => {
+      s3Mock
+        .on(HeadObjectCommand, {
+          Key: 'processed/storage-key/emails%2Fabc%20123.json',
+        })
+        .resolves({});
+
+      const repository = new S3ProcessedEmailRepository('state-bucket');
+
+      expect(await repository.hasProcessed(key)).toBe(true);
+    });
+
+    it('should return true when the Message-ID was processed under another key', async () => {
+      s3Mock
+        .on(HeadObjectCommand, {
+          Key: 'processed/storage-key/emails%2Fabc%20123.json',
+        })
+        .rejects(notFound());
+      s3Mock
+        .on(HeadObjectCommand, {
+          Key: 'processed/message-id/abc%2F123%2Bx%40example.com.json',
+        })
+        .resolves({});
+
+      const repository = new S3ProcessedEmailRepository('state-bucket');
+
+      expect(await repository.hasProcessed(key)).toBe(true);
+    });
+
+    it('should propagate other S3 errors', async () => {
+      s3Mock.on(HeadObjectCommand).rejects(new Error('Access Denied'));
+
+      const repository = new S3ProcessedEmailRepository('state-bucket');
+
+      await expect(repository.hasProcessed(key)).rejects.toThrow(
+        'Access Denied',
+      );
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { Readable } from 'node:stream';
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import {
+  type EmailSearchDocument,
+  parseEmailSearchQuery,
+} from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3SearchIndexRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const document: EmailSearchDocument = {
+  messageId: 'invoice-1@billing.example',
+  from: 'Billing <billing@vendor.example>',
+  to: ['support@example.com'],
+  subject: 'Invoice #42',
+  body: 'Your invoice is past due.',
+  date: new Date('2026-03-15T09:00:00.000Z'),
+  attachments: ['invoice-42.pdf'],
+  channel: 'C123',
+  messageTs: '100.001',
+};
+
+const stored = (overrides: Partial<EmailSearchDocument> = {}) => {
+  const value = { ...document, ...overrides };
+  return sdkStreamMixin(
+    Readable.from([
+      JSON.stringify({ ...value, date: value.date.toISOString() }),
+    ]),
+  );
+};
+
+describe('S3SearchIndexRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should store the document under the Message-ID', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    await new S3SearchIndexRepository('state-bucket').indexEmail(document);
+
+    const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(input.Key).toBe('search/invoice-1%40billing.example.json');
+    expect(JSON.parse(input.Body as string)).toMatchObject({
+      subject: 'Invoice #42',
+      date: '2026-03-15T09:00:00.000Z',
+    });
+  });
+
+  it('should return matching documents across pages, newest email first', async () => {
+    s3Mock.on(ListObjectsV2Command, { ContinuationToken: undefined }).resolves({
+      Contents: [{ Key: 'search/old.json' }, { Key: 'search/lunch.json' }],
+      NextContinuationToken: 'page-2',
+    });
+    s3Mock.on(ListObjectsV2Command, { ContinuationToken: 'page-2' }).resolves({
+      Contents: [{ Key: 'search/new.json' }, { Key: 'search/gone.json' }],
+    });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'search/old.json' })
+      .resolves({ Body: stored({ messageId: 'old' }) });
+    s3Mock.on(GetObjectCommand, { Key: 'search/lunch.json' }).resolves({
+      Body: stored({
+        messageId: 'lunch',
+        subject: 'Lunch',
+        body: '',
+        attachments: [],
+      }),
+    });
+    s3Mock.on(GetObjectCommand, { Key: 'search/new.json' }).resolves({
+      Body: stored({
+        messageId: 'new',
+        date: new Date('2026-04-01T00:00:00.000Z'),
+      }),
+    });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'search/gone.json' })
+      .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+    const results = await new S3SearchIndexRepository('state-bucket').search(
+      parseEmailSearchQuery('invoice'),
+    );
+
+    expect(results.map((result) => result.messageId)).toEqual(['new', 'old']);
+    expect(results[0].date).toEqual(new Date('2026-04-01T00:00:00.000Z'));
+  });
+
+  it('should apply the limit', async () => {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [{ Key: 'search/a.json' }, { Key: 'search/b.json' }],
+    });
+    s3Mock.on(GetObjectCommand).callsFake(() => ({ Body: stored() }));
+
+    const results = await new S3SearchIndexRepository('state-bucket').search(
+      parseEmailSearchQuery('invoice'),
+      1,
+    );
+
+    expect(results).toHaveLength(1);
+  });
+
+  it('should only read the most recently indexed documents', async () => {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: [
+        { Key: 'search/old.json', LastModified: new Date('2026-01-01') },
+        { Key: 'search/new.json', LastModified: new Date('2026-03-01') },
+        { Key: 'search/mid.json', LastModified: new Date('2026-02-01') },
+      ],
+    });
+    s3Mock.on(GetObjectCommand).callsFake(() => ({ Body: stored() }));
+
+    await new S3SearchIndexRepository(
+      'state-bucket',
+      undefined,
+      'search/',
+      2,
+    ).search(parseEmailSearchQuery('invoice'));
+
+    expect(
+      s3Mock
+        .commandCalls(GetObjectCommand)
+        .map((call) => call.args[0].input.Key),
+    ).toEqual(['search/new.json', 'search/mid.json']);
+  });
+
+  it('should read documents in parallel, a bounded number at a time', async () => {
+    s3Mock.on(ListObjectsV2Command).resolves({
+      Contents: Array.from({ length: 40 }, (_, i) => ({
+        Key: `search/${i}.json`,
+      })),
+    });
+    let reading = 0;
+    let maxReading = 0;
+    s3Mock.on(GetObjectCommand).callsFake(async () => {
+      reading++;
+      maxReading = Math.max(maxReading, reading);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      reading--;
+      return { Body: stored() };
+    });
+
+    const results = await new S3SearchIndexRepository('state-bucket').search(
+      parseEmailSearchQuery('invoice'),
+    );
+
+    expect(results).toHaveLength(40);
+    expect(maxReading).toBeGreaterThan(1);
+    expect(maxReading).toBeLessThanOrEqual(16);
+  });
+});
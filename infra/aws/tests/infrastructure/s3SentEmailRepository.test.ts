@@ -0,0 +1,228 @@
+import { Readable } from 'node:stream';
+import {
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+  S3ServiceException,
+} from '@aws-sdk/client-s3';
+import type { SentEmailRecord } from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3SentEmailRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const jsonBody = (value: unknown) =>
+  sdkStreamMixin(Readable.from([JSON.stringify(value)]));
+
+const preconditionFailed = () =>
+  new S3ServiceException({
+    name: 'PreconditionFailed',
+    $fault: 'client',
+    $metadata: { httpStatusCode: 412 },
+    message: 'At least one of the pre-conditions you specified did not hold',
+  });
+
+const record = {
+  messageId: '0100018c-abcd-1234',
+  channel: 'C123',
+  messageTs: '111.333',
+  threadTs: '111.222',
+  recipients: ['customer@client.example'],
+  subject: 'Re: Invoice',
+  sentAt: new Date('2025-01-06T10:00:00.000Z'),
+  installation: { teamId: 'T1', isEnterpriseInstall: false },
+};
+
+describe('S3SentEmailRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  describe('saveSentEmail', () => {
+    it('should store the record as JSON under the message ID', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const repository = new S3SentEmailRepository('state-bucket');
+      await repository.saveSentEmail(record);
+
+      const calls = s3Mock.commandCalls(PutObjectCommand);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].args[0].input).toMatchObject({
+        Bucket: 'state-bucket',
+        Key: 'sent-emails/0100018c-abcd-1234.json',
+        ContentType: 'application/json',
+      });
+      expect(JSON.parse(calls[0].args[0].input.Body as string)).toMatchObject({
+        channel: 'C123',
+        messageTs: '111.333',
+        sentAt: '2025-01-06T10:00:00.000Z',
+      });
+    });
+  });
+
+  describe('findSentEmail', () => {
+    it('should return the stored record', async () => {
+      s3Mock
+        .on(GetObjectCommand, { Key: 'sent-emails/0100018c-abcd-1234.json' })
+        .resolves({
+          Body: jsonBody({
+            ...record,
+            sentAt: '2025-01-06T10:00:00.000Z',
+          }),
+        });
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      expect(await repository.findSentEmail('0100018c-abcd-1234')).toEqual(
+        record,
+      );
+    });
+
+    it('should restore the delivery status dates', async () => {
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: jsonBody({
+          ...record,
+          sentAt: '2025-01-06T10:00:00.000Z',
+          deliveries: {
+            'customer@client.example': {
+              status: 'delivered',
+              timestamp: '2025-01-06T10:00:02.000Z',
+            },
+          },
+        }),
+      });
+
+      const repository = new S3SentEmailRepository('state-bucket');
+      const result = await repository.findSentEmail('0100018c-abcd-1234');
+
+      expect(result?.deliveries).toEqual({
+        'customer@client.example': {
+          status: 'delivered',
+          timestamp: new Date('2025-01-06T10:00:02.000Z'),
+        },
+      });
+    });
+
+    it('should return undefined for unknown message IDs', async () => {
+      s3Mock
+        .on(GetObjectCommand)
+        .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      expect(await repository.findSentEmail('unknown')).toBe(undefined);
+    });
+
+    it('should propagate other S3 errors', async () => {
+      s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'));
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      await expect(repository.findSentEmail('unknown')).rejects.toThrow(
+        'Access Denied',
+      );
+    });
+  });
+
+  describe('updateSentEmail', () => {
+    const storedRecord = () => ({
+      Body: jsonBody({ ...record, sentAt: '2025-01-06T10:00:00.000Z' }),
+      ETag: '"etag-1"',
+    });
+    const addSubject = (current: SentEmailRecord) => ({
+      ...current,
+      subject: `${current.subject} (updated)`,
+    });
+
+    it('should write the updated record only if it did not change', async () => {
+      s3Mock.on(GetObjectCommand).callsFake(storedRecord);
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const repository = new S3SentEmailRepository('state-bucket');
+      const result = await repository.updateSentEmail(
+        '0100018c-abcd-1234',
+        addSubject,
+      );
+
+      expect(result?.subject).toBe('Re: Invoice (updated)');
+      const calls = s3Mock.commandCalls(PutObjectCommand);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].args[0].input).toMatchObject({
+        Key: 'sent-emails/0100018c-abcd-1234.json',
+        IfMatch: '"etag-1"',
+      });
+      expect(JSON.parse(calls[0].args[0].input.Body as string)).toMatchObject({
+        subject: 'Re: Invoice (updated)',
+      });
+    });
+
+    it('should re-read and retry when the record changed in between', async () => {
+      s3Mock
+        .on(GetObjectCommand)
+        .callsFakeOnce(storedRecord)
+        .callsFake(() => ({
+          Body: jsonBody({
+            ...record,
+            subject: 'Changed',
+            sentAt: '2025-01-06T10:00:00.000Z',
+          }),
+          ETag: '"etag-2"',
+        }));
+      s3Mock
+        .on(PutObjectCommand)
+        .rejectsOnce(preconditionFailed())
+        .resolves({});
+
+      const repository = new S3SentEmailRepository('state-bucket');
+      const result = await repository.updateSentEmail(
+        '0100018c-abcd-1234',
+        addSubject,
+      );
+
+      expect(result?.subject).toBe('Changed (updated)');
+      const calls = s3Mock.commandCalls(PutObjectCommand);
+      expect(calls).toHaveLength(2);
+      expect(calls[1].args[0].input.IfMatch).toBe('"etag-2"');
+    });
+
+    it('should give up after repeated conflicts', async () => {
+      s3Mock.on(GetObjectCommand).callsFake(storedRecord);
+      s3Mock.on(PutObjectCommand).rejects(preconditionFailed());
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      await expect(
+        repository.updateSentEmail('0100018c-abcd-1234', addSubject),
+      ).rejects.toThrow('pre-conditions');
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(5);
+    });
+
+    it('should not retry other S3 errors', async () => {
+      s3Mock.on(GetObjectCommand).callsFake(storedRecord);
+      s3Mock.on(PutObjectCommand).rejects(new Error('Access Denied'));
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      await expect(
+        repository.updateSentEmail('0100018c-abcd-1234', addSubject),
+      ).rejects.toThrow('Access Denied');
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(1);
+    });
+
+    it('should return undefined for unknown message IDs', async () => {
+      s3Mock
+        .on(GetObjectCommand)
+        .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+      const repository = new S3SentEmailRepository('state-bucket');
+
+      expect(
+        await repository.updateSentEmail('unknown', addSubject),
+      ).toBeUndefined();
+      expect(s3Mock.commandCalls(PutObjectCommand)).toHaveLength(0);
+    });
+  });
+});
@@ -25,7 +25,7 @@ describe('S3StorageRepository', () => {
       const repository = new S3StorageRepository('test-bucket');
       const result = await repository.fetchRawEmail('emails/test.eml');
 
-      expect(result).toBe(rawEmail);
+      expect(result).toEqual(Buffer.from(rawEmail));
 
       const calls = s3Mock.commandCalls(GetObjectCommand);
       expect(calls).toHaveLength(1);
@@ -35,6 +35,28 @@ describe('S3StorageRepository', () => {
       });
     });
 
+    it('should return the raw bytes without decoding them', async () => {
+      // "こんにちは" in Shift_JIS, which is not valid UTF-8
+      const body = Buffer.from('82b182f182c982bf82cd', 'hex');
+      const rawEmail = Buffer.concat([
+        Buffer.from(
+          'Content-Type: text/plain; charset=Shift_JIS\r\n' +
+            'Content-Transfer-Encoding: 8bit\r\n\r\n',
+        ),
+        body,
+      ]);
+
+      s3Mock.on(GetObjectCommand).resolves({
+        Body: sdkStreamMixin(Readable.from([rawEmail])),
+      });
+
+      const repository = new S3StorageRepository('test-bucket');
+      const result = await repository.fetchRawEmail('emails/test.eml');
+
+      expect(Buffer.isBuffer(result)).toBe(true);
+      expect(result.equals(rawEmail)).toBe(true);
+    });
+
     it('should throw error when response body is empty', async () => {
       s3Mock.on(GetObjectCommand).resolves({
         Body: undefined,
@@ -0,0 +1,90 @@
+import { Readable } from 'node:stream';
+import {
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3ThreadIndexRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const jsonBody = (value: unknown) =>
+  sdkStreamMixin(Readable.from([JSON.stringify(value)]));
+
+describe('S3ThreadIndexRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  describe('saveThread', () => {
+    it('should store the thread location as JSON under an encoded key', async () => {
+      s3Mock.on(PutObjectCommand).resolves({});
+
+      const repository = new S3ThreadIndexRepository('state-bucket');
+      await repository.saveThread('abc/123+x@example.com', {
+        channel: 'C123',
+        threadTs: '111.222',
+      });
+
+      const calls = s3Mock.commandCalls(PutObjectCommand);
+      expect(calls).toHaveLength(1);
+      expect(calls[0].args[0].input).toEqual({
+        Bucket: 'state-bucket',
+        Key: 'thread-index/abc%2F123%2Bx%40example.com.json',
+        Body: JSON.stringify({ channel: 'C123', threadTs: '111.222' }),
+        ContentType: 'application/json',
+      });
+    });
+  });
+
+  describe('findThread', () => {
+    it('should return the first indexed thread', async () => {
+      s3Mock
+        .on(GetObjectCommand, {
+          Key: 'thread-index/missing%40example.com.json',
+        })
+        .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+      s3Mock
+        .on(GetObjectCommand, {
+          Key: 'thread-index/found%40example.com.json',
+        })
+        .resolves({
+          Body: jsonBody({ channel: 'C123', threadTs: '111.222' }),
+        });
+
+      const repository = new S3ThreadIndexRepository('state-bucket');
+      const result = await repository.findThread([
+        'missing@example.com',
+        'found@example.com',
+      ]);
+
+      expect(result).toEqual({ channel: 'C123', threadTs: '111.222' });
+    });
+
+    it('should return undefined when no message ID is indexed', async () => {
+      s3Mock
+        .on(GetObjectCommand)
+        .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+      const repository = new S3ThreadIndexRepository('state-bucket');
+
+      expect(await repository.findThread(['missing@example.com'])).toBe(
+        undefined,
+      );
+    });
+
+    it('should propagate other S3 errors', async () => {
+      s3Mock.on(GetObjectCommand).rejects(new Error('Access Denied'));
+
+      const repository = new S3ThreadIndexRepository('state-bucket');
+
+      await expect(
+        repository.findThread(['missing@example.com']),
+      ).rejects.toThrow('Access Denied');
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { Readable } from 'node:stream';
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import type { TriageState } from '@rindrics/slackmail';
+import { sdkStreamMixin } from '@smithy/util-stream';
+import { mockClient } from 'aws-sdk-client-mock';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { S3TriageRepository } from '@/infrastructure';
+
+const s3Mock = mockClient(S3Client);
+
+const jsonBody = (value: unknown) =>
+  sdkStreamMixin(Readable.from([JSON.stringify(value)]));
+
+const state: TriageState = {
+  channel: 'C123',
+  messageTs: '100.001',
+  messageId: 'question@client.example',
+  subject: 'Question',
+  status: 'open',
+  assignee: 'U_ALICE',
+  updatedBy: 'U_ALICE',
+  updatedAt: new Date('2025-01-06T10:00:00.000Z'),
+};
+
+const stored = (overrides: Partial<TriageState> = {}) =>
+  jsonBody({
+    ...state,
+    ...overrides,
+    updatedAt: '2025-01-06T10:00:00.000Z',
+  });
+
+describe('S3TriageRepository', () => {
+  beforeEach(() => {
+    s3Mock.reset();
+  });
+
+  it('should store the state under the channel and message timestamp', async () => {
+    s3Mock.on(PutObjectCommand).resolves({});
+
+    await new S3TriageRepository('state-bucket').saveTriage(state);
+
+    const input = s3Mock.commandCalls(PutObjectCommand)[0].args[0].input;
+    expect(input.Key).toBe('triage/C123/100.001.json');
+    expect(JSON.parse(input.Body as string)).toMatchObject({
+      assignee: 'U_ALICE',
+      updatedAt: '2025-01-06T10:00:00.000Z',
+    });
+  });
+
+  it('should find a stored state', async () => {
+    s3Mock
+      .on(GetObjectCommand, { Key: 'triage/C123/100.001.json' })
+      .resolves({ Body: stored() });
+
+    const repository = new S3TriageRepository('state-bucket');
+
+    expect(await repository.findTriage('C123', '100.001')).toEqual(state);
+  });
+
+  it('should return undefined for unknown posts', async () => {
+    s3Mock
+      .on(GetObjectCommand)
+      .rejects(new NoSuchKey({ message: 'not found', $metadata: {} }));
+
+    const repository = new S3TriageRepository('state-bucket');
+
+    expect(await repository.findTriage('C123', '999.999')).toBeUndefined();
+  });
+
+  it('should list matching states of one channel, oldest post first', async () => {
+    s3Mock.on(ListObjectsV2Command, { Prefix: 'triage/C123/' }).resolves({
+      Contents: [
+        { Key: 'triage/C123/100.003.json' },
+        { Key: 'triage/C123/100.001.json' },
+        { Key: 'triage/C123/100.002.json' },
+      ],
+    });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'triage/C123/100.003.json' })
+      .resolves({ Body: stored({ messageTs: '100.003' }) });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'triage/C123/100.001.json' })
+      .resolves({ Body: stored() });
+    s3Mock
+      .on(GetObjectCommand, { Key: 'triage/C123/100.002.json' })
+      .resolves({ Body: stored({ messageTs: '100.002', status: 'done' }) });
+
+    const states = await new S3TriageRepository('state-bucket').listTriage({
+      channel: 'C123',
+      status: 'open',
+    });
+
+    expect(states.map((s) => s.messageTs)).toEqual(['100.001', '100.003']);
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import { parseSesEvent, parseSesNotification } from '@/infrastructure';
+
+const mail = {
+  messageId: '0100018c-abcd-1234',
+  source: 'noreply@example.com',
+  commonHeaders: {
+    from: ['Support <support@example.com>'],
+    subject: 'Your invoice',
+  },
+};
+
+describe('parseSesNotification', () => {
+  it('should parse a bounce notification', () => {
+    const feedback = parseSesNotification(
+      JSON.stringify({
+        notificationType: 'Bounce',
+        mail,
+        bounce: {
+          bounceType: 'Permanent',
+          bounceSubType: 'General',
+          timestamp: '2025-01-06T10:00:05.000Z',
+          bouncedRecipients: [
+            {
+              emailAddress: 'nobody@client.example',
+              status: '5.1.1',
+              diagnosticCode: 'smtp; 550 5.1.1 user unknown',
+            },
+          ],
+        },
+      }),
+    );
+
+    expect(feedback).toEqual({
+      type: 'bounce',
+      messageId: '0100018c-abcd-1234',
+      subject: 'Your invoice',
+      from: 'Support <support@example.com>',
+      recipients: [
+        {
+          address: 'nobody@client.example',
+          status: '5.1.1',
+          diagnostic: 'smtp; 550 5.1.1 user unknown',
+        },
+      ],
+      timestamp: new Date('2025-01-06T10:00:05.000Z'),
+      bounceType: 'Permanent',
+      bounceSubType: 'General',
+    });
+  });
+
+  it('should parse a complaint notification', () => {
+    const feedback = parseSesNotification(
+      JSON.stringify({
+        notificationType: 'Complaint',
+        mail,
+        complaint: {
+          complaintFeedbackType: 'abuse',
+          timestamp: '2025-01-06T11:00:00.000Z',
+          complainedRecipients: [{ emailAddress: 'customer@client.example' }],
+        },
+      }),
+    );
+
+    expect(feedback).toMatchObject({
+      type: 'complaint',
+      messageId: '0100018c-abcd-1234',
+      recipients: [{ address: 'customer@client.example' }],
+      complaintType: 'abuse',
+    });
+  });
+
+  it('should ignore delivery notifications', () => {
+    expect(
+      parseSesNotification(
+        JSON.stringify({ notificationType: 'Delivery', mail, delivery: {} }),
+      ),
+    ).toBeUndefined();
+  });
+
+  it('should ignore messages that are not SES notifications', () => {
+    expect(parseSesNotification('not json')).toBeUndefined();
+    expect(parseSesNotification(JSON.stringify({ foo: 1 }))).toBeUndefined();
+  });
+});
+
+describe('parseSesEvent', () => {
+  const eventMail = {
+    ...mail,
+    timestamp: '2025-01-06T10:00:00.000Z',
+    destination: ['a@client.example', 'b@client.example'],
+  };
+
+  it('should apply send and reject events to every destination', () => {
+    expect(
+      parseSesEvent(
+        JSON.stringify({ eventType: 'Send', mail: eventMail, send: {} }),
+      ),
+    ).toEqual({
+      type: 'send',
+      messageId: '0100018c-abcd-1234',
+      recipients: ['a@client.example', 'b@client.example'],
+      detail: undefined,
+      timestamp: new Date('2025-01-06T10:00:00.000Z'),
+    });
+    expect(
+      parseSesEvent(
+        JSON.stringify({
+          eventType: 'Reject',
+          mail: eventMail,
+          reject: { reason: 'Bad content' },
+        }),
+      ),
+    ).toMatchObject({ type: 'reject', detail: 'Bad content' });
+  });
+
+  it('should read the recipients of delivery, bounce and delay events', () => {
+    expect(
+      parseSesEvent(
+        JSON.stringify({
+          eventType: 'Delivery',
+          mail: eventMail,
+          delivery: {
+            timestamp: '2025-01-06T10:00:02.000Z',
+            recipients: ['a@client.example'],
+          },
+        }),
+      ),
+    ).toMatchObject({
+      type: 'delivery',
+      recipients: ['a@client.example'],
+      timestamp: new Date('2025-01-06T10:00:02.000Z'),
+    });
+    expect(
+      parseSesEvent(
+        JSON.stringify({
+          eventType: 'Bounce',
+          mail: eventMail,
+          bounce: {
+            bounceType: 'Permanent',
+            bounceSubType: 'General',
+            bouncedRecipients: [{ emailAddress: 'b@client.example' }],
+          },
+        }),
+      ),
+    ).toMatchObject({
+      type: 'bounce',
+      recipients: ['b@client.example'],
+      detail: 'Permanent: General',
+    });
+    expect(
+      parseSesEvent(
+        JSON.stringify({
+          eventType: 'DeliveryDelay',
+          mail: eventMail,
+          deliveryDelay: {
+            delayType: 'MailboxFull',
+            delayedRecipients: [{ emailAddress: 'b@client.example' }],
+          },
+        }),
+      ),
+    ).toMatchObject({
+      type: 'delay',
+      recipients: ['b@client.example'],
+      detail: 'MailboxFull',
+    });
+  });
+
+  it('should ignore other event types and bounce notifications', () => {
+    expect(
+      parseSesEvent(JSON.stringify({ eventType: 'Open', mail: eventMail })),
+    ).toBeUndefined();
+    expect(
+      parseSesEvent(JSON.stringify({ notificationType: 'Bounce', mail })),
+    ).toBeUndefined();
+  });
+});
@@ -1,5 +1,5 @@
 import { Readable } from 'node:stream';
-import type { SESv2Client } from '@aws-sdk/client-sesv2';
+import { type SESv2Client, SendEmailCommand } from '@aws-sdk/client-sesv2';
 import type { Email } from '@rindrics/slackmail';
 import nodemailer from 'nodemailer';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
@@ -170,6 +170,21 @@ describe('SESMailRepository', () => {
         }),
       );
     });
+
+    it('should send with the configuration set when configured', async () => {
+      const repositoryWithEvents = new SESMailRepository({
+        allowedSenderDomain: 'verified-domain.com',
+        defaultSenderAddress: 'noreply@verified-domain.com',
+        sesClient: mockSesClient,
+        configurationSetName: 'slackmail-events',
+      });
+
+      await repositoryWithEvents.sendEmail(testEmail);
+
+      expect(vi.mocked(SendEmailCommand)).toHaveBeenLastCalledWith(
+        expect.objectContaining({ ConfigurationSetName: 'slackmail-events' }),
+      );
+    });
   });
 
   describe('sender domain validation', () => {
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  assertMultiWorkspaceConfig,
+  type ReceiveMailConfig,
+} from '@/receiveMail';
+
+describe('assertMultiWorkspaceConfig', () => {
+  const config = (
+    overrides: Partial<ReceiveMailConfig> = {},
+  ): ReceiveMailConfig => ({
+    slackChannelId: '',
+    slackChannelRoutes: [],
+    slackDigestRules: [],
+    emailFilterRules: [],
+    redactionRules: [],
+    trustedAuthServIds: [],
+    approvedDomains: { T0ACME: ['acme.example.com'] },
+    stateBucketName: 'state-bucket',
+    ...overrides,
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should accept settings made per workspace', () => {
+    expect(() => assertMultiWorkspaceConfig(config())).not.toThrow();
+  });
+
+  it('should reject channel routes, the quarantine channel and digests', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() =>
+      assertMultiWorkspaceConfig(
+        config({
+          slackChannelRoutes: [
+            {
+              match: { type: 'senderDomain', domain: 'github.com' },
+              channel: 'C_OPS',
+            },
+          ],
+          slackQuarantineChannelId: 'C_QUARANTINE',
+          slackDigestRules: [{ match: { type: 'bulk' }, schedule: 'daily' }],
+        }),
+      ),
+    ).toThrow(
+      'Unsupported environment variables for multi-workspace apps: SLACK_CHANNEL_ROUTES, SLACK_QUARANTINE_CHANNEL_ID, SLACK_DIGEST_RULES (set the channel per workspace with /mail-setup',
+    );
+    expect(error).toHaveBeenCalledTimes(3);
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '[Config Error] SLACK_QUARANTINE_CHANNEL_ID is not supported by multi-workspace apps',
+      ),
+    );
+  });
+});
@@ -1,10 +1,20 @@
 export {
+  type EmailPostLocation,
+  type EmailReceivedCallback,
+  type EmailReceivedContext,
   ReceiveMailUseCase,
   type ReceiveMailUseCaseDeps,
   type ReceiveMailUseCaseInput,
   type ReceiveMailUseCaseOutput,
 } from './receiveMailUseCase';
-
+export {
+  type ReplayFailedEmailsInput,
+  type ReplayFailedEmailsOutput,
+  ReplayFailedEmailsUseCase,
+  type ReplayFailedEmailsUseCaseDeps,
+  type ReplayResult,
+  type ReplayStatus,
+} from './usecases/replayFailedEmailsUseCase';
 export {
   type SendMailInput,
   type SendMailOutput,
@@ -1,6 +1,22 @@
-import type { Email } from '@/domain/entities';
+import type {
+  Email,
+  EmailFilterRule,
+  Redaction,
+  RedactionRule,
+} from '@/domain/entities';
 import type { EmailParser } from '@/domain/entities/emailParser';
-import type { StorageRepository } from '@/domain/repositories';
+import type {
+  ProcessedEmailKey,
+  ProcessedEmailRepository,
+  SearchIndexRepository,
+  StorageRepository,
+} from '@/domain/repositories';
+import {
+  describeEmailFilterRule,
+  findEmailFilterRule,
+} from '../domain/entities/emailFilter';
+import { createEmailSearchDocument } from '../domain/entities/emailSearch';
+import { redactEmail } from '../domain/entities/redaction';
 
 export interface ReceiveMailUseCaseInput {
   storageKey: string;
@@ -14,27 +30,87 @@ function validateInput(input: ReceiveMailUseCaseInput): void {
 
 export interface ReceiveMailUseCaseOutput {
   email: Email;
+  /** True when the email had already been delivered and was skipped */
+  duplicate: boolean;
+  /** The filter rule that blocked the email; it was not delivered */
+  droppedBy?: EmailFilterRule;
 }
 
+/**
+ * Where the received email came from, passed to onEmailReceived
+ */
+export interface EmailReceivedContext {
+  storageKey: string;
+  /** What was redacted from the email passed along (omitted when nothing was) */
+  redactions?: Redaction[];
+}
+
+/**
+ * Where the callback posted the email, used to link search results to it
+ */
+export interface EmailPostLocation {
+  channel: string;
+  messageTs: string;
+}
+
+/**
+ * Delivers a received email. Resolves with where the email was posted, or
+ * nothing when it was not posted as a regular message (e.g. quarantined).
+ */
+export type EmailReceivedCallback = (
+  email: Email,
+  context: EmailReceivedContext,
+) => Promise<EmailPostLocation | undefined>;
+
 export interface ReceiveMailUseCaseDeps {
   storageRepository: StorageRepository;
   emailParser: EmailParser;
-  onEmailReceived: (email: Email) => Promise<void>;
+  onEmailReceived: EmailReceivedCallback;
+  /**
+   * Allow/block rules checked right after parsing. Emails blocked by a rule
+   * are logged with the rule and not delivered.
+   */
+  filters?: EmailFilterRule[];
+  /**
+   * Rules for sensitive content (card numbers, API keys, ...) removed from
+   * the subject and body before the email is delivered and indexed. The
+   * stored raw email keeps the original.
+   */
+  redaction?: RedactionRule[];
+  /**
+   * Idempotency store. When set, emails already delivered (same storage key
+   * or Message-ID) are skipped.
+   */
+  processedEmails?: ProcessedEmailRepository;
+  /**
+   * Full-text search index. When set, emails the callback reports a post
+   * for are indexed with a link to that post.
+   */
+  searchIndex?: SearchIndexRepository;
 }
 
 /**
  * Use case for receiving and processing an email.
- * Flow: Fetch from storage → Parse → Notify via callback
+ * Flow: Fetch from storage → Parse → Drop filtered → Skip duplicates
+ * → Redact → Notify via callback → Record as delivered → Index for search
  */
 export class ReceiveMailUseCase {
   private readonly storageRepository: StorageRepository;
   private readonly emailParser: EmailParser;
-  private readonly onEmailReceived: (email: Email) => Promise<void>;
+  private readonly onEmailReceived: EmailReceivedCallback;
+  private readonly filters: EmailFilterRule[];
+  private readonly redaction: RedactionRule[];
+  private readonly processedEmails?: ProcessedEmailRepository;
+  private readonly searchIndex?: SearchIndexRepository;
 
   constructor(deps: ReceiveMailUseCaseDeps) {
     this.storageRepository = deps.storageRepository;
     this.emailParser = deps.emailParser;
     this.onEmailReceived = deps.onEmailReceived;
+    this.filters = deps.filters ?? [];
+    this.redaction = deps.redaction ?? [];
+    this.processedEmails = deps.processedEmails;
+    this.searchIndex = deps.searchIndex;
   }
 
   async execute(
@@ -45,7 +121,83 @@ export class ReceiveMailUseCase {
       input.storageKey,
     );
     const email = await this.emailParser.parse(rawEmail);
-    await this.onEmailReceived(email);
-    return { email };
+
+    const rule = findEmailFilterRule(email, this.filters);
+    if (rule?.action === 'block') {
+      // Fixed message prefix, so dropped emails can be counted from the logs
+      console.log('Dropped email by filter:', {
+        rule: describeEmailFilterRule(rule),
+        messageId: email.messageId,
+        from: email.from.address,
+        storageKey: input.storageKey,
+      });
+      return { email, duplicate: false, droppedBy: rule };
+    }
+
+    const key = { storageKey: input.storageKey, messageId: email.messageId };
+
+    if (await this.processedEmails?.hasProcessed(key)) {
+      console.log(
+        `Skipping already delivered email: ${email.messageId} (${input.storageKey})`,
+      );
+      return { email, duplicate: true };
+    }
+
+    const { email: redacted, redactions } = redactEmail(email, this.redaction);
+    if (redactions.length > 0) {
+      console.log('Redacted email content:', {
+        messageId: email.messageId,
+        storageKey: input.storageKey,
+        redactions,
+      });
+    }
+
+    const location = await this.onEmailReceived(redacted, {
+      storageKey: input.storageKey,
+      ...(redactions.length > 0 && { redactions }),
+    });
+    await this.recordProcessed(key);
+    if (location) {
+      await this.indexEmail(redacted, location);
+    }
+    return { email, duplicate: false };
+  }
+
+  /**
+   * Failures are logged but not thrown: the email has already been
+   * delivered, and failing here would make the caller retry and post it again.
+   */
+  private async recordProcessed(key: ProcessedEmailKey): Promise<void> {
+    try {
+      await this.processedEmails?.markProcessed(key);
+    } catch (error) {
+      console.error('Failed to record email as delivered:', {
+        ...key,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Failures are logged but not thrown: the email has already been
+   * delivered and is only missing from search results.
+   */
+  private async indexEmail(
+    email: Email,
+    location: EmailPostLocation,
+  ): Promise<void> {
+    if (!this.searchIndex) {
+      return;
+    }
+    try {
+      await this.searchIndex.indexEmail(
+        createEmailSearchDocument(email, location.channel, location.messageTs),
+      );
+    } catch (error) {
+      console.error('Failed to index email for search:', {
+        messageId: email.messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
   }
 }
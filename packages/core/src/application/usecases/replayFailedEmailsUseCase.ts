@@ -0,0 +1,104 @@
+import type { ReceiveMailUseCase } from '@/application/receiveMailUseCase';
+import type { DeadLetterRepository } from '@/domain/repositories/deadLetterRepository';
+
+/**
+ * Input data for replaying failed emails
+ */
+export interface ReplayFailedEmailsInput {
+  /** Record IDs to replay; all stored records when omitted */
+  ids?: string[];
+}
+
+export type ReplayStatus =
+  /** Delivered; the record was removed */
+  | 'replayed'
+  /** Had already been delivered; the record was removed */
+  | 'duplicate'
+  /** Blocked by a filter rule (e.g. one added since it failed); the record was removed */
+  | 'dropped'
+  /** Delivery failed again; the record was kept */
+  | 'failed'
+  /** No record with this ID */
+  | 'not_found'
+  /** The record has no storage key to fetch the raw email from */
+  | 'not_replayable';
+
+export interface ReplayResult {
+  id: string;
+  status: ReplayStatus;
+  error?: string;
+}
+
+/**
+ * Output data after replaying failed emails
+ */
+export interface ReplayFailedEmailsOutput {
+  results: ReplayResult[];
+}
+
+export interface ReplayFailedEmailsUseCaseDeps {
+  deadLetters: DeadLetterRepository;
+  receiveMailUseCase: ReceiveMailUseCase;
+}
+
+/**
+ * Use case for replaying emails from the dead-letter store.
+ * Re-runs ReceiveMailUseCase with each record's storage key; records are
+ * removed only once the email has been delivered.
+ */
+export class ReplayFailedEmailsUseCase {
+  private readonly deadLetters: DeadLetterRepository;
+  private readonly receiveMailUseCase: ReceiveMailUseCase;
+
+  constructor(deps: ReplayFailedEmailsUseCaseDeps) {
+    this.deadLetters = deps.deadLetters;
+    this.receiveMailUseCase = deps.receiveMailUseCase;
+  }
+
+  /**
+   * Execute the replay use case.
+   * Records are replayed one at a time; a failure does not stop the others.
+   *
+   * @param input - Records to replay
+   * @returns Result per record
+   */
+  async execute(
+    input: ReplayFailedEmailsInput = {},
+  ): Promise<ReplayFailedEmailsOutput> {
+    const ids =
+      input.ids ?? (await this.deadLetters.list()).map((record) => record.id);
+
+    const results: ReplayResult[] = [];
+    for (const id of ids) {
+      results.push(await this.replay(id));
+    }
+    return { results };
+  }
+
+  private async replay(id: string): Promise<ReplayResult> {
+    const record = await this.deadLetters.find(id);
+    if (!record) {
+      return { id, status: 'not_found' };
+    }
+    if (!record.storageKey) {
+      return { id, status: 'not_replayable' };
+    }
+
+    try {
+      const { duplicate, droppedBy } = await this.receiveMailUseCase.execute({
+        storageKey: record.storageKey,
+      });
+      await this.deadLetters.remove(id);
+      if (droppedBy) {
+        return { id, status: 'dropped' };
+      }
+      return { id, status: duplicate ? 'duplicate' : 'replayed' };
+    } catch (error) {
+      return {
+        id,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Kind of feedback the mail service reported for a sent email
+ */
+export type DeliveryFeedbackType = 'bounce' | 'complaint';
+
+export interface DeliveryFeedbackRecipient {
+  address: string;
+  /** SMTP status code for bounces, e.g. "5.1.1" */
+  status?: string;
+  /** Diagnostic message from the receiving server */
+  diagnostic?: string;
+}
+
+/**
+ * Bounce or complaint reported for an email we sent
+ * (e.g. from SES bounce/complaint notifications)
+ */
+export interface DeliveryFeedback {
+  type: DeliveryFeedbackType;
+  /** Message ID the mail service returned when the email was sent */
+  messageId: string;
+  recipients: DeliveryFeedbackRecipient[];
+  timestamp: Date;
+  /** Bounce type, e.g. "Permanent" or "Transient" */
+  bounceType?: string;
+  /** Bounce sub-type, e.g. "General" or "MailboxFull" */
+  bounceSubType?: string;
+  /** Complaint feedback type, e.g. "abuse" */
+  complaintType?: string;
+  /** Subject of the original email, when reported */
+  subject?: string;
+  /** Sender of the original email, when reported */
+  from?: string;
+}
@@ -0,0 +1,96 @@
+/**
+ * Kind of delivery event the mail service published for a sent email
+ * (e.g. SES event publishing: Send, Delivery, Bounce, Complaint, Reject,
+ * DeliveryDelay)
+ */
+export type DeliveryEventType =
+  | 'send'
+  | 'delivery'
+  | 'bounce'
+  | 'complaint'
+  | 'reject'
+  | 'delay';
+
+/**
+ * Current delivery state of a sent email for one recipient
+ */
+export type DeliveryStatus =
+  | 'sent'
+  | 'delayed'
+  | 'delivered'
+  | 'bounced'
+  | 'rejected'
+  | 'complained';
+
+/**
+ * Delivery event for an email we sent
+ */
+export interface DeliveryEvent {
+  type: DeliveryEventType;
+  /** Message ID the mail service returned when the email was sent */
+  messageId: string;
+  /** Recipients the event applies to */
+  recipients: string[];
+  timestamp: Date;
+  /** Short explanation, e.g. the bounce type or the reject reason */
+  detail?: string;
+}
+
+export interface RecipientDeliveryStatus {
+  status: DeliveryStatus;
+  /** Time of the event that set the status */
+  timestamp: Date;
+  detail?: string;
+}
+
+/** Delivery state per recipient address (lowercased) */
+export type RecipientDeliveryStatuses = Record<string, RecipientDeliveryStatus>;
+
+const EVENT_STATUS: Record<DeliveryEventType, DeliveryStatus> = {
+  send: 'sent',
+  delay: 'delayed',
+  delivery: 'delivered',
+  bounce: 'bounced',
+  reject: 'rejected',
+  complaint: 'complained',
+};
+
+/**
+ * How far along a status is. Events may arrive out of order (e.g. Send
+ * after Delivery), so a status never goes back to an earlier one.
+ */
+const STATUS_RANK: Record<DeliveryStatus, number> = {
+  sent: 0,
+  delayed: 1,
+  delivered: 2,
+  bounced: 2,
+  rejected: 2,
+  // Complaints come after delivery
+  complained: 3,
+};
+
+/**
+ * Apply a delivery event to the per-recipient statuses
+ *
+ * @returns New statuses; the given ones are not modified
+ */
+export function applyDeliveryEvent(
+  statuses: RecipientDeliveryStatuses,
+  event: DeliveryEvent,
+): RecipientDeliveryStatuses {
+  const status = EVENT_STATUS[event.type];
+  const updated = { ...statuses };
+  for (const recipient of event.recipients) {
+    const address = recipient.toLowerCase();
+    const current = updated[address];
+    if (current && STATUS_RANK[current.status] > STATUS_RANK[status]) {
+      continue;
+    }
+    updated[address] = {
+      status,
+      timestamp: event.timestamp,
+      detail: event.detail,
+    };
+  }
+  return updated;
+}
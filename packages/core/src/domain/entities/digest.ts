@@ -0,0 +1,30 @@
+/**
+ * How often buffered emails are summarized
+ */
+export type DigestSchedule = 'hourly' | 'daily';
+
+export const DIGEST_SCHEDULES: readonly DigestSchedule[] = ['hourly', 'daily'];
+
+/**
+ * Email held back from its channel until the next digest
+ */
+export interface DigestEntry {
+  /** Where the raw email is stored; it is re-read when the digest is posted */
+  storageKey: string;
+  messageId: string;
+  /** Sender address */
+  from: string;
+  subject: string;
+  date: Date;
+  /** Channel the email (and its digest) is posted to */
+  channel: string;
+  schedule: DigestSchedule;
+  bufferedAt: Date;
+}
+
+/**
+ * Whether a value is a known digest schedule
+ */
+export function isDigestSchedule(value: unknown): value is DigestSchedule {
+  return DIGEST_SCHEDULES.includes(value as DigestSchedule);
+}
@@ -3,6 +3,108 @@ export interface EmailAddress {
   address: string;
 }
 
+/**
+ * File attached to an email
+ */
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** Raw content; attachments without it are reported as not uploaded */
+  content?: Buffer;
+  /** Content-ID without angle brackets (for inline parts referenced from HTML) */
+  contentId?: string;
+  /** True for inline parts (e.g., images embedded in the HTML body) */
+  inline?: boolean;
+}
+
+/**
+ * Verdict of a mail provider's content scan (e.g., SES `X-SES-Spam-Verdict`).
+ * GRAY means the scan was inconclusive.
+ */
+export type ScanVerdict = 'PASS' | 'FAIL' | 'GRAY' | 'PROCESSING_FAILED';
+
+export interface EmailScanVerdicts {
+  spam?: ScanVerdict;
+  virus?: ScanVerdict;
+}
+
+/**
+ * Result of a sender authentication check (RFC 8601 result values)
+ */
+export type AuthenticationStatus =
+  | 'pass'
+  | 'fail'
+  | 'softfail'
+  | 'neutral'
+  | 'none'
+  | 'policy'
+  | 'temperror'
+  | 'permerror';
+
+export interface EmailAuthentication {
+  spf?: AuthenticationStatus;
+  dkim?: AuthenticationStatus;
+  dmarc?: AuthenticationStatus;
+}
+
+/**
+ * iTIP method of a calendar object (RFC 5546), e.g. REQUEST for an
+ * invitation and CANCEL for a cancellation
+ */
+export type CalendarMethod =
+  | 'PUBLISH'
+  | 'REQUEST'
+  | 'REPLY'
+  | 'ADD'
+  | 'CANCEL'
+  | 'REFRESH'
+  | 'COUNTER'
+  | 'DECLINECOUNTER';
+
+/**
+ * Participation status of an attendee (iCalendar PARTSTAT)
+ */
+export type CalendarParticipationStatus =
+  | 'NEEDS-ACTION'
+  | 'ACCEPTED'
+  | 'DECLINED'
+  | 'TENTATIVE'
+  | 'DELEGATED';
+
+export interface CalendarAttendee extends EmailAddress {
+  status?: CalendarParticipationStatus;
+}
+
+/**
+ * Event from a text/calendar (iCalendar) part, e.g. a meeting invitation
+ */
+export interface CalendarEvent {
+  method?: CalendarMethod;
+  uid?: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end?: Date;
+  /** All-day event: start/end are dates at 00:00 UTC, end is exclusive */
+  allDay: boolean;
+  /** Time zone the organizer scheduled the event in (TZID), if any */
+  timezone?: string;
+  organizer?: EmailAddress;
+  attendees: CalendarAttendee[];
+  /** True when the event itself is cancelled (STATUS:CANCELLED) */
+  cancelled?: boolean;
+}
+
+/**
+ * Header values by lowercased header name, in message order. Values are
+ * unfolded but otherwise raw (encoded words are not decoded); use
+ * getHeader/getHeaderValues to look them up case-insensitively.
+ */
+export type EmailHeaders = Record<string, string[]>;
+
 export interface Email {
   messageId: string;
   from: EmailAddress;
@@ -18,6 +120,20 @@ export interface Email {
   date: Date;
   inReplyTo?: string;
   references?: string[];
+  attachments?: EmailAttachment[];
+  /** Spam/virus scan verdicts, when the receiving service provides them */
+  verdicts?: EmailScanVerdicts;
+  /** SPF/DKIM/DMARC results reported by the receiving service */
+  authentication?: EmailAuthentication;
+  /** Events from text/calendar parts (meeting invitations) */
+  calendarEvents?: CalendarEvent[];
+  /**
+   * Mailboxes the message was delivered to (Delivered-To, or X-Original-To),
+   * e.g. our address when To only names a mailing list
+   */
+  deliveredTo?: EmailAddress[];
+  /** All headers of the message */
+  headers?: EmailHeaders;
 }
 
 export function createEmail(params: {
@@ -32,6 +148,12 @@ export function createEmail(params: {
   date: Date;
   inReplyTo?: string;
   references?: string[];
+  attachments?: EmailAttachment[];
+  verdicts?: EmailScanVerdicts;
+  authentication?: EmailAuthentication;
+  calendarEvents?: CalendarEvent[];
+  deliveredTo?: EmailAddress[];
+  headers?: EmailHeaders;
 }): Email {
   return {
     messageId: params.messageId,
@@ -45,5 +167,64 @@ export function createEmail(params: {
     date: params.date,
     inReplyTo: params.inReplyTo,
     references: params.references,
+    attachments: params.attachments,
+    verdicts: params.verdicts,
+    authentication: params.authentication,
+    calendarEvents: params.calendarEvents,
+    deliveredTo: params.deliveredTo,
+    headers: params.headers,
   };
 }
+
+/**
+ * All values of a header, matched case-insensitively (e.g. "Received")
+ */
+export function getHeaderValues(email: Email, name: string): string[] {
+  return email.headers?.[name.toLowerCase()] ?? [];
+}
+
+/**
+ * First value of a header, matched case-insensitively (e.g. "List-Id")
+ */
+export function getHeader(email: Email, name: string): string | undefined {
+  return getHeaderValues(email, name)[0];
+}
+
+/**
+ * Whether an attachment is an iCalendar object (meeting invitation)
+ */
+export function isCalendarAttachment(
+  attachment: Pick<EmailAttachment, 'contentType' | 'filename'>,
+): boolean {
+  return (
+    attachment.contentType === 'text/calendar' ||
+    attachment.contentType === 'application/ics' ||
+    /\.ics$/i.test(attachment.filename)
+  );
+}
+
+/**
+ * Whether the spam or virus scan flagged the email
+ */
+export function isFlaggedEmail(email: Email): boolean {
+  return email.verdicts?.spam === 'FAIL' || email.verdicts?.virus === 'FAIL';
+}
+
+/**
+ * Whether the email is bulk or automated mail: mailing lists and
+ * newsletters (List-Id, List-Unsubscribe, Precedence: bulk/list/junk) and
+ * auto-generated messages (Auto-Submitted other than "no", RFC 3834)
+ */
+export function isBulkEmail(email: Email): boolean {
+  if (getHeader(email, 'List-Id') || getHeader(email, 'List-Unsubscribe')) {
+    return true;
+  }
+  const precedence = getHeader(email, 'Precedence')?.trim().toLowerCase();
+  if (precedence && ['bulk', 'list', 'junk'].includes(precedence)) {
+    return true;
+  }
+  const autoSubmitted = getHeader(email, 'Auto-Submitted')
+    ?.trim()
+    .toLowerCase();
+  return !!autoSubmitted && autoSubmitted !== 'no';
+}
@@ -0,0 +1,105 @@
+import { type Email, getHeaderValues } from './email';
+
+/**
+ * What happens to an email matching a filter rule: `block` drops it before
+ * it is posted, `allow` posts it without checking the remaining rules
+ */
+export type EmailFilterAction = 'allow' | 'block';
+
+export type EmailFilterMatcher =
+  /** Sender address, compared case-insensitively */
+  | { type: 'sender'; address: string }
+  /** Sender domain, including its subdomains ("example.com" matches "mail.example.com") */
+  | { type: 'senderDomain'; domain: string }
+  /** Case-insensitive regular expression tested against the subject */
+  | { type: 'subject'; pattern: string }
+  /** Case-insensitive regular expression tested against the body (text, or HTML when there is none) */
+  | { type: 'body'; pattern: string }
+  /**
+   * Header present (any value), or with a value matching the
+   * case-insensitive regular expression
+   */
+  | { type: 'header'; name: string; pattern?: string };
+
+export interface EmailFilterRule {
+  /** Shown in logs when the rule drops an email (defaults to a description of the match) */
+  name?: string;
+  action: EmailFilterAction;
+  match: EmailFilterMatcher;
+}
+
+function senderDomain(email: Email): string {
+  const address = email.from.address.trim().toLowerCase();
+  return address.slice(address.lastIndexOf('@') + 1);
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  return new RegExp(pattern, 'i').test(value);
+}
+
+function matchesFilter(matcher: EmailFilterMatcher, email: Email): boolean {
+  switch (matcher.type) {
+    case 'sender':
+      return (
+        email.from.address.trim().toLowerCase() ===
+        matcher.address.trim().toLowerCase()
+      );
+    case 'senderDomain': {
+      const domain = senderDomain(email);
+      const target = matcher.domain.trim().toLowerCase();
+      return domain === target || domain.endsWith(`.${target}`);
+    }
+    case 'subject':
+      return matchesPattern(matcher.pattern, email.subject);
+    case 'body':
+      return matchesPattern(
+        matcher.pattern,
+        email.body.text ?? email.body.html ?? '',
+      );
+    case 'header': {
+      const values = getHeaderValues(email, matcher.name);
+      const { pattern } = matcher;
+      return pattern === undefined
+        ? values.length > 0
+        : values.some((value) => matchesPattern(pattern, value));
+    }
+  }
+}
+
+/**
+ * Find the filter rule deciding what happens to an email.
+ * Rules are evaluated in order and the first match wins, so `allow` rules
+ * listed before `block` rules act as exceptions to them.
+ *
+ * @returns The first matching rule, or undefined when none matches (the
+ *   email is posted)
+ */
+export function findEmailFilterRule(
+  email: Email,
+  rules: EmailFilterRule[],
+): EmailFilterRule | undefined {
+  return rules.find((rule) => matchesFilter(rule.match, email));
+}
+
+/**
+ * Label of a rule for logs, e.g. `block senderDomain spam.example`
+ */
+export function describeEmailFilterRule(rule: EmailFilterRule): string {
+  if (rule.name) {
+    return rule.name;
+  }
+  const { match } = rule;
+  switch (match.type) {
+    case 'sender':
+      return `${rule.action} sender ${match.address}`;
+    case 'senderDomain':
+      return `${rule.action} senderDomain ${match.domain}`;
+    case 'subject':
+    case 'body':
+      return `${rule.action} ${match.type} /${match.pattern}/`;
+    case 'header':
+      return match.pattern === undefined
+        ? `${rule.action} header ${match.name}`
+        : `${rule.action} header ${match.name} /${match.pattern}/`;
+  }
+}
@@ -0,0 +1,214 @@
+import type { Email, EmailAddress } from './email';
+
+/** Maximum characters of body text kept per indexed email */
+const BODY_LIMIT = 20000;
+
+/**
+ * Searchable copy of a received email and where it was posted in Slack
+ */
+export interface EmailSearchDocument {
+  messageId: string;
+  /** Sender, e.g. "Alice <alice@example.com>" */
+  from: string;
+  /** To and Cc recipients */
+  to: string[];
+  subject: string;
+  /** Plain text body (HTML bodies are reduced to their text) */
+  body: string;
+  date: Date;
+  /** Attachment filenames */
+  attachments: string[];
+  /** Channel the email was posted to */
+  channel: string;
+  /** Timestamp of the email post */
+  messageTs: string;
+}
+
+/**
+ * Parsed search query; all given conditions must match.
+ * Words and values are lowercased and matched as substrings.
+ */
+export interface EmailSearchQuery {
+  /** Words or quoted phrases that must appear in any field */
+  terms: string[];
+  from?: string[];
+  to?: string[];
+  subject?: string[];
+  /** Words that must appear in an attachment filename */
+  filename?: string[];
+  /** Only emails sent on or after this date */
+  after?: Date;
+  /** Only emails sent before this date */
+  before?: Date;
+}
+
+type SearchField = 'from' | 'to' | 'subject' | 'filename';
+
+const SEARCH_FIELDS = new Set<string>(['from', 'to', 'subject', 'filename']);
+
+function formatAddress(address: EmailAddress): string {
+  return address.name
+    ? `${address.name} <${address.address}>`
+    : address.address;
+}
+
+/**
+ * Reduce an HTML body to its text (enough for matching words)
+ */
+function htmlToSearchText(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Create the search document of an email posted to Slack
+ */
+export function createEmailSearchDocument(
+  email: Email,
+  channel: string,
+  messageTs: string,
+): EmailSearchDocument {
+  const body =
+    email.body.text ??
+    (email.body.html ? htmlToSearchText(email.body.html) : '');
+  return {
+    messageId: email.messageId,
+    from: formatAddress(email.from),
+    to: [...email.to, ...(email.cc ?? [])].map(formatAddress),
+    subject: email.subject,
+    body: body.substring(0, BODY_LIMIT),
+    date: email.date,
+    attachments: (email.attachments ?? []).map(
+      (attachment) => attachment.filename,
+    ),
+    channel,
+    messageTs,
+  };
+}
+
+/**
+ * Split a query into words, keeping "quoted phrases" (and `field:"quoted
+ * values"`) together
+ */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of text.matchAll(/(\S*?)"([^"]*)"|\S+/g)) {
+    const token = match[2] !== undefined ? `${match[1]}${match[2]}` : match[0];
+    if (token.trim()) {
+      tokens.push(token.trim());
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parse a YYYY-MM-DD date (UTC midnight)
+ */
+function parseDate(value: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return undefined;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Parse a search query, e.g.
+ * `invoice from:billing@example.com after:2026-01-01 "past due"`.
+ *
+ * Supported qualifiers: from:, to:, subject:, filename:, after: and
+ * before: (YYYY-MM-DD). Anything else is a word to find in any field.
+ */
+export function parseEmailSearchQuery(text: string): EmailSearchQuery {
+  const query: EmailSearchQuery = { terms: [] };
+  for (const token of tokenize(text)) {
+    const separator = token.indexOf(':');
+    const key = token.substring(0, separator).toLowerCase();
+    const value = token.substring(separator + 1).toLowerCase();
+
+    if (separator > 0 && value && SEARCH_FIELDS.has(key)) {
+      const field = key as SearchField;
+      query[field] = [...(query[field] ?? []), value];
+      continue;
+    }
+    const date =
+      separator > 0 && (key === 'after' || key === 'before')
+        ? parseDate(value)
+        : undefined;
+    if (date) {
+      query[key as 'after' | 'before'] = date;
+      continue;
+    }
+    query.terms.push(token.toLowerCase());
+  }
+  return query;
+}
+
+/**
+ * Whether a query has no conditions (it would match every email)
+ */
+export function isEmptySearchQuery(query: EmailSearchQuery): boolean {
+  return (
+    query.terms.length === 0 &&
+    !query.from?.length &&
+    !query.to?.length &&
+    !query.subject?.length &&
+    !query.filename?.length &&
+    !query.after &&
+    !query.before
+  );
+}
+
+function includesAll(values: string[], words: string[] | undefined): boolean {
+  const text = values.join('\n').toLowerCase();
+  return (words ?? []).every((word) => text.includes(word));
+}
+
+/**
+ * Whether a document matches a query
+ */
+export function matchesEmailSearchQuery(
+  document: EmailSearchDocument,
+  query: EmailSearchQuery,
+): boolean {
+  if (query.after && document.date < query.after) {
+    return false;
+  }
+  if (query.before && document.date >= query.before) {
+    return false;
+  }
+  return (
+    includesAll([document.from], query.from) &&
+    includesAll(document.to, query.to) &&
+    includesAll([document.subject], query.subject) &&
+    includesAll(document.attachments, query.filename) &&
+    includesAll(
+      [
+        document.from,
+        ...document.to,
+        document.subject,
+        document.body,
+        ...document.attachments,
+      ],
+      query.terms,
+    )
+  );
+}
+
+/**
+ * Sort documents newest email first
+ */
+export function sortEmailSearchResults(
+  documents: EmailSearchDocument[],
+): EmailSearchDocument[] {
+  return [...documents].sort((a, b) => b.date.getTime() - a.date.getTime());
+}
@@ -1,3 +1,75 @@
-export type { Email, EmailAddress } from './email';
-export { createEmail } from './email';
+export type {
+  DeliveryFeedback,
+  DeliveryFeedbackRecipient,
+  DeliveryFeedbackType,
+} from './deliveryFeedback';
+export type {
+  DeliveryEvent,
+  DeliveryEventType,
+  DeliveryStatus,
+  RecipientDeliveryStatus,
+  RecipientDeliveryStatuses,
+} from './deliveryStatus';
+export { applyDeliveryEvent } from './deliveryStatus';
+export type { DigestEntry, DigestSchedule } from './digest';
+export { DIGEST_SCHEDULES, isDigestSchedule } from './digest';
+export type {
+  AuthenticationStatus,
+  CalendarAttendee,
+  CalendarEvent,
+  CalendarMethod,
+  CalendarParticipationStatus,
+  Email,
+  EmailAddress,
+  EmailAttachment,
+  EmailAuthentication,
+  EmailHeaders,
+  EmailScanVerdicts,
+  ScanVerdict,
+} from './email';
+export {
+  createEmail,
+  getHeader,
+  getHeaderValues,
+  isBulkEmail,
+  isCalendarAttachment,
+  isFlaggedEmail,
+} from './email';
+export type {
+  EmailFilterAction,
+  EmailFilterMatcher,
+  EmailFilterRule,
+} from './emailFilter';
+export {
+  describeEmailFilterRule,
+  findEmailFilterRule,
+} from './emailFilter';
 export type { EmailParser } from './emailParser';
+export type { EmailSearchDocument, EmailSearchQuery } from './emailSearch';
+export {
+  createEmailSearchDocument,
+  isEmptySearchQuery,
+  matchesEmailSearchQuery,
+  parseEmailSearchQuery,
+  sortEmailSearchResults,
+} from './emailSearch';
+export type {
+  ApprovedDomains,
+  InstallationQuery,
+  WorkspaceConfig,
+  WorkspaceInstallation,
+} from './installation';
+export {
+  findInstallationsForEmail,
+  getInstallationId,
+  isDomainApproved,
+} from './installation';
+export type { RedactedEmail, Redaction, RedactionRule } from './redaction';
+export { getRedactionLabel, redactEmail, redactText } from './redaction';
+export type {
+  TriageAction,
+  TriageQuery,
+  TriageState,
+  TriageStatus,
+} from './triage';
+export { applyTriageAction, matchesTriageQuery } from './triage';
@@ -0,0 +1,115 @@
+import type { Email } from './email';
+
+/**
+ * Settings of one Slack workspace, set with `/mail-setup` after installing
+ */
+export interface WorkspaceConfig {
+  /** Channel inbound emails are posted to */
+  channel?: string;
+  /** Domain whose inbound emails go to this workspace, and that it sends from */
+  emailDomain?: string;
+  /** Channel for emails that fail the SES spam/virus scan */
+  quarantineChannel?: string;
+  /** Slack user IDs allowed to run `/mail-replay` in this workspace */
+  adminUserIds?: string[];
+  /** Slack user IDs allowed to view the original of redacted emails */
+  redactionViewerUserIds?: string[];
+}
+
+/**
+ * Domains the operator approved for each workspace, by installation ID
+ * (see getInstallationId); a workspace can only use an approved domain
+ */
+export type ApprovedDomains = Record<string, string[]>;
+
+/**
+ * The app installed into a Slack workspace (or an Enterprise Grid org)
+ * through the OAuth flow
+ */
+export interface WorkspaceInstallation {
+  teamId?: string;
+  enterpriseId?: string;
+  /** Org-wide install; identified by enterpriseId instead of teamId */
+  isEnterpriseInstall: boolean;
+  teamName?: string;
+  botToken: string;
+  botUserId: string;
+  botId?: string;
+  botScopes: string[];
+  /** User who installed the app; allowed to change the config */
+  installerUserId: string;
+  installedAt: Date;
+  config: WorkspaceConfig;
+}
+
+/**
+ * Identifies an installation, as Slack identifies the workspace of a request
+ */
+export interface InstallationQuery {
+  teamId?: string;
+  enterpriseId?: string;
+  isEnterpriseInstall?: boolean;
+}
+
+/**
+ * Key of an installation: the enterprise ID for org-wide installs,
+ * otherwise the team ID
+ *
+ * @throws {Error} If the query has no ID for its kind of install
+ */
+export function getInstallationId(query: InstallationQuery): string {
+  const id = query.isEnterpriseInstall ? query.enterpriseId : query.teamId;
+  if (!id) {
+    throw new Error(
+      query.isEnterpriseInstall
+        ? 'enterpriseId is required for enterprise installs'
+        : 'teamId is required',
+    );
+  }
+  return id;
+}
+
+/**
+ * Whether the operator approved a domain for an installation
+ */
+export function isDomainApproved(
+  approvedDomains: ApprovedDomains,
+  query: InstallationQuery,
+  domain: string,
+): boolean {
+  return (approvedDomains[getInstallationId(query)] ?? []).includes(
+    domain.toLowerCase(),
+  );
+}
+
+/**
+ * Find the installations receiving an email: every one whose email domain
+ * matches a recipient (To, Cc, Bcc or Delivered-To). Recipient headers are
+ * chosen by the sender, so no matching workspace is left out in favor of
+ * another.
+ *
+ * @returns The installations, oldest first as given; empty when no
+ *   workspace is set up for the recipients' domains
+ */
+export function findInstallationsForEmail(
+  email: Email,
+  installations: WorkspaceInstallation[],
+): WorkspaceInstallation[] {
+  const domains = new Set(
+    [
+      ...email.to,
+      ...(email.cc ?? []),
+      ...(email.bcc ?? []),
+      ...(email.deliveredTo ?? []),
+    ].map((recipient) =>
+      recipient.address
+        .slice(recipient.address.lastIndexOf('@') + 1)
+        .toLowerCase(),
+    ),
+  );
+  return installations.filter(
+    (installation) =>
+      !!installation.config.emailDomain &&
+      domains.has(installation.config.emailDomain.toLowerCase()),
+  );
+}
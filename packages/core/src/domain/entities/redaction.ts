@@ -0,0 +1,315 @@
+import type { CalendarEvent, Email, EmailAttachment } from './email';
+import { isCalendarAttachment } from './email';
+
+/**
+ * Sensitive content removed from emails before they are posted
+ */
+export type RedactionRule =
+  /** Card numbers of 13-19 digits (optionally grouped) passing the Luhn check */
+  | { type: 'creditCard' }
+  /** Well-known API key and token formats, private keys and `api_key=...` assignments */
+  | { type: 'apiKey' }
+  /**
+   * Phone numbers of 9-15 digits written with separators or a leading "+"
+   * (e.g. "+1 415 555 0100", "03-1234-5678"); dates are left alone
+   */
+  | { type: 'phone' }
+  /** Case-insensitive regular expression; `name` is shown in the redaction notice */
+  | { type: 'pattern'; name: string; pattern: string };
+
+/**
+ * What was removed by one rule, for the notice on the post
+ */
+export interface Redaction {
+  /** e.g. "card number" */
+  label: string;
+  count: number;
+}
+
+export interface RedactedEmail {
+  /** The email with its subject and body redacted */
+  email: Email;
+  /** Empty when nothing was redacted (the email is returned unchanged) */
+  redactions: Redaction[];
+}
+
+const CARD_NUMBER = /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g;
+
+const API_KEY_PATTERNS = [
+  // AWS access key IDs
+  /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  // GitHub tokens
+  /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g,
+  /\bgithub_pat_[A-Za-z0-9_]{22,}\b/g,
+  // Slack tokens
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  // Stripe keys
+  /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g,
+  // Google API keys
+  /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  // "sk-" secret keys (e.g. OpenAI)
+  /\bsk-[A-Za-z0-9_-]{20,}/g,
+  // PEM private keys
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  // Assignments such as api_key=... or client_secret: ...
+  /\b(?:api[_-]?key|access[_-]?token|secret[_-]?key|client[_-]?secret)\b["']?\s*[:=]\s*["']?[A-Za-z0-9_\-./+=]{8,}/gi,
+];
+
+const PHONE_NUMBER =
+  /(?<![\w+])(?:\+\d{1,3}[ -]?)?(?:\(\d{1,4}\)[ -]?)?\d{1,4}(?:[ -]\d{2,4}){1,4}(?![\w-])/g;
+
+const DATE_PREFIX = /^\d{4}-\d{2}-\d{2}/;
+
+/** Label shown in the notice, per built-in rule type */
+const LABELS: Record<Exclude<RedactionRule['type'], 'pattern'>, string> = {
+  creditCard: 'card number',
+  apiKey: 'API key',
+  phone: 'phone number',
+};
+
+function digitsOf(text: string): string {
+  return text.replace(/\D/g, '');
+}
+
+/**
+ * Luhn checksum, used by card numbers to catch typos
+ */
+function passesLuhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isCardNumber(match: string): boolean {
+  const digits = digitsOf(match);
+  return digits.length >= 13 && digits.length <= 19 && passesLuhnCheck(digits);
+}
+
+function isPhoneNumber(match: string): boolean {
+  const digits = digitsOf(match);
+  return digits.length >= 9 && digits.length <= 15 && !DATE_PREFIX.test(match);
+}
+
+/**
+ * Label of a rule in the redaction notice
+ */
+export function getRedactionLabel(rule: RedactionRule): string {
+  return rule.type === 'pattern' ? rule.name : LABELS[rule.type];
+}
+
+function placeholder(label: string): string {
+  return `[REDACTED ${label}]`;
+}
+
+/**
+ * Replace the matches of one rule
+ *
+ * @returns The redacted text and the number of replaced matches
+ */
+function applyRule(
+  text: string,
+  rule: RedactionRule,
+): { text: string; count: number } {
+  const replacement = placeholder(getRedactionLabel(rule));
+  let count = 0;
+  const replace = (
+    value: string,
+    pattern: RegExp,
+    accept: (match: string) => boolean = () => true,
+  ) =>
+    value.replace(pattern, (match) => {
+      if (match === '' || !accept(match)) {
+        return match;
+      }
+      count++;
+      return replacement;
+    });
+
+  let redacted = text;
+  switch (rule.type) {
+    case 'creditCard':
+      redacted = replace(text, CARD_NUMBER, isCardNumber);
+      break;
+    case 'apiKey':
+      for (const pattern of API_KEY_PATTERNS) {
+        redacted = replace(redacted, pattern);
+      }
+      break;
+    case 'phone':
+      redacted = replace(text, PHONE_NUMBER, isPhoneNumber);
+      break;
+    case 'pattern':
+      redacted = replace(text, new RegExp(rule.pattern, 'gi'));
+      break;
+  }
+  return { text: redacted, count };
+}
+
+/**
+ * Redact text with the rules, in order (so card numbers are not also
+ * counted as phone numbers when creditCard is listed first)
+ *
+ * @returns The redacted text and the matches per label
+ */
+export function redactText(
+  text: string,
+  rules: RedactionRule[],
+): { text: string; counts: Map<string, number> } {
+  const counts = new Map<string, number>();
+  let redacted = text;
+  for (const rule of rules) {
+    const result = applyRule(redacted, rule);
+    redacted = result.text;
+    if (result.count > 0) {
+      const label = getRedactionLabel(rule);
+      counts.set(label, (counts.get(label) ?? 0) + result.count);
+    }
+  }
+  return { text: redacted, counts };
+}
+
+type LabelCounts = Map<string, number>;
+
+function addCounts(total: LabelCounts, counts: LabelCounts): void {
+  for (const [label, count] of counts) {
+    total.set(label, (total.get(label) ?? 0) + count);
+  }
+}
+
+/**
+ * Redact the text fields of calendar events (summary, description,
+ * location, and organizer and attendee names)
+ */
+function redactCalendarEvents(
+  events: CalendarEvent[],
+  rules: RedactionRule[],
+): { events: CalendarEvent[]; counts: LabelCounts } {
+  const counts: LabelCounts = new Map();
+  const redact = (value: string): string => {
+    const result = redactText(value, rules);
+    addCounts(counts, result.counts);
+    return result.text;
+  };
+  const redactOptional = (value: string | undefined) =>
+    value === undefined ? undefined : redact(value);
+  const redactName = <T extends { name?: string }>(person: T): T =>
+    person.name === undefined
+      ? person
+      : { ...person, name: redact(person.name) };
+
+  const redacted = events.map((event) => ({
+    ...event,
+    summary: redact(event.summary),
+    description: redactOptional(event.description),
+    location: redactOptional(event.location),
+    organizer: event.organizer && redactName(event.organizer),
+    attendees: event.attendees.map(redactName),
+  }));
+  return { events: redacted, counts };
+}
+
+/**
+ * Redact the content of calendar attachments (.ics), which is uploaded
+ * into the thread as text. Other attachments are kept.
+ */
+function redactCalendarAttachments(
+  attachments: EmailAttachment[],
+  rules: RedactionRule[],
+): { attachments: EmailAttachment[]; counts: LabelCounts } {
+  const counts: LabelCounts = new Map();
+  const redacted = attachments.map((attachment) => {
+    if (!attachment.content || !isCalendarAttachment(attachment)) {
+      return attachment;
+    }
+    const result = redactText(attachment.content.toString('utf8'), rules);
+    if (result.counts.size === 0) {
+      return attachment;
+    }
+    addCounts(counts, result.counts);
+    const content = Buffer.from(result.text, 'utf8');
+    return { ...attachment, content, size: content.length };
+  });
+  return { attachments: redacted, counts };
+}
+
+/**
+ * Redact everything posted from an email: the subject, the body (text and
+ * HTML), calendar events and calendar attachments. Everything posted from
+ * them, including the full body uploaded into the thread, is then redacted
+ * as well. Headers and other attachments are kept.
+ *
+ * The body parts, calendar events and calendar attachments usually hold
+ * the same content (an invitation repeats its description), so a label is
+ * counted once for them (whichever has the most matches).
+ */
+export function redactEmail(
+  email: Email,
+  rules: RedactionRule[],
+): RedactedEmail {
+  if (rules.length === 0) {
+    return { email, redactions: [] };
+  }
+
+  const subject = redactText(email.subject, rules);
+  const text =
+    email.body.text !== undefined
+      ? redactText(email.body.text, rules)
+      : undefined;
+  const html =
+    email.body.html !== undefined
+      ? redactText(email.body.html, rules)
+      : undefined;
+  const calendar = email.calendarEvents
+    ? redactCalendarEvents(email.calendarEvents, rules)
+    : undefined;
+  const attachments = email.attachments
+    ? redactCalendarAttachments(email.attachments, rules)
+    : undefined;
+  const contentCounts = [
+    text?.counts,
+    html?.counts,
+    calendar?.counts,
+    attachments?.counts,
+  ];
+
+  const redactions: Redaction[] = [];
+  for (const rule of rules) {
+    const label = getRedactionLabel(rule);
+    if (redactions.some((redaction) => redaction.label === label)) {
+      continue;
+    }
+    const count =
+      (subject.counts.get(label) ?? 0) +
+      Math.max(...contentCounts.map((counts) => counts?.get(label) ?? 0));
+    if (count > 0) {
+      redactions.push({ label, count });
+    }
+  }
+  if (redactions.length === 0) {
+    return { email, redactions };
+  }
+
+  return {
+    email: {
+      ...email,
+      subject: subject.text,
+      body: {
+        ...email.body,
+        ...(text && { text: text.text }),
+        ...(html && { html: html.text }),
+      },
+      ...(calendar && { calendarEvents: calendar.events }),
+      ...(attachments && { attachments: attachments.attachments }),
+    },
+    redactions,
+  };
+}
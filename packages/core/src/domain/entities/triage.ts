@@ -0,0 +1,84 @@
+/**
+ * Triage status of an email post in a shared inbox channel
+ */
+export type TriageStatus = 'open' | 'done';
+
+/**
+ * Action a user takes on an email post
+ */
+export type TriageAction =
+  | { type: 'assign'; assignee: string }
+  | { type: 'done' }
+  | { type: 'reopen' };
+
+/**
+ * Owner and status of an email post, keyed by the Slack message
+ */
+export interface TriageState {
+  channel: string;
+  /** Timestamp of the email post */
+  messageTs: string;
+  /** Message-ID of the email */
+  messageId: string;
+  subject?: string;
+  /** Sender address of the email */
+  from?: string;
+  status: TriageStatus;
+  /** Slack user ID of the owner */
+  assignee?: string;
+  /** Slack user ID of the user who made the last change */
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+/**
+ * Filter for listing triage states; all given conditions must match
+ */
+export interface TriageQuery {
+  channel?: string;
+  status?: TriageStatus;
+  /** Slack user ID of the owner, or null for unassigned emails */
+  assignee?: string | null;
+}
+
+/**
+ * Apply a user's action to a triage state
+ *
+ * @param user - Slack user ID of the user taking the action
+ * @returns New state; the given one is not modified
+ */
+export function applyTriageAction(
+  state: TriageState,
+  action: TriageAction,
+  user: string,
+  now = new Date(),
+): TriageState {
+  const updated = { ...state, updatedBy: user, updatedAt: now };
+  switch (action.type) {
+    case 'assign':
+      return { ...updated, assignee: action.assignee };
+    case 'done':
+      return { ...updated, status: 'done' };
+    case 'reopen':
+      return { ...updated, status: 'open' };
+  }
+}
+
+/**
+ * Whether a triage state matches a query
+ */
+export function matchesTriageQuery(
+  state: TriageState,
+  query: TriageQuery,
+): boolean {
+  if (query.channel !== undefined && state.channel !== query.channel) {
+    return false;
+  }
+  if (query.status !== undefined && state.status !== query.status) {
+    return false;
+  }
+  if (query.assignee !== undefined) {
+    return (state.assignee ?? null) === query.assignee;
+  }
+  return true;
+}
@@ -0,0 +1,46 @@
+/**
+ * An email that could not be delivered after all retries.
+ */
+export interface DeadLetterRecord {
+  /** Stable ID, the same for repeated failures of the same email */
+  id: string;
+  /** Storage key of the raw email; records without one cannot be replayed */
+  storageKey?: string;
+  messageId: string;
+  from: string;
+  subject: string;
+  channel: string;
+  error: string;
+  errorCode?: string;
+  attempts: number;
+  failedAt: Date;
+}
+
+/**
+ * Repository interface for the dead-letter store of failed deliveries.
+ * Implementations can be S3, local filesystem, or any other storage backend.
+ */
+export interface DeadLetterRepository {
+  /**
+   * Store a record, replacing any record with the same ID.
+   */
+  save(record: DeadLetterRecord): Promise<void>;
+
+  /**
+   * List stored records, oldest failure first.
+   */
+  list(): Promise<DeadLetterRecord[]>;
+
+  /**
+   * Find a record by ID.
+   *
+   * @returns The record, or undefined if it does not exist
+   */
+  find(id: string): Promise<DeadLetterRecord | undefined>;
+
+  /**
+   * Remove a record (e.g., after it has been replayed).
+   * Removing a missing record is not an error.
+   */
+  remove(id: string): Promise<void>;
+}
@@ -0,0 +1,24 @@
+import type { DigestEntry, DigestSchedule } from '../entities/digest';
+
+/**
+ * Repository interface for emails buffered for a digest, keyed by
+ * schedule and storage key.
+ */
+export interface DigestBufferRepository {
+  /**
+   * Buffer an email, replacing any entry with the same schedule and
+   * storage key.
+   */
+  addToDigest(entry: DigestEntry): Promise<void>;
+
+  /**
+   * List the entries of a schedule, oldest email first.
+   */
+  listDigest(schedule: DigestSchedule): Promise<DigestEntry[]>;
+
+  /**
+   * Remove an entry once it has been posted. Removing an unknown entry is
+   * not an error.
+   */
+  removeFromDigest(entry: DigestEntry): Promise<void>;
+}
@@ -1,2 +1,22 @@
+export type {
+  DeadLetterRecord,
+  DeadLetterRepository,
+} from './deadLetterRepository';
+export type { DigestBufferRepository } from './digestBufferRepository';
+export type { InstallationRepository } from './installationRepository';
 export type { MailRepository } from './mailRepository';
+export type {
+  ProcessedEmailKey,
+  ProcessedEmailRepository,
+} from './processedEmailRepository';
+export type { SearchIndexRepository } from './searchIndexRepository';
+export type {
+  SentEmailRecord,
+  SentEmailRepository,
+} from './sentEmailRepository';
 export type { StorageRepository } from './storageRepository';
+export type {
+  ThreadIndexRepository,
+  ThreadLocation,
+} from './threadIndexRepository';
+export type { TriageRepository } from './triageRepository';
@@ -0,0 +1,36 @@
+import type {
+  InstallationQuery,
+  WorkspaceInstallation,
+} from '../entities/installation';
+
+/**
+ * Repository interface for the workspaces the Slack app is installed in,
+ * keyed by team ID (or enterprise ID for org-wide installs).
+ * Implementations can be S3, local filesystem, or any other storage backend.
+ */
+export interface InstallationRepository {
+  /**
+   * Store an installation, replacing any installation of the same workspace.
+   */
+  saveInstallation(installation: WorkspaceInstallation): Promise<void>;
+
+  /**
+   * Find the installation of a workspace.
+   *
+   * @returns The installation, or undefined if the app is not installed there
+   */
+  findInstallation(
+    query: InstallationQuery,
+  ): Promise<WorkspaceInstallation | undefined>;
+
+  /**
+   * List every installation, oldest first.
+   */
+  listInstallations(): Promise<WorkspaceInstallation[]>;
+
+  /**
+   * Remove an installation (e.g., after the app was uninstalled).
+   * Removing a missing installation is not an error.
+   */
+  deleteInstallation(query: InstallationQuery): Promise<void>;
+}
@@ -0,0 +1,32 @@
+/**
+ * Identifies a received email for duplicate detection.
+ */
+export interface ProcessedEmailKey {
+  /** Storage key the raw email was read from (e.g., S3 object key) */
+  storageKey: string;
+  /** Message ID of the email (without angle brackets) */
+  messageId: string;
+}
+
+/**
+ * Repository interface for the idempotency store of delivered emails.
+ *
+ * Storage events are delivered at least once, and a failed batch is retried
+ * as a whole, so the same email can be received more than once. An email
+ * counts as delivered when either its storage key or its Message-ID has
+ * been recorded (the same message can also be stored under two keys).
+ */
+export interface ProcessedEmailRepository {
+  /**
+   * Check whether an email was already delivered.
+   *
+   * @returns True if the storage key or the Message-ID has been recorded
+   */
+  hasProcessed(key: ProcessedEmailKey): Promise<boolean>;
+
+  /**
+   * Record an email as delivered.
+   * Called only after the email has been handed to onEmailReceived.
+   */
+  markProcessed(key: ProcessedEmailKey): Promise<void>;
+}
@@ -0,0 +1,26 @@
+import type {
+  EmailSearchDocument,
+  EmailSearchQuery,
+} from '../entities/emailSearch';
+
+/**
+ * Repository interface for the full-text search index of received emails,
+ * keyed by Message-ID.
+ */
+export interface SearchIndexRepository {
+  /**
+   * Add an email to the index, replacing any document with the same
+   * Message-ID.
+   */
+  indexEmail(document: EmailSearchDocument): Promise<void>;
+
+  /**
+   * Find documents matching the query, newest email first.
+   *
+   * @param limit - Maximum number of documents returned
+   */
+  search(
+    query: EmailSearchQuery,
+    limit?: number,
+  ): Promise<EmailSearchDocument[]>;
+}
@@ -0,0 +1,63 @@
+import type { RecipientDeliveryStatuses } from '../entities/deliveryStatus';
+import type { InstallationQuery } from '../entities/installation';
+
+/**
+ * An email sent from Slack, with the Slack message confirming the send.
+ */
+export interface SentEmailRecord {
+  /** Message ID returned by the mail service (e.g. the SES message ID) */
+  messageId: string;
+  channel: string;
+  /** Timestamp of the "Email Sent Successfully" / "Reply Sent" message */
+  messageTs: string;
+  /** Thread the confirmation was posted in, if it is a thread reply */
+  threadTs?: string;
+  recipients: string[];
+  subject: string;
+  /** Sender address */
+  from?: string;
+  /** True for replies sent from the Reply modal */
+  isReply?: boolean;
+  /** Slack user ID of the user who sent it, when shown */
+  sentBy?: string;
+  sentAt: Date;
+  /** Delivery state per recipient, from delivery events */
+  deliveries?: RecipientDeliveryStatuses;
+  /** Workspace it was sent from (multi-workspace apps) */
+  installation?: InstallationQuery;
+}
+
+/**
+ * Repository interface for sent emails, keyed by the mail service's
+ * message ID.
+ *
+ * Used to post delivery feedback (bounces, complaints) next to the message
+ * that confirmed the send.
+ */
+export interface SentEmailRepository {
+  /**
+   * Record a sent email, replacing any record with the same message ID.
+   */
+  saveSentEmail(record: SentEmailRecord): Promise<void>;
+
+  /**
+   * Find a sent email by the mail service's message ID.
+   *
+   * @returns The record, or undefined if it is not known
+   */
+  findSentEmail(messageId: string): Promise<SentEmailRecord | undefined>;
+
+  /**
+   * Update a sent email from its current record. Concurrent updates of the
+   * same record (e.g. delivery events of several recipients) are applied one
+   * after another, never overwriting each other.
+   *
+   * @param update - Returns the new record from the current one; may be
+   *   called again with a newer record
+   * @returns The updated record, or undefined if it is not known
+   */
+  updateSentEmail(
+    messageId: string,
+    update: (record: SentEmailRecord) => SentEmailRecord,
+  ): Promise<SentEmailRecord | undefined>;
+}
@@ -5,8 +5,11 @@
 export interface StorageRepository {
   /**
    * Fetch raw email content from storage.
+   * Returned as bytes: raw emails may contain 8-bit text in any charset
+   * (e.g. Shift_JIS, ISO-8859-1) and binary parts, so decoding is left to
+   * the EmailParser.
    * @param key - The storage key (e.g., S3 object key)
-   * @returns The raw email content as a string
+   * @returns The raw email content as bytes
    */
-  fetchRawEmail(key: string): Promise<string>;
+  fetchRawEmail(key: string): Promise<Buffer>;
 }
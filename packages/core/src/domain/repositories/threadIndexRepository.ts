@@ -0,0 +1,32 @@
+/**
+ * Location of the Slack thread an email conversation is posted into.
+ */
+export interface ThreadLocation {
+  channel: string;
+  /** Timestamp of the thread's root message */
+  threadTs: string;
+}
+
+/**
+ * Repository interface for the email Message-ID → Slack thread index.
+ *
+ * Used to post follow-up emails (replies carrying In-Reply-To/References)
+ * as thread replies under the first message of the conversation.
+ */
+export interface ThreadIndexRepository {
+  /**
+   * Find the thread of the first indexed message ID.
+   *
+   * @param messageIds - Message IDs to look up, in order of preference
+   * @returns The thread location, or undefined if none of the IDs are indexed
+   */
+  findThread(messageIds: string[]): Promise<ThreadLocation | undefined>;
+
+  /**
+   * Record the thread a message was posted into.
+   *
+   * @param messageId - Message ID of the email (without angle brackets)
+   * @param location - Thread the email was posted into
+   */
+  saveThread(messageId: string, location: ThreadLocation): Promise<void>;
+}
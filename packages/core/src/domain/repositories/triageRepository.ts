@@ -0,0 +1,30 @@
+import type { TriageQuery, TriageState } from '../entities/triage';
+
+/**
+ * Repository interface for the triage state (owner, status) of email posts,
+ * keyed by channel and message timestamp.
+ *
+ * The state lives outside the Slack message so it survives edits to the
+ * post and can be queried (e.g. open emails assigned to a user).
+ */
+export interface TriageRepository {
+  /**
+   * Store a state, replacing any state of the same post.
+   */
+  saveTriage(state: TriageState): Promise<void>;
+
+  /**
+   * Find the state of a post.
+   *
+   * @returns The state, or undefined if the post is not known
+   */
+  findTriage(
+    channel: string,
+    messageTs: string,
+  ): Promise<TriageState | undefined>;
+
+  /**
+   * List states matching the query, oldest post first.
+   */
+  listTriage(query?: TriageQuery): Promise<TriageState[]>;
+}
@@ -0,0 +1,57 @@
+import type {
+  InstallationQuery,
+  WorkspaceInstallation,
+} from '../domain/entities/installation';
+import type { InstallationRepository } from '../domain/repositories/installationRepository';
+
+/**
+ * InstallationRepository that lists the installations of another one once,
+ * e.g. once per Lambda invocation instead of once per received email.
+ * Call clear() when an invocation starts; saving or deleting an
+ * installation clears the list as well.
+ */
+export class CachedInstallationRepository implements InstallationRepository {
+  private readonly repository: InstallationRepository;
+  private listed?: Promise<WorkspaceInstallation[]>;
+
+  constructor(repository: InstallationRepository) {
+    this.repository = repository;
+  }
+
+  /**
+   * Forget the listed installations, so the next list reads them again
+   */
+  clear(): void {
+    this.listed = undefined;
+  }
+
+  async saveInstallation(installation: WorkspaceInstallation): Promise<void> {
+    this.clear();
+    await this.repository.saveInstallation(installation);
+  }
+
+  findInstallation(
+    query: InstallationQuery,
+  ): Promise<WorkspaceInstallation | undefined> {
+    return this.repository.findInstallation(query);
+  }
+
+  listInstallations(): Promise<WorkspaceInstallation[]> {
+    if (!this.listed) {
+      const listed = this.repository.listInstallations();
+      this.listed = listed;
+      // A failed list is read again next time instead of failing for good
+      listed.catch(() => {
+        if (this.listed === listed) {
+          this.listed = undefined;
+        }
+      });
+    }
+    return this.listed;
+  }
+
+  async deleteInstallation(query: InstallationQuery): Promise<void> {
+    this.clear();
+    await this.repository.deleteInstallation(query);
+  }
+}
@@ -0,0 +1,121 @@
+import type { DigestSchedule } from '../domain/entities/digest';
+
+const DEFAULT_DAILY_HOUR = 9;
+
+export interface DigestSchedulerConfig {
+  /** Posts the digest of a schedule (e.g. from createDigestPublisher) */
+  publish: (schedule: DigestSchedule) => Promise<unknown>;
+  /** Hour of the day (local time, 0-23) for the daily digest (default: 9) */
+  dailyHour?: number;
+}
+
+/**
+ * Milliseconds from `now` until the next full hour
+ */
+function untilNextHour(now: Date): number {
+  const next = new Date(now);
+  next.setMinutes(0, 0, 0);
+  next.setHours(next.getHours() + 1);
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Milliseconds from `now` until the next time the clock shows `hour`:00
+ */
+function untilDailyHour(now: Date, hour: number): number {
+  const next = new Date(now);
+  next.setHours(hour, 0, 0, 0);
+  if (next.getTime() <= now.getTime()) {
+    next.setDate(next.getDate() + 1);
+  }
+  return next.getTime() - now.getTime();
+}
+
+/**
+ * Timer for digest mode without a cloud scheduler: posts the hourly digest
+ * at every full hour and the daily digest once a day, both in local time.
+ *
+ * Publishing runs one digest at a time; a failed run is logged and the
+ * emails stay buffered for the next one.
+ */
+export class DigestScheduler {
+  private readonly publish: DigestSchedulerConfig['publish'];
+  private readonly dailyHour: number;
+  private readonly timers = new Map<DigestSchedule, NodeJS.Timeout>();
+  private running: Promise<void> = Promise.resolve();
+
+  constructor(config: DigestSchedulerConfig) {
+    if (
+      config.dailyHour !== undefined &&
+      (!Number.isInteger(config.dailyHour) ||
+        config.dailyHour < 0 ||
+        config.dailyHour > 23)
+    ) {
+      throw new Error(
+        `dailyHour must be an hour between 0 and 23: ${config.dailyHour}`,
+      );
+    }
+    this.publish = config.publish;
+    this.dailyHour = config.dailyHour ?? DEFAULT_DAILY_HOUR;
+  }
+
+  /**
+   * Schedule the next hourly and daily digests
+   */
+  start(): void {
+    this.schedule('hourly');
+    this.schedule('daily');
+    console.log(
+      `Digests scheduled: hourly, and daily at ${this.dailyHour}:00 local time`,
+    );
+  }
+
+  /**
+   * Cancel the timers; waits for the digest in progress to finish
+   */
+  async stop(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await this.running;
+  }
+
+  /**
+   * Post every digest now (e.g. before shutting down with an in-memory
+   * buffer)
+   */
+  async flush(): Promise<void> {
+    await this.run('hourly');
+    await this.run('daily');
+  }
+
+  private schedule(schedule: DigestSchedule): void {
+    const now = new Date();
+    const delay =
+      schedule === 'hourly'
+        ? untilNextHour(now)
+        : untilDailyHour(now, this.dailyHour);
+    this.timers.set(
+      schedule,
+      setTimeout(() => {
+        void this.run(schedule);
+        this.schedule(schedule);
+      }, delay),
+    );
+  }
+
+  /**
+   * Publish a digest after the one in progress, if any
+   */
+  private run(schedule: DigestSchedule): Promise<void> {
+    this.running = this.running.then(async () => {
+      try {
+        await this.publish(schedule);
+      } catch (error) {
+        console.error(`Failed to publish ${schedule} digest:`, error);
+      }
+    });
+    return this.running;
+  }
+}
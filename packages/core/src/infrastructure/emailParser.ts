@@ -1,7 +1,24 @@
-import { type AddressObject, simpleParser } from 'mailparser';
-import type { Email, EmailAddress } from '../domain/entities/email';
-import { createEmail } from '../domain/entities/email';
+import {
+  type AddressObject,
+  type Attachment,
+  type HeaderLines,
+  type Headers,
+  simpleParser,
+} from 'mailparser';
+import type {
+  AuthenticationStatus,
+  CalendarEvent,
+  Email,
+  EmailAddress,
+  EmailAttachment,
+  EmailAuthentication,
+  EmailHeaders,
+  EmailScanVerdicts,
+  ScanVerdict,
+} from '../domain/entities/email';
+import { createEmail, isCalendarAttachment } from '../domain/entities/email';
 import type { EmailParser } from '../domain/entities/emailParser';
+import { parseICalendar } from './icalendarParser';
 
 /**
  * Convert mailparser AddressObject to our EmailAddress format
@@ -16,6 +33,233 @@ function convertAddress(addr: AddressObject | undefined): EmailAddress[] {
   }));
 }
 
+/**
+ * Whether a part is an iCalendar object (meeting invitation)
+ */
+function isCalendarPart(attachment: Attachment): boolean {
+  return isCalendarAttachment({
+    contentType: attachment.contentType,
+    filename: attachment.filename ?? '',
+  });
+}
+
+/**
+ * Drop calendar parts whose content repeats an earlier one: invitations
+ * often carry the same iCalendar object both as the text/calendar
+ * alternative and as an invite.ics attachment.
+ */
+function dropDuplicateCalendarParts(attachments: Attachment[]): Attachment[] {
+  const seen = new Set<string>();
+  return attachments.filter((attachment) => {
+    if (!isCalendarPart(attachment)) {
+      return true;
+    }
+    // Line endings and trailing newlines differ between the copies
+    const content = attachment.content
+      .toString('utf8')
+      .replace(/\r\n/g, '\n')
+      .trim();
+    if (seen.has(content)) {
+      return false;
+    }
+    seen.add(content);
+    return true;
+  });
+}
+
+/**
+ * Convert mailparser attachments to our EmailAttachment format.
+ * Unnamed parts get a positional fallback name so they can still be uploaded
+ * (`invite.ics` for calendar parts).
+ */
+function convertAttachments(attachments: Attachment[]): EmailAttachment[] {
+  return attachments.map((a, index) => ({
+    filename:
+      a.filename ||
+      (isCalendarPart(a) ? 'invite.ics' : `attachment-${index + 1}`),
+    contentType: a.contentType,
+    size: a.size,
+    content: a.content,
+    contentId: a.cid || undefined,
+    inline: a.related || undefined,
+  }));
+}
+
+/**
+ * Read the events of all calendar parts. A part that cannot be read is
+ * skipped (it is still attached), so the email is posted anyway.
+ */
+function convertCalendarEvents(attachments: Attachment[]): CalendarEvent[] {
+  return attachments.filter(isCalendarPart).flatMap((attachment) => {
+    try {
+      return parseICalendar(attachment.content.toString('utf8'));
+    } catch (error) {
+      console.warn(
+        `Failed to read calendar part ${attachment.filename ?? attachment.contentType}:`,
+        error,
+      );
+      return [];
+    }
+  });
+}
+
+/**
+ * Collect header lines into a map keyed by lowercased name, with folded
+ * values unfolded
+ */
+function convertHeaders(headerLines: HeaderLines): EmailHeaders {
+  const headers: EmailHeaders = {};
+  for (const { key, line } of headerLines) {
+    const name = key.toLowerCase();
+    const value = line
+      .slice(line.indexOf(':') + 1)
+      .replace(/\r?\n[ \t]+/g, ' ')
+      .trim();
+    headers[name] = [...(headers[name] ?? []), value];
+  }
+  return headers;
+}
+
+/**
+ * Mailboxes from Delivered-To headers (added by each delivering MTA), or
+ * X-Original-To when there are none
+ */
+function convertDeliveredTo(headers: EmailHeaders): EmailAddress[] {
+  const values = headers['delivered-to'] ?? headers['x-original-to'] ?? [];
+  const addresses = values
+    .map((value) => value.replace(/^<|>$/g, '').trim())
+    .filter(Boolean);
+  return [...new Set(addresses)].map((address) => ({ address }));
+}
+
+const SCAN_VERDICTS: ScanVerdict[] = [
+  'PASS',
+  'FAIL',
+  'GRAY',
+  'PROCESSING_FAILED',
+];
+
+/**
+ * Read a scan verdict header value (e.g., "FAIL").
+ * Unknown values are ignored.
+ */
+function parseVerdict(value: unknown): ScanVerdict | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const verdict = value.trim().toUpperCase() as ScanVerdict;
+  return SCAN_VERDICTS.includes(verdict) ? verdict : undefined;
+}
+
+/**
+ * Read a scan verdict header that may be repeated (mailparser returns an
+ * array then). SES prepends its own header, so the topmost value is used,
+ * but any FAIL wins: a sender adding a second header must not be able to
+ * turn off flagging.
+ */
+function parseVerdictHeader(value: unknown): ScanVerdict | undefined {
+  const verdicts = (Array.isArray(value) ? value : [value]).map(parseVerdict);
+  return verdicts.includes('FAIL') ? 'FAIL' : verdicts.find(Boolean);
+}
+
+/**
+ * Convert SES receipt scan headers (X-SES-Spam-Verdict, X-SES-Virus-Verdict)
+ * to our EmailScanVerdicts format
+ */
+function convertVerdicts(headers: Headers): EmailScanVerdicts | undefined {
+  const spam = parseVerdictHeader(headers.get('x-ses-spam-verdict'));
+  const virus = parseVerdictHeader(headers.get('x-ses-virus-verdict'));
+  if (!spam && !virus) {
+    return undefined;
+  }
+  return { spam, virus };
+}
+
+const AUTHENTICATION_STATUSES: AuthenticationStatus[] = [
+  'pass',
+  'fail',
+  'softfail',
+  'neutral',
+  'none',
+  'policy',
+  'temperror',
+  'permerror',
+];
+
+function parseAuthenticationStatus(
+  value: string | undefined,
+): AuthenticationStatus | undefined {
+  const status = value?.trim().toLowerCase() as AuthenticationStatus;
+  return AUTHENTICATION_STATUSES.includes(status) ? status : undefined;
+}
+
+/**
+ * authserv-id of an Authentication-Results value: the host name before the
+ * first ";", without comments or the optional version
+ */
+function getAuthServId(value: string): string {
+  return (
+    value
+      .split(';')[0]
+      .replace(/\([^)]*\)/g, '')
+      .trim()
+      .split(/\s+/)[0]
+      ?.toLowerCase() ?? ''
+  );
+}
+
+/**
+ * Convert Authentication-Results (RFC 8601) headers to our
+ * EmailAuthentication format.
+ *
+ * Senders can add these headers themselves, so only the topmost
+ * Authentication-Results header from a trusted authserv-id is used (the
+ * receiving service, e.g. SES, prepends its own). Received-SPF is ignored:
+ * it carries no authserv-id, so a forged one cannot be told apart. With
+ * several DKIM signatures, one passing signature is enough.
+ */
+function convertAuthentication(
+  headers: Headers,
+  trustedAuthServIds: Set<string>,
+): EmailAuthentication | undefined {
+  if (trustedAuthServIds.size === 0) {
+    return undefined;
+  }
+  const authResults = headers.get('authentication-results');
+  const trusted = (Array.isArray(authResults) ? authResults : [authResults])
+    .filter((value): value is string => typeof value === 'string')
+    .find((value) => trustedAuthServIds.has(getAuthServId(value)));
+  if (!trusted) {
+    return undefined;
+  }
+
+  const authentication: EmailAuthentication = {};
+  // Drop comments, e.g. "spf=pass (spfCheck: domain of ...)"
+  const withoutComments = trusted.replace(/\([^)]*\)/g, '');
+  for (const match of withoutComments.matchAll(
+    /\b(spf|dkim|dmarc)\s*=\s*([a-z]+)/gi,
+  )) {
+    const method = match[1].toLowerCase() as keyof EmailAuthentication;
+    const status = parseAuthenticationStatus(match[2]);
+    if (status && (!authentication[method] || status === 'pass')) {
+      authentication[method] = status;
+    }
+  }
+
+  return Object.values(authentication).some(Boolean)
+    ? authentication
+    : undefined;
+}
+
+export interface MailparserEmailParserOptions {
+  /**
+   * authserv-ids whose Authentication-Results headers are trusted, e.g.
+   * "amazonses.com" behind SES or the host name of the local MTA.
+   * Without any, authentication results are left unknown.
+   */
+  trustedAuthServIds?: string[];
+}
+
 /**
  * Email parser using mailparser library.
  * Properly handles MIME multipart messages, encodings, and attachments.
@@ -23,6 +267,14 @@ function convertAddress(addr: AddressObject | undefined): EmailAddress[] {
  * @see ADR 005: Use mailparser for email parsing
  */
 export class MailparserEmailParser implements EmailParser {
+  private readonly trustedAuthServIds: Set<string>;
+
+  constructor(options: MailparserEmailParserOptions = {}) {
+    this.trustedAuthServIds = new Set(
+      (options.trustedAuthServIds ?? []).map((id) => id.trim().toLowerCase()),
+    );
+  }
+
   async parse(raw: string | Buffer): Promise<Email> {
     const parsed = await simpleParser(raw);
 
@@ -36,6 +288,13 @@ export class MailparserEmailParser implements EmailParser {
         : { name: undefined, address: '' };
     const to = convertAddress(parsed.to as AddressObject | undefined);
     const cc = convertAddress(parsed.cc as AddressObject | undefined);
+    const bcc = convertAddress(parsed.bcc as AddressObject | undefined);
+    const replyTo = convertAddress(parsed.replyTo);
+    const headers = convertHeaders(parsed.headerLines ?? []);
+    const deliveredTo = convertDeliveredTo(headers);
+    const parts = dropDuplicateCalendarParts(parsed.attachments ?? []);
+    const attachments = convertAttachments(parts);
+    const calendarEvents = convertCalendarEvents(parts);
 
     return createEmail({
       messageId:
@@ -43,6 +302,8 @@ export class MailparserEmailParser implements EmailParser {
       from,
       to,
       cc: cc.length > 0 ? cc : undefined,
+      bcc: bcc.length > 0 ? bcc : undefined,
+      replyTo: replyTo[0],
       subject: parsed.subject || '(no subject)',
       body: {
         text: parsed.text || undefined,
@@ -56,6 +317,15 @@ export class MailparserEmailParser implements EmailParser {
             : [parsed.references]
           ).map((r) => r.replace(/^<|>$/g, ''))
         : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      verdicts: convertVerdicts(parsed.headers),
+      authentication: convertAuthentication(
+        parsed.headers,
+        this.trustedAuthServIds,
+      ),
+      calendarEvents: calendarEvents.length > 0 ? calendarEvents : undefined,
+      deliveredTo: deliveredTo.length > 0 ? deliveredTo : undefined,
+      headers,
     });
   }
 
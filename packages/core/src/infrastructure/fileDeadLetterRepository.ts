@@ -0,0 +1,93 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  DeadLetterRecord,
+  DeadLetterRepository,
+} from '../domain/repositories/deadLetterRepository';
+
+/**
+ * Serialize a record to JSON (dates as ISO strings)
+ */
+export function serializeDeadLetterRecord(record: DeadLetterRecord): string {
+  return JSON.stringify(
+    { ...record, failedAt: record.failedAt.toISOString() },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parse a record serialized with serializeDeadLetterRecord
+ */
+export function parseDeadLetterRecord(json: string): DeadLetterRecord {
+  const record = JSON.parse(json) as Omit<DeadLetterRecord, 'failedAt'> & {
+    failedAt: string;
+  };
+  return { ...record, failedAt: new Date(record.failedAt) };
+}
+
+/**
+ * Local directory implementation of DeadLetterRepository.
+ * Stores one JSON file per record, named after the record ID.
+ */
+export class FileDeadLetterRepository implements DeadLetterRepository {
+  /**
+   * @param directory - Directory for record files (created on first save)
+   */
+  constructor(private readonly directory: string) {}
+
+  async save(record: DeadLetterRecord): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(
+      this.toPath(record.id),
+      serializeDeadLetterRecord(record),
+      'utf-8',
+    );
+  }
+
+  async list(): Promise<DeadLetterRecord[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map(async (file) =>
+          parseDeadLetterRecord(
+            await readFile(join(this.directory, file), 'utf-8'),
+          ),
+        ),
+    );
+    return records.sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+  }
+
+  async find(id: string): Promise<DeadLetterRecord | undefined> {
+    try {
+      return parseDeadLetterRecord(await readFile(this.toPath(id), 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async remove(id: string): Promise<void> {
+    await rm(this.toPath(id), { force: true });
+  }
+
+  /**
+   * IDs come from user input (CLI, Slack command), so they are encoded to
+   * keep them inside the directory.
+   */
+  private toPath(id: string): string {
+    return join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
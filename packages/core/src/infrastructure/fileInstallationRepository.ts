@@ -0,0 +1,110 @@
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type {
+  InstallationQuery,
+  WorkspaceInstallation,
+} from '../domain/entities/installation';
+import { getInstallationId } from '../domain/entities/installation';
+import type { InstallationRepository } from '../domain/repositories/installationRepository';
+
+/**
+ * Serialize an installation to JSON (dates as ISO strings)
+ */
+export function serializeWorkspaceInstallation(
+  installation: WorkspaceInstallation,
+): string {
+  return JSON.stringify(
+    { ...installation, installedAt: installation.installedAt.toISOString() },
+    null,
+    2,
+  );
+}
+
+/**
+ * Parse an installation serialized with serializeWorkspaceInstallation
+ */
+export function parseWorkspaceInstallation(
+  json: string,
+): WorkspaceInstallation {
+  const installation = JSON.parse(json) as Omit<
+    WorkspaceInstallation,
+    'installedAt'
+  > & { installedAt: string };
+  return { ...installation, installedAt: new Date(installation.installedAt) };
+}
+
+/**
+ * Local directory implementation of InstallationRepository.
+ * Stores one JSON file per installation, named after its team (or
+ * enterprise) ID. The files hold bot tokens, so keep the directory private.
+ */
+export class FileInstallationRepository implements InstallationRepository {
+  /**
+   * @param directory - Directory for installation files (created on first save)
+   */
+  constructor(private readonly directory: string) {}
+
+  async saveInstallation(installation: WorkspaceInstallation): Promise<void> {
+    await mkdir(this.directory, { recursive: true, mode: 0o700 });
+    await writeFile(
+      this.toPath(installation),
+      serializeWorkspaceInstallation(installation),
+      { encoding: 'utf-8', mode: 0o600 },
+    );
+  }
+
+  async findInstallation(
+    query: InstallationQuery,
+  ): Promise<WorkspaceInstallation | undefined> {
+    try {
+      return parseWorkspaceInstallation(
+        await readFile(this.toPath(query), 'utf-8'),
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async listInstallations(): Promise<WorkspaceInstallation[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const installations = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map(async (file) =>
+          parseWorkspaceInstallation(
+            await readFile(join(this.directory, file), 'utf-8'),
+          ),
+        ),
+    );
+    return installations.sort(
+      (a, b) => a.installedAt.getTime() - b.installedAt.getTime(),
+    );
+  }
+
+  async deleteInstallation(query: InstallationQuery): Promise<void> {
+    await rm(this.toPath(query), { force: true });
+  }
+
+  /**
+   * IDs come from Slack requests, so they are encoded to keep them inside
+   * the directory.
+   */
+  private toPath(query: InstallationQuery): string {
+    return join(
+      this.directory,
+      `${encodeURIComponent(getInstallationId(query))}.json`,
+    );
+  }
+}
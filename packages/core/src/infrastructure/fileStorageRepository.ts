@@ -0,0 +1,43 @@
+import { readFile } from 'node:fs/promises';
+import { isAbsolute, relative, resolve, sep } from 'node:path';
+import type { StorageRepository } from '../domain/repositories/storageRepository';
+
+/**
+ * Local directory implementation of StorageRepository.
+ * Storage keys are paths relative to the root directory
+ * (e.g. `emails/2025/message.eml`), so the inbound pipeline can run
+ * without AWS on a laptop or in CI.
+ */
+export class FileStorageRepository implements StorageRepository {
+  private readonly rootDirectory: string;
+
+  /**
+   * @param rootDirectory - Directory that storage keys are resolved against
+   */
+  constructor(rootDirectory: string) {
+    this.rootDirectory = resolve(rootDirectory);
+  }
+
+  async fetchRawEmail(key: string): Promise<Buffer> {
+    return readFile(this.toPath(key));
+  }
+
+  /**
+   * Keys may come from user input (e.g. dead-letter replay), so they must
+   * not resolve outside the root directory.
+   */
+  private toPath(key: string): string {
+    const path = resolve(this.rootDirectory, key);
+    const relativePath = relative(this.rootDirectory, path);
+    if (
+      !key ||
+      !relativePath ||
+      relativePath === '..' ||
+      relativePath.startsWith(`..${sep}`) ||
+      isAbsolute(relativePath)
+    ) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
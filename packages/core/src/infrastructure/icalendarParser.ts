@@ -0,0 +1,169 @@
+import ical, {
+  type Attendee,
+  type DateWithTimeZone,
+  type Organizer,
+  type ParameterValue,
+  type VEvent,
+} from 'node-ical';
+import type {
+  CalendarAttendee,
+  CalendarEvent,
+  CalendarMethod,
+  CalendarParticipationStatus,
+  EmailAddress,
+} from '../domain/entities/email';
+
+/**
+ * iCalendar (RFC 5545) reader for meeting invitations, based on node-ical.
+ *
+ * Only what is needed to show an invitation is read: VEVENT summary,
+ * description, location, start/end, organizer, attendees and status, plus
+ * the calendar METHOD. Recurrence rules of events are not expanded.
+ */
+
+const METHODS: CalendarMethod[] = [
+  'PUBLISH',
+  'REQUEST',
+  'REPLY',
+  'ADD',
+  'CANCEL',
+  'REFRESH',
+  'COUNTER',
+  'DECLINECOUNTER',
+];
+
+const PARTICIPATION_STATUSES: CalendarParticipationStatus[] = [
+  'NEEDS-ACTION',
+  'ACCEPTED',
+  'DECLINED',
+  'TENTATIVE',
+  'DELEGATED',
+];
+
+/**
+ * Strip the prefix some clients put before IANA TZIDs (e.g.
+ * "/mozilla.org/20050126_1/America/New_York"), which node-ical does not
+ * recognize
+ */
+function normalizeTimeZoneIds(content: string): string {
+  return content.replace(
+    /;TZID=\/[^:;]*\/([A-Za-z_]+\/[A-Za-z_+-]+)(?=[:;])/g,
+    ';TZID=$1',
+  );
+}
+
+function getText(value: ParameterValue | undefined): string | undefined {
+  const text = (typeof value === 'object' ? value.val : value)?.trim();
+  return text || undefined;
+}
+
+/**
+ * Convert a CAL-ADDRESS property (ORGANIZER, ATTENDEE) to an address
+ */
+function parseCalendarAddress(property: Organizer | Attendee): EmailAddress {
+  const value = typeof property === 'object' ? property.val : property;
+  const name =
+    typeof property === 'object' ? property.params.CN?.toString() : undefined;
+  return {
+    name: name || undefined,
+    address: value.replace(/^mailto:/i, '').trim(),
+  };
+}
+
+function parseAttendee(property: Attendee): CalendarAttendee {
+  const status =
+    typeof property === 'object'
+      ? (property.params.PARTSTAT?.toUpperCase() as
+          | CalendarParticipationStatus
+          | undefined)
+      : undefined;
+  return {
+    ...parseCalendarAddress(property),
+    status:
+      status && PARTICIPATION_STATUSES.includes(status) ? status : undefined,
+  };
+}
+
+/**
+ * node-ical reads dates and floating times (no TZID) in the local time zone
+ * of the process; they are shown as UTC, whatever that zone is
+ */
+function toUtc(date: DateWithTimeZone): Date {
+  if (!date.dateOnly && date.tz) {
+    return new Date(date.getTime());
+  }
+  return new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+    ),
+  );
+}
+
+function parseEvent(
+  event: VEvent,
+  method: CalendarMethod | undefined,
+): CalendarEvent | undefined {
+  if (!(event.start instanceof Date) || Number.isNaN(event.start.getTime())) {
+    return undefined;
+  }
+  const start = toUtc(event.start);
+  // node-ical ends events without DTEND or DURATION at their start
+  const end =
+    event.end && event.end.getTime() !== event.start.getTime()
+      ? toUtc(event.end)
+      : undefined;
+  const allDay = event.start.dateOnly === true;
+  const timezone =
+    !allDay && event.start.tz !== 'Etc/UTC' ? event.start.tz : undefined;
+  const attendees = event.attendee ?? [];
+
+  return {
+    method,
+    uid: getText(event.uid),
+    summary: getText(event.summary) ?? '(no title)',
+    description: getText(event.description),
+    location: getText(event.location),
+    start,
+    end,
+    allDay,
+    timezone,
+    organizer: event.organizer
+      ? parseCalendarAddress(event.organizer)
+      : undefined,
+    attendees: (Array.isArray(attendees) ? attendees : [attendees]).map(
+      parseAttendee,
+    ),
+    cancelled: event.status?.toUpperCase() === 'CANCELLED' || undefined,
+  };
+}
+
+/**
+ * Read the events of an iCalendar object (e.g. a text/calendar part).
+ * Events without a valid DTSTART are skipped.
+ */
+export function parseICalendar(content: string): CalendarEvent[] {
+  const calendar = ical.sync.parseICS(normalizeTimeZoneIds(content));
+  const method = calendar.vcalendar?.method?.toUpperCase() as
+    | CalendarMethod
+    | undefined;
+
+  const events: CalendarEvent[] = [];
+  for (const component of Object.values(calendar)) {
+    if (component?.type !== 'VEVENT') {
+      continue;
+    }
+    const event = parseEvent(
+      component,
+      method && METHODS.includes(method) ? method : undefined,
+    );
+    if (event) {
+      events.push(event);
+    }
+  }
+  return events;
+}
@@ -0,0 +1,308 @@
+import { ImapFlow, type ImapFlowOptions } from 'imapflow';
+import type { ReceiveMailUseCase } from '@/application/receiveMailUseCase';
+import type { StorageRepository } from '@/domain/repositories';
+
+const DEFAULT_POLL_INTERVAL_MS = 60_000;
+const DEFAULT_RECONNECT_DELAY_MS = 10_000;
+const SEEN_FLAG = '\\Seen';
+
+/**
+ * Subset of the ImapFlow client used by the poller, so tests can use a
+ * mock client. `new ImapFlow(options)` satisfies it.
+ */
+export interface ImapClient {
+  usable: boolean;
+  mailbox: { path: string; uidValidity: bigint } | false;
+  connect(): Promise<void>;
+  logout(): Promise<void>;
+  getMailboxLock(path: string): Promise<{ release(): void }>;
+  search(
+    query: { seen?: boolean },
+    options: { uid: true },
+  ): Promise<number[] | false | undefined>;
+  fetchOne(
+    uid: string,
+    query: { source: true },
+    options: { uid: true },
+  ): Promise<{ source?: Buffer } | false | undefined>;
+  messageFlagsAdd(
+    uid: string,
+    flags: string[],
+    options: { uid: true },
+  ): Promise<boolean>;
+  messageMove(
+    uid: string,
+    destination: string,
+    options: { uid: true },
+  ): Promise<unknown>;
+  on(event: 'exists', listener: () => void): unknown;
+  on(event: 'close', listener: () => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+}
+
+/**
+ * Create an ImapFlow client (library logging disabled)
+ */
+export function createImapFlowClient(options: ImapFlowOptions): ImapClient {
+  return new ImapFlow({ logger: false, ...options });
+}
+
+export interface ImapPollerConfig {
+  /** Create a (not yet connected) client; called again to reconnect */
+  createClient: () => ImapClient;
+  /** Mailbox to read (default: INBOX) */
+  mailbox?: string;
+  /** Mailbox to move posted messages to; they are only marked seen when omitted */
+  moveTo?: string;
+  /**
+   * Create the use case posting the messages, reading them from the given
+   * storage (the poller's mailbox). Messages blocked by its filters are
+   * still marked seen (or moved), so they are not read again.
+   */
+  createReceiveMailUseCase: (
+    storageRepository: StorageRepository,
+  ) => ReceiveMailUseCase;
+  /**
+   * Interval for checking the mailbox, as a fallback for servers without
+   * IDLE or missed notifications (default: 60 seconds)
+   */
+  pollIntervalMs?: number;
+  /** Delay before reconnecting after the connection closes (default: 10 seconds) */
+  reconnectDelayMs?: number;
+}
+
+/**
+ * Result of one pass over the unseen messages
+ */
+export interface ImapPollResult {
+  /** Keys posted to Slack (or skipped as duplicates) and marked/moved */
+  processed: string[];
+  /** Keys that failed; left unseen and retried after a restart */
+  failed: string[];
+}
+
+/**
+ * Storage key of an IMAP message. UIDs are only unique within a mailbox
+ * and its UIDVALIDITY, so both are part of the key.
+ */
+export function createImapStorageKey(
+  mailbox: string,
+  uidValidity: bigint | number,
+  uid: number,
+): string {
+  return `imap/${encodeURIComponent(mailbox)}/${uidValidity}/${uid}`;
+}
+
+/**
+ * Parse a key created by createImapStorageKey
+ *
+ * @throws {Error} If the key is not an IMAP storage key
+ */
+export function parseImapStorageKey(key: string): {
+  mailbox: string;
+  uidValidity: string;
+  uid: number;
+} {
+  const match = key.match(/^imap\/([^/]+)\/(\d+)\/(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid IMAP storage key: ${key}`);
+  }
+  return {
+    mailbox: decodeURIComponent(match[1]),
+    uidValidity: match[2],
+    uid: Number(match[3]),
+  };
+}
+
+/**
+ * Post messages from an existing IMAP mailbox to Slack.
+ *
+ * Unseen messages are fetched one at a time, oldest first, and go through
+ * ReceiveMailUseCase (parser, filters, idempotency store, redaction and
+ * Slack handler). Only
+ * after a successful post is a message marked seen (or moved to `moveTo`);
+ * failed messages stay unseen and are skipped until the poller restarts.
+ *
+ * New mail is noticed through IDLE, which ImapFlow starts automatically
+ * while the connection is idle (falling back to NOOP on servers without
+ * IDLE), plus a periodic check. Closed connections are reopened.
+ */
+export class ImapPoller {
+  private readonly config: ImapPollerConfig;
+  private readonly mailbox: string;
+  private readonly receiveMailUseCase: ReceiveMailUseCase;
+  private readonly failedKeys = new Set<string>();
+  private client?: ImapClient;
+  private timer?: NodeJS.Timeout;
+  private reconnectTimer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private pollRequested = false;
+  private stopped = true;
+
+  /**
+   * Reads raw messages from the connected mailbox. Only valid while
+   * polling, since the mailbox must be selected.
+   */
+  readonly storageRepository: StorageRepository = {
+    fetchRawEmail: (key) => this.fetchRawEmail(key),
+  };
+
+  constructor(config: ImapPollerConfig) {
+    this.config = config;
+    this.mailbox = config.mailbox ?? 'INBOX';
+    this.receiveMailUseCase = config.createReceiveMailUseCase(
+      this.storageRepository,
+    );
+  }
+
+  /**
+   * Connect, process unseen messages, then wait for new ones
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    await this.connect();
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, this.config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Stop polling and log out; waits for the pass in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearInterval(this.timer);
+    clearTimeout(this.reconnectTimer);
+    await this.polling;
+    const client = this.client;
+    this.client = undefined;
+    if (client?.usable) {
+      await client.logout();
+    }
+  }
+
+  /**
+   * Process every unseen message once
+   */
+  async processUnseen(): Promise<ImapPollResult> {
+    const client = this.client;
+    const result: ImapPollResult = { processed: [], failed: [] };
+    if (!client?.usable) {
+      return result;
+    }
+
+    const lock = await client.getMailboxLock(this.mailbox);
+    try {
+      const uidValidity = client.mailbox ? client.mailbox.uidValidity : 0n;
+      const uids = (await client.search({ seen: false }, { uid: true })) || [];
+
+      for (const uid of [...uids].sort((a, b) => a - b)) {
+        const key = createImapStorageKey(this.mailbox, uidValidity, uid);
+        if (this.failedKeys.has(key)) {
+          continue;
+        }
+
+        try {
+          await this.receiveMailUseCase.execute({ storageKey: key });
+        } catch (error) {
+          console.error(`Failed to process IMAP message ${key}:`, error);
+          this.failedKeys.add(key);
+          result.failed.push(key);
+          continue;
+        }
+
+        await client.messageFlagsAdd(String(uid), [SEEN_FLAG], { uid: true });
+        if (this.config.moveTo) {
+          await client.messageMove(String(uid), this.config.moveTo, {
+            uid: true,
+          });
+        }
+        result.processed.push(key);
+      }
+    } finally {
+      lock.release();
+    }
+
+    return result;
+  }
+
+  private async fetchRawEmail(key: string): Promise<Buffer> {
+    const { mailbox, uidValidity, uid } = parseImapStorageKey(key);
+    const client = this.client;
+    if (
+      !client?.mailbox ||
+      client.mailbox.path !== mailbox ||
+      String(client.mailbox.uidValidity) !== uidValidity
+    ) {
+      throw new Error(`IMAP mailbox for ${key} is not open`);
+    }
+
+    const message = await client.fetchOne(
+      String(uid),
+      { source: true },
+      { uid: true },
+    );
+    if (!message || !message.source) {
+      throw new Error(`Email not found on IMAP server: ${key}`);
+    }
+    return message.source;
+  }
+
+  private async connect(): Promise<void> {
+    const client = this.config.createClient();
+    client.on('error', (error) => {
+      console.error('IMAP client error:', error);
+    });
+    client.on('exists', () => {
+      void this.poll();
+    });
+    client.on('close', () => {
+      if (this.client === client) {
+        this.client = undefined;
+        this.scheduleReconnect();
+      }
+    });
+
+    await client.connect();
+    this.client = client;
+    console.log(`Connected to IMAP mailbox ${this.mailbox}`);
+    await this.poll();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) {
+      return;
+    }
+    console.log('IMAP connection closed, reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.connect().catch((error) => {
+        console.error('Failed to reconnect to IMAP server:', error);
+        this.scheduleReconnect();
+      });
+    }, this.config.reconnectDelayMs ?? DEFAULT_RECONNECT_DELAY_MS);
+  }
+
+  /**
+   * Run processUnseen, coalescing notifications that arrive while a pass
+   * is running into a single extra pass
+   */
+  private poll(): Promise<void> {
+    if (this.polling) {
+      this.pollRequested = true;
+      return this.polling;
+    }
+
+    this.polling = (async () => {
+      do {
+        this.pollRequested = false;
+        try {
+          await this.processUnseen();
+        } catch (error) {
+          console.error('Failed to poll IMAP mailbox:', error);
+        }
+      } while (this.pollRequested && !this.stopped);
+      this.polling = undefined;
+    })();
+    return this.polling;
+  }
+}
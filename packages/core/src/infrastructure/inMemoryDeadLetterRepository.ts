@@ -0,0 +1,30 @@
+import type {
+  DeadLetterRecord,
+  DeadLetterRepository,
+} from '../domain/repositories/deadLetterRepository';
+
+/**
+ * In-memory implementation of DeadLetterRepository.
+ * Suitable for tests and single-process deployments; records are lost on restart.
+ */
+export class InMemoryDeadLetterRepository implements DeadLetterRepository {
+  private readonly records = new Map<string, DeadLetterRecord>();
+
+  async save(record: DeadLetterRecord): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async list(): Promise<DeadLetterRecord[]> {
+    return [...this.records.values()].sort(
+      (a, b) => a.failedAt.getTime() - b.failedAt.getTime(),
+    );
+  }
+
+  async find(id: string): Promise<DeadLetterRecord | undefined> {
+    return this.records.get(id);
+  }
+
+  async remove(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
@@ -0,0 +1,29 @@
+import type { DigestEntry, DigestSchedule } from '../domain/entities/digest';
+import type { DigestBufferRepository } from '../domain/repositories/digestBufferRepository';
+
+function toKey(entry: DigestEntry): string {
+  return `${entry.schedule}/${entry.storageKey}`;
+}
+
+/**
+ * In-memory implementation of DigestBufferRepository.
+ * Suitable for tests and single-process deployments; buffered emails are
+ * lost on restart, so publish the digests before stopping.
+ */
+export class InMemoryDigestBufferRepository implements DigestBufferRepository {
+  private readonly entries = new Map<string, DigestEntry>();
+
+  async addToDigest(entry: DigestEntry): Promise<void> {
+    this.entries.set(toKey(entry), entry);
+  }
+
+  async listDigest(schedule: DigestSchedule): Promise<DigestEntry[]> {
+    return [...this.entries.values()]
+      .filter((entry) => entry.schedule === schedule)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  async removeFromDigest(entry: DigestEntry): Promise<void> {
+    this.entries.delete(toKey(entry));
+  }
+}
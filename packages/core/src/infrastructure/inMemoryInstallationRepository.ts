@@ -0,0 +1,34 @@
+import type {
+  InstallationQuery,
+  WorkspaceInstallation,
+} from '../domain/entities/installation';
+import { getInstallationId } from '../domain/entities/installation';
+import type { InstallationRepository } from '../domain/repositories/installationRepository';
+
+/**
+ * In-memory implementation of InstallationRepository.
+ * Suitable for tests and single-process deployments; installations are lost on restart.
+ */
+export class InMemoryInstallationRepository implements InstallationRepository {
+  private readonly installations = new Map<string, WorkspaceInstallation>();
+
+  async saveInstallation(installation: WorkspaceInstallation): Promise<void> {
+    this.installations.set(getInstallationId(installation), installation);
+  }
+
+  async findInstallation(
+    query: InstallationQuery,
+  ): Promise<WorkspaceInstallation | undefined> {
+    return this.installations.get(getInstallationId(query));
+  }
+
+  async listInstallations(): Promise<WorkspaceInstallation[]> {
+    return [...this.installations.values()].sort(
+      (a, b) => a.installedAt.getTime() - b.installedAt.getTime(),
+    );
+  }
+
+  async deleteInstallation(query: InstallationQuery): Promise<void> {
+    this.installations.delete(getInstallationId(query));
+  }
+}
@@ -0,0 +1,26 @@
+import type {
+  ProcessedEmailKey,
+  ProcessedEmailRepository,
+} from '../domain/repositories/processedEmailRepository';
+
+/**
+ * In-memory implementation of ProcessedEmailRepository.
+ * Suitable for tests and single-process deployments; the store is lost on restart.
+ */
+export class InMemoryProcessedEmailRepository
+  implements ProcessedEmailRepository
+{
+  private readonly storageKeys = new Set<string>();
+  private readonly messageIds = new Set<string>();
+
+  async hasProcessed(key: ProcessedEmailKey): Promise<boolean> {
+    return (
+      this.storageKeys.has(key.storageKey) || this.messageIds.has(key.messageId)
+    );
+  }
+
+  async markProcessed(key: ProcessedEmailKey): Promise<void> {
+    this.storageKeys.add(key.storageKey);
+    this.messageIds.add(key.messageId);
+  }
+}
@@ -0,0 +1,32 @@
+import type {
+  EmailSearchDocument,
+  EmailSearchQuery,
+} from '../domain/entities/emailSearch';
+import {
+  matchesEmailSearchQuery,
+  sortEmailSearchResults,
+} from '../domain/entities/emailSearch';
+import type { SearchIndexRepository } from '../domain/repositories/searchIndexRepository';
+
+/**
+ * In-memory implementation of SearchIndexRepository.
+ * Suitable for tests and single-process deployments; the index is lost on restart.
+ */
+export class InMemorySearchIndexRepository implements SearchIndexRepository {
+  private readonly documents = new Map<string, EmailSearchDocument>();
+
+  async indexEmail(document: EmailSearchDocument): Promise<void> {
+    this.documents.set(document.messageId, document);
+  }
+
+  async search(
+    query: EmailSearchQuery,
+    limit = Number.POSITIVE_INFINITY,
+  ): Promise<EmailSearchDocument[]> {
+    return sortEmailSearchResults(
+      [...this.documents.values()].filter((document) =>
+        matchesEmailSearchQuery(document, query),
+      ),
+    ).slice(0, limit);
+  }
+}
@@ -0,0 +1,33 @@
+import type {
+  SentEmailRecord,
+  SentEmailRepository,
+} from '../domain/repositories/sentEmailRepository';
+
+/**
+ * In-memory implementation of SentEmailRepository.
+ * Suitable for tests and single-process deployments; records are lost on restart.
+ */
+export class InMemorySentEmailRepository implements SentEmailRepository {
+  private readonly records = new Map<string, SentEmailRecord>();
+
+  async saveSentEmail(record: SentEmailRecord): Promise<void> {
+    this.records.set(record.messageId, record);
+  }
+
+  async findSentEmail(messageId: string): Promise<SentEmailRecord | undefined> {
+    return this.records.get(messageId);
+  }
+
+  async updateSentEmail(
+    messageId: string,
+    update: (record: SentEmailRecord) => SentEmailRecord,
+  ): Promise<SentEmailRecord | undefined> {
+    const record = this.records.get(messageId);
+    if (!record) {
+      return undefined;
+    }
+    const updated = update(record);
+    this.records.set(messageId, updated);
+    return updated;
+  }
+}
@@ -0,0 +1,26 @@
+import type {
+  ThreadIndexRepository,
+  ThreadLocation,
+} from '../domain/repositories/threadIndexRepository';
+
+/**
+ * In-memory implementation of ThreadIndexRepository.
+ * Suitable for tests and single-process deployments; the index is lost on restart.
+ */
+export class InMemoryThreadIndexRepository implements ThreadIndexRepository {
+  private readonly threads = new Map<string, ThreadLocation>();
+
+  async findThread(messageIds: string[]): Promise<ThreadLocation | undefined> {
+    for (const messageId of messageIds) {
+      const location = this.threads.get(messageId);
+      if (location) {
+        return location;
+      }
+    }
+    return undefined;
+  }
+
+  async saveThread(messageId: string, location: ThreadLocation): Promise<void> {
+    this.threads.set(messageId, location);
+  }
+}
@@ -0,0 +1,39 @@
+import type { TriageQuery, TriageState } from '../domain/entities/triage';
+import { matchesTriageQuery } from '../domain/entities/triage';
+import type { TriageRepository } from '../domain/repositories/triageRepository';
+
+/**
+ * Sort states oldest post first (Slack timestamps sort numerically)
+ */
+function sortTriageStates(states: TriageState[]): TriageState[] {
+  return [...states].sort(
+    (a, b) => Number.parseFloat(a.messageTs) - Number.parseFloat(b.messageTs),
+  );
+}
+
+/**
+ * In-memory implementation of TriageRepository.
+ * Suitable for tests and single-process deployments; states are lost on restart.
+ */
+export class InMemoryTriageRepository implements TriageRepository {
+  private readonly states = new Map<string, TriageState>();
+
+  async saveTriage(state: TriageState): Promise<void> {
+    this.states.set(`${state.channel}/${state.messageTs}`, state);
+  }
+
+  async findTriage(
+    channel: string,
+    messageTs: string,
+  ): Promise<TriageState | undefined> {
+    return this.states.get(`${channel}/${messageTs}`);
+  }
+
+  async listTriage(query: TriageQuery = {}): Promise<TriageState[]> {
+    return sortTriageStates(
+      [...this.states.values()].filter((state) =>
+        matchesTriageQuery(state, query),
+      ),
+    );
+  }
+}
@@ -1 +1,46 @@
-export { MailparserEmailParser } from './emailParser';
+export { CachedInstallationRepository } from './cachedInstallationRepository';
+export { DigestScheduler, type DigestSchedulerConfig } from './digestScheduler';
+export {
+  MailparserEmailParser,
+  type MailparserEmailParserOptions,
+} from './emailParser';
+export {
+  FileDeadLetterRepository,
+  parseDeadLetterRecord,
+  serializeDeadLetterRecord,
+} from './fileDeadLetterRepository';
+export {
+  FileInstallationRepository,
+  parseWorkspaceInstallation,
+  serializeWorkspaceInstallation,
+} from './fileInstallationRepository';
+export { FileStorageRepository } from './fileStorageRepository';
+export { parseICalendar } from './icalendarParser';
+export {
+  createImapFlowClient,
+  createImapStorageKey,
+  type ImapClient,
+  ImapPoller,
+  type ImapPollerConfig,
+  type ImapPollResult,
+  parseImapStorageKey,
+} from './imapPoller';
+export { InMemoryDeadLetterRepository } from './inMemoryDeadLetterRepository';
+export { InMemoryDigestBufferRepository } from './inMemoryDigestBufferRepository';
+export { InMemoryInstallationRepository } from './inMemoryInstallationRepository';
+export { InMemoryProcessedEmailRepository } from './inMemoryProcessedEmailRepository';
+export { InMemorySearchIndexRepository } from './inMemorySearchIndexRepository';
+export { InMemorySentEmailRepository } from './inMemorySentEmailRepository';
+export { InMemoryThreadIndexRepository } from './inMemoryThreadIndexRepository';
+export { InMemoryTriageRepository } from './inMemoryTriageRepository';
+export { MaildirStorageRepository } from './maildirStorageRepository';
+export {
+  type MaildirScanResult,
+  MaildirWatcher,
+  type MaildirWatcherConfig,
+} from './maildirWatcher';
+export {
+  SmtpInboundServer,
+  type SmtpInboundServerConfig,
+  SmtpRejectionError,
+} from './smtpInboundServer';
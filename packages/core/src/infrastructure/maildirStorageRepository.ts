@@ -0,0 +1,181 @@
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { basename, join, sep } from 'node:path';
+import type { StorageRepository } from '../domain/repositories/storageRepository';
+
+/**
+ * Separator between a Maildir unique name and its info ("<name>:2,<flags>")
+ */
+const INFO_SEPARATOR = ':2,';
+/** Maildir "seen" flag, used to mark messages that were posted to Slack */
+const SEEN_FLAG = 'S';
+/** Maildir "flagged" flag, used to mark messages that failed to be posted */
+const FLAGGED_FLAG = 'F';
+
+/**
+ * Maildir implementation of StorageRepository.
+ *
+ * Storage keys are Maildir unique names (file names without the ":2,"
+ * info suffix), so a key stays valid when the message moves from new/ to
+ * cur/ or its flags change.
+ *
+ * - new/: pending messages
+ * - cur/: handled messages, flagged "S" (seen) once posted to Slack or
+ *   "F" (flagged) when posting failed
+ * - tmp/: deliveries in progress, never read
+ *
+ * @see https://cr.yp.to/proto/maildir.html
+ */
+export class MaildirStorageRepository implements StorageRepository {
+  private deliveryCount = 0;
+
+  /**
+   * @param maildir - Maildir root (the directory containing new/, cur/, tmp/)
+   */
+  constructor(private readonly maildir: string) {}
+
+  /** Directory where new messages are delivered */
+  get newDirectory(): string {
+    return join(this.maildir, 'new');
+  }
+
+  /** Directory for messages that have been seen */
+  get curDirectory(): string {
+    return join(this.maildir, 'cur');
+  }
+
+  /**
+   * Create tmp/, new/ and cur/ if missing
+   */
+  async ensureDirectories(): Promise<void> {
+    for (const name of ['tmp', 'new', 'cur']) {
+      await mkdir(join(this.maildir, name), { recursive: true });
+    }
+  }
+
+  /**
+   * Deliver a message: written to tmp/ first, then moved to new/, so
+   * readers never see a partial message.
+   *
+   * @returns Key of the delivered message
+   */
+  async deliver(raw: Buffer): Promise<string> {
+    await this.ensureDirectories();
+    const key = this.createUniqueName();
+    const tmpPath = join(this.maildir, 'tmp', key);
+    await writeFile(tmpPath, raw);
+    await rename(tmpPath, join(this.newDirectory, key));
+    return key;
+  }
+
+  /**
+   * List keys of messages in new/, oldest first
+   * (unique names start with the delivery time).
+   */
+  async listPending(): Promise<string[]> {
+    const files = await this.readMessageFiles(this.newDirectory);
+    return files.map((file) => parseFileName(file).key).sort();
+  }
+
+  async fetchRawEmail(key: string): Promise<Buffer> {
+    return readFile(await this.findPath(key));
+  }
+
+  /**
+   * Move a message to cur/ and flag it as seen
+   */
+  async markProcessed(key: string): Promise<void> {
+    await this.moveToCur(key, SEEN_FLAG);
+  }
+
+  /**
+   * Move a message to cur/ and flag it, so it is not retried automatically
+   * but can still be fetched (e.g. for a dead-letter replay)
+   */
+  async markFailed(key: string): Promise<void> {
+    await this.moveToCur(key, FLAGGED_FLAG);
+  }
+
+  private async moveToCur(key: string, flag: string): Promise<void> {
+    const path = await this.findPath(key);
+    const { flags } = parseFileName(basename(path));
+    const newFlags = [...new Set([...flags, flag])].sort().join('');
+
+    await rename(
+      path,
+      join(this.curDirectory, `${key}${INFO_SEPARATOR}${newFlags}`),
+    );
+  }
+
+  /**
+   * Locate a message by key in new/ or cur/
+   *
+   * @throws {Error} If the key is invalid or no message has that key
+   */
+  private async findPath(key: string): Promise<string> {
+    // Keys may come from user input (e.g. dead-letter replay), so they must
+    // be plain file names
+    if (!key || key.startsWith('.') || /[/:]/.test(key) || key.includes(sep)) {
+      throw new Error(`Invalid Maildir key: ${key}`);
+    }
+
+    const newFiles = await this.readMessageFiles(this.newDirectory);
+    const newFile = newFiles.find((file) => parseFileName(file).key === key);
+    if (newFile) {
+      return join(this.newDirectory, newFile);
+    }
+
+    const curFiles = await this.readMessageFiles(this.curDirectory);
+    const curFile = curFiles.find((file) => parseFileName(file).key === key);
+    if (curFile) {
+      return join(this.curDirectory, curFile);
+    }
+
+    throw new Error(`Email not found in Maildir: ${key}`);
+  }
+
+  /**
+   * Unique name in the "<seconds>.M<microseconds>P<pid>Q<count>.<host>"
+   * format, so names sort by delivery time
+   */
+  private createUniqueName(): string {
+    const now = Date.now();
+    const seconds = Math.floor(now / 1000);
+    const microseconds = String((now % 1000) * 1000).padStart(6, '0');
+    this.deliveryCount += 1;
+    // "/" and ":" are not allowed in unique names
+    const host = hostname().replace(/\//g, '\\057').replace(/:/g, '\\072');
+    return `${seconds}.M${microseconds}P${process.pid}Q${this.deliveryCount}.${host}`;
+  }
+
+  /**
+   * List message files in a Maildir subdirectory, skipping dotfiles
+   */
+  private async readMessageFiles(directory: string): Promise<string[]> {
+    try {
+      const entries = await readdir(directory, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile() && !entry.name.startsWith('.'))
+        .map((entry) => entry.name);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Split a Maildir file name into its unique name and flags
+ */
+function parseFileName(fileName: string): { key: string; flags: string[] } {
+  const index = fileName.indexOf(INFO_SEPARATOR);
+  if (index === -1) {
+    return { key: fileName, flags: [] };
+  }
+  return {
+    key: fileName.substring(0, index),
+    flags: fileName.substring(index + INFO_SEPARATOR.length).split(''),
+  };
+}
@@ -0,0 +1,125 @@
+import { type FSWatcher, watch } from 'node:fs';
+import type { ReceiveMailUseCase } from '@/application/receiveMailUseCase';
+import type { MaildirStorageRepository } from './maildirStorageRepository';
+
+const DEFAULT_POLL_INTERVAL_MS = 30_000;
+
+export interface MaildirWatcherConfig {
+  maildir: MaildirStorageRepository;
+  /** Must read from the same Maildir (storageRepository: maildir) */
+  receiveMailUseCase: ReceiveMailUseCase;
+  /**
+   * Interval for rescanning the Maildir, as a fallback for missed
+   * file system events (default: 30 seconds)
+   */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Result of one pass over the pending messages
+ */
+export interface MaildirScanResult {
+  /** Keys posted to Slack (or skipped as duplicates) and marked processed */
+  processed: string[];
+  /** Keys that failed and were flagged in cur/ */
+  failed: string[];
+}
+
+/**
+ * Watch a Maildir and post new messages to Slack through ReceiveMailUseCase.
+ *
+ * Messages in new/ are processed one at a time, oldest first, then moved
+ * to cur/: flagged as seen when posted, or flagged for attention when
+ * posting failed, so a broken message is not retried on every change.
+ * Failed messages reach the dead-letter store through the use case's
+ * failure handler, and can be replayed from there.
+ */
+export class MaildirWatcher {
+  private readonly maildir: MaildirStorageRepository;
+  private readonly receiveMailUseCase: ReceiveMailUseCase;
+  private readonly pollIntervalMs: number;
+  private watcher?: FSWatcher;
+  private timer?: NodeJS.Timeout;
+  private scanning?: Promise<void>;
+  private rescanRequested = false;
+
+  constructor(config: MaildirWatcherConfig) {
+    this.maildir = config.maildir;
+    this.receiveMailUseCase = config.receiveMailUseCase;
+    this.pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  }
+
+  /**
+   * Process messages already waiting, then watch for new deliveries
+   */
+  async start(): Promise<void> {
+    await this.maildir.ensureDirectories();
+    await this.scan();
+
+    this.watcher = watch(this.maildir.newDirectory, () => {
+      void this.scan();
+    });
+    this.timer = setInterval(() => {
+      void this.scan();
+    }, this.pollIntervalMs);
+    console.log(`Watching Maildir: ${this.maildir.newDirectory}`);
+  }
+
+  /**
+   * Stop watching; waits for the scan in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.watcher?.close();
+    this.watcher = undefined;
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.scanning;
+  }
+
+  /**
+   * Process every pending message once
+   */
+  async processPending(): Promise<MaildirScanResult> {
+    const result: MaildirScanResult = { processed: [], failed: [] };
+    const keys = await this.maildir.listPending();
+
+    for (const key of keys) {
+      try {
+        await this.receiveMailUseCase.execute({ storageKey: key });
+      } catch (error) {
+        console.error(`Failed to process Maildir message ${key}:`, error);
+        await this.maildir.markFailed(key);
+        result.failed.push(key);
+        continue;
+      }
+      await this.maildir.markProcessed(key);
+      result.processed.push(key);
+    }
+
+    return result;
+  }
+
+  /**
+   * Run processPending, coalescing events that arrive while a scan is
+   * running into a single rescan
+   */
+  private scan(): Promise<void> {
+    if (this.scanning) {
+      this.rescanRequested = true;
+      return this.scanning;
+    }
+
+    this.scanning = (async () => {
+      do {
+        this.rescanRequested = false;
+        try {
+          await this.processPending();
+        } catch (error) {
+          console.error('Failed to scan Maildir:', error);
+        }
+      } while (this.rescanRequested);
+      this.scanning = undefined;
+    })();
+    return this.scanning;
+  }
+}
@@ -0,0 +1,200 @@
+import type { AddressInfo } from 'node:net';
+import {
+  SMTPServer,
+  type SMTPServerAddress,
+  type SMTPServerDataStream,
+  type SMTPServerSession,
+} from 'smtp-server';
+import type { ReceiveMailUseCase } from '@/application/receiveMailUseCase';
+import type { MaildirStorageRepository } from './maildirStorageRepository';
+
+/** Default maximum message size: 25 MB */
+const DEFAULT_MAX_MESSAGE_SIZE = 25 * 1024 * 1024;
+const DEFAULT_MAX_RECIPIENTS = 50;
+
+export interface SmtpInboundServerConfig {
+  /** Domains to accept mail for; recipients in other domains are rejected */
+  domains: string[];
+  /** Where accepted messages are stored before they are posted */
+  maildir: MaildirStorageRepository;
+  /** Must read from the same Maildir (storageRepository: maildir) */
+  receiveMailUseCase: ReceiveMailUseCase;
+  /** Maximum message size in bytes (default: 25 MB) */
+  maxMessageSize?: number;
+  /** Maximum recipients per message (default: 50) */
+  maxRecipients?: number;
+  /** Hostname used in the greeting (default: the OS hostname) */
+  hostname?: string;
+  /** Key and certificate to offer STARTTLS; plain SMTP only when omitted */
+  tls?: { key: string | Buffer; cert: string | Buffer };
+}
+
+/**
+ * Error with the SMTP reply code sent to the client
+ */
+export class SmtpRejectionError extends Error {
+  constructor(
+    readonly responseCode: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'SmtpRejectionError';
+  }
+}
+
+/**
+ * Read the DATA of a message, buffering at most `maxSize` bytes. Past the
+ * limit the rest is drained without buffering (the client must still be
+ * read up to the end of DATA before it gets the 552 reply).
+ *
+ * @throws {SmtpRejectionError} 552 if the message exceeds the limit
+ */
+export async function readSmtpData(
+  stream: AsyncIterable<Buffer> & { sizeExceeded?: boolean },
+  maxSize: number,
+): Promise<Buffer> {
+  let chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxSize) {
+      chunks = [];
+    } else {
+      chunks.push(chunk);
+    }
+  }
+  if (size > maxSize || stream.sizeExceeded) {
+    throw new SmtpRejectionError(552, 'Message exceeds the size limit');
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * SMTP listener for receiving email without SES, e.g. on a plain Linux box
+ * acting as the MX host, or for testing inbound mail with a local client.
+ *
+ * Accepted messages are delivered to a Maildir, so they have a storage key
+ * (needed for dead-letter replays), and then handed to ReceiveMailUseCase
+ * one at a time. The client gets "250 OK" once the message is stored;
+ * posting to Slack happens afterwards and its failures do not bounce the
+ * message. Posted messages are marked processed in the Maildir, failed
+ * ones are flagged.
+ *
+ * Inbound only: AUTH is disabled and mail is accepted only for the
+ * configured domains, so the server cannot be used as an open relay.
+ */
+export class SmtpInboundServer {
+  private readonly server: SMTPServer;
+  private readonly domains: Set<string>;
+  private readonly maildir: MaildirStorageRepository;
+  private readonly receiveMailUseCase: ReceiveMailUseCase;
+  private readonly maxMessageSize: number;
+  private readonly maxRecipients: number;
+  private processing: Promise<void> = Promise.resolve();
+
+  constructor(config: SmtpInboundServerConfig) {
+    this.domains = new Set(config.domains.map((d) => d.toLowerCase()));
+    this.maildir = config.maildir;
+    this.receiveMailUseCase = config.receiveMailUseCase;
+    this.maxMessageSize = config.maxMessageSize ?? DEFAULT_MAX_MESSAGE_SIZE;
+    this.maxRecipients = config.maxRecipients ?? DEFAULT_MAX_RECIPIENTS;
+
+    this.server = new SMTPServer({
+      name: config.hostname,
+      size: this.maxMessageSize,
+      authOptional: true,
+      disabledCommands: config.tls ? ['AUTH'] : ['AUTH', 'STARTTLS'],
+      key: config.tls?.key,
+      cert: config.tls?.cert,
+      logger: false,
+      onRcptTo: (address, session, callback) => {
+        callback(this.checkRecipient(address, session));
+      },
+      onData: (stream, session, callback) => {
+        this.receive(stream, session).then(
+          () => callback(),
+          (error: Error) => callback(error),
+        );
+      },
+    });
+    this.server.on('error', (error) => {
+      console.error('SMTP server error:', error);
+    });
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port to listen on (0 for a random free port)
+   * @param host - Interface to bind (default: all interfaces)
+   * @returns The bound address
+   */
+  listen(port: number, host?: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      const server = this.server.server;
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        resolve(server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /**
+   * Stop accepting connections and wait for accepted messages to be posted
+   */
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    await this.processing;
+  }
+
+  /**
+   * Accept only recipients in the configured domains, up to the limit
+   */
+  private checkRecipient(
+    address: SMTPServerAddress,
+    session: SMTPServerSession,
+  ): SmtpRejectionError | undefined {
+    const domain = address.address.split('@').pop()?.toLowerCase() ?? '';
+    if (!this.domains.has(domain)) {
+      return new SmtpRejectionError(
+        550,
+        `Relay denied: not accepting mail for ${domain || address.address}`,
+      );
+    }
+    if (session.envelope.rcptTo.length >= this.maxRecipients) {
+      return new SmtpRejectionError(452, 'Too many recipients');
+    }
+    return undefined;
+  }
+
+  private async receive(
+    stream: SMTPServerDataStream,
+    session: SMTPServerSession,
+  ): Promise<void> {
+    const message = await readSmtpData(stream, this.maxMessageSize);
+    const key = await this.maildir.deliver(message);
+    console.log(
+      `Accepted SMTP message ${key} from ${session.envelope.mailFrom ? session.envelope.mailFrom.address : '<>'}`,
+    );
+    this.processing = this.processing.then(() => this.process(key));
+  }
+
+  /**
+   * Post a stored message; failures are logged and flagged in the Maildir
+   * (the use case's failure handler records them for replay)
+   */
+  private async process(key: string): Promise<void> {
+    try {
+      await this.receiveMailUseCase.execute({ storageKey: key });
+      await this.maildir.markProcessed(key);
+    } catch (error) {
+      console.error(`Failed to process SMTP message ${key}:`, error);
+      try {
+        await this.maildir.markFailed(key);
+      } catch (markError) {
+        console.error(`Failed to flag SMTP message ${key}:`, markError);
+      }
+    }
+  }
+}
@@ -0,0 +1,235 @@
+import type { Email } from '@/domain/entities';
+
+/**
+ * Route inbound emails to Slack channels.
+ *
+ * Routes are evaluated in order against the email's recipients (To, Cc,
+ * Bcc and Delivered-To, so mail that reached us through a mailing list or
+ * as a blind copy is routed by our address) or its sender, for
+ * `senderDomain` rules. The first matching route wins; when nothing
+ * matches, the fallback (catch-all) channel is used.
+ *
+ * Example routes:
+ * [
+ *   { "match": { "type": "address", "address": "support@example.com" }, "channel": "C0SUPPORT" },
+ *   { "match": { "type": "plusTag", "tag": "billing" }, "channel": "C0BILLING" },
+ *   { "match": { "type": "wildcard", "pattern": "alerts-*@example.com" }, "channel": "C0ALERTS" },
+ *   { "match": { "type": "senderDomain", "domain": "partner.example" }, "channel": "C0PARTNER" }
+ * ]
+ */
+
+export type ChannelRouteMatcher =
+  /** Recipient address, compared case-insensitively and ignoring any plus tag */
+  | { type: 'address'; address: string }
+  /** Plus-address tag, e.g. "billing" matches "inbox+billing@example.com" */
+  | { type: 'plusTag'; tag: string }
+  /** Recipient pattern where `*` matches any characters, e.g. "*@billing.example.com" */
+  | { type: 'wildcard'; pattern: string }
+  /** Sender domain, e.g. "partner.example" matches "alice@partner.example" */
+  | { type: 'senderDomain'; domain: string };
+
+export interface ChannelRoute {
+  match: ChannelRouteMatcher;
+  channel: string;
+}
+
+export class ChannelRouteConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChannelRouteConfigError';
+  }
+}
+
+/**
+ * Split an address into local part, plus tag, and domain (all lowercased)
+ */
+function splitAddress(address: string): {
+  localPart: string;
+  tag?: string;
+  domain: string;
+} {
+  const normalized = address.trim().toLowerCase();
+  const atIndex = normalized.lastIndexOf('@');
+  const local = atIndex >= 0 ? normalized.slice(0, atIndex) : normalized;
+  const domain = atIndex >= 0 ? normalized.slice(atIndex + 1) : '';
+  const plusIndex = local.indexOf('+');
+  if (plusIndex < 0) {
+    return { localPart: local, domain };
+  }
+  return {
+    localPart: local.slice(0, plusIndex),
+    tag: local.slice(plusIndex + 1),
+    domain,
+  };
+}
+
+/**
+ * Convert a wildcard pattern to an anchored, case-insensitive RegExp
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Addresses an email is routed by: To, Cc, Bcc and Delivered-To
+ */
+function getRoutingRecipients(email: Email): string[] {
+  return [
+    ...email.to,
+    ...(email.cc ?? []),
+    ...(email.bcc ?? []),
+    ...(email.deliveredTo ?? []),
+  ].map((recipient) => recipient.address);
+}
+
+/**
+ * Check whether a single route matches the email
+ */
+function matchesRoute(
+  matcher: ChannelRouteMatcher,
+  email: Email,
+  recipients: string[],
+): boolean {
+  switch (matcher.type) {
+    case 'address': {
+      const target = matcher.address.trim().toLowerCase();
+      return recipients.some((recipient) => {
+        const { localPart, domain } = splitAddress(recipient);
+        return (
+          recipient.trim().toLowerCase() === target ||
+          `${localPart}@${domain}` === target
+        );
+      });
+    }
+    case 'plusTag': {
+      const tag = matcher.tag.trim().toLowerCase();
+      return recipients.some(
+        (recipient) => splitAddress(recipient).tag === tag,
+      );
+    }
+    case 'wildcard': {
+      const regex = wildcardToRegExp(matcher.pattern);
+      return recipients.some((recipient) => regex.test(recipient.trim()));
+    }
+    case 'senderDomain':
+      return (
+        splitAddress(email.from.address).domain ===
+        matcher.domain.trim().toLowerCase()
+      );
+  }
+}
+
+/**
+ * Resolve the Slack channel for an email.
+ *
+ * @param email - The received email
+ * @param routes - Routes evaluated in order (first match wins)
+ * @param fallbackChannel - Catch-all channel used when no route matches
+ * @returns The channel ID to post the email to
+ */
+export function resolveChannel(
+  email: Email,
+  routes: ChannelRoute[],
+  fallbackChannel: string,
+): string {
+  const recipients = getRoutingRecipients(email);
+  const route = routes.find((r) => matchesRoute(r.match, email, recipients));
+  return route?.channel ?? fallbackChannel;
+}
+
+/**
+ * Check whether a route matcher matches the email (used by rules that share
+ * the route matchers, such as digest rules)
+ */
+export function matchesRouteMatcher(
+  matcher: ChannelRouteMatcher,
+  email: Email,
+): boolean {
+  return matchesRoute(matcher, email, getRoutingRecipients(email));
+}
+
+/**
+ * Validate a route matcher from untrusted configuration
+ *
+ * @param prefix - Error message prefix, e.g. "Invalid route at index 0"
+ * @throws {ChannelRouteConfigError} If the matcher is invalid
+ */
+export function validateRouteMatcher(
+  value: unknown,
+  prefix: string,
+): ChannelRouteMatcher {
+  const match = value as Record<string, unknown> | undefined;
+  if (!match || typeof match !== 'object') {
+    throw new ChannelRouteConfigError(`${prefix}: match is required`);
+  }
+
+  const requiredField: Record<string, string> = {
+    address: 'address',
+    plusTag: 'tag',
+    wildcard: 'pattern',
+    senderDomain: 'domain',
+  };
+  const type = match.type;
+  const field = typeof type === 'string' ? requiredField[type] : undefined;
+  if (!field) {
+    throw new ChannelRouteConfigError(
+      `${prefix}: unknown match type ${JSON.stringify(type)}`,
+    );
+  }
+
+  const fieldValue = match[field];
+  if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+    throw new ChannelRouteConfigError(
+      `${prefix}: match.${field} is required for type "${type}"`,
+    );
+  }
+
+  return { type, [field]: fieldValue } as ChannelRouteMatcher;
+}
+
+/**
+ * Validate a single route object from untrusted configuration
+ */
+function validateRoute(value: unknown, index: number): ChannelRoute {
+  const route = value as {
+    match?: unknown;
+    channel?: unknown;
+  };
+  const prefix = `Invalid route at index ${index}`;
+
+  if (typeof route?.channel !== 'string' || route.channel.trim() === '') {
+    throw new ChannelRouteConfigError(`${prefix}: channel is required`);
+  }
+
+  return {
+    match: validateRouteMatcher(route.match, prefix),
+    channel: route.channel.trim(),
+  };
+}
+
+/**
+ * Parse channel routes from a JSON string (e.g., an environment variable).
+ *
+ * @param json - JSON array of routes
+ * @returns Validated routes
+ * @throws {ChannelRouteConfigError} If the JSON is malformed or a route is invalid
+ */
+export function parseChannelRoutes(json: string): ChannelRoute[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ChannelRouteConfigError('Channel routes must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ChannelRouteConfigError('Channel routes must be a JSON array');
+  }
+
+  return parsed.map((route, index) => validateRoute(route, index));
+}
@@ -0,0 +1,142 @@
+import { createHash } from 'node:crypto';
+import type { ReplayResult } from '@/application/usecases/replayFailedEmailsUseCase';
+import type { DeadLetterRecord } from '@/domain/repositories';
+import type { FailedEmailRecord } from './slackApp';
+
+/**
+ * Dead-letter store presentation: turning failed deliveries into stored
+ * records and the `/mail-replay` admin command.
+ *
+ * Usage:
+ *   /mail-replay            List failed emails
+ *   /mail-replay <id> ...   Replay the given records
+ *   /mail-replay all        Replay every record
+ *
+ * Replays are done REPLAY_BATCH_LIMIT records at a time.
+ */
+
+export const REPLAY_COMMAND = '/mail-replay';
+
+/** Maximum records shown by the list command (Slack message length) */
+const LIST_LIMIT = 20;
+
+/**
+ * Maximum records replayed per command, so it finishes within the time
+ * limit of the request (e.g. a 30 second Lambda); the rest are left for
+ * the next command
+ */
+export const REPLAY_BATCH_LIMIT = 10;
+
+export type ReplayCommand =
+  | { type: 'list' }
+  | { type: 'replay'; ids?: string[] };
+
+/**
+ * Stable record ID derived from the storage key (or Message-ID when the
+ * storage key is unknown), so repeated failures of the same email replace
+ * one record instead of piling up.
+ */
+export function createDeadLetterId(record: FailedEmailRecord): string {
+  return createHash('sha256')
+    .update(record.storageKey ?? record.email.messageId)
+    .digest('hex')
+    .substring(0, 12);
+}
+
+/**
+ * Convert a failed delivery into a dead-letter record
+ */
+export function toDeadLetterRecord(
+  record: FailedEmailRecord,
+): DeadLetterRecord {
+  return {
+    id: createDeadLetterId(record),
+    storageKey: record.storageKey,
+    messageId: record.email.messageId,
+    from: record.email.from.address,
+    subject: record.email.subject,
+    channel: record.channel,
+    error: record.error,
+    errorCode: record.errorCode,
+    attempts: record.attempts,
+    failedAt: record.timestamp,
+  };
+}
+
+/**
+ * Parse the text of the `/mail-replay` command
+ */
+export function parseReplayCommand(text: string): ReplayCommand {
+  const args = text.trim().split(/\s+/).filter(Boolean);
+  if (args.length === 0 || (args.length === 1 && args[0] === 'list')) {
+    return { type: 'list' };
+  }
+  if (args.length === 1 && args[0] === 'all') {
+    return { type: 'replay' };
+  }
+  return { type: 'replay', ids: args };
+}
+
+/**
+ * Format stored records for Slack (mrkdwn)
+ */
+export function formatDeadLetterList(records: DeadLetterRecord[]): string {
+  if (records.length === 0) {
+    return ':white_check_mark: No failed emails.';
+  }
+
+  const lines = records
+    .slice(0, LIST_LIMIT)
+    .map(
+      (record) =>
+        `• \`${record.id}\` ${record.subject} from ${record.from}${record.channel ? ` → <#${record.channel}>` : ''} (${record.errorCode ?? record.error}, ${record.failedAt.toISOString()})${
+          record.storageKey ? '' : ' _not replayable_'
+        }`,
+    );
+  if (records.length > LIST_LIMIT) {
+    lines.push(`_…and ${records.length - LIST_LIMIT} more_`);
+  }
+
+  return [
+    `*${records.length} failed email(s)*`,
+    ...lines,
+    `Replay with \`${REPLAY_COMMAND} <id>\` or \`${REPLAY_COMMAND} all\`.`,
+  ].join('\n');
+}
+
+const STATUS_LABELS: Record<ReplayResult['status'], string> = {
+  replayed: ':white_check_mark: replayed',
+  duplicate: ':white_check_mark: already delivered',
+  dropped: ':no_entry_sign: dropped by filter',
+  failed: ':x: failed',
+  not_found: ':grey_question: not found',
+  not_replayable: ':warning: no storage key, cannot replay',
+};
+
+/**
+ * Format replay results for Slack (mrkdwn)
+ *
+ * @param remaining - IDs left for the next command (see REPLAY_BATCH_LIMIT)
+ * @param replayAll - Whether `all` was replayed, to suggest it again
+ */
+export function formatReplayResults(
+  results: ReplayResult[],
+  remaining: string[] = [],
+  replayAll = false,
+): string {
+  if (results.length === 0 && remaining.length === 0) {
+    return ':white_check_mark: No failed emails to replay.';
+  }
+  const lines = results.map(
+    (result) =>
+      `• \`${result.id}\` ${STATUS_LABELS[result.status]}${
+        result.error ? `: ${result.error}` : ''
+      }`,
+  );
+  if (remaining.length > 0) {
+    lines.push(
+      `_${remaining.length} more not replayed yet (${REPLAY_BATCH_LIMIT} per command); continue with \`${REPLAY_COMMAND} ${replayAll ? 'all' : remaining.join(' ')}\`._`,
+    );
+  }
+  return lines.join('\n');
+}
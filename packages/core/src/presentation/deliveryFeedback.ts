@@ -0,0 +1,156 @@
+import type { App } from '@slack/bolt';
+import type { KnownBlock } from '@slack/web-api';
+import type { DeliveryFeedback, InstallationQuery } from '@/domain/entities';
+import type {
+  SentEmailRecord,
+  SentEmailRepository,
+} from '@/domain/repositories';
+import { getSentEmailApp } from './deliveryStatus';
+import { escapeMrkdwn } from './htmlToMrkdwn';
+
+/**
+ * Delivery feedback presentation: posting bounces and complaints for sent
+ * emails as thread replies under the message that confirmed the send.
+ */
+
+/** Maximum characters of a recipient's diagnostic message */
+const DIAGNOSTIC_LIMIT = 300;
+
+/**
+ * Configuration for the delivery feedback handler
+ */
+export interface DeliveryFeedbackConfig {
+  /** Where the Slack messages confirming sends are recorded */
+  sentEmails?: SentEmailRepository;
+  /**
+   * Channel for feedback on emails without a recorded confirmation (e.g.
+   * sent before the record was kept); such feedback is only logged when
+   * omitted
+   */
+  fallbackChannel?: string;
+  /**
+   * App posting for a workspace, for emails sent from multi-workspace apps
+   * (undefined once the workspace is uninstalled)
+   */
+  resolveApp?: (installation: InstallationQuery) => Promise<App | undefined>;
+}
+
+export type DeliveryFeedbackHandler = (
+  feedback: DeliveryFeedback,
+) => Promise<void>;
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.substring(0, limit - 3)}...`;
+}
+
+/**
+ * Headline of a feedback message, e.g. ":x: *Email bounced* (Permanent: General)"
+ */
+function formatHeadline(feedback: DeliveryFeedback): string {
+  if (feedback.type === 'complaint') {
+    const detail = feedback.complaintType ? ` (${feedback.complaintType})` : '';
+    return `:warning: *Recipient marked the email as spam*${detail}`;
+  }
+  const detail = [feedback.bounceType, feedback.bounceSubType]
+    .filter(Boolean)
+    .join(': ');
+  const headline =
+    feedback.bounceType === 'Transient'
+      ? ':hourglass: *Email soft-bounced*'
+      : ':x: *Email bounced*';
+  return detail ? `${headline} (${detail})` : headline;
+}
+
+/**
+ * Build the Slack message for a bounce or complaint
+ *
+ * @param sentEmail - The sent email, when known; its subject is shown
+ *   otherwise (feedback posted outside the original thread)
+ */
+export function buildDeliveryFeedbackMessage(
+  feedback: DeliveryFeedback,
+  sentEmail?: SentEmailRecord,
+): { text: string; blocks: KnownBlock[] } {
+  const addresses = feedback.recipients.map((r) => r.address).join(', ');
+  const text =
+    feedback.type === 'complaint'
+      ? `Spam complaint from ${addresses}`
+      : `Email to ${addresses} bounced`;
+
+  const lines = [formatHeadline(feedback)];
+  if (!sentEmail) {
+    const subject = feedback.subject ?? '(unknown subject)';
+    lines.push(`*Subject:* ${escapeMrkdwn(subject)}`);
+    if (feedback.from) {
+      lines.push(`*From:* ${escapeMrkdwn(feedback.from)}`);
+    }
+  }
+  for (const recipient of feedback.recipients) {
+    const status = recipient.status ? ` \`${recipient.status}\`` : '';
+    const diagnostic = recipient.diagnostic
+      ? `\n> ${escapeMrkdwn(truncate(recipient.diagnostic, DIAGNOSTIC_LIMIT))}`
+      : '';
+    lines.push(`• ${escapeMrkdwn(recipient.address)}${status}${diagnostic}`);
+  }
+
+  return {
+    text,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: truncate(lines.join('\n'), 2800) },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Message ID: \`${feedback.messageId}\``,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * Create a handler that posts delivery feedback to Slack.
+ *
+ * Feedback on an email sent from Slack goes into the thread of the message
+ * that confirmed the send; other feedback goes to the fallback channel.
+ *
+ * @param app - App posting to the fallback channel and for single-workspace
+ *   apps; unset for multi-workspace apps without a default bot token
+ */
+export function createDeliveryFeedbackHandler(
+  app: App | undefined,
+  config: DeliveryFeedbackConfig,
+): DeliveryFeedbackHandler {
+  return async (feedback) => {
+    const sentEmail = await config.sentEmails?.findSentEmail(
+      feedback.messageId,
+    );
+    const channel = sentEmail?.channel ?? config.fallbackChannel;
+    const workspaceApp = await getSentEmailApp(
+      app,
+      config.resolveApp,
+      sentEmail,
+    );
+    if (!channel || !workspaceApp) {
+      console.warn(
+        `No Slack message found for ${feedback.type} on ${feedback.messageId}; skipping`,
+      );
+      return;
+    }
+
+    const { text, blocks } = buildDeliveryFeedbackMessage(feedback, sentEmail);
+    await workspaceApp.client.chat.postMessage({
+      channel,
+      text,
+      blocks,
+      ...(sentEmail
+        ? { thread_ts: sentEmail.threadTs ?? sentEmail.messageTs }
+        : {}),
+    });
+  };
+}
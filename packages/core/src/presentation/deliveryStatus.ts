@@ -0,0 +1,207 @@
+import type { App } from '@slack/bolt';
+import type { KnownBlock } from '@slack/web-api';
+import type {
+  DeliveryEvent,
+  DeliveryStatus,
+  InstallationQuery,
+  RecipientDeliveryStatus,
+} from '@/domain/entities';
+import type {
+  SentEmailRecord,
+  SentEmailRepository,
+} from '@/domain/repositories';
+import { applyDeliveryEvent } from '../domain/entities/deliveryStatus';
+import { escapeMrkdwn } from './htmlToMrkdwn';
+
+/**
+ * Delivery status presentation: the "Email Sent Successfully" / "Reply
+ * Sent" confirmation, updated in place as delivery events arrive.
+ */
+
+/** block_id of the per-recipient delivery status in confirmations */
+export const DELIVERY_STATUS_BLOCK_ID = 'delivery_status';
+
+/** Maximum characters of a status detail (e.g. a reject reason) */
+const DETAIL_LIMIT = 150;
+
+const STATUS_LABELS: Record<DeliveryStatus, string> = {
+  sent: ':outbox_tray: Sent',
+  delayed: ':hourglass: Delayed',
+  delivered: ':white_check_mark: Delivered',
+  bounced: ':x: Bounced',
+  rejected: ':no_entry: Rejected',
+  complained: ':warning: Marked as spam',
+};
+
+/**
+ * What a confirmation shows about a sent email
+ */
+export type SentEmailConfirmation = Pick<
+  SentEmailRecord,
+  | 'messageId'
+  | 'recipients'
+  | 'subject'
+  | 'from'
+  | 'isReply'
+  | 'sentBy'
+  | 'deliveries'
+>;
+
+export interface DeliveryStatusConfig {
+  /** Where the Slack messages confirming sends are recorded */
+  sentEmails: SentEmailRepository;
+  /**
+   * App posting for a workspace, for emails sent from multi-workspace apps
+   * (undefined once the workspace is uninstalled)
+   */
+  resolveApp?: (installation: InstallationQuery) => Promise<App | undefined>;
+}
+
+export type DeliveryStatusHandler = (event: DeliveryEvent) => Promise<void>;
+
+function formatStatus(status: RecipientDeliveryStatus | undefined): string {
+  if (!status) {
+    return ':hourglass_flowing_sand: Pending';
+  }
+  const label = STATUS_LABELS[status.status];
+  if (!status.detail) {
+    return label;
+  }
+  const detail =
+    status.detail.length <= DETAIL_LIMIT
+      ? status.detail
+      : `${status.detail.substring(0, DETAIL_LIMIT - 3)}...`;
+  return `${label} (${escapeMrkdwn(detail)})`;
+}
+
+/**
+ * Build the delivery status block: one line per recipient, starting with
+ * the To recipients (Cc/Bcc recipients only appear once an event names
+ * them)
+ */
+function buildDeliveryStatusBlock(
+  confirmation: SentEmailConfirmation,
+): KnownBlock | undefined {
+  const deliveries = confirmation.deliveries ?? {};
+  if (Object.keys(deliveries).length === 0) {
+    return undefined;
+  }
+  const addresses = [
+    ...new Set([
+      ...confirmation.recipients.map((address) => address.toLowerCase()),
+      ...Object.keys(deliveries),
+    ]),
+  ];
+  const lines = addresses.map(
+    (address) =>
+      `• ${escapeMrkdwn(address)}: ${formatStatus(deliveries[address])}`,
+  );
+  return {
+    type: 'section',
+    block_id: DELIVERY_STATUS_BLOCK_ID,
+    text: { type: 'mrkdwn', text: `*Delivery:*\n${lines.join('\n')}` },
+  };
+}
+
+/**
+ * Build the confirmation message for a sent email, with the delivery
+ * status per recipient once delivery events have arrived
+ */
+export function buildSentEmailConfirmation(
+  confirmation: SentEmailConfirmation,
+): { text: string; blocks: KnownBlock[] } {
+  const to = confirmation.recipients.join(', ');
+  const details = [
+    confirmation.isReply
+      ? '*:white_check_mark: Reply Sent*\n'
+      : '*:white_check_mark: Email Sent Successfully*\n',
+    `*To:* ${to}`,
+    `*From:* ${confirmation.from ?? ''}`,
+    `*Subject:* ${confirmation.subject}`,
+  ];
+  if (confirmation.sentBy) {
+    details.push(`*Sent by:* <@${confirmation.sentBy}>`);
+  }
+
+  const statusBlock = buildDeliveryStatusBlock(confirmation);
+  return {
+    text: confirmation.isReply
+      ? `Reply sent to ${to}`
+      : `Email sent successfully to ${to}`,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: details.join('\n') },
+      },
+      ...(statusBlock ? [statusBlock] : []),
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Message ID: \`${confirmation.messageId}\``,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * App posting in the workspace a sent email came from: the one resolved
+ * from its installation (multi-workspace apps), otherwise the given app
+ */
+export async function getSentEmailApp(
+  app: App | undefined,
+  resolveApp: DeliveryStatusConfig['resolveApp'],
+  sentEmail: SentEmailRecord | undefined,
+): Promise<App | undefined> {
+  return sentEmail?.installation && resolveApp
+    ? resolveApp(sentEmail.installation)
+    : app;
+}
+
+/**
+ * Create a handler that records delivery events for emails sent from Slack
+ * and updates their confirmation message in place.
+ *
+ * Events for emails without a recorded confirmation are ignored.
+ *
+ * @param app - App updating confirmations; unset for multi-workspace apps
+ *   without a default bot token (see resolveApp)
+ */
+export function createDeliveryStatusHandler(
+  app: App | undefined,
+  config: DeliveryStatusConfig,
+): DeliveryStatusHandler {
+  return async (event) => {
+    const updated = await config.sentEmails.updateSentEmail(
+      event.messageId,
+      (sentEmail) => ({
+        ...sentEmail,
+        deliveries: applyDeliveryEvent(sentEmail.deliveries ?? {}, event),
+      }),
+    );
+    if (!updated) {
+      console.log(
+        `No Slack message found for ${event.type} event on ${event.messageId}; skipping`,
+      );
+      return;
+    }
+
+    const workspaceApp = await getSentEmailApp(app, config.resolveApp, updated);
+    if (!workspaceApp) {
+      console.warn(
+        `No Slack workspace found for ${event.type} event on ${event.messageId}; status recorded only`,
+      );
+      return;
+    }
+    const { text, blocks } = buildSentEmailConfirmation(updated);
+    await workspaceApp.client.chat.update({
+      channel: updated.channel,
+      ts: updated.messageTs,
+      text,
+      blocks,
+    });
+  };
+}
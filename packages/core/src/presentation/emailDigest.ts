@@ -0,0 +1,202 @@
+import type { KnownBlock } from '@slack/web-api';
+import type { DigestEntry, DigestSchedule, Email } from '@/domain/entities';
+import { isBulkEmail } from '../domain/entities/email';
+import {
+  type ChannelRouteMatcher,
+  matchesRouteMatcher,
+  validateRouteMatcher,
+} from './channelRouter';
+import { escapeMrkdwn } from './htmlToMrkdwn';
+
+/**
+ * Digest mode for low-priority senders.
+ *
+ * Emails matching a digest rule are buffered instead of posted, then
+ * summarized on the rule's schedule as a single message per channel; the
+ * full emails are posted in that message's thread and linked from it.
+ * Rules use the channel route matchers plus `bulk`, which matches mailing
+ * lists, newsletters and automated mail by their headers. The first
+ * matching rule wins.
+ *
+ * Example rules:
+ * [
+ *   { "match": { "type": "bulk" }, "schedule": "daily" },
+ *   { "match": { "type": "senderDomain", "domain": "github.com" }, "schedule": "hourly" }
+ * ]
+ */
+
+export type DigestRuleMatcher = ChannelRouteMatcher | { type: 'bulk' };
+
+export interface DigestRule {
+  match: DigestRuleMatcher;
+  schedule: DigestSchedule;
+}
+
+export class DigestRuleConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DigestRuleConfigError';
+  }
+}
+
+/** Maximum emails listed per digest message (Slack block limits) */
+export const DIGEST_ENTRY_LIMIT = 40;
+
+/** Emails per section block (Slack section text limit) */
+const ENTRIES_PER_SECTION = 10;
+
+/** Maximum characters of a subject in the digest */
+const SUBJECT_LIMIT = 100;
+
+const SCHEDULE_TITLES: Record<DigestSchedule, string> = {
+  hourly: 'Hourly digest',
+  daily: 'Daily digest',
+};
+
+function matchesRule(matcher: DigestRuleMatcher, email: Email): boolean {
+  return matcher.type === 'bulk'
+    ? isBulkEmail(email)
+    : matchesRouteMatcher(matcher, email);
+}
+
+/**
+ * Find the digest schedule of an email
+ *
+ * @returns The schedule of the first matching rule, or undefined when the
+ *   email should be posted right away
+ */
+export function resolveDigestSchedule(
+  email: Email,
+  rules: DigestRule[],
+): DigestSchedule | undefined {
+  return rules.find((rule) => matchesRule(rule.match, email))?.schedule;
+}
+
+/**
+ * Create the buffer entry of an email
+ */
+export function createDigestEntry(
+  email: Email,
+  storageKey: string,
+  channel: string,
+  schedule: DigestSchedule,
+  now = new Date(),
+): DigestEntry {
+  return {
+    storageKey,
+    messageId: email.messageId,
+    from: email.from.address,
+    subject: email.subject,
+    date: email.date,
+    channel,
+    schedule,
+    bufferedAt: now,
+  };
+}
+
+/**
+ * Validate a single rule object from untrusted configuration
+ */
+function validateRule(value: unknown, index: number): DigestRule {
+  const rule = value as { match?: { type?: unknown }; schedule?: unknown };
+  const prefix = `Invalid digest rule at index ${index}`;
+
+  if (rule?.schedule !== 'hourly' && rule?.schedule !== 'daily') {
+    throw new DigestRuleConfigError(
+      `${prefix}: schedule must be "hourly" or "daily"`,
+    );
+  }
+  if (rule.match?.type === 'bulk') {
+    return { match: { type: 'bulk' }, schedule: rule.schedule };
+  }
+  try {
+    return {
+      match: validateRouteMatcher(rule.match, prefix),
+      schedule: rule.schedule,
+    };
+  } catch (error) {
+    throw new DigestRuleConfigError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+}
+
+/**
+ * Parse digest rules from a JSON string (e.g., an environment variable).
+ *
+ * @param json - JSON array of rules
+ * @returns Validated rules
+ * @throws {DigestRuleConfigError} If the JSON is malformed or a rule is invalid
+ */
+export function parseDigestRules(json: string): DigestRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new DigestRuleConfigError('Digest rules must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new DigestRuleConfigError('Digest rules must be a JSON array');
+  }
+
+  return parsed.map((rule, index) => validateRule(rule, index));
+}
+
+function formatEntry(entry: DigestEntry, permalink: string | undefined) {
+  const subject = entry.subject || '(no subject)';
+  const shortened =
+    subject.length <= SUBJECT_LIMIT
+      ? subject
+      : `${subject.substring(0, SUBJECT_LIMIT - 3)}...`;
+  const title = permalink
+    ? `<${permalink}|${escapeMrkdwn(shortened)}>`
+    : escapeMrkdwn(shortened);
+  return `• *${title}* — ${escapeMrkdwn(entry.from)}`;
+}
+
+/**
+ * Format the digest message of one channel: one line per email with the
+ * sender, subject and a link to the full email (once posted in the thread)
+ *
+ * @param permalinks - Slack permalink by storage key
+ */
+export function formatDigestMessage(
+  schedule: DigestSchedule,
+  entries: DigestEntry[],
+  permalinks: Map<string, string>,
+): { text: string; blocks: KnownBlock[] } {
+  const count = entries.length === 1 ? '1 email' : `${entries.length} emails`;
+  const title = SCHEDULE_TITLES[schedule];
+  const lines = entries.map((entry) =>
+    formatEntry(entry, permalinks.get(entry.storageKey)),
+  );
+
+  const sections: KnownBlock[] = [];
+  for (let i = 0; i < lines.length; i += ENTRIES_PER_SECTION) {
+    sections.push({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: lines.slice(i, i + ENTRIES_PER_SECTION).join('\n'),
+      },
+    });
+  }
+
+  return {
+    text: `${title}: ${count}`,
+    blocks: [
+      {
+        type: 'section',
+        text: { type: 'mrkdwn', text: `:newspaper: *${title}* · ${count}` },
+      },
+      ...sections,
+      {
+        type: 'context',
+        elements: [
+          { type: 'mrkdwn', text: 'Full emails are posted in the thread.' },
+        ],
+      },
+    ],
+  };
+}
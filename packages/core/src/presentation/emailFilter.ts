@@ -0,0 +1,147 @@
+import type { EmailFilterMatcher, EmailFilterRule } from '@/domain/entities';
+
+/**
+ * Configuration of the inbound filter stage (see ReceiveMailUseCase).
+ *
+ * Rules are evaluated in order; the first matching rule wins. `block`
+ * drops the email before it is posted, `allow` posts it without checking
+ * the remaining rules, so list exceptions before the rules they override.
+ * Patterns are case-insensitive regular expressions.
+ *
+ * Example rules:
+ * [
+ *   { "action": "allow", "match": { "type": "sender", "address": "ceo@partner.example" } },
+ *   { "action": "block", "match": { "type": "senderDomain", "domain": "partner.example" } },
+ *   { "name": "spam tag", "action": "block", "match": { "type": "subject", "pattern": "^\\[SPAM\\]" } },
+ *   { "action": "block", "match": { "type": "header", "name": "X-Spam-Flag", "pattern": "^yes$" } }
+ * ]
+ */
+
+export class EmailFilterConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailFilterConfigError';
+  }
+}
+
+/** Field holding the value to match, per matcher type */
+const MATCH_FIELDS: Record<
+  EmailFilterMatcher['type'],
+  'address' | 'domain' | 'pattern' | 'name'
+> = {
+  sender: 'address',
+  senderDomain: 'domain',
+  subject: 'pattern',
+  body: 'pattern',
+  header: 'name',
+};
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+function validatePattern(pattern: string, prefix: string): string {
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new EmailFilterConfigError(
+      `${prefix}: invalid pattern ${JSON.stringify(pattern)} (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+  return pattern;
+}
+
+function validateMatcher(value: unknown, prefix: string): EmailFilterMatcher {
+  const match = value as Record<string, unknown> | undefined;
+  if (!match || typeof match !== 'object') {
+    throw new EmailFilterConfigError(`${prefix}: match is required`);
+  }
+
+  const type = match.type as EmailFilterMatcher['type'];
+  const field = Object.hasOwn(MATCH_FIELDS, type)
+    ? MATCH_FIELDS[type]
+    : undefined;
+  if (!field) {
+    throw new EmailFilterConfigError(
+      `${prefix}: unknown match type ${JSON.stringify(match.type)}`,
+    );
+  }
+  const fieldValue = match[field];
+  if (!isNonEmptyString(fieldValue)) {
+    throw new EmailFilterConfigError(
+      `${prefix}: match.${field} is required for type "${type}"`,
+    );
+  }
+
+  switch (type) {
+    case 'sender':
+      return { type, address: fieldValue.trim() };
+    case 'senderDomain':
+      return { type, domain: fieldValue.trim() };
+    case 'subject':
+    case 'body':
+      return { type, pattern: validatePattern(fieldValue, prefix) };
+    case 'header': {
+      if (match.pattern === undefined) {
+        return { type, name: fieldValue.trim() };
+      }
+      if (!isNonEmptyString(match.pattern)) {
+        throw new EmailFilterConfigError(
+          `${prefix}: match.pattern must be a non-empty string`,
+        );
+      }
+      return {
+        type,
+        name: fieldValue.trim(),
+        pattern: validatePattern(match.pattern, prefix),
+      };
+    }
+  }
+}
+
+/**
+ * Validate a single rule object from untrusted configuration
+ */
+function validateRule(value: unknown, index: number): EmailFilterRule {
+  const rule = value as { name?: unknown; action?: unknown; match?: unknown };
+  const prefix = `Invalid filter rule at index ${index}`;
+
+  if (rule?.action !== 'allow' && rule?.action !== 'block') {
+    throw new EmailFilterConfigError(
+      `${prefix}: action must be "allow" or "block"`,
+    );
+  }
+  if (rule.name !== undefined && !isNonEmptyString(rule.name)) {
+    throw new EmailFilterConfigError(
+      `${prefix}: name must be a non-empty string`,
+    );
+  }
+
+  return {
+    ...(rule.name !== undefined && { name: rule.name.trim() }),
+    action: rule.action,
+    match: validateMatcher(rule.match, prefix),
+  };
+}
+
+/**
+ * Parse filter rules from a JSON string (e.g., an environment variable).
+ *
+ * @param json - JSON array of rules
+ * @returns Validated rules
+ * @throws {EmailFilterConfigError} If the JSON is malformed or a rule is invalid
+ */
+export function parseEmailFilterRules(json: string): EmailFilterRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new EmailFilterConfigError('Filter rules must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new EmailFilterConfigError('Filter rules must be a JSON array');
+  }
+
+  return parsed.map((rule, index) => validateRule(rule, index));
+}
@@ -1,6 +1,19 @@
 import type { KnownBlock } from '@slack/web-api';
 import { convert } from 'html-to-text';
-import type { Email, EmailAddress } from '@/domain/entities';
+import type {
+  AuthenticationStatus,
+  CalendarEvent,
+  CalendarMethod,
+  CalendarParticipationStatus,
+  Email,
+  EmailAddress,
+  EmailAttachment,
+  EmailAuthentication,
+} from '@/domain/entities';
+import { isFlaggedEmail } from '../domain/entities/email';
+import { buildReplyActionsBlock, EMAIL_BODY_BLOCK_ID } from './emailReply';
+import { convertHtmlToMrkdwn, escapeMrkdwn } from './htmlToMrkdwn';
+import { stripQuotedHistory } from './quotedHistory';
 
 /**
  * Convert HTML to plain text, handling null/undefined safely
@@ -9,7 +22,7 @@ function convertHtmlToText(html: string): string {
   const text = convert(html, {
     wordwrap: false,
     selectors: [
-      { selector: 'a', options: { ignoreHref: true } },
+      { selector: 'a', options: { hideLinkHrefIfSameAsText: true } },
       { selector: 'img', format: 'skip' },
     ],
   });
@@ -18,9 +31,9 @@ function convertHtmlToText(html: string): string {
 }
 
 /**
- * Get email body as plain text
+ * Get email body as plain text (e.g. for the full-body file)
  */
-function getEmailBodyText(body: Email['body']): string {
+export function getEmailBodyText(body: Email['body']): string {
   if (body.text) {
     return body.text.trim();
   }
@@ -30,6 +43,17 @@ function getEmailBodyText(body: Email['body']): string {
   return '(no body)';
 }
 
+/**
+ * Get email body as Slack mrkdwn: HTML-only bodies keep their links and
+ * formatting, plain text bodies are used as-is
+ */
+export function getEmailBodyMrkdwn(body: Email['body']): string {
+  if (!body.text && body.html) {
+    return convertHtmlToMrkdwn(body.html) || '(no body)';
+  }
+  return getEmailBodyText(body);
+}
+
 /**
  * Format email address for display
  */
@@ -47,12 +71,251 @@ export function formatEmailAddresses(addresses: EmailAddress[]): string {
   return addresses.map(formatEmailAddress).join(', ');
 }
 
+/**
+ * Whether replies go somewhere other than the sender, which is worth
+ * pointing out (e.g. a no-reply sender, or a phishing attempt)
+ */
+function hasDifferentReplyTo(
+  email: Email,
+): email is Email & { replyTo: EmailAddress } {
+  return (
+    !!email.replyTo?.address &&
+    email.replyTo.address.toLowerCase() !== email.from.address.toLowerCase()
+  );
+}
+
+/**
+ * Format a byte count for display (e.g., "12.3 KB")
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Attachments that should be offered to the reader.
+ * Inline parts (e.g., logos embedded in HTML) are left out.
+ */
+export function getDownloadableAttachments(email: Email): EmailAttachment[] {
+  return (email.attachments ?? []).filter((attachment) => !attachment.inline);
+}
+
+/**
+ * Warning banner for emails flagged by the spam/virus scan
+ */
+export function buildScanWarningBlock(email: Email): KnownBlock {
+  const failedChecks = [
+    email.verdicts?.spam === 'FAIL' && 'spam',
+    email.verdicts?.virus === 'FAIL' && 'virus',
+  ]
+    .filter(Boolean)
+    .join(' and ');
+  const text =
+    email.verdicts?.virus === 'FAIL'
+      ? `:rotating_light: *Failed the ${failedChecks} scan.* Do not open attachments or links.`
+      : `:warning: *Failed the ${failedChecks} scan.* Be careful with links and attachments.`;
+  return {
+    type: 'section',
+    text: { type: 'mrkdwn', text },
+  };
+}
+
+/**
+ * Format one authentication check for display, e.g. ":x: DMARC fail"
+ */
+function formatAuthenticationStatus(
+  label: string,
+  status: AuthenticationStatus | undefined,
+): string {
+  if (status === 'pass') {
+    return `:white_check_mark: *${label}:* pass`;
+  }
+  if (status === 'fail' || status === 'softfail' || status === 'permerror') {
+    return `:x: *${label}:* ${status}`;
+  }
+  return `:grey_question: *${label}:* ${status ?? 'unknown'}`;
+}
+
+/**
+ * Context block with SPF/DKIM/DMARC results
+ */
+export function buildAuthenticationBlock(
+  authentication: EmailAuthentication,
+): KnownBlock {
+  return {
+    type: 'context',
+    elements: [
+      {
+        type: 'mrkdwn',
+        text: [
+          formatAuthenticationStatus('SPF', authentication.spf),
+          formatAuthenticationStatus('DKIM', authentication.dkim),
+          formatAuthenticationStatus('DMARC', authentication.dmarc),
+        ].join('   '),
+      },
+    ],
+  };
+}
+
+/**
+ * Warning banner for emails whose sender failed DMARC (likely spoofed)
+ */
+export function buildDmarcWarningBlock(email: Email): KnownBlock {
+  const domain = email.from.address.split('@')[1] ?? email.from.address;
+  return {
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: `:rotating_light: *DMARC failed:* this email may not really be from \`${domain}\`. Verify the sender before replying, clicking links or opening attachments.`,
+    },
+  };
+}
+
+/** Attendees listed on an event card before "and N more" */
+const MAX_LISTED_ATTENDEES = 10;
+
+const CALENDAR_METHOD_LABELS: Partial<Record<CalendarMethod, string>> = {
+  REQUEST: ':calendar: *Invitation:*',
+  CANCEL: ':x: *Cancelled:*',
+  REPLY: ':incoming_envelope: *Invitation reply:*',
+  COUNTER: ':calendar: *New time proposed:*',
+};
+
+const PARTICIPATION_STATUS_LABELS: Record<CalendarParticipationStatus, string> =
+  {
+    'NEEDS-ACTION': '',
+    ACCEPTED: ' (accepted)',
+    DECLINED: ' (declined)',
+    TENTATIVE: ' (tentative)',
+    DELEGATED: ' (delegated)',
+  };
+
+/**
+ * Slack date token, shown in each reader's own time zone
+ */
+function formatSlackDate(date: Date, format: string): string {
+  const fallback = `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  return `<!date^${Math.floor(date.getTime() / 1000)}^${format}|${fallback}>`;
+}
+
+/**
+ * Date of an all-day event (no time zone conversion)
+ */
+function formatCalendarDate(date: Date): string {
+  return date.toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+/**
+ * When an event takes place, e.g. "Mon, Jan 6, 2025 10:00 – 11:00 (Asia/Tokyo)"
+ */
+export function formatCalendarEventTime(event: CalendarEvent): string {
+  if (event.allDay) {
+    const start = formatCalendarDate(event.start);
+    // The end date of all-day events is exclusive
+    const lastDay = event.end && new Date(event.end.getTime() - 86_400_000);
+    return lastDay && lastDay > event.start
+      ? `${start} – ${formatCalendarDate(lastDay)} (all day)`
+      : `${start} (all day)`;
+  }
+
+  let text = formatSlackDate(event.start, '{date_short_pretty} {time}');
+  if (event.end) {
+    const sameDay = event.end.getTime() - event.start.getTime() < 86_400_000;
+    text += ` – ${formatSlackDate(event.end, sameDay ? '{time}' : '{date_short_pretty} {time}')}`;
+  }
+  return event.timezone ? `${text} (${event.timezone})` : text;
+}
+
+/**
+ * Card for a calendar event (meeting invitation, cancellation or reply)
+ */
+export function buildCalendarEventBlock(event: CalendarEvent): KnownBlock {
+  const label =
+    event.cancelled || event.method === 'CANCEL'
+      ? CALENDAR_METHOD_LABELS.CANCEL
+      : ((event.method && CALENDAR_METHOD_LABELS[event.method]) ??
+        ':calendar: *Event:*');
+
+  const fields = [
+    {
+      type: 'mrkdwn' as const,
+      text: `*When:*\n${formatCalendarEventTime(event)}`,
+    },
+  ];
+  if (event.location) {
+    fields.push({
+      type: 'mrkdwn',
+      text: `*Where:*\n${truncateText(escapeMrkdwn(event.location), FIELD_TEXT_LIMIT)}`,
+    });
+  }
+  if (event.organizer) {
+    fields.push({
+      type: 'mrkdwn',
+      text: `*Organizer:*\n${escapeMrkdwn(formatEmailAddress(event.organizer))}`,
+    });
+  }
+  if (event.attendees.length > 0) {
+    const listed = event.attendees
+      .slice(0, MAX_LISTED_ATTENDEES)
+      .map(
+        (attendee) =>
+          `${escapeMrkdwn(formatEmailAddress(attendee))}${attendee.status ? PARTICIPATION_STATUS_LABELS[attendee.status] : ''}`,
+      );
+    const more = event.attendees.length - listed.length;
+    fields.push({
+      type: 'mrkdwn',
+      text: truncateText(
+        `*Attendees:*\n${listed.join('\n')}${more > 0 ? `\nand ${more} more` : ''}`,
+        FIELD_TEXT_LIMIT,
+      ),
+    });
+  }
+
+  return {
+    type: 'section',
+    text: {
+      type: 'mrkdwn',
+      text: truncateText(
+        `${label} ${escapeMrkdwn(event.summary)}`,
+        FIELD_TEXT_LIMIT,
+      ),
+    },
+    fields,
+  };
+}
+
 /**
  * Slack Block Kit character limits
  * Using safety margins to prevent edge cases
  */
 const HEADER_TEXT_LIMIT = 140; // Slack limit is 150, using 140 for safety
 const BODY_TEXT_LIMIT = 2800; // Slack limit is 3000, using 2800 for safety
+const FIELD_TEXT_LIMIT = 1900; // Slack limit is 2000, using 1900 for safety
+
+/** Title of the thread file holding the full message when quotes are hidden */
+export const FULL_MESSAGE_TITLE = 'Show full message';
+
+/**
+ * Full email body to upload into the thread, for bodies over the block
+ * limit or with hidden quoted history
+ */
+export interface BodyAsFile {
+  content: string;
+  filename: string;
+  /** File title shown in Slack (default: the filename) */
+  title?: string;
+}
 
 /**
  * Truncate text to specified limit, adding ellipsis if truncated
@@ -70,7 +333,7 @@ function truncateText(text: string, limit: number): string {
 export function formatEmailForSlack(email: Email): {
   text: string;
   blocks: KnownBlock[];
-  bodyAsFile?: { content: string; filename: string };
+  bodyAsFile?: BodyAsFile;
 } {
   const fromText = formatEmailAddress(email.from);
   const toText = formatEmailAddresses(email.to);
@@ -101,10 +364,26 @@ export function formatEmailForSlack(email: Email): {
           type: 'mrkdwn',
           text: `*To:*\n${toText}`,
         },
+        ...(hasDifferentReplyTo(email)
+          ? [
+              {
+                type: 'mrkdwn' as const,
+                text: `*Reply-To:*\n${escapeMrkdwn(formatEmailAddress(email.replyTo))}`,
+              },
+            ]
+          : []),
       ],
     },
   ];
 
+  if (email.authentication?.dmarc === 'fail') {
+    blocks.splice(1, 0, buildDmarcWarningBlock(email));
+  }
+
+  if (isFlaggedEmail(email)) {
+    blocks.splice(1, 0, buildScanWarningBlock(email));
+  }
+
   if (ccText) {
     blocks.push({
       type: 'section',
@@ -117,29 +396,46 @@ export function formatEmailForSlack(email: Email): {
     });
   }
 
-  const bodyText = getEmailBodyText(email.body);
+  if (email.authentication) {
+    blocks.push(buildAuthenticationBlock(email.authentication));
+  }
+
+  for (const event of email.calendarEvents ?? []) {
+    blocks.push(buildCalendarEventBlock(event));
+  }
+
+  // Only the new content is posted; quoted history and the signature are
+  // left to the full message in the thread
+  const { content: bodyText, stripped } = stripQuotedHistory(
+    getEmailBodyMrkdwn(email.body),
+  );
 
   // Check if body exceeds Slack limit (3000 chars)
-  let bodyAsFile: { content: string; filename: string } | undefined;
+  let bodyAsFile: BodyAsFile | undefined;
 
-  if (bodyText.length > BODY_TEXT_LIMIT) {
-    // Body is too long - will be sent as file
+  if (bodyText.length > BODY_TEXT_LIMIT || stripped) {
+    // Full body will be sent as file (plain text, not mrkdwn)
     bodyAsFile = {
-      content: bodyText,
+      content: getEmailBodyText(email.body),
       filename: `email-body-${email.messageId}.txt`,
+      ...(stripped ? { title: FULL_MESSAGE_TITLE } : {}),
     };
 
-    // Show truncated preview in blocks
+    // Show (truncated) new content in blocks
     const preview = truncateText(bodyText, BODY_TEXT_LIMIT);
+    const note = stripped
+      ? `_Quoted text hidden. See "${FULL_MESSAGE_TITLE}" in the thread._`
+      : '_Full email body attached as file._';
     blocks.push(
       {
         type: 'divider',
       },
       {
         type: 'section',
+        block_id: EMAIL_BODY_BLOCK_ID,
         text: {
           type: 'mrkdwn',
-          text: `${preview}\n\n_Full email body attached as file._`,
+          text: `${preview}\n\n${note}`,
         },
       },
     );
@@ -151,6 +447,7 @@ export function formatEmailForSlack(email: Email): {
       },
       {
         type: 'section',
+        block_id: EMAIL_BODY_BLOCK_ID,
         text: {
           type: 'mrkdwn',
           text: bodyText,
@@ -159,5 +456,26 @@ export function formatEmailForSlack(email: Email): {
     );
   }
 
+  const attachments = getDownloadableAttachments(email);
+  if (attachments.length > 0) {
+    const attachmentList = attachments
+      .map((a) => `\`${a.filename}\` (${formatFileSize(a.size)})`)
+      .join(', ');
+    blocks.push({
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: truncateText(
+            `:paperclip: *Attachments:* ${attachmentList}`,
+            BODY_TEXT_LIMIT,
+          ),
+        },
+      ],
+    });
+  }
+
+  blocks.push(buildReplyActionsBlock(email));
+
   return { text, blocks, bodyAsFile };
 }
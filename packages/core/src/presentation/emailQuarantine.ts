@@ -0,0 +1,127 @@
+import type { KnownBlock } from '@slack/web-api';
+import type { Email } from '@/domain/entities';
+import {
+  buildScanWarningBlock,
+  formatEmailAddress,
+  getEmailBodyMrkdwn,
+} from './emailFormatter';
+
+/**
+ * Quarantine for emails flagged by the mail provider's spam/virus scan.
+ *
+ * Flagged emails are posted to a quarantine channel with the body hidden.
+ * The "Reveal" button carries the raw email's storage key; clicking it
+ * shows the body only to the user who clicked (ephemeral message).
+ */
+
+export const REVEAL_ACTION_ID = 'reveal_quarantined_email';
+
+/**
+ * Slack Block Kit limits (header: 150, section: 3000, button value: 2000)
+ */
+const HEADER_TEXT_LIMIT = 140;
+const BODY_TEXT_LIMIT = 2800;
+const BUTTON_VALUE_LIMIT = 2000;
+
+/**
+ * Format a flagged email for the quarantine channel.
+ * The body is hidden; a "Reveal" button is offered when the raw email can
+ * be fetched again from storage.
+ */
+export function formatQuarantinedEmailForSlack(
+  email: Email,
+  storageKey?: string,
+): { text: string; blocks: KnownBlock[] } {
+  const fromText = formatEmailAddress(email.from);
+  const subject = `🚫 ${email.subject}`;
+  const headerText =
+    subject.length > HEADER_TEXT_LIMIT
+      ? `${subject.substring(0, HEADER_TEXT_LIMIT - 3)}...`
+      : subject;
+
+  const blocks: KnownBlock[] = [
+    {
+      type: 'header',
+      text: { type: 'plain_text', text: headerText, emoji: true },
+    },
+    buildScanWarningBlock(email),
+    {
+      type: 'section',
+      fields: [
+        { type: 'mrkdwn', text: `*From:*\n${fromText}` },
+        {
+          type: 'mrkdwn',
+          text: `*To:*\n${email.to.map(formatEmailAddress).join(', ')}`,
+        },
+      ],
+    },
+    { type: 'divider' },
+    {
+      type: 'context',
+      elements: [
+        {
+          type: 'mrkdwn',
+          text: `_Body hidden: this email was quarantined.${
+            email.attachments?.length
+              ? ` ${email.attachments.length} attachment(s) withheld.`
+              : ''
+          }_`,
+        },
+      ],
+    },
+  ];
+
+  if (storageKey && storageKey.length <= BUTTON_VALUE_LIMIT) {
+    blocks.push({
+      type: 'actions',
+      elements: [
+        {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Reveal' },
+          action_id: REVEAL_ACTION_ID,
+          value: storageKey,
+          confirm: {
+            title: { type: 'plain_text', text: 'Reveal email?' },
+            text: {
+              type: 'mrkdwn',
+              text: 'The body will be shown only to you. It may contain malicious links.',
+            },
+            confirm: { type: 'plain_text', text: 'Reveal' },
+            deny: { type: 'plain_text', text: 'Cancel' },
+          },
+        },
+      ],
+    });
+  }
+
+  return {
+    text: `🚫 Quarantined email: ${email.subject} from ${fromText}`,
+    blocks,
+  };
+}
+
+/**
+ * Format the body of a quarantined email for the ephemeral "Reveal" message
+ */
+export function formatRevealedEmailForSlack(email: Email): {
+  text: string;
+  blocks: KnownBlock[];
+} {
+  const bodyText = getEmailBodyMrkdwn(email.body);
+  return {
+    text: `Quarantined email: ${email.subject}`,
+    blocks: [
+      buildScanWarningBlock(email),
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text:
+            bodyText.length > BODY_TEXT_LIMIT
+              ? `${bodyText.substring(0, BODY_TEXT_LIMIT - 3)}...`
+              : bodyText,
+        },
+      },
+    ],
+  };
+}
@@ -0,0 +1,224 @@
+import type { KnownBlock, SectionBlock } from '@slack/web-api';
+import type { Email, Redaction, RedactionRule } from '@/domain/entities';
+import { getEmailBodyMrkdwn } from './emailFormatter';
+import { EMAIL_BODY_BLOCK_ID } from './emailReply';
+
+/**
+ * Redaction of sensitive content before emails are posted (see
+ * ReceiveMailUseCase and createDigestPublisher).
+ *
+ * Posts of redacted emails get a notice listing what was removed. Its
+ * "View original" button carries the raw email's storage key; the original
+ * is shown only to allowed users, in an ephemeral message.
+ *
+ * Example rules:
+ * [
+ *   { "type": "creditCard" },
+ *   { "type": "apiKey" },
+ *   { "type": "phone" },
+ *   { "type": "pattern", "name": "password", "pattern": "password:\\s*\\S+" }
+ * ]
+ */
+
+export const VIEW_REDACTED_ACTION_ID = 'view_redacted_email';
+
+export const REDACTION_NOTICE_BLOCK_ID = 'email_redaction';
+
+/**
+ * Slack Block Kit limits (section: 3000, button value: 2000)
+ */
+const BODY_TEXT_LIMIT = 2800;
+const BUTTON_VALUE_LIMIT = 2000;
+
+export class RedactionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedactionConfigError';
+  }
+}
+
+type BuiltInRuleType = Exclude<RedactionRule['type'], 'pattern'>;
+
+const BUILT_IN_TYPES: readonly string[] = [
+  'creditCard',
+  'apiKey',
+  'phone',
+] satisfies BuiltInRuleType[];
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Validate a single rule object from untrusted configuration
+ */
+function validateRule(value: unknown, index: number): RedactionRule {
+  const rule = value as { type?: unknown; name?: unknown; pattern?: unknown };
+  const prefix = `Invalid redaction rule at index ${index}`;
+
+  if (typeof rule?.type === 'string' && BUILT_IN_TYPES.includes(rule.type)) {
+    return { type: rule.type as BuiltInRuleType };
+  }
+  if (rule?.type !== 'pattern') {
+    throw new RedactionConfigError(
+      `${prefix}: unknown type ${JSON.stringify(rule?.type)}`,
+    );
+  }
+
+  if (!isNonEmptyString(rule.name)) {
+    throw new RedactionConfigError(
+      `${prefix}: name is required for type "pattern"`,
+    );
+  }
+  if (!isNonEmptyString(rule.pattern)) {
+    throw new RedactionConfigError(
+      `${prefix}: pattern is required for type "pattern"`,
+    );
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(rule.pattern, 'i');
+  } catch (error) {
+    throw new RedactionConfigError(
+      `${prefix}: invalid pattern ${JSON.stringify(rule.pattern)} (${error instanceof Error ? error.message : String(error)})`,
+    );
+  }
+  if (regex.test('')) {
+    throw new RedactionConfigError(
+      `${prefix}: pattern must not match empty text`,
+    );
+  }
+  return { type: 'pattern', name: rule.name.trim(), pattern: rule.pattern };
+}
+
+/**
+ * Parse redaction rules from a JSON string (e.g., an environment variable).
+ *
+ * @param json - JSON array of rules
+ * @returns Validated rules
+ * @throws {RedactionConfigError} If the JSON is malformed or a rule is invalid
+ */
+export function parseRedactionRules(json: string): RedactionRule[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new RedactionConfigError('Redaction rules must be valid JSON');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new RedactionConfigError('Redaction rules must be a JSON array');
+  }
+
+  return parsed.map((rule, index) => validateRule(rule, index));
+}
+
+/**
+ * Summary of the redactions, e.g. `card number (2), API key (1)`
+ */
+export function formatRedactionSummary(redactions: Redaction[]): string {
+  return redactions
+    .map((redaction) => `${redaction.label} (${redaction.count})`)
+    .join(', ');
+}
+
+/**
+ * Notice for the post of a redacted email.
+ * The "View original" button is offered when the raw email can be fetched
+ * again from storage.
+ */
+export function buildRedactionNoticeBlock(
+  redactions: Redaction[],
+  storageKey?: string,
+): KnownBlock {
+  const block: SectionBlock = {
+    type: 'section',
+    block_id: REDACTION_NOTICE_BLOCK_ID,
+    text: {
+      type: 'mrkdwn',
+      text: `:lock: *Redacted:* ${formatRedactionSummary(redactions)}`,
+    },
+  };
+  if (storageKey && storageKey.length <= BUTTON_VALUE_LIMIT) {
+    block.accessory = {
+      type: 'button',
+      text: { type: 'plain_text', text: 'View original' },
+      action_id: VIEW_REDACTED_ACTION_ID,
+      value: storageKey,
+      confirm: {
+        title: { type: 'plain_text', text: 'View original?' },
+        text: {
+          type: 'mrkdwn',
+          text: 'The unredacted email will be shown only to you. Viewing it is logged.',
+        },
+        confirm: { type: 'plain_text', text: 'View' },
+        deny: { type: 'plain_text', text: 'Cancel' },
+      },
+    };
+  }
+  return block;
+}
+
+/**
+ * Add the redaction notice below the email body (or at the end when the
+ * blocks have no body)
+ */
+export function addRedactionNoticeToBlocks(
+  blocks: KnownBlock[],
+  redactions: Redaction[],
+  storageKey?: string,
+): KnownBlock[] {
+  const notice = buildRedactionNoticeBlock(redactions, storageKey);
+  const bodyIndex = blocks.findIndex(
+    (block) => block.block_id === EMAIL_BODY_BLOCK_ID,
+  );
+  return bodyIndex === -1
+    ? [...blocks, notice]
+    : [
+        ...blocks.slice(0, bodyIndex + 1),
+        notice,
+        ...blocks.slice(bodyIndex + 1),
+      ];
+}
+
+/**
+ * Format the original subject and body of a redacted email for the
+ * ephemeral "View original" message
+ */
+export function formatUnredactedEmailForSlack(email: Email): {
+  text: string;
+  blocks: KnownBlock[];
+} {
+  const bodyText = getEmailBodyMrkdwn(email.body);
+  return {
+    text: `Original email: ${email.subject}`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*Original subject:* ${email.subject}`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text:
+            bodyText.length > BODY_TEXT_LIMIT
+              ? `${bodyText.substring(0, BODY_TEXT_LIMIT - 3)}...`
+              : bodyText,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: '_Unredacted, visible only to you. Do not share it in the channel._',
+          },
+        ],
+      },
+    ],
+  };
+}
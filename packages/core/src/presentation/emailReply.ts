@@ -0,0 +1,381 @@
+import type { KnownBlock, View } from '@slack/web-api';
+import type { Email, EmailAddress } from '@/domain/entities';
+import { parseEmailAddress } from './emailTemplateParser';
+
+/**
+ * Reply to an inbound email from its Slack post.
+ *
+ * Flow: "Reply" button on the post → modal prefilled with the sender as To,
+ * a "Re:" subject and the quoted original body → SendMailUseCase with
+ * In-Reply-To/References so the recipient's client threads the reply.
+ */
+
+export const REPLY_ACTION_ID = 'reply_email_open';
+export const REPLY_VIEW_CALLBACK_ID = 'reply_email_submit';
+/** block_id of the section holding the email body in posts */
+export const EMAIL_BODY_BLOCK_ID = 'email_body';
+/** block_id of the actions block (Reply, triage) in posts */
+export const EMAIL_ACTIONS_BLOCK_ID = 'email_actions';
+
+/**
+ * Slack limits (button value: 2000 chars, private_metadata: 3000 chars,
+ * plain_text_input initial_value: 3000 chars)
+ */
+const BUTTON_VALUE_LIMIT = 2000;
+const SUBJECT_LIMIT = 200;
+const NAME_LIMIT = 200;
+const INPUT_VALUE_LIMIT = 3000;
+
+export class EmailReplyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EmailReplyError';
+  }
+}
+
+/**
+ * Data about the original email needed to build a reply.
+ * Carried in the Reply button value.
+ */
+export interface EmailReplyContext {
+  messageId: string;
+  /** Where the reply goes: Reply-To if present, otherwise From */
+  replyTo: EmailAddress;
+  subject: string;
+  references: string[];
+  /** Original To/Cc addresses, used to pick the sender address of the reply */
+  recipients: string[];
+  date: string;
+}
+
+/**
+ * Reply draft state carried in the modal's private_metadata
+ */
+export interface ReplyDraftMetadata {
+  from: EmailAddress;
+  inReplyTo: string;
+  references: string[];
+  channel: string;
+  threadTs: string;
+}
+
+/**
+ * Values submitted from the reply modal
+ */
+export interface ReplySubmission {
+  to: EmailAddress[];
+  subject: string;
+  body: string;
+}
+
+/**
+ * Shorten the display name of an address to `limit` characters (dropped
+ * when nothing is left)
+ */
+function truncateName(address: EmailAddress, limit: number): EmailAddress {
+  const name = address.name?.substring(0, limit);
+  return name ? { ...address, name } : { address: address.address };
+}
+
+/**
+ * Create reply context from an email
+ */
+export function createReplyContext(email: Email): EmailReplyContext {
+  return {
+    messageId: email.messageId,
+    replyTo: truncateName(email.replyTo ?? email.from, NAME_LIMIT),
+    subject: email.subject.substring(0, SUBJECT_LIMIT),
+    references: email.references ?? [],
+    recipients: [...email.to, ...(email.cc ?? [])].map((r) => r.address),
+    date: email.date.toISOString(),
+  };
+}
+
+/**
+ * Encode reply context as a button value.
+ * When the value would exceed Slack's limit, the oldest references are
+ * dropped first, then the recipients, then the display name and the
+ * subject are shortened (they can grow several times when JSON-escaped).
+ */
+export function encodeReplyContext(context: EmailReplyContext): string {
+  const references = [...context.references];
+  let value = JSON.stringify({ ...context, references });
+  while (value.length > BUTTON_VALUE_LIMIT && references.length > 0) {
+    references.shift();
+    value = JSON.stringify({ ...context, references });
+  }
+  if (value.length <= BUTTON_VALUE_LIMIT) {
+    return value;
+  }
+
+  let { replyTo, subject } = context;
+  value = JSON.stringify({ ...context, references, recipients: [] });
+  while (value.length > BUTTON_VALUE_LIMIT && (replyTo.name || subject)) {
+    if (replyTo.name) {
+      replyTo = truncateName(replyTo, Math.floor(replyTo.name.length / 2));
+    } else {
+      subject = subject.substring(0, Math.floor(subject.length / 2));
+    }
+    value = JSON.stringify({
+      ...context,
+      replyTo,
+      subject,
+      references,
+      recipients: [],
+    });
+  }
+  return value;
+}
+
+/**
+ * Decode reply context from a button value
+ *
+ * @throws {EmailReplyError} If the value is malformed
+ */
+export function decodeReplyContext(value: string): EmailReplyContext {
+  let context: Partial<EmailReplyContext>;
+  try {
+    context = JSON.parse(value) as Partial<EmailReplyContext>;
+  } catch {
+    throw new EmailReplyError('Malformed reply data in button action');
+  }
+  if (!context.messageId || !context.replyTo?.address) {
+    throw new EmailReplyError('Missing original email data in button action');
+  }
+  return {
+    messageId: context.messageId,
+    replyTo: context.replyTo,
+    subject: context.subject ?? '',
+    references: context.references ?? [],
+    recipients: context.recipients ?? [],
+    date: context.date ?? '',
+  };
+}
+
+/**
+ * Build the Reply button block for an email post
+ */
+export function buildReplyActionsBlock(email: Email): KnownBlock {
+  return {
+    type: 'actions',
+    block_id: EMAIL_ACTIONS_BLOCK_ID,
+    elements: [
+      {
+        type: 'button',
+        text: { type: 'plain_text', text: 'Reply' },
+        action_id: REPLY_ACTION_ID,
+        value: encodeReplyContext(createReplyContext(email)),
+      },
+    ],
+  };
+}
+
+/**
+ * Prefix subject with "Re:" unless it already is a reply
+ */
+export function buildReplySubject(subject: string): string {
+  return /^re:/i.test(subject.trim())
+    ? subject.trim()
+    : `Re: ${subject.trim()}`;
+}
+
+/**
+ * Pick the sender address for a reply: the original recipient in our
+ * domain (so the reply comes from the address the customer wrote to),
+ * falling back to the default sender.
+ */
+export function selectReplySender(
+  context: EmailReplyContext,
+  defaultSenderAddress: string,
+): EmailAddress {
+  const domain = defaultSenderAddress.split('@')[1]?.toLowerCase();
+  const recipient = context.recipients.find(
+    (address) => address.split('@')[1]?.toLowerCase() === domain,
+  );
+  return { address: recipient ?? defaultSenderAddress };
+}
+
+/**
+ * Extract the email body text from a posted message's blocks.
+ * mrkdwn links are turned back into "label (url)", and Slack returns text
+ * with &, <, > escaped, so they are unescaped here.
+ */
+export function extractPostedBodyText(blocks: unknown[] | undefined): string {
+  const bodyBlock = (blocks ?? []).find(
+    (block) =>
+      (block as { block_id?: string }).block_id === EMAIL_BODY_BLOCK_ID,
+  ) as { text?: { text?: string } } | undefined;
+  return (bodyBlock?.text?.text ?? '')
+    .replace(
+      /\n\n_(Full email body attached as file\.|Quoted text hidden\. [^_]*)_$/,
+      '',
+    )
+    .replace(
+      /<((?:https?|mailto):[^|>]+)\|([^>]+)>/g,
+      (_, url: string, label: string) =>
+        `${label} (${url.replace(/^mailto:/, '')})`,
+    )
+    .replace(/<((?:https?|mailto):[^|>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Quote the original body for the reply ("On <date>, <sender> wrote:")
+ */
+export function quoteEmailBody(
+  body: string,
+  context: EmailReplyContext,
+): string {
+  const sender = context.replyTo.name
+    ? `${context.replyTo.name} <${context.replyTo.address}>`
+    : context.replyTo.address;
+  const date = context.date ? new Date(context.date).toUTCString() : '';
+  const header = date ? `On ${date}, ${sender} wrote:` : `${sender} wrote:`;
+  const quoted = body
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n');
+  return `\n\n${header}\n${quoted}`;
+}
+
+/**
+ * Build the reply modal
+ */
+export function buildReplyModal(params: {
+  context: EmailReplyContext;
+  from: EmailAddress;
+  quotedBody: string;
+  channel: string;
+  threadTs: string;
+}): View {
+  const { context, from, quotedBody, channel, threadTs } = params;
+  const metadata: ReplyDraftMetadata = {
+    from,
+    inReplyTo: context.messageId,
+    references: [...context.references, context.messageId],
+    channel,
+    threadTs,
+  };
+
+  return {
+    type: 'modal',
+    callback_id: REPLY_VIEW_CALLBACK_ID,
+    title: { type: 'plain_text', text: 'Reply to email' },
+    submit: { type: 'plain_text', text: 'Send' },
+    close: { type: 'plain_text', text: 'Cancel' },
+    private_metadata: JSON.stringify(metadata),
+    blocks: [
+      {
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: `*From:* ${from.address}` }],
+      },
+      {
+        type: 'input',
+        block_id: 'reply_to',
+        label: { type: 'plain_text', text: 'To' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          initial_value: context.replyTo.name
+            ? `${context.replyTo.name} <${context.replyTo.address}>`
+            : context.replyTo.address,
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'reply_subject',
+        label: { type: 'plain_text', text: 'Subject' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          initial_value: buildReplySubject(context.subject),
+        },
+      },
+      {
+        type: 'input',
+        block_id: 'reply_body',
+        label: { type: 'plain_text', text: 'Message' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'value',
+          multiline: true,
+          initial_value: quotedBody.substring(0, INPUT_VALUE_LIMIT),
+        },
+      },
+    ],
+  };
+}
+
+/**
+ * Parse reply draft state from the modal's private_metadata
+ *
+ * @throws {EmailReplyError} If the metadata is malformed
+ */
+export function parseReplyDraftMetadata(value: string): ReplyDraftMetadata {
+  let metadata: Partial<ReplyDraftMetadata>;
+  try {
+    metadata = JSON.parse(value) as Partial<ReplyDraftMetadata>;
+  } catch {
+    throw new EmailReplyError('Malformed reply metadata');
+  }
+  if (
+    !metadata.from?.address ||
+    !metadata.inReplyTo ||
+    !metadata.channel ||
+    !metadata.threadTs
+  ) {
+    throw new EmailReplyError('Missing reply metadata');
+  }
+  return {
+    from: metadata.from,
+    inReplyTo: metadata.inReplyTo,
+    references: metadata.references ?? [metadata.inReplyTo],
+    channel: metadata.channel,
+    threadTs: metadata.threadTs,
+  };
+}
+
+/**
+ * Parse and validate values submitted from the reply modal.
+ *
+ * @param values - view.state.values from the view_submission payload
+ * @returns Parsed submission, or field errors keyed by block_id
+ */
+export function parseReplySubmission(
+  values: Record<string, Record<string, { value?: string | null }>>,
+): { submission?: ReplySubmission; errors?: Record<string, string> } {
+  const read = (blockId: string) =>
+    (values[blockId]?.value?.value ?? '').trim();
+
+  const to = read('reply_to')
+    .split(',')
+    .map((addr) => addr.trim())
+    .filter((addr) => addr.length > 0)
+    .map(parseEmailAddress);
+  const subject = read('reply_subject');
+  const body = read('reply_body');
+
+  const errors: Record<string, string> = {};
+  if (to.length === 0 || to.some((addr) => addr === null)) {
+    errors.reply_to = 'Enter one or more valid email addresses';
+  }
+  if (!subject) {
+    errors.reply_subject = 'Subject is required';
+  }
+  if (!body) {
+    errors.reply_body = 'Message is required';
+  }
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    submission: {
+      to: to as EmailAddress[],
+      subject,
+      body,
+    },
+  };
+}
@@ -0,0 +1,117 @@
+import type { KnownBlock } from '@slack/web-api';
+import type { EmailSearchDocument, EmailSearchQuery } from '@/domain/entities';
+import { escapeMrkdwn } from './htmlToMrkdwn';
+
+/**
+ * Full-text search presentation: the `/mail-search` command.
+ *
+ * Usage:
+ *   /mail-search invoice from:billing@example.com after:2026-01-01
+ *   /mail-search "past due" filename:pdf
+ *
+ * Results are shown only to the user who ran the command, newest first,
+ * with a link to each email's Slack post.
+ */
+
+export const SEARCH_COMMAND = '/mail-search';
+
+/** Maximum results shown (Slack message length) */
+export const SEARCH_RESULT_LIMIT = 10;
+
+/** Characters of body text shown around the first match */
+const SNIPPET_LENGTH = 160;
+
+export const SEARCH_USAGE = [
+  `*Usage:* \`${SEARCH_COMMAND} <words> [qualifiers]\``,
+  'Qualifiers: `from:` `to:` `subject:` `filename:` `after:YYYY-MM-DD` `before:YYYY-MM-DD`',
+  'Use "double quotes" for phrases.',
+].join('\n');
+
+/**
+ * Excerpt of the body around the first search word found in it
+ */
+export function buildSearchSnippet(body: string, terms: string[]): string {
+  const text = body.replace(/\s+/g, ' ').trim();
+  const lower = text.toLowerCase();
+  const index = terms
+    .map((term) => lower.indexOf(term))
+    .filter((position) => position !== -1)
+    .reduce((min, position) => Math.min(min, position), text.length);
+  const start =
+    index === text.length ? 0 : Math.max(0, index - SNIPPET_LENGTH / 4);
+  const snippet = text.substring(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '...' : ''}${snippet}${start + SNIPPET_LENGTH < text.length ? '...' : ''}`;
+}
+
+function formatResult(
+  document: EmailSearchDocument,
+  query: EmailSearchQuery,
+  permalink: string | undefined,
+): KnownBlock {
+  const subject = escapeMrkdwn(document.subject || '(no subject)');
+  const title = permalink ? `<${permalink}|${subject}>` : subject;
+  const lines = [
+    `*${title}*`,
+    `From: ${escapeMrkdwn(document.from)} · ${document.date.toISOString().substring(0, 10)} · <#${document.channel}>`,
+  ];
+  if (document.attachments.length > 0) {
+    lines.push(
+      `:paperclip: ${document.attachments.map(escapeMrkdwn).join(', ')}`,
+    );
+  }
+  const snippet = buildSearchSnippet(document.body, query.terms);
+  if (snippet) {
+    lines.push(`>${escapeMrkdwn(snippet)}`);
+  }
+  return { type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } };
+}
+
+/**
+ * Format search results for Slack
+ *
+ * @param permalinks - Slack permalink by Message-ID; results without one
+ *   are shown without a link
+ */
+export function formatSearchResults(
+  text: string,
+  query: EmailSearchQuery,
+  results: EmailSearchDocument[],
+  permalinks: Map<string, string>,
+): { text: string; blocks: KnownBlock[] } {
+  const searched = escapeMrkdwn(text.trim());
+  if (results.length === 0) {
+    return {
+      text: `No emails found for "${text.trim()}"`,
+      blocks: [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: `:mag: No emails found for \`${searched}\`.`,
+          },
+        },
+      ],
+    };
+  }
+
+  const found = results.length === 1 ? '1 email' : `${results.length} emails`;
+  const more =
+    results.length >= SEARCH_RESULT_LIMIT
+      ? ' (newest first; refine the search to find older ones)'
+      : '';
+  return {
+    text: `${found} found for "${text.trim()}"`,
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `:mag: ${found} found for \`${searched}\`${more}`,
+        },
+      },
+      ...results.map((document) =>
+        formatResult(document, query, permalinks.get(document.messageId)),
+      ),
+    ],
+  };
+}
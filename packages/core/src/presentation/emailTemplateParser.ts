@@ -127,7 +127,7 @@ export function parseEmailTemplate(text: string): ParsedEmailTemplate {
  * @param addressStr - Email address string
  * @returns Parsed EmailAddress or null if invalid
  */
-function parseEmailAddress(addressStr: string): EmailAddress | null {
+export function parseEmailAddress(addressStr: string): EmailAddress | null {
   let normalized = addressStr.trim();
 
   // Handle Slack mailto link format: <mailto:email@example.com|display_text>
@@ -0,0 +1,215 @@
+import type { KnownBlock } from '@slack/web-api';
+import type { Email, TriageAction, TriageState } from '@/domain/entities';
+import {
+  decodeReplyContext,
+  EMAIL_ACTIONS_BLOCK_ID,
+  REPLY_ACTION_ID,
+} from './emailReply';
+
+/**
+ * Shared-inbox triage on email posts.
+ *
+ * Posts get "Assign to me", "Assign to…" (user picker) and "Mark done" /
+ * "Reopen" controls next to the Reply button, plus a status line with the
+ * owner. The state is kept in a TriageRepository; on every action the post
+ * is updated in place by replacing the status block and the triage
+ * controls (found by block_id / action_id), leaving the rest untouched.
+ */
+
+export const TRIAGE_ASSIGN_ME_ACTION_ID = 'triage_assign_me';
+export const TRIAGE_ASSIGN_ACTION_ID = 'triage_assign';
+export const TRIAGE_DONE_ACTION_ID = 'triage_done';
+export const TRIAGE_REOPEN_ACTION_ID = 'triage_reopen';
+/** block_id of the owner/status line in posts */
+export const TRIAGE_STATUS_BLOCK_ID = 'triage_status';
+
+export const TRIAGE_ACTION_IDS = [
+  TRIAGE_ASSIGN_ME_ACTION_ID,
+  TRIAGE_ASSIGN_ACTION_ID,
+  TRIAGE_DONE_ACTION_ID,
+  TRIAGE_REOPEN_ACTION_ID,
+];
+
+/**
+ * What a post shows about its triage state
+ */
+export type TriageDisplay = Pick<
+  TriageState,
+  'status' | 'assignee' | 'updatedBy'
+>;
+
+/** Triage display of a new post */
+export const INITIAL_TRIAGE: TriageDisplay = { status: 'open' };
+
+type ActionsBlock = Extract<KnownBlock, { type: 'actions' }>;
+type ActionsElement = ActionsBlock['elements'][number];
+
+/**
+ * Initial (open, unassigned) state of a new email post
+ */
+export function createTriageState(
+  email: Email,
+  channel: string,
+  messageTs: string,
+): TriageState {
+  return {
+    channel,
+    messageTs,
+    messageId: email.messageId,
+    subject: email.subject,
+    from: email.from.address,
+    status: 'open',
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Read the email's Message-ID from the Reply button of a post
+ *
+ * @returns The Message-ID, or undefined if the post has no Reply button
+ */
+export function findPostedMessageId(blocks: KnownBlock[]): string | undefined {
+  for (const block of blocks) {
+    if (block.type !== 'actions') {
+      continue;
+    }
+    for (const element of block.elements) {
+      const { action_id, value } = element as {
+        action_id?: string;
+        value?: string;
+      };
+      if (action_id === REPLY_ACTION_ID && value) {
+        try {
+          return decodeReplyContext(value).messageId;
+        } catch {
+          return undefined;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the triage action from a block action payload
+ *
+ * @param user - Slack user ID of the user who clicked
+ * @returns The action, or undefined for other actions
+ */
+export function parseTriageAction(
+  action: { action_id?: string; selected_user?: string },
+  user: string,
+): TriageAction | undefined {
+  switch (action.action_id) {
+    case TRIAGE_ASSIGN_ME_ACTION_ID:
+      return { type: 'assign', assignee: user };
+    case TRIAGE_ASSIGN_ACTION_ID:
+      return action.selected_user
+        ? { type: 'assign', assignee: action.selected_user }
+        : undefined;
+    case TRIAGE_DONE_ACTION_ID:
+      return { type: 'done' };
+    case TRIAGE_REOPEN_ACTION_ID:
+      return { type: 'reopen' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Build the owner/status line, e.g.
+ * ":large_green_circle: *Open* · Assigned to <@U123>"
+ */
+export function buildTriageStatusBlock(state: TriageDisplay): KnownBlock {
+  const parts =
+    state.status === 'done'
+      ? [':white_check_mark: *Done*']
+      : [':large_green_circle: *Open*'];
+  parts.push(
+    state.assignee ? `Assigned to <@${state.assignee}>` : 'Unassigned',
+  );
+  if (state.status === 'done' && state.updatedBy) {
+    parts.push(`Closed by <@${state.updatedBy}>`);
+  }
+  return {
+    type: 'context',
+    block_id: TRIAGE_STATUS_BLOCK_ID,
+    elements: [{ type: 'mrkdwn', text: parts.join(' · ') }],
+  };
+}
+
+/**
+ * Build the triage controls for the actions block of a post
+ */
+export function buildTriageElements(state: TriageDisplay): ActionsElement[] {
+  const assignToMe: ActionsElement = {
+    type: 'button',
+    text: { type: 'plain_text', text: 'Assign to me' },
+    action_id: TRIAGE_ASSIGN_ME_ACTION_ID,
+  };
+  const assignTo: ActionsElement = {
+    type: 'users_select',
+    placeholder: { type: 'plain_text', text: 'Assign to…' },
+    action_id: TRIAGE_ASSIGN_ACTION_ID,
+    ...(state.assignee ? { initial_user: state.assignee } : {}),
+  };
+  const toggle: ActionsElement =
+    state.status === 'done'
+      ? {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Reopen' },
+          action_id: TRIAGE_REOPEN_ACTION_ID,
+        }
+      : {
+          type: 'button',
+          text: { type: 'plain_text', text: 'Mark done' },
+          style: 'primary',
+          action_id: TRIAGE_DONE_ACTION_ID,
+        };
+  return [assignToMe, assignTo, toggle];
+}
+
+function isTriageElement(element: ActionsElement): boolean {
+  return TRIAGE_ACTION_IDS.includes(
+    (element as { action_id?: string }).action_id ?? '',
+  );
+}
+
+/**
+ * Show a triage state on the blocks of an email post: the status line is
+ * put right above the actions block, and the triage controls follow the
+ * other actions (Reply). Existing triage blocks and controls are replaced.
+ *
+ * @returns New blocks; the given ones are not modified
+ */
+export function applyTriageToBlocks(
+  blocks: KnownBlock[],
+  state: TriageDisplay,
+): KnownBlock[] {
+  const updated = blocks.filter(
+    (block) => block.block_id !== TRIAGE_STATUS_BLOCK_ID,
+  );
+  let actionsIndex = updated.findIndex(
+    (block) =>
+      block.type === 'actions' && block.block_id === EMAIL_ACTIONS_BLOCK_ID,
+  );
+  if (actionsIndex === -1) {
+    updated.push({
+      type: 'actions',
+      block_id: EMAIL_ACTIONS_BLOCK_ID,
+      elements: [],
+    });
+    actionsIndex = updated.length - 1;
+  }
+
+  const actions = updated[actionsIndex] as ActionsBlock;
+  updated[actionsIndex] = {
+    ...actions,
+    elements: [
+      ...actions.elements.filter((element) => !isTriageElement(element)),
+      ...buildTriageElements(state),
+    ],
+  };
+  updated.splice(actionsIndex, 0, buildTriageStatusBlock(state));
+  return updated;
+}
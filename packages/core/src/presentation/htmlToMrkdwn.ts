@@ -0,0 +1,253 @@
+import { compile, type DomNode, type FormatCallback } from 'html-to-text';
+
+/**
+ * Convert HTML email bodies into Slack mrkdwn.
+ *
+ * Built on html-to-text with custom formatters:
+ * - links → `<url|label>` (http, https and mailto only; other links keep
+ *   just their label)
+ * - b/strong → `*bold*`, i/em → `_italic_`, s/del → `~strike~`,
+ *   code → `` `code` ``, pre → code block
+ * - h1–h6 → bold line
+ * - ul/ol → `•` / numbered items, blockquote → `>` lines
+ * - tables → one line per row with cells separated by ` | `; cells that
+ *   contain block markup (layout tables in newsletters) are rendered as
+ *   plain blocks instead
+ *
+ * Anything else falls back to its text content. Text is escaped for
+ * mrkdwn (`&`, `<`, `>`), so markup in the email cannot inject mentions or
+ * links.
+ */
+
+/** Elements that make a table cell a layout container rather than data */
+const BLOCK_TAGS = new Set([
+  'table',
+  'div',
+  'p',
+  'ul',
+  'ol',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'blockquote',
+  'pre',
+]);
+
+/**
+ * Escape text for Slack mrkdwn
+ */
+export function escapeMrkdwn(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Collapsed text content of an element
+ */
+function getTextContent(node: DomNode): string {
+  if (node.type === 'text') {
+    return node.data ?? '';
+  }
+  return (node.children ?? []).map(getTextContent).join('');
+}
+
+function hasBlockDescendant(node: DomNode): boolean {
+  return (node.children ?? []).some(
+    (child) =>
+      child.type === 'tag' &&
+      (BLOCK_TAGS.has(child.name ?? '') || hasBlockDescendant(child)),
+  );
+}
+
+/**
+ * Link target usable in mrkdwn, or undefined for unsupported schemes
+ * (javascript:, relative and in-page links)
+ */
+function toSlackUrl(href: string | undefined): string | undefined {
+  const url = href?.trim();
+  if (!url || !/^(https?:|mailto:)/i.test(url)) {
+    return undefined;
+  }
+  // "|" and ">" would end the link; "<" and spaces are invalid anyway
+  return url
+    .replace(/\|/g, '%7C')
+    .replace(/</g, '%3C')
+    .replace(/>/g, '%3E')
+    .replace(/\s/g, '%20');
+}
+
+const formatAnchor: FormatCallback = (elem, walk, builder) => {
+  const url = toSlackUrl(elem.attribs?.href);
+  const label = getTextContent(elem).replace(/\s+/g, ' ').trim();
+  if (!url) {
+    walk(elem.children, builder);
+    return;
+  }
+
+  // Bare http(s) links are shown as-is; mailto links need a label
+  if (!label || label === url) {
+    if (!/^mailto:/i.test(url)) {
+      builder.addInline(`<${url}>`, { noWordTransform: true });
+      return;
+    }
+  }
+  const text = label || url.replace(/^mailto:/i, '');
+  builder.addInline(`<${url}|${escapeMrkdwn(text).replace(/\|/g, '¦')}>`, {
+    noWordTransform: true,
+  });
+};
+
+/**
+ * Last text node inside an element
+ */
+function getLastTextNode(node: DomNode): DomNode | undefined {
+  for (const child of [...(node.children ?? [])].reverse()) {
+    const text = child.type === 'text' ? child : getLastTextNode(child);
+    if (text) {
+      return text;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Wrap inline content in a mrkdwn marker (e.g. `*`). Slack only formats
+ * markers that touch the text, so the opening marker is attached to the
+ * first word and trailing whitespace is moved after the closing marker.
+ */
+function createSurroundFormatter(marker: string): FormatCallback {
+  return (elem, walk, builder) => {
+    if (!getTextContent(elem).trim()) {
+      walk(elem.children, builder);
+      return;
+    }
+
+    const lastText = getLastTextNode(elem);
+    const hasTrailingSpace = /\s$/.test(lastText?.data ?? '');
+    if (lastText?.data) {
+      lastText.data = lastText.data.trimEnd();
+    }
+
+    let isFirstWord = true;
+    builder.pushWordTransform((word) => {
+      if (isFirstWord) {
+        isFirstWord = false;
+        return `${marker}${word}`;
+      }
+      return word;
+    });
+    walk(elem.children, builder);
+    builder.popWordTransform();
+    builder.addLiteral(marker);
+    if (hasTrailingSpace) {
+      builder.addInline(' ');
+    }
+  };
+}
+
+const formatHeading: FormatCallback = (elem, walk, builder) => {
+  builder.openBlock({ leadingLineBreaks: 2 });
+  createSurroundFormatter('*')(elem, walk, builder, {});
+  builder.closeBlock({ trailingLineBreaks: 1 });
+};
+
+const formatPre: FormatCallback = (elem, _walk, builder) => {
+  builder.openBlock({ leadingLineBreaks: 2 });
+  builder.addLiteral(
+    `\`\`\`\n${escapeMrkdwn(getTextContent(elem).replace(/\n+$/, ''))}\n\`\`\``,
+  );
+  builder.closeBlock({ trailingLineBreaks: 2 });
+};
+
+const formatTableRow: FormatCallback = (elem, walk, builder) => {
+  builder.openBlock({ leadingLineBreaks: 1 });
+  walk(elem.children, builder);
+  builder.closeBlock({ trailingLineBreaks: 1 });
+};
+
+const formatTableCell: FormatCallback = (elem, walk, builder) => {
+  if (hasBlockDescendant(elem)) {
+    builder.openBlock({ leadingLineBreaks: 1 });
+    walk(elem.children, builder);
+    builder.closeBlock({ trailingLineBreaks: 1 });
+    return;
+  }
+  if (!getTextContent(elem).trim()) {
+    return;
+  }
+
+  const previousCells = (elem.parent?.children ?? []).slice(
+    0,
+    (elem.parent?.children ?? []).indexOf(elem),
+  );
+  if (
+    previousCells.some(
+      (cell) =>
+        (cell.name === 'td' || cell.name === 'th') &&
+        getTextContent(cell).trim(),
+    )
+  ) {
+    builder.addLiteral(' | ');
+  }
+  if (elem.name === 'th') {
+    createSurroundFormatter('*')(elem, walk, builder, {});
+  } else {
+    walk(elem.children, builder);
+  }
+};
+
+const converter = compile({
+  wordwrap: false,
+  encodeCharacters: { '&': '&amp;', '<': '&lt;', '>': '&gt;' },
+  formatters: {
+    slackAnchor: formatAnchor,
+    slackBold: createSurroundFormatter('*'),
+    slackItalic: createSurroundFormatter('_'),
+    slackStrike: createSurroundFormatter('~'),
+    slackCode: createSurroundFormatter('`'),
+    slackHeading: formatHeading,
+    slackPre: formatPre,
+    slackTableRow: formatTableRow,
+    slackTableCell: formatTableCell,
+  },
+  selectors: [
+    { selector: 'a', format: 'slackAnchor' },
+    { selector: 'b', format: 'slackBold' },
+    { selector: 'strong', format: 'slackBold' },
+    { selector: 'i', format: 'slackItalic' },
+    { selector: 'em', format: 'slackItalic' },
+    { selector: 's', format: 'slackStrike' },
+    { selector: 'del', format: 'slackStrike' },
+    { selector: 'strike', format: 'slackStrike' },
+    { selector: 'code', format: 'slackCode' },
+    { selector: 'pre', format: 'slackPre' },
+    { selector: 'h1', format: 'slackHeading' },
+    { selector: 'h2', format: 'slackHeading' },
+    { selector: 'h3', format: 'slackHeading' },
+    { selector: 'h4', format: 'slackHeading' },
+    { selector: 'h5', format: 'slackHeading' },
+    { selector: 'h6', format: 'slackHeading' },
+    { selector: 'ul', options: { itemPrefix: '• ' } },
+    { selector: 'table', format: 'block' },
+    { selector: 'tr', format: 'slackTableRow' },
+    { selector: 'td', format: 'slackTableCell' },
+    { selector: 'th', format: 'slackTableCell' },
+    { selector: 'img', format: 'skip' },
+    { selector: 'hr', format: 'block' },
+  ],
+});
+
+/**
+ * Convert an HTML email body to Slack mrkdwn
+ */
+export function convertHtmlToMrkdwn(html: string): string {
+  return converter(html)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
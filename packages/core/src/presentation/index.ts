@@ -1,7 +1,23 @@
+export * from './channelRouter';
+export * from './deadLetter';
+export * from './deliveryFeedback';
+export * from './deliveryStatus';
+export * from './emailDigest';
+export * from './emailFilter';
 export * from './emailFormatter';
+export * from './emailQuarantine';
+export * from './emailRedaction';
+export * from './emailReply';
+export * from './emailSearch';
 export * from './emailTemplateGenerator';
 export * from './emailTemplateParser';
+export * from './emailTriage';
+export * from './htmlToMrkdwn';
 export * from './messageFetcher';
 export * from './messageUrlParser';
+export * from './quotedHistory';
+export * from './slackApiScheduler';
 export * from './slackApp';
 export * from './slackMessageTextParser';
+export * from './slackOAuth';
+export * from './workspaceSetup';
@@ -0,0 +1,196 @@
+/**
+ * Detect quoted reply history and signatures in email bodies, so that the
+ * Slack post can show only what the sender actually wrote.
+ *
+ * Works on plain text and on mrkdwn converted from HTML (where blockquotes
+ * become `>` lines and `<` / `>` in text are escaped).
+ */
+
+/**
+ * Result of stripQuotedHistory
+ */
+export interface StrippedEmailBody {
+  /** New content of the message */
+  content: string;
+  /** True when quoted history or a signature was removed */
+  stripped: boolean;
+}
+
+/** A `-- ` delimiter followed by more lines than this is not a signature */
+const MAX_SIGNATURE_LINES = 15;
+
+/** "On Mon, Jan 6, 2025 at 10:00 AM Taro <taro@example.com> wrote:" */
+const ENGLISH_ATTRIBUTION = /^On\s.*\bwrote:$/;
+
+/**
+ * Japanese attributions, e.g.
+ * "2025年1月6日(月) 10:00 山田太郎 <taro@example.com>:" (Gmail),
+ * "2025/01/06 10:00、山田太郎 <taro@example.com>のメール:" (Apple Mail),
+ * "山田太郎 さんは書きました:" (Thunderbird)
+ */
+const JAPANESE_ATTRIBUTIONS = [
+  /^\d{4}[年/-]\d{1,2}[月/-]\d{1,2}.*@.*[:：]$/,
+  /(書きました|のメール|のメッセージ)[:：]$/,
+];
+
+/** "-----Original Message-----" (Outlook) and its Japanese variant */
+const ORIGINAL_MESSAGE_SEPARATOR =
+  /^-{2,}\s*(Original Message|元のメッセージ)\s*-{2,}$/i;
+
+/** Underscore rule Outlook puts above the quoted headers */
+const OUTLOOK_RULE = /^_{10,}$/;
+const OUTLOOK_FROM = /^\*?(From|差出人|送信者)\s*\*?[:：]/i;
+const OUTLOOK_SENT = /^\*?(Sent|Date|送信日時|日付)\s*\*?[:：]/i;
+
+/** "Sent from my iPhone", "Get Outlook for Android", "iPhoneから送信" */
+const MOBILE_SIGNATURE =
+  /^(Sent from my \S.*|Sent from (Mail|Outlook) for \S.*|Get Outlook for \S.*|(iPhone|iPad|Android|Galaxy|Xperia|Outlook|Gmail)\S*\s?から送信)$/i;
+
+function isQuoted(line: string): boolean {
+  return /^\s*(>|&gt;)/.test(line);
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/**
+ * Index of the next non-blank line at or after `start`
+ */
+function nextContentLine(lines: string[], start: number): number {
+  let index = start;
+  while (index < lines.length && isBlank(lines[index])) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * True when everything from `start` on is quoted or blank, i.e. the
+ * sender did not answer inline
+ */
+function isQuotedToEnd(lines: string[], start: number): boolean {
+  return lines.slice(start).every((line) => isBlank(line) || isQuoted(line));
+}
+
+/**
+ * Number of lines the attribution starting at `index` spans (clients wrap
+ * long "On ... wrote:" lines), or 0 when it is not an attribution
+ */
+function getAttributionLength(lines: string[], index: number): number {
+  const line = lines[index].trim();
+  const joined = `${line} ${lines[index + 1]?.trim() ?? ''}`.trim();
+  if (ENGLISH_ATTRIBUTION.test(line)) {
+    return 1;
+  }
+  if (/^On\s/.test(line) && ENGLISH_ATTRIBUTION.test(joined)) {
+    return 2;
+  }
+  if (JAPANESE_ATTRIBUTIONS.some((pattern) => pattern.test(line))) {
+    return 1;
+  }
+  return 0;
+}
+
+/**
+ * True when the line starts Outlook-style history, which is not prefixed
+ * with `>` and always runs to the end of the message
+ */
+function isOutlookHistoryStart(lines: string[], index: number): boolean {
+  const line = lines[index].trim();
+  if (ORIGINAL_MESSAGE_SEPARATOR.test(line)) {
+    return true;
+  }
+  const headerIndex = OUTLOOK_RULE.test(line)
+    ? nextContentLine(lines, index + 1)
+    : index;
+  if (!OUTLOOK_FROM.test(lines[headerIndex]?.trim() ?? '')) {
+    return false;
+  }
+  return lines
+    .slice(headerIndex + 1, headerIndex + 4)
+    .some((next) => OUTLOOK_SENT.test(next.trim()));
+}
+
+/**
+ * Index where the quoted history starts, or lines.length when there is none
+ */
+function findHistoryStart(lines: string[]): number {
+  for (let index = 0; index < lines.length; index++) {
+    if (isOutlookHistoryStart(lines, index)) {
+      return index;
+    }
+    const attributionLength = getAttributionLength(lines, index);
+    if (
+      attributionLength > 0 &&
+      isQuotedToEnd(lines, index + attributionLength)
+    ) {
+      return index;
+    }
+  }
+
+  // A trailing `>` block without a recognized attribution; a line ending in
+  // ":" right above it is taken as the attribution ("Taro wrote:")
+  let start = lines.length;
+  while (
+    start > 0 &&
+    (isBlank(lines[start - 1]) || isQuoted(lines[start - 1]))
+  ) {
+    start--;
+  }
+  if (!lines.slice(start).some(isQuoted)) {
+    return lines.length;
+  }
+  if (start > 0 && /[:：]\s*$/.test(lines[start - 1])) {
+    start--;
+  }
+  return start;
+}
+
+/**
+ * Index where the signature starts, or lines.length when there is none
+ */
+function findSignatureStart(lines: string[]): number {
+  for (
+    let index = lines.length - 1;
+    index >= Math.max(0, lines.length - MAX_SIGNATURE_LINES - 1);
+    index--
+  ) {
+    if (/^--\s?$/.test(lines[index])) {
+      return index;
+    }
+  }
+
+  let last = lines.length - 1;
+  while (last >= 0 && isBlank(lines[last])) {
+    last--;
+  }
+  if (last >= 0 && MOBILE_SIGNATURE.test(lines[last].trim())) {
+    return last;
+  }
+  return lines.length;
+}
+
+/**
+ * Remove quoted reply history (`On ... wrote:` and `>` blocks, Outlook
+ * "Original Message" headers, Japanese attributions) and the signature
+ * (`-- ` delimiter or "Sent from my iPhone" lines) from an email body.
+ *
+ * Inline replies, where the sender answers between quoted lines, are kept
+ * as they are. If nothing would remain (e.g. a bare forward), the body is
+ * returned unchanged.
+ */
+export function stripQuotedHistory(text: string): StrippedEmailBody {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const withoutHistory = lines.slice(0, findHistoryStart(lines));
+  const withoutSignature = withoutHistory.slice(
+    0,
+    findSignatureStart(withoutHistory),
+  );
+
+  const content = withoutSignature.join('\n').trim();
+  if (!content || withoutSignature.length === lines.length) {
+    return { content: text, stripped: false };
+  }
+  return { content, stripped: true };
+}
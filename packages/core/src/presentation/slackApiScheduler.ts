@@ -0,0 +1,222 @@
+/**
+ * Rate-limit aware scheduling of Slack Web API calls.
+ *
+ * Each method has a token bucket (Slack limits are per method and token):
+ * calls beyond its burst wait for a token instead of running into
+ * `rate_limited`. When Slack still answers with a rate limit, the method
+ * is paused for the `Retry-After` it returned and the call is retried, so
+ * concurrent posts wait as well instead of each failing on their own.
+ * Calls that had to wait are logged with their queue delay.
+ */
+
+export interface SlackMethodLimit {
+  /** Sustained calls per minute */
+  perMinute: number;
+  /** Calls that may run back to back before throttling starts */
+  burst: number;
+}
+
+/**
+ * Limits of the methods used to post emails, below Slack's published
+ * tiers (chat.postMessage allows about one message per second per channel)
+ */
+export const DEFAULT_SLACK_METHOD_LIMITS: Readonly<
+  Record<string, SlackMethodLimit>
+> = {
+  'chat.postMessage': { perMinute: 60, burst: 10 },
+  'chat.update': { perMinute: 50, burst: 10 },
+  'files.uploadV2': { perMinute: 20, burst: 5 },
+};
+
+/** Limit of methods without their own entry (Slack's Tier 3) */
+const FALLBACK_LIMIT: SlackMethodLimit = { perMinute: 50, burst: 10 };
+
+/** Wait used when a rate-limited response has no Retry-After */
+const DEFAULT_RETRY_AFTER_MS = 1000;
+
+export interface SlackApiSchedulerConfig {
+  /** Limits per method, merged over DEFAULT_SLACK_METHOD_LIMITS */
+  limits?: Record<string, SlackMethodLimit>;
+  /** Retries of a call after rate-limited responses (default: 3) */
+  maxRateLimitRetries?: number;
+  /**
+   * Longest total Retry-After a call waits for (default: 20 s, within the
+   * 30 s timeout of the Lambdas); calls told to wait longer fail right away
+   */
+  maxRetryAfterMs?: number;
+  /** Log calls that waited at least this long (default: 1 s) */
+  logDelayMs?: number;
+}
+
+interface TokenBucket {
+  limit: SlackMethodLimit;
+  tokens: number;
+  refilledAt: number;
+  /** Set from Retry-After; no call starts before this time */
+  pausedUntil: number;
+  /** Waiting calls, so tokens are handed out in call order */
+  queue: Promise<void>;
+  waiting: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Retry-After of a rate-limited Slack API error, in milliseconds
+ *
+ * @returns undefined when the error is not a rate limit
+ */
+export function getSlackRetryAfterMs(error: unknown): number | undefined {
+  const slackError = error as {
+    code?: string;
+    retryAfter?: number;
+    data?: {
+      error?: string;
+      response_metadata?: { retryAfter?: number };
+    };
+  };
+  // Thrown by WebClient with rejectRateLimitedCalls (HTTP 429)
+  if (slackError?.code === 'slack_webapi_rate_limited_error') {
+    return slackError.retryAfter !== undefined
+      ? slackError.retryAfter * 1000
+      : DEFAULT_RETRY_AFTER_MS;
+  }
+  const platformError = slackError?.data?.error;
+  if (platformError === 'ratelimited' || platformError === 'rate_limited') {
+    const retryAfter = slackError.data?.response_metadata?.retryAfter;
+    return retryAfter !== undefined
+      ? retryAfter * 1000
+      : DEFAULT_RETRY_AFTER_MS;
+  }
+  return undefined;
+}
+
+/**
+ * Scheduler for Slack Web API calls made with one token.
+ * Share one instance between everything posting with that token (see
+ * getSlackApiScheduler), so the buckets see all calls.
+ */
+export class SlackApiScheduler {
+  private readonly limits: Record<string, SlackMethodLimit>;
+  private readonly maxRateLimitRetries: number;
+  private readonly maxRetryAfterMs: number;
+  private readonly logDelayMs: number;
+  private readonly buckets = new Map<string, TokenBucket>();
+
+  constructor(config: SlackApiSchedulerConfig = {}) {
+    this.limits = { ...DEFAULT_SLACK_METHOD_LIMITS, ...config.limits };
+    this.maxRateLimitRetries = config.maxRateLimitRetries ?? 3;
+    this.maxRetryAfterMs = config.maxRetryAfterMs ?? 20_000;
+    this.logDelayMs = config.logDelayMs ?? 1000;
+    for (const [method, limit] of Object.entries(this.limits)) {
+      if (!(limit.perMinute > 0) || !(limit.burst >= 1)) {
+        throw new Error(
+          `Invalid Slack rate limit for ${method}: perMinute must be positive and burst at least 1`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Run a Slack API call once its method has capacity, retrying it after
+   * rate-limited responses
+   *
+   * @param method - Slack API method, e.g. "chat.postMessage"
+   * @param request - Performs the call; may be invoked more than once
+   */
+  async call<T>(method: string, request: () => Promise<T>): Promise<T> {
+    const bucket = this.getBucket(method);
+    let waitedMs = 0;
+    for (let retry = 0; ; retry++) {
+      await this.acquire(method, bucket);
+      try {
+        return await request();
+      } catch (error) {
+        const retryAfterMs = getSlackRetryAfterMs(error);
+        if (
+          retryAfterMs === undefined ||
+          retry >= this.maxRateLimitRetries ||
+          waitedMs + retryAfterMs > this.maxRetryAfterMs
+        ) {
+          throw error;
+        }
+        waitedMs += retryAfterMs;
+        // Pause the method for everyone, not just this call
+        bucket.pausedUntil = Math.max(
+          bucket.pausedUntil,
+          Date.now() + retryAfterMs,
+        );
+        // Resume with one call, then at the sustained rate (no burst)
+        bucket.tokens = 1;
+        bucket.refilledAt = bucket.pausedUntil;
+        console.warn('Slack API rate limited, pausing method:', {
+          method,
+          retryAfterMs,
+          attempt: retry + 1,
+        });
+      }
+    }
+  }
+
+  private getBucket(method: string): TokenBucket {
+    let bucket = this.buckets.get(method);
+    if (!bucket) {
+      const limit = this.limits[method] ?? FALLBACK_LIMIT;
+      bucket = {
+        limit,
+        tokens: limit.burst,
+        refilledAt: Date.now(),
+        pausedUntil: 0,
+        queue: Promise.resolve(),
+        waiting: 0,
+      };
+      this.buckets.set(method, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Wait for a token of the method, in call order
+   */
+  private async acquire(method: string, bucket: TokenBucket): Promise<void> {
+    const queuedAt = Date.now();
+    const queued = bucket.waiting;
+    bucket.waiting++;
+
+    const turn = bucket.queue.then(async () => {
+      for (;;) {
+        const now = Date.now();
+        const msPerToken = 60_000 / bucket.limit.perMinute;
+        bucket.tokens = Math.min(
+          bucket.limit.burst,
+          bucket.tokens + Math.max(0, now - bucket.refilledAt) / msPerToken,
+        );
+        bucket.refilledAt = Math.max(now, bucket.refilledAt);
+
+        const waitMs = Math.max(
+          bucket.pausedUntil - now,
+          bucket.tokens >= 1 ? 0 : (1 - bucket.tokens) * msPerToken,
+        );
+        if (waitMs <= 0) {
+          bucket.tokens -= 1;
+          return;
+        }
+        await sleep(Math.ceil(waitMs));
+      }
+    });
+    bucket.queue = turn;
+    await turn;
+    bucket.waiting--;
+
+    const delayMs = Date.now() - queuedAt;
+    if (delayMs >= this.logDelayMs) {
+      console.log('Slack API call delayed:', {
+        method,
+        delayMs,
+        queuedBehind: queued,
+      });
+    }
+  }
+}
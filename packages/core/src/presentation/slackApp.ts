@@ -1,38 +1,238 @@
-import { App, AwsLambdaReceiver } from '@slack/bolt';
+import {
+  App,
+  type AuthorizeResult,
+  type AuthorizeSourceData,
+  AwsLambdaReceiver,
+} from '@slack/bolt';
+import { type KnownBlock, WebClient } from '@slack/web-api';
+import type {
+  EmailPostLocation,
+  EmailReceivedCallback,
+  EmailReceivedContext,
+} from '@/application/receiveMailUseCase';
+import type { ReplayFailedEmailsUseCase } from '@/application/usecases/replayFailedEmailsUseCase';
 import type { SendMailUseCase } from '@/application/usecases/sendMailUseCase';
-import type { Email } from '@/domain/entities';
-import { formatEmailForSlack } from './emailFormatter';
+import type {
+  ApprovedDomains,
+  DigestEntry,
+  DigestSchedule,
+  Email,
+  EmailSearchDocument,
+  InstallationQuery,
+  Redaction,
+  RedactionRule,
+  TriageState,
+  WorkspaceConfig,
+  WorkspaceInstallation,
+} from '@/domain/entities';
+import type { EmailParser } from '@/domain/entities/emailParser';
+import type {
+  DeadLetterRepository,
+  DigestBufferRepository,
+  InstallationRepository,
+  ProcessedEmailRepository,
+  SearchIndexRepository,
+  SentEmailRecord,
+  SentEmailRepository,
+  StorageRepository,
+  ThreadIndexRepository,
+  ThreadLocation,
+  TriageRepository,
+} from '@/domain/repositories';
+import { isFlaggedEmail } from '../domain/entities/email';
+import {
+  createEmailSearchDocument,
+  isEmptySearchQuery,
+  parseEmailSearchQuery,
+} from '../domain/entities/emailSearch';
+import {
+  findInstallationsForEmail,
+  getInstallationId,
+  isDomainApproved,
+} from '../domain/entities/installation';
+import { redactEmail } from '../domain/entities/redaction';
+import { applyTriageAction } from '../domain/entities/triage';
+import { type ChannelRoute, resolveChannel } from './channelRouter';
+import {
+  formatDeadLetterList,
+  formatReplayResults,
+  parseReplayCommand,
+  REPLAY_BATCH_LIMIT,
+  REPLAY_COMMAND,
+  toDeadLetterRecord,
+} from './deadLetter';
+import { buildSentEmailConfirmation } from './deliveryStatus';
+import {
+  createDigestEntry,
+  DIGEST_ENTRY_LIMIT,
+  type DigestRule,
+  formatDigestMessage,
+  resolveDigestSchedule,
+} from './emailDigest';
+import {
+  formatEmailForSlack,
+  getDownloadableAttachments,
+} from './emailFormatter';
+import {
+  formatQuarantinedEmailForSlack,
+  formatRevealedEmailForSlack,
+  REVEAL_ACTION_ID,
+} from './emailQuarantine';
+import {
+  addRedactionNoticeToBlocks,
+  formatUnredactedEmailForSlack,
+  VIEW_REDACTED_ACTION_ID,
+} from './emailRedaction';
+import {
+  buildReplyModal,
+  decodeReplyContext,
+  EmailReplyError,
+  extractPostedBodyText,
+  parseReplyDraftMetadata,
+  parseReplySubmission,
+  quoteEmailBody,
+  REPLY_ACTION_ID,
+  REPLY_VIEW_CALLBACK_ID,
+  type ReplyDraftMetadata,
+  selectReplySender,
+} from './emailReply';
+import {
+  formatSearchResults,
+  SEARCH_COMMAND,
+  SEARCH_RESULT_LIMIT,
+  SEARCH_USAGE,
+} from './emailSearch';
 import { generateEmailTemplate } from './emailTemplateGenerator';
 import { parseEmailTemplate } from './emailTemplateParser';
+import {
+  applyTriageToBlocks,
+  createTriageState,
+  findPostedMessageId,
+  INITIAL_TRIAGE,
+  parseTriageAction,
+  TRIAGE_ACTION_IDS,
+} from './emailTriage';
 import { fetchMessage } from './messageFetcher';
 import { parseMessageUrl } from './messageUrlParser';
+import {
+  SlackApiScheduler,
+  type SlackApiSchedulerConfig,
+} from './slackApiScheduler';
 import {
   extractSlackMessageUrl,
   hasBotMention,
   isTemplateRequest,
 } from './slackMessageTextParser';
+import {
+  formatWorkspaceConfig,
+  parseSetupCommand,
+  SETUP_COMMAND,
+  SETUP_USAGE,
+  WorkspaceSetupError,
+} from './workspaceSetup';
 
 export interface SlackAppConfig {
   signingSecret: string;
-  botToken: string;
-  channel: string;
+  /** Bot token of an app installed into a single workspace */
+  botToken?: string;
+  channel?: string;
+  /**
+   * Workspaces the app was installed into through the OAuth flow
+   * (see createSlackOAuthHandlers). Used instead of botToken: each request
+   * is authorized with the bot token of its workspace.
+   */
+  installations?: InstallationRepository;
+  /** Per-method limits and Retry-After handling for posting emails */
+  rateLimits?: SlackApiSchedulerConfig;
+}
+
+/** Scheduler shared by everything posting with an app's token */
+const apiSchedulers = new WeakMap<App, SlackApiScheduler>();
+
+/** Clients of the scheduled calls, which leave rate limits to the scheduler */
+const postingClients = new WeakMap<App, WebClient>();
+
+/**
+ * Scheduler for the Slack API calls made to post emails with an app.
+ * One instance per app, so concurrent posts share its token buckets.
+ */
+export function getSlackApiScheduler(app: App): SlackApiScheduler {
+  let scheduler = apiSchedulers.get(app);
+  if (!scheduler) {
+    scheduler = new SlackApiScheduler();
+    apiSchedulers.set(app, scheduler);
+  }
+  return scheduler;
+}
+
+/**
+ * Client for calls made through the app's scheduler. It rejects
+ * rate-limited calls instead of retrying them itself, so the scheduler can
+ * honor Retry-After for all pending posts; other calls use the app's
+ * client, which retries on its own.
+ */
+function getSlackPostingClient(app: App): WebClient {
+  return postingClients.get(app) ?? app.client;
+}
+
+/**
+ * Authorize requests with the bot token of the installation of their
+ * workspace
+ */
+function createInstallationAuthorize(installations: InstallationRepository) {
+  return async (
+    source: AuthorizeSourceData<boolean>,
+  ): Promise<AuthorizeResult> => {
+    const installation = await installations.findInstallation(source);
+    if (!installation) {
+      throw new Error(
+        `No installation found for ${source.isEnterpriseInstall ? `enterprise ${source.enterpriseId}` : `team ${source.teamId}`}`,
+      );
+    }
+    return {
+      botToken: installation.botToken,
+      botUserId: installation.botUserId,
+      botId: installation.botId,
+      teamId: installation.teamId,
+      enterpriseId: installation.enterpriseId,
+    };
+  };
 }
 
 /**
- * Create Slack Bolt App with AwsLambdaReceiver
+ * Create Slack Bolt App with AwsLambdaReceiver.
+ *
+ * Emails are posted with a separate client that rejects rate-limited calls
+ * instead of retrying them inside it, so the posting scheduler can honor
+ * Retry-After for all pending posts (see getSlackApiScheduler).
+ *
+ * @throws {Error} If neither botToken nor installations is set
  */
 export function createSlackApp(config: SlackAppConfig): {
   app: App;
   receiver: AwsLambdaReceiver;
 } {
+  if (!config.botToken && !config.installations) {
+    throw new Error('Either botToken or installations is required');
+  }
+
   const receiver = new AwsLambdaReceiver({
     signingSecret: config.signingSecret,
   });
 
   const app = new App({
-    token: config.botToken,
+    ...(config.installations
+      ? { authorize: createInstallationAuthorize(config.installations) }
+      : { token: config.botToken }),
     receiver,
   });
+  apiSchedulers.set(app, new SlackApiScheduler(config.rateLimits));
+  if (config.botToken) {
+    postingClients.set(
+      app,
+      new WebClient(config.botToken, { rejectRateLimitedCalls: true }),
+    );
+  }
 
   return { app, receiver };
 }
@@ -79,28 +279,130 @@ function getSlackErrorMessage(errorCode: string): string {
   return errorMessages[errorCode] || `Slack API error: ${errorCode}`;
 }
 
+/**
+ * File that could not be uploaded into the thread of an email post
+ */
+interface FailedUpload {
+  filename: string;
+  error: string;
+}
+
+function getUploadErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'File upload failed';
+}
+
+/**
+ * Mark the email post as missing files, and post a note per file into the
+ * thread. Failures are only logged, since the email itself was posted.
+ */
+async function reportFailedUploads(
+  app: App,
+  channel: string,
+  post: {
+    messageTs: string;
+    threadTs: string;
+    text: string;
+    blocks: KnownBlock[];
+    failedUploads: FailedUpload[];
+  },
+): Promise<void> {
+  const { failedUploads } = post;
+  const scheduler = getSlackApiScheduler(app);
+  try {
+    await scheduler.call('chat.update', () =>
+      getSlackPostingClient(app).chat.update({
+        channel,
+        ts: post.messageTs,
+        text: `${post.text} (${failedUploads.length} attachment(s) failed to upload)`,
+        blocks: [
+          ...post.blocks,
+          {
+            type: 'context',
+            elements: [
+              {
+                type: 'mrkdwn',
+                text: `:warning: *Attachment failed to upload:* ${failedUploads
+                  .map((failed) => `\`${failed.filename}\``)
+                  .join(', ')}`,
+              },
+            ],
+          },
+        ],
+      }),
+    );
+    for (const failed of failedUploads) {
+      await scheduler.call('chat.postMessage', () =>
+        getSlackPostingClient(app).chat.postMessage({
+          channel,
+          thread_ts: post.threadTs,
+          text: `:warning: Failed to upload \`${failed.filename}\`: ${failed.error}`,
+        }),
+      );
+    }
+  } catch (error) {
+    console.error('Failed to report attachment upload failures:', {
+      channel,
+      messageTs: post.messageTs,
+      failedUploads,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Options for posting an email to Slack
+ */
+export interface PostEmailOptions {
+  /** Post as a reply in this thread instead of a new top-level message */
+  threadTs?: string;
+  /** Add triage controls (Assign / Mark done) with an open, unassigned status */
+  triage?: boolean;
+  /** What was redacted from the email; adds a notice to the post */
+  redactions?: Redaction[];
+  /** Storage key of the raw email, enables "View original" on the notice */
+  storageKey?: string;
+}
+
 /**
  * Post email to Slack channel
+ *
+ * @returns Timestamp of the posted message
  */
 export async function postEmailToSlack(
   app: App,
   channel: string,
   email: Email,
+  options: PostEmailOptions = {},
 ): Promise<string | undefined> {
   if (!channel || channel.trim().length === 0) {
     console.error('postEmailToSlack: channel is empty');
     throw new SlackPostError('Channel cannot be empty', 'invalid_channel');
   }
 
-  const { text, blocks, bodyAsFile } = formatEmailForSlack(email);
+  const formatted = formatEmailForSlack(email);
+  const { text, bodyAsFile } = formatted;
+  const emailBlocks = options.redactions?.length
+    ? addRedactionNoticeToBlocks(
+        formatted.blocks,
+        options.redactions,
+        options.storageKey,
+      )
+    : formatted.blocks;
+  const blocks = options.triage
+    ? applyTriageToBlocks(emailBlocks, INITIAL_TRIAGE)
+    : emailBlocks;
+  const scheduler = getSlackApiScheduler(app);
 
   try {
     // Post the main message first
-    const result = await app.client.chat.postMessage({
-      channel,
-      text,
-      blocks,
-    });
+    const result = await scheduler.call('chat.postMessage', () =>
+      getSlackPostingClient(app).chat.postMessage({
+        channel,
+        text,
+        blocks,
+        ...(options.threadTs ? { thread_ts: options.threadTs } : {}),
+      }),
+    );
 
     if (!result.ok || !result.ts) {
       const errorCode = result.error || 'unknown_error';
@@ -109,50 +411,78 @@ export async function postEmailToSlack(
       throw new SlackPostError(message, errorCode);
     }
 
+    const messageTs = result.ts;
+    // Files always go into the thread root (Slack threads are one level deep)
+    const fileThreadTs = options.threadTs ?? messageTs;
+
+    // Upload failures are reported on the post instead of thrown: the
+    // email is already in the channel, and a retry would post it again
+    const failedUploads: FailedUpload[] = [];
+
     // If body is too long, upload it as a file in a thread
     if (bodyAsFile) {
       try {
-        await app.client.files.uploadV2({
-          channel_id: channel,
-          content: bodyAsFile.content,
-          filename: bodyAsFile.filename,
-          thread_ts: result.ts, // Upload file as a threaded reply
-          snippet_type: 'text',
-        });
+        await scheduler.call('files.uploadV2', () =>
+          getSlackPostingClient(app).files.uploadV2({
+            channel_id: channel,
+            content: bodyAsFile.content,
+            filename: bodyAsFile.filename,
+            ...(bodyAsFile.title ? { title: bodyAsFile.title } : {}),
+            thread_ts: fileThreadTs, // Upload file as a threaded reply
+            snippet_type: 'text',
+          }),
+        );
       } catch (uploadError) {
         console.error('Failed to upload email body as file:', uploadError);
-
-        // Update the original message to indicate the file upload failed
-        await app.client.chat.update({
-          channel,
-          ts: result.ts,
-          text: `${text} (Attachment failed to upload)`,
-          blocks: [
-            ...blocks,
-            {
-              type: 'context',
-              elements: [
-                {
-                  type: 'mrkdwn',
-                  text: ':warning: *Attachment failed to upload.*',
-                },
-              ],
-            },
-          ],
+        failedUploads.push({
+          filename: bodyAsFile.filename,
+          error: getUploadErrorMessage(uploadError),
         });
+      }
+    }
 
-        // Re-throw as SlackPostError to ensure the overall operation is marked as failed
-        const errorMessage =
-          uploadError instanceof Error
-            ? uploadError.message
-            : 'File upload failed';
-        throw new SlackPostError(
-          `Failed to upload email attachment: ${errorMessage}`,
-          'file_upload_error',
+    // Upload each attachment into the thread, collecting failures so that
+    // one broken file doesn't prevent the others from being delivered
+    for (const attachment of getDownloadableAttachments(email)) {
+      if (!attachment.content) {
+        failedUploads.push({
+          filename: attachment.filename,
+          error: 'Attachment content is not available',
+        });
+        continue;
+      }
+      const { content } = attachment;
+      try {
+        await scheduler.call('files.uploadV2', () =>
+          getSlackPostingClient(app).files.uploadV2({
+            channel_id: channel,
+            file: content,
+            filename: attachment.filename,
+            thread_ts: fileThreadTs,
+          }),
+        );
+      } catch (uploadError) {
+        console.error(
+          `Failed to upload email attachment ${attachment.filename}:`,
+          uploadError,
         );
+        failedUploads.push({
+          filename: attachment.filename,
+          error: getUploadErrorMessage(uploadError),
+        });
       }
     }
 
+    if (failedUploads.length > 0) {
+      await reportFailedUploads(app, channel, {
+        messageTs,
+        threadTs: fileThreadTs,
+        text,
+        blocks,
+        failedUploads,
+      });
+    }
+
     return result.ts;
   } catch (error) {
     if (error instanceof SlackPostError) {
@@ -165,7 +495,11 @@ export async function postEmailToSlack(
       message?: string;
       data?: { error?: string; message?: string };
     };
-    const errorCode = slackError.code || 'unknown_error';
+    // Still rate limited after the scheduler's retries
+    const errorCode =
+      slackError.code === 'slack_webapi_rate_limited_error'
+        ? 'rate_limited'
+        : slackError.code || 'unknown_error';
 
     // Extract actual error from error.data for slack_webapi_platform_error
     if (errorCode === 'slack_webapi_platform_error') {
@@ -186,11 +520,61 @@ export async function postEmailToSlack(
   }
 }
 
+/**
+ * Post a flagged email to the quarantine channel with its body hidden.
+ * Attachments are not uploaded.
+ *
+ * @param storageKey - Storage key of the raw email, enables the "Reveal" button
+ * @returns Timestamp of the posted message
+ */
+export async function postQuarantinedEmailToSlack(
+  app: App,
+  channel: string,
+  email: Email,
+  storageKey?: string,
+): Promise<string | undefined> {
+  const { text, blocks } = formatQuarantinedEmailForSlack(email, storageKey);
+
+  try {
+    const result = await getSlackApiScheduler(app).call(
+      'chat.postMessage',
+      () =>
+        getSlackPostingClient(app).chat.postMessage({ channel, text, blocks }),
+    );
+
+    if (!result.ok || !result.ts) {
+      const errorCode = result.error || 'unknown_error';
+      const message = getSlackErrorMessage(errorCode);
+      console.error(`postQuarantinedEmailToSlack failed: ${message}`);
+      throw new SlackPostError(message, errorCode);
+    }
+
+    return result.ts;
+  } catch (error) {
+    if (error instanceof SlackPostError) {
+      throw error;
+    }
+    const slackError = error as {
+      code?: string;
+      data?: { error?: string };
+    };
+    const errorCode =
+      slackError.code === 'slack_webapi_rate_limited_error'
+        ? 'rate_limited'
+        : slackError.data?.error || slackError.code || 'unknown_error';
+    const message = getSlackErrorMessage(errorCode);
+    console.error(`postQuarantinedEmailToSlack exception: ${message}`, error);
+    throw new SlackPostError(message, errorCode);
+  }
+}
+
 /**
  * Failed email record for dead-letter queue
  */
 export interface FailedEmailRecord {
   email: Email;
+  /** Storage key of the raw email, needed to replay it */
+  storageKey?: string;
   channel: string;
   error: string;
   errorCode?: string;
@@ -219,6 +603,33 @@ const defaultFailedEmailHandler: FailedEmailHandler = async (record) => {
   });
 };
 
+/**
+ * Create a failed email handler that stores records in a dead-letter store,
+ * so they can be replayed later.
+ * Store failures are logged; the delivery error is still thrown by the
+ * email received handler.
+ */
+export function createDeadLetterHandler(
+  deadLetters: DeadLetterRepository,
+): FailedEmailHandler {
+  return async (record) => {
+    await defaultFailedEmailHandler(record);
+    const deadLetter = toDeadLetterRecord(record);
+    try {
+      await deadLetters.save(deadLetter);
+      console.error(
+        `Stored failed email in dead-letter store: ${deadLetter.id}`,
+      );
+    } catch (error) {
+      console.error('Failed to store email in dead-letter store:', {
+        messageId: record.email.messageId,
+        storageKey: record.storageKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+}
+
 /**
  * Sleep utility for retry backoff
  */
@@ -226,6 +637,81 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Message IDs an email refers to, most relevant first:
+ * In-Reply-To, then References from newest to oldest.
+ */
+function getReferencedMessageIds(email: Email): string[] {
+  const ids = [
+    ...(email.inReplyTo ? [email.inReplyTo] : []),
+    ...[...(email.references ?? [])].reverse(),
+  ];
+  return [...new Set(ids)];
+}
+
+/**
+ * Look up the thread of the conversation an email replies to.
+ * Lookup failures are logged and treated as "no thread" so the email is
+ * still delivered as a top-level message.
+ */
+async function findConversationThread(
+  threadIndex: ThreadIndexRepository,
+  email: Email,
+): Promise<ThreadLocation | undefined> {
+  const messageIds = getReferencedMessageIds(email);
+  if (messageIds.length === 0) {
+    return undefined;
+  }
+  try {
+    return await threadIndex.findThread(messageIds);
+  } catch (error) {
+    console.error('Failed to look up email thread:', {
+      messageId: email.messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Record the thread an email was posted into.
+ * Failures are logged but not thrown: the email has already been posted,
+ * and retrying would post it again.
+ */
+async function saveConversationThread(
+  threadIndex: ThreadIndexRepository,
+  email: Email,
+  location: ThreadLocation,
+): Promise<void> {
+  try {
+    await threadIndex.saveThread(email.messageId, location);
+  } catch (error) {
+    console.error('Failed to save email thread:', {
+      messageId: email.messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Record the triage state of a new post.
+ * Failures are logged but not thrown: the email has already been posted,
+ * and the first triage action on the post creates the state anyway.
+ */
+async function saveInitialTriage(
+  triage: TriageRepository,
+  state: TriageState,
+): Promise<void> {
+  try {
+    await triage.saveTriage(state);
+  } catch (error) {
+    console.error('Failed to save triage state:', {
+      messageId: state.messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
 /**
  * Configuration for email received handler
  */
@@ -233,23 +719,125 @@ export interface EmailReceivedHandlerConfig {
   maxRetries?: number;
   initialBackoffMs?: number;
   onFailure?: FailedEmailHandler;
+  /**
+   * Recipient-based routing rules. The `channel` passed to the handler is
+   * used as the catch-all when no route matches.
+   */
+  routes?: ChannelRoute[];
+  /**
+   * Message-ID → Slack thread index. When set, replies to an already
+   * posted email are posted into that email's thread.
+   */
+  threadIndex?: ThreadIndexRepository;
+  /**
+   * Channel for emails that failed the spam/virus scan. When set, flagged
+   * emails are posted there with the body hidden; otherwise they are posted
+   * as usual with a warning banner.
+   */
+  quarantineChannel?: string;
+  /**
+   * Triage state store. When set, top-level posts get Assign / Mark done
+   * controls (handled by registerTriageListeners) and start as open.
+   */
+  triage?: TriageRepository;
+  /**
+   * Digest mode. When set, emails matching a rule are buffered instead of
+   * posted, and summarized by createDigestPublisher on the rule's schedule.
+   */
+  digest?: EmailDigestConfig;
+}
+
+/**
+ * Rules and buffer for digest mode
+ */
+export interface EmailDigestConfig {
+  rules: DigestRule[];
+  buffer: DigestBufferRepository;
+}
+
+/**
+ * Buffer an email for its digest.
+ * Failures are logged and reported as false, so the email is posted right
+ * away instead of being lost.
+ */
+async function bufferForDigest(
+  buffer: DigestBufferRepository,
+  entry: DigestEntry,
+): Promise<boolean> {
+  try {
+    await buffer.addToDigest(entry);
+    console.log('Buffered email for digest:', {
+      messageId: entry.messageId,
+      channel: entry.channel,
+      schedule: entry.schedule,
+    });
+    return true;
+  } catch (error) {
+    console.error('Failed to buffer email for digest, posting it now:', {
+      messageId: entry.messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
 }
 
 /**
  * Create onEmailReceived callback for ReceiveMailUseCase
+ *
+ * @param app - Slack app used to post
+ * @param channel - Default channel (catch-all when routes are configured)
+ * @param config - Retry, dead-letter and routing configuration
+ * @returns Callback resolving with where the email was posted
+ *   (undefined for quarantined emails, which are not searchable, and for
+ *   emails buffered for a digest)
  */
 export function createEmailReceivedHandler(
   app: App,
   channel: string,
   config: EmailReceivedHandlerConfig = {},
-): (email: Email) => Promise<void> {
+): (
+  email: Email,
+  context?: EmailReceivedContext,
+) => Promise<EmailPostLocation | undefined> {
   const {
     maxRetries = 2,
     initialBackoffMs = 1000,
     onFailure = defaultFailedEmailHandler,
+    routes = [],
+    threadIndex,
+    quarantineChannel,
+    triage,
+    digest,
   } = config;
 
-  return async (email: Email) => {
+  return async (email: Email, context?: EmailReceivedContext) => {
+    const quarantined = !!quarantineChannel && isFlaggedEmail(email);
+    const thread =
+      threadIndex && !quarantined
+        ? await findConversationThread(threadIndex, email)
+        : undefined;
+    // A reply stays in the channel of its conversation, regardless of routing
+    const targetChannel = quarantined
+      ? quarantineChannel
+      : (thread?.channel ?? resolveChannel(email, routes, channel));
+
+    // Digests need the stored email, and replies stay in their thread
+    const schedule =
+      digest && !quarantined && !thread && context?.storageKey
+        ? resolveDigestSchedule(email, digest.rules)
+        : undefined;
+    if (
+      digest &&
+      schedule &&
+      context?.storageKey &&
+      (await bufferForDigest(
+        digest.buffer,
+        createDigestEntry(email, context.storageKey, targetChannel, schedule),
+      ))
+    ) {
+      return undefined;
+    }
+
     let lastError: SlackPostError | Error | undefined;
     let attempts = 0;
 
@@ -265,8 +853,36 @@ export function createEmailReceivedHandler(
       }
 
       try {
-        await postEmailToSlack(app, channel, email);
-        return;
+        if (quarantined) {
+          await postQuarantinedEmailToSlack(
+            app,
+            targetChannel,
+            email,
+            context?.storageKey,
+          );
+          return undefined;
+        }
+        // Replies posted into a thread are triaged with the thread's post
+        const triaged = !!triage && !thread;
+        const ts = await postEmailToSlack(app, targetChannel, email, {
+          threadTs: thread?.threadTs,
+          triage: triaged,
+          redactions: context?.redactions,
+          storageKey: context?.storageKey,
+        });
+        if (triage && triaged && ts) {
+          await saveInitialTriage(
+            triage,
+            createTriageState(email, targetChannel, ts),
+          );
+        }
+        if (threadIndex && ts) {
+          await saveConversationThread(threadIndex, email, {
+            channel: targetChannel,
+            threadTs: thread?.threadTs ?? ts,
+          });
+        }
+        return ts ? { channel: targetChannel, messageTs: ts } : undefined;
       } catch (error) {
         lastError = error as SlackPostError | Error;
         console.error(
@@ -275,7 +891,7 @@ export function createEmailReceivedHandler(
             messageId: email.messageId,
             from: email.from.address,
             subject: email.subject,
-            channel,
+            channel: targetChannel,
             error: lastError.message,
             errorCode:
               lastError instanceof SlackPostError ? lastError.code : undefined,
@@ -309,7 +925,8 @@ export function createEmailReceivedHandler(
     // All retries exhausted, send to dead-letter handler
     const failedRecord: FailedEmailRecord = {
       email,
-      channel,
+      storageKey: context?.storageKey,
+      channel: targetChannel,
       error: lastError?.message || 'Unknown error',
       errorCode:
         lastError instanceof SlackPostError ? lastError.code : undefined,
@@ -323,59 +940,263 @@ export function createEmailReceivedHandler(
 }
 
 /**
- * Configuration for mail sending listeners
+ * Configuration for delivering emails to the workspaces set up for their
+ * recipients' domains
  */
-export interface MailSendingConfig {
-  sendMailUseCase: SendMailUseCase;
-  defaultSenderAddress: string;
+export interface WorkspaceEmailRouterConfig {
+  /**
+   * Installations, listed for every email (see CachedInstallationRepository
+   * to list them once per invocation)
+   */
+  installations: InstallationRepository;
+  /** Domains approved per workspace; emails to other domains are not routed */
+  approvedDomains: ApprovedDomains;
+  /**
+   * Callback delivering to one workspace, e.g. createEmailReceivedHandler
+   * with an app using the installation's bot token
+   */
+  getHandler: (
+    installation: WorkspaceInstallation,
+    channel: string,
+  ) => EmailReceivedCallback;
+  /**
+   * Idempotency store of each workspace: an email delivered to one
+   * workspace is still delivered to the others, and a retry skips the
+   * workspaces it already reached. Use it instead of the ReceiveMailUseCase
+   * store, which would skip the email for every workspace.
+   */
+  getProcessedEmails?: (
+    installation: WorkspaceInstallation,
+  ) => ProcessedEmailRepository | undefined;
+  /** Called with emails no workspace is set up for */
+  onFailure?: FailedEmailHandler;
 }
 
 /**
- * Register mail sending listeners (template and send)
+ * Create onEmailReceived callback for a multi-workspace app.
+ * Each email goes to the channel of every installation whose approved
+ * email domain matches a recipient (installations without a channel are
+ * skipped).
+ *
+ * @returns Where the email was posted in the first of those workspaces
+ * @throws {SlackPostError} With code `no_installation` when no workspace
+ *   is set up for the email (after calling onFailure)
+ * @throws The first delivery error, after delivering to the other
+ *   workspaces
  */
-export function registerMailSendingListeners(
-  app: App,
-  config: MailSendingConfig,
-): void {
-  // Debug: Log all incoming messages
-  app.message(async ({ message, next }) => {
-    console.log(
-      '[Bolt] Received message event:',
-      JSON.stringify(message, null, 2),
+export function createWorkspaceEmailRouter(
+  config: WorkspaceEmailRouterConfig,
+): EmailReceivedCallback {
+  const { onFailure = defaultFailedEmailHandler } = config;
+
+  return async (email, context) => {
+    const installations = findInstallationsForEmail(
+      email,
+      (await config.installations.listInstallations()).filter(
+        (candidate) =>
+          candidate.config.channel &&
+          candidate.config.emailDomain &&
+          isDomainApproved(
+            config.approvedDomains,
+            candidate,
+            candidate.config.emailDomain,
+          ),
+      ),
     );
-    await next();
-  });
 
-  // Handle "@bot template" - generate and post email template
-  app.message(async ({ message, say, next }) => {
-    const text = (message as { text?: string }).text || '';
+    if (installations.length === 0) {
+      const error = new SlackPostError(
+        "No workspace is set up for the recipients' domains",
+        'no_installation',
+      );
+      console.error('No workspace found for email:', {
+        messageId: email.messageId,
+        to: email.to.map((recipient) => recipient.address),
+      });
+      await onFailure({
+        email,
+        storageKey: context.storageKey,
+        channel: '',
+        error: error.message,
+        errorCode: error.code,
+        timestamp: new Date(),
+        attempts: 0,
+      });
+      throw error;
+    }
 
-    if (!isTemplateRequest(text)) {
-      await next();
-      return;
+    const key = { storageKey: context.storageKey, messageId: email.messageId };
+    let location: EmailPostLocation | undefined;
+    let firstError: unknown;
+    for (const installation of installations) {
+      const workspace = getInstallationId(installation);
+      const processedEmails = config.getProcessedEmails?.(installation);
+      if (await processedEmails?.hasProcessed(key)) {
+        console.log(
+          `Skipping email already delivered to workspace ${workspace}: ${email.messageId}`,
+        );
+        continue;
+      }
+
+      try {
+        const posted = await config.getHandler(
+          installation,
+          installation.config.channel as string,
+        )(email, context);
+        location ??= posted;
+      } catch (error) {
+        // The other workspaces still get the email
+        firstError ??= error;
+        continue;
+      }
+
+      try {
+        await processedEmails?.markProcessed(key);
+      } catch (error) {
+        console.error('Failed to record email as delivered:', {
+          ...key,
+          workspace,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     }
 
-    console.log(
-      '[Bolt] Matched template pattern, message:',
-      JSON.stringify(message, null, 2),
-    );
-    try {
-      const template = generateEmailTemplate();
-      await say({
-        text: 'Email template:',
-        blocks: [
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: '*Email Template*\n\nPlease copy this template, fill it out, and post it as a new message. Then mention me with the message URL to send the email.',
-            },
-          },
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: `\`\`\`\n${template}\`\`\``,
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+    return location;
+  };
+}
+
+/**
+ * Sending settings of a workspace
+ */
+export interface MailSender {
+  sendMailUseCase: SendMailUseCase;
+  defaultSenderAddress: string;
+}
+
+/**
+ * Configuration for mail sending listeners
+ */
+export interface MailSendingConfig extends Partial<MailSender> {
+  /**
+   * Sending settings of the workspace of a request (multi-workspace apps).
+   * Used instead of sendMailUseCase and defaultSenderAddress; sending
+   * fails in workspaces it returns nothing for.
+   */
+  resolveSender?: (query: InstallationQuery) => Promise<MailSender | undefined>;
+  /**
+   * Where to record the confirmation message of each sent email, so that
+   * bounces and complaints can be posted into its thread
+   */
+  sentEmails?: SentEmailRepository;
+}
+
+/**
+ * Sending settings for a request
+ *
+ * @throws {Error} If sending is not set up for the request's workspace
+ */
+async function getMailSender(
+  config: MailSendingConfig,
+  query: InstallationQuery,
+): Promise<MailSender> {
+  const sender = config.resolveSender
+    ? await config.resolveSender(query)
+    : config.sendMailUseCase &&
+      config.defaultSenderAddress && {
+        sendMailUseCase: config.sendMailUseCase,
+        defaultSenderAddress: config.defaultSenderAddress,
+      };
+  if (!sender) {
+    throw new Error(
+      `Email sending is not set up for this workspace. Set a domain with \`${SETUP_COMMAND} domain\`.`,
+    );
+  }
+  return sender;
+}
+
+/**
+ * Workspace a request came from, recorded with sent emails of
+ * multi-workspace apps so delivery feedback is posted with its token
+ */
+function getSendingInstallation(
+  config: MailSendingConfig,
+  query: InstallationQuery,
+): InstallationQuery | undefined {
+  return config.resolveSender
+    ? {
+        teamId: query.teamId,
+        enterpriseId: query.enterpriseId,
+        isEnterpriseInstall: query.isEnterpriseInstall,
+      }
+    : undefined;
+}
+
+/**
+ * Record a sent email; failures are logged and do not fail the send
+ */
+async function recordSentEmail(
+  sentEmails: SentEmailRepository | undefined,
+  record: SentEmailRecord,
+): Promise<void> {
+  if (!sentEmails) {
+    return;
+  }
+  try {
+    await sentEmails.saveSentEmail(record);
+  } catch (error) {
+    console.error(`Failed to record sent email ${record.messageId}:`, error);
+  }
+}
+
+/**
+ * Register mail sending listeners (template, send, and reply)
+ */
+export function registerMailSendingListeners(
+  app: App,
+  config: MailSendingConfig,
+): void {
+  // Debug: Log all incoming messages
+  app.message(async ({ message, next }) => {
+    console.log(
+      '[Bolt] Received message event:',
+      JSON.stringify(message, null, 2),
+    );
+    await next();
+  });
+
+  // Handle "@bot template" - generate and post email template
+  app.message(async ({ message, say, next }) => {
+    const text = (message as { text?: string }).text || '';
+
+    if (!isTemplateRequest(text)) {
+      await next();
+      return;
+    }
+
+    console.log(
+      '[Bolt] Matched template pattern, message:',
+      JSON.stringify(message, null, 2),
+    );
+    try {
+      const template = generateEmailTemplate();
+      await say({
+        text: 'Email template:',
+        blocks: [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: '*Email Template*\n\nPlease copy this template, fill it out, and post it as a new message. Then mention me with the message URL to send the email.',
+            },
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: `\`\`\`\n${template}\`\`\``,
             },
           },
           {
@@ -398,7 +1219,7 @@ export function registerMailSendingListeners(
   });
 
   // Handle "@bot <message_url>" or "<message_url> @bot" - fetch, parse, confirm, and send email
-  app.message(async ({ message, say, client, next }) => {
+  app.message(async ({ message, say, client, context, next }) => {
     const text = (message as { text?: string }).text || '';
 
     // Check if this is an email send request (bot mention + message URL)
@@ -435,7 +1256,7 @@ export function registerMailSendingListeners(
 
       // Use default sender if not provided
       const fromAddress = emailData.from ?? {
-        address: config.defaultSenderAddress,
+        address: (await getMailSender(config, context)).defaultSenderAddress,
       };
 
       // Show confirmation dialog
@@ -517,7 +1338,7 @@ export function registerMailSendingListeners(
   });
 
   // Handle "Send Email" button click
-  app.action('send_email_confirm', async ({ ack, body, respond }) => {
+  app.action('send_email_confirm', async ({ ack, body, context, respond }) => {
     await ack();
 
     try {
@@ -584,7 +1405,8 @@ export function registerMailSendingListeners(
       });
 
       // Send via SendMailUseCase
-      const result = await config.sendMailUseCase.execute({
+      const { sendMailUseCase } = await getMailSender(config, context);
+      const result = await sendMailUseCase.execute({
         from: validatedFrom,
         to: validatedTo,
         subject: emailData.subject,
@@ -593,28 +1415,31 @@ export function registerMailSendingListeners(
         },
       });
 
+      const sent = {
+        messageId: result.messageId,
+        recipients: validatedTo.map((r) => r.address),
+        subject: emailData.subject,
+        from: validatedFrom.address,
+        sentAt: new Date(),
+      };
+
       // Update the message with success confirmation
-      await respond({
-        text: `Email sent successfully to ${validatedTo.map((r) => r.address).join(', ')}`,
-        blocks: [
-          {
-            type: 'section',
-            text: {
-              type: 'mrkdwn',
-              text: `*:white_check_mark: Email Sent Successfully*\n\n*To:* ${validatedTo.map((r) => r.address).join(', ')}\n*From:* ${validatedFrom.address}\n*Subject:* ${emailData.subject}`,
-            },
-          },
-          {
-            type: 'context',
-            elements: [
-              {
-                type: 'mrkdwn',
-                text: `Message ID: \`${result.messageId}\``,
-              },
-            ],
-          },
-        ],
-      });
+      await respond(buildSentEmailConfirmation(sent));
+
+      // The confirmation replaces the message with the button
+      const actionBody = body as {
+        channel?: { id?: string };
+        message?: { ts?: string; thread_ts?: string };
+      };
+      if (actionBody.channel?.id && actionBody.message?.ts) {
+        await recordSentEmail(config.sentEmails, {
+          ...sent,
+          channel: actionBody.channel.id,
+          messageTs: actionBody.message.ts,
+          threadTs: actionBody.message.thread_ts,
+          installation: getSendingInstallation(config, context),
+        });
+      }
     } catch (error) {
       console.error('Failed to send email:', error);
       const errorMessage =
@@ -645,4 +1470,976 @@ export function registerMailSendingListeners(
       ],
     });
   });
+
+  // Handle "Reply" button click on an email post - open the reply modal
+  app.action(REPLY_ACTION_ID, async ({ ack, body, client, context }) => {
+    await ack();
+
+    const actionBody = body as {
+      trigger_id?: string;
+      actions?: Array<{ value?: string }>;
+      channel?: { id?: string };
+      message?: { ts?: string; thread_ts?: string; blocks?: unknown[] };
+    };
+
+    try {
+      const value = actionBody.actions?.[0]?.value;
+      if (!value) {
+        throw new EmailReplyError('Missing email data in button action');
+      }
+      const channel = actionBody.channel?.id;
+      const messageTs = actionBody.message?.ts;
+      if (!actionBody.trigger_id || !channel || !messageTs) {
+        throw new EmailReplyError('Missing message context in button action');
+      }
+
+      const replyContext = decodeReplyContext(value);
+      const { defaultSenderAddress } = await getMailSender(config, context);
+      await client.views.open({
+        trigger_id: actionBody.trigger_id,
+        view: buildReplyModal({
+          context: replyContext,
+          from: selectReplySender(replyContext, defaultSenderAddress),
+          quotedBody: quoteEmailBody(
+            extractPostedBodyText(actionBody.message?.blocks),
+            replyContext,
+          ),
+          channel,
+          // Replies to a threaded email post stay in that thread
+          threadTs: actionBody.message?.thread_ts ?? messageTs,
+        }),
+      });
+    } catch (error) {
+      console.error('Failed to open reply modal:', error);
+    }
+  });
+
+  // Handle reply modal submission - send the reply with threading headers
+  app.view(
+    REPLY_VIEW_CALLBACK_ID,
+    async ({ ack, view, body, client, context }) => {
+      const { submission, errors } = parseReplySubmission(
+        view.state.values as Record<
+          string,
+          Record<string, { value?: string | null }>
+        >,
+      );
+      if (!submission) {
+        await ack({ response_action: 'errors', errors: errors ?? {} });
+        return;
+      }
+
+      let metadata: ReplyDraftMetadata;
+      try {
+        metadata = parseReplyDraftMetadata(view.private_metadata);
+      } catch (error) {
+        console.error('Failed to parse reply metadata:', error);
+        await ack({
+          response_action: 'errors',
+          errors: { reply_body: 'This reply can no longer be sent' },
+        });
+        return;
+      }
+
+      await ack();
+
+      try {
+        const { sendMailUseCase } = await getMailSender(config, context);
+        const result = await sendMailUseCase.execute({
+          from: metadata.from,
+          to: submission.to,
+          subject: submission.subject,
+          body: { text: submission.body },
+          inReplyTo: metadata.inReplyTo,
+          references: metadata.references,
+        });
+
+        const sent = {
+          messageId: result.messageId,
+          recipients: submission.to.map((r) => r.address),
+          subject: submission.subject,
+          from: metadata.from.address,
+          isReply: true,
+          sentBy: body.user.id,
+          sentAt: new Date(),
+        };
+        const confirmation = await client.chat.postMessage({
+          channel: metadata.channel,
+          thread_ts: metadata.threadTs,
+          ...buildSentEmailConfirmation(sent),
+        });
+
+        if (confirmation.ts) {
+          await recordSentEmail(config.sentEmails, {
+            ...sent,
+            channel: metadata.channel,
+            messageTs: confirmation.ts,
+            threadTs: metadata.threadTs,
+            installation: getSendingInstallation(config, context),
+          });
+        }
+      } catch (error) {
+        console.error('Failed to send reply:', error);
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        await client.chat.postEphemeral({
+          channel: metadata.channel,
+          thread_ts: metadata.threadTs,
+          user: body.user.id,
+          text: `:x: Failed to send reply: ${errorMessage}`,
+        });
+      }
+    },
+  );
+}
+
+/**
+ * Configuration for publishing digests
+ */
+export interface DigestPublisherConfig {
+  buffer: DigestBufferRepository;
+  /** Storage the buffered emails are read from when posted */
+  storageRepository: StorageRepository;
+  emailParser: EmailParser;
+  /** When set, the posted emails are indexed for search */
+  searchIndex?: SearchIndexRepository;
+  /**
+   * Rules for sensitive content removed before the emails are posted and
+   * indexed (the same rules as ReceiveMailUseCase, which redacted the
+   * buffered subjects)
+   */
+  redaction?: RedactionRule[];
+}
+
+export interface DigestPublishResult {
+  /** Emails posted (and removed from the buffer) */
+  posted: number;
+  /** Emails that could not be read or posted; they stay buffered */
+  failed: number;
+}
+
+export type DigestPublisher = (
+  schedule: DigestSchedule,
+) => Promise<DigestPublishResult>;
+
+/**
+ * Post one digest message and its emails into a channel
+ */
+async function publishDigest(
+  app: App,
+  config: DigestPublisherConfig,
+  schedule: DigestSchedule,
+  channel: string,
+  entries: DigestEntry[],
+): Promise<DigestPublishResult> {
+  // Read every email first, so the digest only lists emails it can show
+  const emails = new Map<
+    DigestEntry,
+    { email: Email; redactions: Redaction[] }
+  >();
+  for (const entry of entries) {
+    try {
+      const rawEmail = await config.storageRepository.fetchRawEmail(
+        entry.storageKey,
+      );
+      emails.set(
+        entry,
+        redactEmail(
+          await config.emailParser.parse(rawEmail),
+          config.redaction ?? [],
+        ),
+      );
+    } catch (error) {
+      console.error('Failed to read buffered email:', {
+        storageKey: entry.storageKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  const ready = entries.filter((entry) => emails.has(entry));
+  let failed = entries.length - ready.length;
+  if (ready.length === 0) {
+    return { posted: 0, failed };
+  }
+
+  const scheduler = getSlackApiScheduler(app);
+  const digest = await scheduler.call('chat.postMessage', () =>
+    getSlackPostingClient(app).chat.postMessage({
+      channel,
+      ...formatDigestMessage(schedule, ready, new Map()),
+    }),
+  );
+  if (!digest.ok || !digest.ts) {
+    const errorCode = digest.error || 'unknown_error';
+    throw new SlackPostError(getSlackErrorMessage(errorCode), errorCode);
+  }
+
+  const permalinks = new Map<string, string>();
+  let posted = 0;
+  for (const entry of ready) {
+    const { email, redactions } = emails.get(entry) as {
+      email: Email;
+      redactions: Redaction[];
+    };
+    let ts: string | undefined;
+    try {
+      ts = await postEmailToSlack(app, channel, email, {
+        threadTs: digest.ts,
+        redactions,
+        storageKey: entry.storageKey,
+      });
+    } catch (error) {
+      console.error('Failed to post buffered email:', {
+        messageId: entry.messageId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      failed++;
+      continue;
+    }
+
+    posted++;
+    await removeFromDigest(config.buffer, entry);
+    if (!ts) {
+      continue;
+    }
+    const permalink = await findPermalink(app.client, channel, ts);
+    if (permalink) {
+      permalinks.set(entry.storageKey, permalink);
+    }
+    if (config.searchIndex) {
+      await indexPostedEmail(
+        config.searchIndex,
+        createEmailSearchDocument(email, channel, ts),
+      );
+    }
+  }
+
+  const digestTs = digest.ts;
+  await scheduler.call('chat.update', () =>
+    getSlackPostingClient(app).chat.update({
+      channel,
+      ts: digestTs,
+      ...formatDigestMessage(schedule, ready, permalinks),
+    }),
+  );
+  return { posted, failed };
+}
+
+/**
+ * Remove a posted email from the buffer.
+ * Failures are logged but not thrown: the email would only be posted again
+ * with the next digest.
+ */
+async function removeFromDigest(
+  buffer: DigestBufferRepository,
+  entry: DigestEntry,
+): Promise<void> {
+  try {
+    await buffer.removeFromDigest(entry);
+  } catch (error) {
+    console.error('Failed to remove email from digest buffer:', {
+      storageKey: entry.storageKey,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Index an email posted with a digest.
+ * Failures are logged but not thrown: the email is only missing from
+ * search results.
+ */
+async function indexPostedEmail(
+  searchIndex: SearchIndexRepository,
+  document: EmailSearchDocument,
+): Promise<void> {
+  try {
+    await searchIndex.indexEmail(document);
+  } catch (error) {
+    console.error('Failed to index email for search:', {
+      messageId: document.messageId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Create a publisher that posts the buffered emails of a schedule: one
+ * digest message per channel (split every DIGEST_ENTRY_LIMIT emails)
+ * listing sender and subject, with the full emails in its thread and
+ * linked from the list. Run it on the schedule (e.g. from EventBridge or a
+ * timer).
+ *
+ * Emails that cannot be read or posted stay buffered for the next run; a
+ * channel that cannot be posted to does not stop the others.
+ */
+export function createDigestPublisher(
+  app: App,
+  config: DigestPublisherConfig,
+): DigestPublisher {
+  return async (schedule) => {
+    const byChannel = new Map<string, DigestEntry[]>();
+    for (const entry of await config.buffer.listDigest(schedule)) {
+      byChannel.set(entry.channel, [
+        ...(byChannel.get(entry.channel) ?? []),
+        entry,
+      ]);
+    }
+
+    const total: DigestPublishResult = { posted: 0, failed: 0 };
+    for (const [channel, entries] of byChannel) {
+      for (let i = 0; i < entries.length; i += DIGEST_ENTRY_LIMIT) {
+        const chunk = entries.slice(i, i + DIGEST_ENTRY_LIMIT);
+        try {
+          const result = await publishDigest(
+            app,
+            config,
+            schedule,
+            channel,
+            chunk,
+          );
+          total.posted += result.posted;
+          total.failed += result.failed;
+        } catch (error) {
+          console.error('Failed to post digest:', {
+            channel,
+            schedule,
+            error: error instanceof Error ? error.message : String(error),
+          });
+          total.failed += chunk.length;
+        }
+      }
+    }
+
+    console.log('Published digests:', { schedule, ...total });
+    return total;
+  };
+}
+
+/**
+ * Configuration for triage listeners
+ */
+export interface TriageConfig {
+  triage: TriageRepository;
+}
+
+/**
+ * Register the triage controls on email posts (Assign to me, Assign to…,
+ * Mark done, Reopen). The stored state is updated and the post is updated
+ * in place; the stored state wins over what the post currently shows.
+ */
+export function registerTriageListeners(app: App, config: TriageConfig): void {
+  for (const actionId of TRIAGE_ACTION_IDS) {
+    app.action(actionId, async ({ ack, body, client }) => {
+      await ack();
+
+      const actionBody = body as {
+        user?: { id?: string };
+        actions?: Array<{ action_id?: string; selected_user?: string }>;
+        channel?: { id?: string };
+        message?: { ts?: string; text?: string; blocks?: KnownBlock[] };
+      };
+      const user = actionBody.user?.id;
+      const channel = actionBody.channel?.id;
+      const message = actionBody.message;
+      const action = user
+        ? parseTriageAction(actionBody.actions?.[0] ?? {}, user)
+        : undefined;
+      if (!user || !channel || !message?.ts || !action) {
+        console.error('Triage action is missing user or message context');
+        return;
+      }
+
+      try {
+        const blocks = message.blocks ?? [];
+        const current: TriageState = (await config.triage.findTriage(
+          channel,
+          message.ts,
+        )) ?? {
+          channel,
+          messageTs: message.ts,
+          messageId: findPostedMessageId(blocks) ?? '',
+          status: 'open',
+          updatedAt: new Date(),
+        };
+        const updated = applyTriageAction(current, action, user);
+        await config.triage.saveTriage(updated);
+
+        console.log('Updated email triage:', {
+          channel,
+          messageTs: message.ts,
+          status: updated.status,
+          assignee: updated.assignee,
+        });
+
+        await client.chat.update({
+          channel,
+          ts: message.ts,
+          text: message.text ?? '',
+          blocks: applyTriageToBlocks(blocks, updated),
+        });
+      } catch (error) {
+        console.error('Failed to update email triage:', error);
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        await client.chat.postEphemeral({
+          channel,
+          user,
+          text: `:x: Failed to update the email: ${errorMessage}`,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Configuration for search listeners
+ */
+export interface SearchConfig {
+  searchIndex: SearchIndexRepository;
+}
+
+/**
+ * Look up the permalink of a message.
+ * Failures (e.g. a deleted message) are logged and return undefined.
+ */
+async function findPermalink(
+  client: App['client'],
+  channel: string,
+  messageTs: string,
+): Promise<string | undefined> {
+  try {
+    const response = await client.chat.getPermalink({
+      channel,
+      message_ts: messageTs,
+    });
+    return response.permalink;
+  } catch (error) {
+    console.error('Failed to get permalink:', {
+      channel,
+      messageTs,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return undefined;
+  }
+}
+
+/**
+ * Look up the permalinks of the posts of search results (at most
+ * SEARCH_RESULT_LIMIT, looked up in parallel), by Message-ID
+ */
+async function getResultPermalinks(
+  client: App['client'],
+  results: EmailSearchDocument[],
+): Promise<Map<string, string>> {
+  const permalinks = new Map<string, string>();
+  await Promise.all(
+    results.slice(0, SEARCH_RESULT_LIMIT).map(async (result) => {
+      const permalink = await findPermalink(
+        client,
+        result.channel,
+        result.messageTs,
+      );
+      if (permalink) {
+        permalinks.set(result.messageId, permalink);
+      }
+    }),
+  );
+  return permalinks;
+}
+
+/**
+ * Whether a user is a member of a channel (conversations.members); channels
+ * the bot cannot read are treated as not visible
+ */
+async function isChannelMember(
+  client: App['client'],
+  channel: string,
+  user: string,
+): Promise<boolean> {
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await client.conversations.members({
+        channel,
+        cursor,
+        limit: 1000,
+      });
+      if (response.members?.includes(user)) {
+        return true;
+      }
+      cursor = response.response_metadata?.next_cursor || undefined;
+    } while (cursor);
+  } catch (error) {
+    console.error('Failed to check channel membership:', {
+      channel,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return false;
+}
+
+/**
+ * Keep the results posted in channels the user is a member of, so private
+ * channels stay private. Membership is looked up once per channel.
+ */
+async function filterVisibleResults(
+  client: App['client'],
+  results: EmailSearchDocument[],
+  user: string,
+): Promise<EmailSearchDocument[]> {
+  const membership = new Map<string, boolean>();
+  const visible: EmailSearchDocument[] = [];
+  for (const result of results) {
+    let isMember = membership.get(result.channel);
+    if (isMember === undefined) {
+      isMember = await isChannelMember(client, result.channel, user);
+      membership.set(result.channel, isMember);
+    }
+    if (isMember) {
+      visible.push(result);
+      if (visible.length === SEARCH_RESULT_LIMIT) {
+        break;
+      }
+    }
+  }
+  return visible;
+}
+
+/**
+ * Register the `/mail-search` command (full-text search over received
+ * emails in channels the user is a member of)
+ */
+export function registerSearchListeners(app: App, config: SearchConfig): void {
+  app.command(SEARCH_COMMAND, async ({ ack, client, command, respond }) => {
+    await ack();
+
+    const query = parseEmailSearchQuery(command.text);
+    if (isEmptySearchQuery(query)) {
+      await respond({ response_type: 'ephemeral', text: SEARCH_USAGE });
+      return;
+    }
+
+    try {
+      // Limited after filtering, so hidden matches do not crowd out others
+      const results = await filterVisibleResults(
+        client,
+        await config.searchIndex.search(query),
+        command.user_id,
+      );
+      console.log('Searched emails:', {
+        user: command.user_id,
+        results: results.length,
+      });
+      const permalinks = await getResultPermalinks(client, results);
+      await respond({
+        response_type: 'ephemeral',
+        ...formatSearchResults(command.text, query, results, permalinks),
+      });
+    } catch (error) {
+      console.error('Failed to search emails:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      await respond({
+        response_type: 'ephemeral',
+        text: `:x: Search failed: ${errorMessage}`,
+      });
+    }
+  });
+}
+
+/**
+ * Configuration for quarantine listeners
+ */
+export interface QuarantineConfig {
+  /** Storage the raw emails are fetched from when revealed */
+  storageRepository: StorageRepository;
+  emailParser: EmailParser;
+  /**
+   * Redaction rules applied to revealed emails (the same rules as
+   * ReceiveMailUseCase). The original stays behind "View original".
+   */
+  redaction?: RedactionRule[];
+}
+
+/**
+ * Register the "Reveal" listener for quarantined emails.
+ * The redacted body is shown only to the user who clicked.
+ */
+export function registerQuarantineListeners(
+  app: App,
+  config: QuarantineConfig,
+): void {
+  app.action(REVEAL_ACTION_ID, async ({ ack, body, client }) => {
+    await ack();
+
+    const actionBody = body as {
+      user?: { id?: string };
+      actions?: Array<{ value?: string }>;
+      channel?: { id?: string };
+    };
+    const storageKey = actionBody.actions?.[0]?.value;
+    const channel = actionBody.channel?.id;
+    const user = actionBody.user?.id;
+    if (!storageKey || !channel || !user) {
+      console.error('Reveal action is missing storage key or message context');
+      return;
+    }
+
+    console.log('Revealing quarantined email:', { storageKey, user });
+
+    try {
+      const rawEmail = await config.storageRepository.fetchRawEmail(storageKey);
+      const { email, redactions } = redactEmail(
+        await config.emailParser.parse(rawEmail),
+        config.redaction ?? [],
+      );
+      const revealed = formatRevealedEmailForSlack(email);
+      const blocks =
+        redactions.length > 0
+          ? addRedactionNoticeToBlocks(revealed.blocks, redactions, storageKey)
+          : revealed.blocks;
+      await client.chat.postEphemeral({
+        channel,
+        user,
+        text: revealed.text,
+        blocks,
+      });
+    } catch (error) {
+      console.error('Failed to reveal quarantined email:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      await client.chat.postEphemeral({
+        channel,
+        user,
+        text: `:x: Failed to reveal email: ${errorMessage}`,
+      });
+    }
+  });
+}
+
+/**
+ * Configuration for redaction listeners
+ */
+export interface RedactionViewConfig {
+  /** Storage the raw emails are fetched from when viewed */
+  storageRepository: StorageRepository;
+  emailParser: EmailParser;
+  /** Slack user IDs allowed to view redacted content */
+  viewerUserIds?: string[];
+  /**
+   * Viewers of the request's workspace, for multi-workspace apps
+   * (replaces viewerUserIds)
+   */
+  resolveViewerUserIds?: (query: InstallationQuery) => Promise<string[]>;
+}
+
+/**
+ * Register the "View original" listener on redaction notices.
+ * The unredacted email is shown only to the allowed user who clicked, and
+ * each view is logged.
+ */
+export function registerRedactionListeners(
+  app: App,
+  config: RedactionViewConfig,
+): void {
+  app.action(
+    VIEW_REDACTED_ACTION_ID,
+    async ({ ack, body, client, context }) => {
+      await ack();
+
+      const actionBody = body as {
+        user?: { id?: string };
+        actions?: Array<{ value?: string }>;
+        channel?: { id?: string };
+      };
+      const storageKey = actionBody.actions?.[0]?.value;
+      const channel = actionBody.channel?.id;
+      const user = actionBody.user?.id;
+      if (!storageKey || !channel || !user) {
+        console.error(
+          'View original action is missing storage key or message context',
+        );
+        return;
+      }
+
+      const viewerUserIds = config.resolveViewerUserIds
+        ? await config.resolveViewerUserIds(context)
+        : (config.viewerUserIds ?? []);
+      if (!viewerUserIds.includes(user)) {
+        console.warn('Denied viewing unredacted email:', { storageKey, user });
+        await client.chat.postEphemeral({
+          channel,
+          user,
+          text: ':no_entry: You are not allowed to view redacted content.',
+        });
+        return;
+      }
+
+      console.log('Viewing unredacted email:', { storageKey, user });
+
+      try {
+        const rawEmail =
+          await config.storageRepository.fetchRawEmail(storageKey);
+        const email = await config.emailParser.parse(rawEmail);
+        const { text, blocks } = formatUnredactedEmailForSlack(email);
+        await client.chat.postEphemeral({ channel, user, text, blocks });
+      } catch (error) {
+        console.error('Failed to show unredacted email:', error);
+        const errorMessage =
+          error instanceof Error ? error.message : 'Unknown error';
+        await client.chat.postEphemeral({
+          channel,
+          user,
+          text: `:x: Failed to show original email: ${errorMessage}`,
+        });
+      }
+    },
+  );
+}
+
+/**
+ * Configuration for dead-letter listeners
+ */
+export interface DeadLetterConfig {
+  deadLetters: DeadLetterRepository;
+  replayUseCase: ReplayFailedEmailsUseCase;
+  /** Slack user IDs allowed to run the command */
+  adminUserIds?: string[];
+  /**
+   * Admins and failed emails of the request's workspace, for multi-workspace
+   * apps (replaces adminUserIds)
+   */
+  resolveScope?: (query: InstallationQuery) => Promise<DeadLetterScope>;
+}
+
+/**
+ * Who may run `/mail-replay` in a workspace and what they see
+ */
+export interface DeadLetterScope {
+  adminUserIds: string[];
+  /** Channels whose failed emails are listed and replayed (all if unset) */
+  channels?: string[];
+}
+
+/**
+ * Register the `/mail-replay` admin command (list and replay failed emails)
+ */
+export function registerDeadLetterListeners(
+  app: App,
+  config: DeadLetterConfig,
+): void {
+  app.command(REPLAY_COMMAND, async ({ ack, command, context, respond }) => {
+    await ack();
+
+    const scope: DeadLetterScope = config.resolveScope
+      ? await config.resolveScope(context)
+      : { adminUserIds: config.adminUserIds ?? [] };
+    if (!scope.adminUserIds.includes(command.user_id)) {
+      await respond({
+        response_type: 'ephemeral',
+        text: `:no_entry: Only admins can use \`${REPLAY_COMMAND}\`.`,
+      });
+      return;
+    }
+
+    try {
+      const parsed = parseReplayCommand(command.text);
+      const { channels } = scope;
+      const records = channels
+        ? (await config.deadLetters.list()).filter(
+            (record) => !!record.channel && channels.includes(record.channel),
+          )
+        : undefined;
+      if (parsed.type === 'list') {
+        await respond({
+          response_type: 'ephemeral',
+          text: formatDeadLetterList(
+            records ?? (await config.deadLetters.list()),
+          ),
+        });
+        return;
+      }
+
+      console.log('Replaying failed emails:', {
+        ids: parsed.ids ?? 'all',
+        user: command.user_id,
+      });
+      // Records of other workspaces are reported as not found
+      const visibleIds = records && new Set(records.map((record) => record.id));
+      const ids =
+        parsed.ids ??
+        (records ?? (await config.deadLetters.list())).map(
+          (record) => record.id,
+        );
+      const replayable = visibleIds
+        ? ids.filter((id) => visibleIds.has(id))
+        : ids;
+      const hidden = visibleIds ? ids.filter((id) => !visibleIds.has(id)) : [];
+      const { results } = await config.replayUseCase.execute({
+        ids: replayable.slice(0, REPLAY_BATCH_LIMIT),
+      });
+      await respond({
+        response_type: 'ephemeral',
+        text: formatReplayResults(
+          [
+            ...results,
+            ...hidden.map((id) => ({ id, status: 'not_found' as const })),
+          ],
+          replayable.slice(REPLAY_BATCH_LIMIT),
+          !parsed.ids,
+        ),
+      });
+    } catch (error) {
+      console.error('Failed to run replay command:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      await respond({
+        response_type: 'ephemeral',
+        text: `:x: Replay failed: ${errorMessage}`,
+      });
+    }
+  });
+}
+
+/**
+ * Configuration for installation listeners
+ */
+export interface InstallationConfig {
+  installations: InstallationRepository;
+  /** Domains each workspace may claim with `/mail-setup domain` */
+  approvedDomains: ApprovedDomains;
+}
+
+/**
+ * Register the `/mail-setup` command (channel and email domain of the
+ * workspace; only the installer can change them) and forget workspaces
+ * the app is uninstalled from
+ */
+export function registerInstallationListeners(
+  app: App,
+  config: InstallationConfig,
+): void {
+  app.command(SETUP_COMMAND, async ({ ack, command, context, respond }) => {
+    await ack();
+
+    try {
+      const installation = await config.installations.findInstallation(context);
+      if (!installation) {
+        throw new WorkspaceSetupError(
+          'Slackmail is not installed in this workspace.',
+        );
+      }
+
+      const parsed = parseSetupCommand(command.text);
+      if (parsed.type === 'show') {
+        await respond({
+          response_type: 'ephemeral',
+          text: formatWorkspaceConfig(installation, config.approvedDomains),
+        });
+        return;
+      }
+
+      if (command.user_id !== installation.installerUserId) {
+        await respond({
+          response_type: 'ephemeral',
+          text: `:no_entry: Only <@${installation.installerUserId}>, who installed Slackmail, can change its settings.`,
+        });
+        return;
+      }
+
+      let update: WorkspaceConfig;
+      if (parsed.type === 'channel') {
+        update = { channel: command.channel_id };
+      } else if (parsed.type === 'quarantine') {
+        update = {
+          quarantineChannel: parsed.enabled ? command.channel_id : undefined,
+        };
+      } else if (parsed.type === 'admins') {
+        update = { adminUserIds: parsed.userIds };
+      } else if (parsed.type === 'viewers') {
+        update = { redactionViewerUserIds: parsed.userIds };
+      } else {
+        if (
+          !isDomainApproved(config.approvedDomains, installation, parsed.domain)
+        ) {
+          throw new WorkspaceSetupError(
+            `${parsed.domain} is not approved for this workspace. Ask the Slackmail operator to approve it.`,
+          );
+        }
+        const id = getInstallationId(installation);
+        const others = await config.installations.listInstallations();
+        if (
+          others.some(
+            (other) =>
+              other.config.emailDomain === parsed.domain &&
+              getInstallationId(other) !== id,
+          )
+        ) {
+          throw new WorkspaceSetupError(
+            `${parsed.domain} is already used by another workspace.`,
+          );
+        }
+        update = { emailDomain: parsed.domain };
+      }
+
+      const updated: WorkspaceInstallation = {
+        ...installation,
+        config: { ...installation.config, ...update },
+      };
+      await config.installations.saveInstallation(updated);
+      console.log('Updated workspace settings:', {
+        teamId: updated.teamId,
+        enterpriseId: updated.enterpriseId,
+        config: updated.config,
+        user: command.user_id,
+      });
+      await respond({
+        response_type: 'ephemeral',
+        text: `:white_check_mark: Settings updated.\n${formatWorkspaceConfig(updated, config.approvedDomains)}`,
+      });
+    } catch (error) {
+      if (error instanceof WorkspaceSetupError) {
+        await respond({
+          response_type: 'ephemeral',
+          text: `:x: ${error.message}\n${SETUP_USAGE}`,
+        });
+        return;
+      }
+      console.error('Failed to run setup command:', error);
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      await respond({
+        response_type: 'ephemeral',
+        text: `:x: Setup failed: ${errorMessage}`,
+      });
+    }
+  });
+
+  // The bot token stops working once the app is removed
+  const removeInstallation = async (query: InstallationQuery) => {
+    try {
+      await config.installations.deleteInstallation(query);
+      console.log('Removed Slack installation:', {
+        teamId: query.teamId,
+        enterpriseId: query.enterpriseId,
+      });
+    } catch (error) {
+      console.error('Failed to remove Slack installation:', {
+        teamId: query.teamId,
+        enterpriseId: query.enterpriseId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  app.event('app_uninstalled', async ({ context }) => {
+    await removeInstallation(context);
+  });
+
+  app.event('tokens_revoked', async ({ event, context }) => {
+    if (event.tokens.bot?.length) {
+      await removeInstallation(context);
+    }
+  });
 }
@@ -0,0 +1,238 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { WebClient } from '@slack/web-api';
+import type { WorkspaceInstallation } from '@/domain/entities';
+import type { InstallationRepository } from '@/domain/repositories';
+
+/**
+ * Slack OAuth v2 install flow, for serving several workspaces from one
+ * deployment.
+ *
+ * `/slack/install` redirects to Slack's consent page with a signed,
+ * expiring `state` that is also set as a cookie; `/slack/oauth_redirect`
+ * checks both, exchanges the code for a bot token and stores the
+ * installation. A re-install keeps the workspace's `/mail-setup` config.
+ *
+ * The handlers take and return plain HTTP values so they can be served by
+ * any server (e.g. API Gateway in front of a Lambda).
+ */
+
+export const SLACK_INSTALL_PATH = '/slack/install';
+export const SLACK_OAUTH_REDIRECT_PATH = '/slack/oauth_redirect';
+
+/** Bot scopes used to receive, post and send emails */
+export const DEFAULT_BOT_SCOPES = [
+  'app_mentions:read',
+  'channels:history',
+  'groups:history',
+  'chat:write',
+  'chat:write.public',
+  'commands',
+  'files:write',
+];
+
+const STATE_COOKIE = 'slackmail-oauth-state';
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+export interface SlackOAuthConfig {
+  clientId: string;
+  clientSecret: string;
+  /** Secret used to sign the `state` parameter */
+  stateSecret: string;
+  /** Public URL of the redirect route, as registered in the Slack app */
+  redirectUri: string;
+  installations: InstallationRepository;
+  /** Bot scopes to request (default: DEFAULT_BOT_SCOPES) */
+  scopes?: string[];
+  /** Client for the OAuth calls (default: a new WebClient) */
+  client?: WebClient;
+}
+
+export interface OAuthHttpRequest {
+  query: Record<string, string | undefined>;
+  /** Cookie header, e.g. "a=1; b=2" */
+  cookie?: string;
+}
+
+export interface OAuthHttpResponse {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SlackOAuthHandlers {
+  handleInstall(request: OAuthHttpRequest): Promise<OAuthHttpResponse>;
+  handleOAuthRedirect(request: OAuthHttpRequest): Promise<OAuthHttpResponse>;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a state valid for STATE_TTL_MS: `<expiry>.<nonce>.<signature>`
+ */
+export function createOAuthState(secret: string, now = Date.now()): string {
+  const payload = `${now + STATE_TTL_MS}.${randomBytes(16).toString('base64url')}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check the signature and expiry of a state created by createOAuthState
+ */
+export function verifyOAuthState(
+  state: string,
+  secret: string,
+  now = Date.now(),
+): boolean {
+  const separator = state.lastIndexOf('.');
+  if (separator === -1) {
+    return false;
+  }
+  const payload = state.slice(0, separator);
+  const signature = Buffer.from(state.slice(separator + 1));
+  const expected = Buffer.from(sign(payload, secret));
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    return false;
+  }
+  return Number(payload.split('.')[0]) > now;
+}
+
+function readCookie(header: string | undefined, name: string) {
+  for (const part of header?.split(';') ?? []) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return value.join('=');
+    }
+  }
+  return undefined;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function htmlPage(
+  statusCode: number,
+  title: string,
+  message: string,
+): OAuthHttpResponse {
+  return {
+    statusCode,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // The state is single use
+      'Set-Cookie': `${STATE_COOKIE}=; Path=/; Max-Age=0; HttpOnly; Secure; SameSite=Lax`,
+    },
+    body: `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head><body><h1>${escapeHtml(title)}</h1><p>${escapeHtml(message)}</p></body></html>`,
+  };
+}
+
+/**
+ * Create the handlers of the install and redirect routes
+ */
+export function createSlackOAuthHandlers(
+  config: SlackOAuthConfig,
+): SlackOAuthHandlers {
+  const client = config.client ?? new WebClient();
+  const scopes = config.scopes ?? DEFAULT_BOT_SCOPES;
+
+  return {
+    async handleInstall() {
+      const state = createOAuthState(config.stateSecret);
+      const url = new URL('https://slack.com/oauth/v2/authorize');
+      url.searchParams.set('client_id', config.clientId);
+      url.searchParams.set('scope', scopes.join(','));
+      url.searchParams.set('redirect_uri', config.redirectUri);
+      url.searchParams.set('state', state);
+      return {
+        statusCode: 302,
+        headers: {
+          Location: url.toString(),
+          'Set-Cookie': `${STATE_COOKIE}=${state}; Path=/; Max-Age=${STATE_TTL_MS / 1000}; HttpOnly; Secure; SameSite=Lax`,
+        },
+        body: '',
+      };
+    },
+
+    async handleOAuthRedirect(request) {
+      const { code, state, error } = request.query;
+      if (error) {
+        console.log('Slack installation was cancelled:', { error });
+        return htmlPage(400, 'Installation cancelled', `Slack: ${error}`);
+      }
+      if (
+        !code ||
+        !state ||
+        state !== readCookie(request.cookie, STATE_COOKIE) ||
+        !verifyOAuthState(state, config.stateSecret)
+      ) {
+        console.warn('Rejected Slack OAuth redirect with an invalid state');
+        return htmlPage(
+          400,
+          'Installation failed',
+          'The install link has expired or was opened in another browser. Please start again.',
+        );
+      }
+
+      try {
+        const access = await client.oauth.v2.access({
+          client_id: config.clientId,
+          client_secret: config.clientSecret,
+          code,
+          redirect_uri: config.redirectUri,
+        });
+        if (!access.access_token || !access.bot_user_id) {
+          throw new Error(
+            `oauth.v2.access returned no bot token: ${access.error ?? 'unknown_error'}`,
+          );
+        }
+        const auth = await client.auth.test({ token: access.access_token });
+
+        const isEnterpriseInstall = access.is_enterprise_install === true;
+        const query = {
+          teamId: access.team?.id,
+          enterpriseId: access.enterprise?.id,
+          isEnterpriseInstall,
+        };
+        const previous = await config.installations.findInstallation(query);
+        const installation: WorkspaceInstallation = {
+          ...query,
+          teamName: access.team?.name ?? access.enterprise?.name,
+          botToken: access.access_token,
+          botUserId: access.bot_user_id,
+          botId: auth.bot_id,
+          botScopes: access.scope?.split(',') ?? [],
+          installerUserId: access.authed_user?.id ?? '',
+          installedAt: new Date(),
+          config: previous?.config ?? {},
+        };
+        await config.installations.saveInstallation(installation);
+        console.log('Installed Slack app:', {
+          teamId: installation.teamId,
+          enterpriseId: installation.enterpriseId,
+          installerUserId: installation.installerUserId,
+        });
+
+        return htmlPage(
+          200,
+          'Slackmail installed',
+          `Slackmail was added to ${installation.teamName ?? 'your workspace'}. Run /mail-setup in the channel for inbound emails to finish the setup.`,
+        );
+      } catch (error) {
+        console.error('Failed to complete Slack installation:', error);
+        return htmlPage(
+          500,
+          'Installation failed',
+          'Slack did not accept the installation. Please try again.',
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,217 @@
+import type { ApprovedDomains, WorkspaceInstallation } from '@/domain/entities';
+import { getInstallationId } from '../domain/entities/installation';
+
+/**
+ * Per-workspace settings of a multi-workspace app: the `/mail-setup`
+ * command, run after installing through `/slack/install`.
+ *
+ * Usage:
+ *   /mail-setup                      Show the workspace's settings
+ *   /mail-setup channel              Post inbound emails to this channel
+ *   /mail-setup domain example.com   Receive and send emails for this domain
+ *   /mail-setup quarantine           Post flagged emails to this channel
+ *   /mail-setup quarantine off       Post flagged emails with the others
+ *   /mail-setup admins @a @b         Allow users to run /mail-replay
+ *   /mail-setup viewers @a @b        Allow users to view redacted originals
+ *
+ * Domains must be approved for the workspace by the operator
+ * (SLACK_WORKSPACE_DOMAINS), so a workspace cannot claim a domain it does
+ * not own.
+ */
+
+export const SETUP_COMMAND = '/mail-setup';
+
+export const SETUP_USAGE = [
+  `\`${SETUP_COMMAND}\` show this workspace's settings`,
+  `\`${SETUP_COMMAND} channel\` post inbound emails to the current channel`,
+  `\`${SETUP_COMMAND} domain example.com\` receive and send emails for a domain approved for this workspace`,
+  `\`${SETUP_COMMAND} quarantine\` post emails flagged as spam or viruses to the current channel (\`off\` to stop)`,
+  `\`${SETUP_COMMAND} admins @user ...\` allow users to run \`/mail-replay\` (\`none\` to clear)`,
+  `\`${SETUP_COMMAND} viewers @user ...\` allow users to view the original of redacted emails (\`none\` to clear)`,
+].join('\n');
+
+export type SetupCommand =
+  | { type: 'show' }
+  | { type: 'channel' }
+  | { type: 'domain'; domain: string }
+  | { type: 'quarantine'; enabled: boolean }
+  | { type: 'admins'; userIds: string[] }
+  | { type: 'viewers'; userIds: string[] };
+
+const DOMAIN_PATTERN =
+  /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/** A user mention (`<@U123|name>`, sent when the command escapes users) or a user ID */
+const USER_PATTERN = /^(?:<@([UW][A-Z0-9]+)(?:\|[^>]*)?>|([UW][A-Z0-9]+))$/;
+
+export class WorkspaceSetupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WorkspaceSetupError';
+  }
+}
+
+export class ApprovedDomainsConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ApprovedDomainsConfigError';
+  }
+}
+
+/**
+ * Parse the domains approved per workspace from a JSON string (e.g., an
+ * environment variable), such as `{ "T0123": ["acme.example.com"] }`
+ *
+ * @param json - JSON object of domain arrays by team ID (enterprise ID for
+ *   org-wide installs)
+ * @returns Validated, lower-cased domains
+ * @throws {ApprovedDomainsConfigError} If the JSON is malformed or a domain
+ *   is invalid or approved for several workspaces
+ */
+export function parseApprovedDomains(json: string): ApprovedDomains {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new ApprovedDomainsConfigError('Approved domains must be valid JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new ApprovedDomainsConfigError(
+      'Approved domains must be a JSON object of domain arrays by team ID',
+    );
+  }
+
+  const owners = new Map<string, string>();
+  const approved: ApprovedDomains = {};
+  for (const [id, domains] of Object.entries(parsed)) {
+    if (
+      !Array.isArray(domains) ||
+      !domains.every((domain) => typeof domain === 'string')
+    ) {
+      throw new ApprovedDomainsConfigError(
+        `Domains of ${id} must be an array of strings`,
+      );
+    }
+    approved[id] = domains.map((domain: string) => {
+      const normalized = domain.trim().toLowerCase();
+      if (!DOMAIN_PATTERN.test(normalized)) {
+        throw new ApprovedDomainsConfigError(`Invalid domain: ${domain}`);
+      }
+      const owner = owners.get(normalized);
+      if (owner && owner !== id) {
+        throw new ApprovedDomainsConfigError(
+          `${normalized} is approved for both ${owner} and ${id}`,
+        );
+      }
+      owners.set(normalized, id);
+      return normalized;
+    });
+  }
+  return approved;
+}
+
+function parseUserIds(args: string[]): string[] {
+  if (args.length === 1 && args[0] === 'none') {
+    return [];
+  }
+  return args.map((arg) => {
+    const match = USER_PATTERN.exec(arg);
+    if (!match) {
+      throw new WorkspaceSetupError(
+        `Invalid user: ${arg} (mention users with @, or use their IDs)`,
+      );
+    }
+    return match[1] ?? match[2];
+  });
+}
+
+/**
+ * Parse the text of the `/mail-setup` command
+ *
+ * @throws {WorkspaceSetupError} If the command, domain or a user is invalid
+ */
+export function parseSetupCommand(text: string): SetupCommand {
+  const args = text.trim().split(/\s+/).filter(Boolean);
+  if (args.length === 0 || (args.length === 1 && args[0] === 'show')) {
+    return { type: 'show' };
+  }
+  if (args.length === 1 && args[0] === 'channel') {
+    return { type: 'channel' };
+  }
+  if (args.length === 2 && args[0] === 'domain') {
+    const domain = args[1].toLowerCase();
+    if (!DOMAIN_PATTERN.test(domain)) {
+      throw new WorkspaceSetupError(`Invalid domain: ${args[1]}`);
+    }
+    return { type: 'domain', domain };
+  }
+  if (args[0] === 'admins' && args.length >= 2) {
+    return { type: 'admins', userIds: parseUserIds(args.slice(1)) };
+  }
+  if (args[0] === 'viewers' && args.length >= 2) {
+    return { type: 'viewers', userIds: parseUserIds(args.slice(1)) };
+  }
+  if (args[0] === 'quarantine' && args.length <= 2) {
+    if (args.length === 1 || args[1] === 'on') {
+      return { type: 'quarantine', enabled: true };
+    }
+    if (args[1] === 'off') {
+      return { type: 'quarantine', enabled: false };
+    }
+  }
+  throw new WorkspaceSetupError(`Unknown command: ${text.trim()}`);
+}
+
+/**
+ * Format the settings of a workspace for Slack (mrkdwn)
+ *
+ * @param approvedDomains - Domains approved per workspace by the operator
+ */
+export function formatWorkspaceConfig(
+  installation: WorkspaceInstallation,
+  approvedDomains: ApprovedDomains,
+): string {
+  const {
+    channel,
+    emailDomain,
+    quarantineChannel,
+    adminUserIds = [],
+    redactionViewerUserIds = [],
+  } = installation.config;
+  const approved = approvedDomains[getInstallationId(installation)] ?? [];
+  const domainApproved = !!emailDomain && approved.includes(emailDomain);
+  const formatUsers = (userIds: string[]) =>
+    userIds.length > 0
+      ? userIds.map((userId) => `<@${userId}>`).join(', ')
+      : '_none_';
+  const lines = [
+    '*Slackmail settings*',
+    `• Channel: ${channel ? `<#${channel}>` : '_not set_'}`,
+    `• Email domain: ${
+      emailDomain
+        ? `${emailDomain}${domainApproved ? '' : ' _(not approved, emails are not delivered)_'}`
+        : '_not set_'
+    }`,
+    `• Approved domains: ${
+      approved.length > 0
+        ? approved.join(', ')
+        : '_none_ (ask the Slackmail operator to approve your domain)'
+    }`,
+    `• Quarantine channel: ${
+      quarantineChannel
+        ? `<#${quarantineChannel}>`
+        : '_not set_ (flagged emails are posted to the channel with a warning)'
+    }`,
+    `• Admins: ${formatUsers(adminUserIds)}`,
+    `• Redaction viewers: ${formatUsers(redactionViewerUserIds)}`,
+  ];
+  if (!channel || !domainApproved) {
+    lines.push(
+      '',
+      'Emails are delivered once the channel and an approved domain are set:',
+      SETUP_USAGE,
+    );
+  }
+  return lines.join('\n');
+}
@@ -1,8 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { ReceiveMailUseCase } from '@/application';
-import type { Email } from '@/domain/entities';
+import { type EmailReceivedCallback, ReceiveMailUseCase } from '@/application';
+import { parseEmailSearchQuery } from '@/domain/entities';
 import type { StorageRepository } from '@/domain/repositories';
-import { MailparserEmailParser } from '@/infrastructure';
+import {
+  InMemoryProcessedEmailRepository,
+  InMemorySearchIndexRepository,
+  MailparserEmailParser,
+} from '@/infrastructure';
 
 describe('ReceiveMailUseCase', () => {
   const rawEmail =
@@ -16,19 +20,17 @@ describe('ReceiveMailUseCase', () => {
 
   let mockStorageRepository: StorageRepository;
   let emailParser: MailparserEmailParser;
-  let mockOnEmailReceived: ReturnType<
-    typeof vi.fn<(email: Email) => Promise<void>>
-  >;
+  let mockOnEmailReceived: ReturnType<typeof vi.fn<EmailReceivedCallback>>;
 
   beforeEach(() => {
     mockStorageRepository = {
-      fetchRawEmail: vi.fn().mockResolvedValue(rawEmail),
+      fetchRawEmail: vi.fn().mockResolvedValue(Buffer.from(rawEmail)),
     };
 
     emailParser = new MailparserEmailParser();
 
     mockOnEmailReceived = vi
-      .fn<(email: Email) => Promise<void>>()
+      .fn<EmailReceivedCallback>()
       .mockResolvedValue(undefined);
   });
 
@@ -52,6 +54,7 @@ describe('ReceiveMailUseCase', () => {
         subject: 'Test Subject',
         body: { text: 'Test body' },
       }),
+      { storageKey: 'emails/test.eml' },
     );
     expect(result.email.messageId).toBe('test-123@example.com');
     expect(result.email.subject).toBe('Test Subject');
@@ -103,4 +106,336 @@ describe('ReceiveMailUseCase', () => {
     );
     expect(mockStorageRepository.fetchRawEmail).not.toHaveBeenCalled();
   });
+
+  it('should parse non-UTF-8 emails from raw bytes', async () => {
+    // "こんにちは" in Shift_JIS
+    mockStorageRepository.fetchRawEmail = vi
+      .fn()
+      .mockResolvedValue(
+        Buffer.concat([
+          Buffer.from(
+            'Message-ID: <sjis@example.com>\r\n' +
+              'From: sender@example.com\r\n' +
+              'To: recipient@example.com\r\n' +
+              'Subject: =?Shift_JIS?B?grGC8YLJgr+CzQ==?=\r\n' +
+              'Content-Type: text/plain; charset=Shift_JIS\r\n' +
+              'Content-Transfer-Encoding: 8bit\r\n' +
+              '\r\n',
+          ),
+          Buffer.from('82b182f182c982bf82cd', 'hex'),
+        ]),
+      );
+
+    const useCase = new ReceiveMailUseCase({
+      storageRepository: mockStorageRepository,
+      emailParser,
+      onEmailReceived: mockOnEmailReceived,
+    });
+
+    const { email } = await useCase.execute({ storageKey: 'emails/sjis' });
+
+    expect(email.subject).toBe('こんにちは');
+    expect(email.body.text).toBe('こんにちは');
+  });
+
+  describe('idempotency', () => {
+    it('should record the email as delivered after notifying', async () => {
+      const processedEmails = new InMemoryProcessedEmailRepository();
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        processedEmails,
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result.duplicate).toBe(false);
+      expect(
+        await processedEmails.hasProcessed({
+          storageKey: 'emails/test.eml',
+          messageId: 'test-123@example.com',
+        }),
+      ).toBe(true);
+    });
+
+    it('should skip emails already delivered under the same storage key', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        processedEmails: new InMemoryProcessedEmailRepository(),
+      });
+
+      await useCase.execute({ storageKey: 'emails/test.eml' });
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result.duplicate).toBe(true);
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip emails already delivered with the same Message-ID', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        processedEmails: new InMemoryProcessedEmailRepository(),
+      });
+
+      await useCase.execute({ storageKey: 'emails/test.eml' });
+      const result = await useCase.execute({ storageKey: 'emails/copy.eml' });
+
+      expect(result.duplicate).toBe(true);
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not record the email when notifying fails', async () => {
+      const processedEmails = new InMemoryProcessedEmailRepository();
+      mockOnEmailReceived.mockRejectedValueOnce(new Error('Slack down'));
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        processedEmails,
+      });
+
+      await expect(
+        useCase.execute({ storageKey: 'emails/test.eml' }),
+      ).rejects.toThrow('Slack down');
+      const retry = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(retry.duplicate).toBe(false);
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fail when recording the delivery fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        processedEmails: {
+          hasProcessed: vi.fn().mockResolvedValue(false),
+          markProcessed: vi.fn().mockRejectedValue(new Error('S3 down')),
+        },
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result.duplicate).toBe(false);
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('search index', () => {
+    it('should index the email with the location of its post', async () => {
+      const searchIndex = new InMemorySearchIndexRepository();
+      mockOnEmailReceived.mockResolvedValue({
+        channel: 'C123',
+        messageTs: '100.001',
+      });
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        searchIndex,
+      });
+
+      await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(
+        await searchIndex.search(parseEmailSearchQuery('test body')),
+      ).toEqual([
+        expect.objectContaining({
+          messageId: 'test-123@example.com',
+          from: 'Sender <sender@example.com>',
+          subject: 'Test Subject',
+          channel: 'C123',
+          messageTs: '100.001',
+        }),
+      ]);
+    });
+
+    it('should not index emails without a post (e.g. quarantined)', async () => {
+      const searchIndex = new InMemorySearchIndexRepository();
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        searchIndex,
+      });
+
+      await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(await searchIndex.search(parseEmailSearchQuery('test'))).toEqual(
+        [],
+      );
+    });
+
+    it('should not fail when indexing fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockOnEmailReceived.mockResolvedValue({
+        channel: 'C123',
+        messageTs: '100.001',
+      });
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        searchIndex: {
+          indexEmail: vi.fn().mockRejectedValue(new Error('S3 down')),
+          search: vi.fn(),
+        },
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result.duplicate).toBe(false);
+    });
+  });
+
+  describe('filters', () => {
+    it('should drop emails blocked by a rule and log the rule', async () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const processedEmails = new InMemoryProcessedEmailRepository();
+      const rule = {
+        action: 'block' as const,
+        match: { type: 'senderDomain' as const, domain: 'example.com' },
+      };
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        filters: [rule],
+        processedEmails,
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result).toMatchObject({ duplicate: false, droppedBy: rule });
+      expect(mockOnEmailReceived).not.toHaveBeenCalled();
+      expect(log).toHaveBeenCalledWith('Dropped email by filter:', {
+        rule: 'block senderDomain example.com',
+        messageId: 'test-123@example.com',
+        from: 'sender@example.com',
+        storageKey: 'emails/test.eml',
+      });
+      expect(
+        await processedEmails.hasProcessed({
+          storageKey: 'emails/test.eml',
+          messageId: 'test-123@example.com',
+        }),
+      ).toBe(false);
+    });
+
+    it('should deliver emails allowed before a matching block rule', async () => {
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        filters: [
+          {
+            action: 'allow',
+            match: { type: 'sender', address: 'sender@example.com' },
+          },
+          { action: 'block', match: { type: 'subject', pattern: 'test' } },
+        ],
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(result.droppedBy).toBeUndefined();
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(1);
+    });
+
+    it('should deliver emails no rule matches', async () => {
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        filters: [
+          { action: 'block', match: { type: 'body', pattern: 'unsubscribe' } },
+        ],
+      });
+
+      await useCase.execute({ storageKey: 'emails/test.eml' });
+
+      expect(mockOnEmailReceived).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('redaction', () => {
+    const sensitiveEmail =
+      'Message-ID: <card@example.com>\r\n' +
+      'From: Customer <customer@example.com>\r\n' +
+      'To: support@example.com\r\n' +
+      'Subject: Card 4111 1111 1111 1111 declined\r\n' +
+      'Date: Wed, 01 Jan 2025 00:00:00 +0000\r\n' +
+      '\r\n' +
+      'My card 4111 1111 1111 1111 was declined. Call me on +1 415 555 0100.';
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      mockStorageRepository.fetchRawEmail = vi
+        .fn()
+        .mockResolvedValue(Buffer.from(sensitiveEmail));
+    });
+
+    it('should deliver and index the redacted email with what was redacted', async () => {
+      const searchIndex = new InMemorySearchIndexRepository();
+      mockOnEmailReceived.mockResolvedValue({
+        channel: 'C123',
+        messageTs: '100.001',
+      });
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        redaction: [{ type: 'creditCard' }, { type: 'phone' }],
+        searchIndex,
+      });
+
+      await useCase.execute({ storageKey: 'emails/card.eml' });
+
+      expect(mockOnEmailReceived).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subject: 'Card [REDACTED card number] declined',
+          body: {
+            text: 'My card [REDACTED card number] was declined. Call me on [REDACTED phone number].',
+          },
+        }),
+        {
+          storageKey: 'emails/card.eml',
+          redactions: [
+            { label: 'card number', count: 2 },
+            { label: 'phone number', count: 1 },
+          ],
+        },
+      );
+      expect(await searchIndex.search(parseEmailSearchQuery('4111'))).toEqual(
+        [],
+      );
+      expect(
+        await searchIndex.search(parseEmailSearchQuery('declined')),
+      ).toHaveLength(1);
+    });
+
+    it('should run filters on the original email', async () => {
+      const useCase = new ReceiveMailUseCase({
+        storageRepository: mockStorageRepository,
+        emailParser,
+        onEmailReceived: mockOnEmailReceived,
+        filters: [
+          { action: 'block', match: { type: 'body', pattern: '4111 1111' } },
+        ],
+        redaction: [{ type: 'creditCard' }],
+      });
+
+      const result = await useCase.execute({ storageKey: 'emails/card.eml' });
+
+      expect(result.droppedBy).toBeDefined();
+    });
+  });
 });
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ReceiveMailUseCase } from '@/application/receiveMailUseCase';
+import { ReplayFailedEmailsUseCase } from '@/application/usecases/replayFailedEmailsUseCase';
+import type { DeadLetterRecord } from '@/domain/repositories';
+import { InMemoryDeadLetterRepository } from '@/infrastructure';
+
+describe('ReplayFailedEmailsUseCase', () => {
+  let deadLetters: InMemoryDeadLetterRepository;
+  let mockExecute: ReturnType<typeof vi.fn>;
+  let useCase: ReplayFailedEmailsUseCase;
+
+  const record = (
+    id: string,
+    overrides: Partial<DeadLetterRecord> = {},
+  ): DeadLetterRecord => ({
+    id,
+    storageKey: `emails/${id}`,
+    messageId: `${id}@example.com`,
+    from: 'sender@example.com',
+    subject: `Subject ${id}`,
+    channel: 'C123',
+    error: 'Channel not found',
+    errorCode: 'channel_not_found',
+    attempts: 1,
+    failedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    deadLetters = new InMemoryDeadLetterRepository();
+    mockExecute = vi.fn().mockResolvedValue({ duplicate: false });
+    useCase = new ReplayFailedEmailsUseCase({
+      deadLetters,
+      receiveMailUseCase: {
+        execute: mockExecute,
+      } as unknown as ReceiveMailUseCase,
+    });
+  });
+
+  it('should re-run ReceiveMailUseCase and remove replayed records', async () => {
+    await deadLetters.save(record('a'));
+
+    const { results } = await useCase.execute({ ids: ['a'] });
+
+    expect(mockExecute).toHaveBeenCalledWith({ storageKey: 'emails/a' });
+    expect(results).toEqual([{ id: 'a', status: 'replayed' }]);
+    expect(await deadLetters.find('a')).toBeUndefined();
+  });
+
+  it('should replay all records when no IDs are given', async () => {
+    await deadLetters.save(record('a'));
+    await deadLetters.save(record('b'));
+
+    const { results } = await useCase.execute();
+
+    expect(results.map((result) => result.id)).toEqual(['a', 'b']);
+    expect(await deadLetters.list()).toEqual([]);
+  });
+
+  it('should remove records of emails that were already delivered', async () => {
+    mockExecute.mockResolvedValue({ duplicate: true });
+    await deadLetters.save(record('a'));
+
+    const { results } = await useCase.execute({ ids: ['a'] });
+
+    expect(results).toEqual([{ id: 'a', status: 'duplicate' }]);
+    expect(await deadLetters.find('a')).toBeUndefined();
+  });
+
+  it('should remove records of emails now blocked by a filter', async () => {
+    mockExecute.mockResolvedValue({
+      duplicate: false,
+      droppedBy: {
+        action: 'block',
+        match: { type: 'senderDomain', domain: 'spam.example' },
+      },
+    });
+    await deadLetters.save(record('a'));
+
+    const { results } = await useCase.execute({ ids: ['a'] });
+
+    expect(results).toEqual([{ id: 'a', status: 'dropped' }]);
+    expect(await deadLetters.find('a')).toBeUndefined();
+  });
+
+  it('should keep records that fail again and continue with the rest', async () => {
+    mockExecute
+      .mockRejectedValueOnce(new Error('Channel not found'))
+      .mockResolvedValueOnce({ duplicate: false });
+    await deadLetters.save(record('a'));
+    await deadLetters.save(record('b'));
+
+    const { results } = await useCase.execute({ ids: ['a', 'b'] });
+
+    expect(results).toEqual([
+      { id: 'a', status: 'failed', error: 'Channel not found' },
+      { id: 'b', status: 'replayed' },
+    ]);
+    expect(await deadLetters.find('a')).toBeDefined();
+  });
+
+  it('should report unknown and non-replayable records', async () => {
+    await deadLetters.save(record('a', { storageKey: undefined }));
+
+    const { results } = await useCase.execute({ ids: ['a', 'missing'] });
+
+    expect(results).toEqual([
+      { id: 'a', status: 'not_replayable' },
+      { id: 'missing', status: 'not_found' },
+    ]);
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { applyDeliveryEvent, type DeliveryEvent } from '@/domain/entities';
+
+describe('applyDeliveryEvent', () => {
+  const event = (
+    type: DeliveryEvent['type'],
+    recipients: string[],
+    detail?: string,
+  ): DeliveryEvent => ({
+    type,
+    messageId: 'ses-123',
+    recipients,
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+    detail,
+  });
+
+  it('should set the status of each recipient named by the event', () => {
+    const statuses = applyDeliveryEvent(
+      {},
+      event('send', ['a@client.example', 'B@client.example']),
+    );
+
+    expect(statuses).toEqual({
+      'a@client.example': {
+        status: 'sent',
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        detail: undefined,
+      },
+      'b@client.example': {
+        status: 'sent',
+        timestamp: new Date('2025-01-01T00:00:00Z'),
+        detail: undefined,
+      },
+    });
+  });
+
+  it('should not go back to an earlier status on out-of-order events', () => {
+    const delivered = applyDeliveryEvent(
+      {},
+      event('delivery', ['a@client.example']),
+    );
+
+    const statuses = applyDeliveryEvent(
+      applyDeliveryEvent(delivered, event('send', ['a@client.example'])),
+      event('delay', ['a@client.example']),
+    );
+
+    expect(statuses['a@client.example'].status).toBe('delivered');
+  });
+
+  it('should move from delayed to bounced and from delivered to complained', () => {
+    const bounced = applyDeliveryEvent(
+      applyDeliveryEvent({}, event('delay', ['a@client.example'])),
+      event('bounce', ['a@client.example'], 'Permanent: General'),
+    );
+    const complained = applyDeliveryEvent(
+      applyDeliveryEvent({}, event('delivery', ['b@client.example'])),
+      event('complaint', ['b@client.example']),
+    );
+
+    expect(bounced['a@client.example']).toMatchObject({
+      status: 'bounced',
+      detail: 'Permanent: General',
+    });
+    expect(complained['b@client.example'].status).toBe('complained');
+  });
+
+  it('should not modify the given statuses', () => {
+    const statuses = {};
+
+    applyDeliveryEvent(statuses, event('send', ['a@client.example']));
+
+    expect(statuses).toEqual({});
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, expect, it } from 'vitest';
 import type { EmailAddress } from '@/domain/entities';
-import { createEmail } from '@/domain/entities';
+import {
+  createEmail,
+  getHeader,
+  getHeaderValues,
+  isBulkEmail,
+} from '@/domain/entities';
 
 describe('createEmail', () => {
   const from: EmailAddress = { name: 'Sender', address: 'sender@example.com' };
@@ -69,3 +74,72 @@ describe('createEmail', () => {
     expect(email.references).toEqual(['123@example.com', '000@example.com']);
   });
 });
+
+describe('getHeader', () => {
+  const email = createEmail({
+    messageId: '123@example.com',
+    from: { address: 'sender@example.com' },
+    to: [{ address: 'recipient@example.com' }],
+    subject: 'Test',
+    body: { text: 'Hello' },
+    date: new Date(),
+    headers: {
+      'list-id': ['<dev.lists.example.org>'],
+      received: ['from a.example.com', 'from b.example.com'],
+    },
+  });
+
+  it('looks up headers case-insensitively', () => {
+    expect(getHeader(email, 'List-Id')).toBe('<dev.lists.example.org>');
+    expect(getHeader(email, 'LIST-ID')).toBe('<dev.lists.example.org>');
+  });
+
+  it('returns the first value, or all values with getHeaderValues', () => {
+    expect(getHeader(email, 'Received')).toBe('from a.example.com');
+    expect(getHeaderValues(email, 'Received')).toEqual([
+      'from a.example.com',
+      'from b.example.com',
+    ]);
+  });
+
+  it('returns nothing for missing headers', () => {
+    expect(getHeader(email, 'Auto-Submitted')).toBeUndefined();
+    expect(getHeaderValues(email, 'Auto-Submitted')).toEqual([]);
+  });
+});
+
+describe('isBulkEmail', () => {
+  const withHeaders = (headers: Record<string, string[]>) =>
+    createEmail({
+      messageId: '123@example.com',
+      from: { address: 'news@example.com' },
+      to: [{ address: 'recipient@example.com' }],
+      subject: 'Weekly news',
+      body: { text: 'Hello' },
+      date: new Date(),
+      headers,
+    });
+
+  it('detects mailing lists, newsletters and automated mail', () => {
+    expect(
+      isBulkEmail(withHeaders({ 'list-id': ['<news.example.com>'] })),
+    ).toBe(true);
+    expect(
+      isBulkEmail(
+        withHeaders({ 'list-unsubscribe': ['<mailto:unsub@example.com>'] }),
+      ),
+    ).toBe(true);
+    expect(isBulkEmail(withHeaders({ precedence: ['Bulk'] }))).toBe(true);
+    expect(
+      isBulkEmail(withHeaders({ 'auto-submitted': ['auto-generated'] })),
+    ).toBe(true);
+  });
+
+  it('does not flag personal mail', () => {
+    expect(isBulkEmail(withHeaders({}))).toBe(false);
+    expect(isBulkEmail(withHeaders({ 'auto-submitted': ['no'] }))).toBe(false);
+    expect(isBulkEmail(withHeaders({ precedence: ['first-class'] }))).toBe(
+      false,
+    );
+  });
+});
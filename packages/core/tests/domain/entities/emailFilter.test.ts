@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeEmailFilterRule,
+  type Email,
+  type EmailFilterRule,
+  findEmailFilterRule,
+} from '@/domain/entities';
+
+describe('emailFilter', () => {
+  const email: Email = {
+    messageId: 'offer@mail.deals.example',
+    from: { address: 'Offers@Mail.Deals.example' },
+    to: [{ address: 'team@example.com' }],
+    subject: '[SPAM] Limited offer',
+    body: { html: '<p>Click to unsubscribe</p>' },
+    date: new Date('2026-01-01T00:00:00Z'),
+    headers: { 'x-spam-flag': ['YES'], 'x-mailer': ['BulkSender 2.0'] },
+  };
+
+  const block = (match: EmailFilterRule['match']): EmailFilterRule => ({
+    action: 'block',
+    match,
+  });
+
+  describe('findEmailFilterRule', () => {
+    it.each<EmailFilterRule['match']>([
+      { type: 'sender', address: 'offers@mail.deals.example' },
+      { type: 'senderDomain', domain: 'deals.example' },
+      { type: 'senderDomain', domain: 'MAIL.deals.example' },
+      { type: 'subject', pattern: '^\\[spam\\]' },
+      { type: 'body', pattern: 'unsubscribe' },
+      { type: 'header', name: 'X-Spam-Flag' },
+      { type: 'header', name: 'X-Mailer', pattern: '^bulksender' },
+    ])('should match %j', (match) => {
+      expect(findEmailFilterRule(email, [block(match)])).toEqual(block(match));
+    });
+
+    it.each<EmailFilterRule['match']>([
+      { type: 'sender', address: 'offers@deals.example' },
+      { type: 'senderDomain', domain: 'als.example' },
+      { type: 'subject', pattern: '^offer' },
+      { type: 'body', pattern: 'invoice' },
+      { type: 'header', name: 'List-Id' },
+      { type: 'header', name: 'X-Spam-Flag', pattern: '^no$' },
+    ])('should not match %j', (match) => {
+      expect(findEmailFilterRule(email, [block(match)])).toBeUndefined();
+    });
+
+    it('should return the first matching rule', () => {
+      const allow: EmailFilterRule = {
+        action: 'allow',
+        match: { type: 'sender', address: 'offers@mail.deals.example' },
+      };
+      const rules = [
+        block({ type: 'header', name: 'List-Id' }),
+        allow,
+        block({ type: 'senderDomain', domain: 'deals.example' }),
+      ];
+
+      expect(findEmailFilterRule(email, rules)).toBe(allow);
+    });
+  });
+
+  describe('describeEmailFilterRule', () => {
+    it('should use the rule name when set', () => {
+      expect(
+        describeEmailFilterRule({
+          name: 'spam tag',
+          action: 'block',
+          match: { type: 'subject', pattern: '^\\[SPAM\\]' },
+        }),
+      ).toBe('spam tag');
+    });
+
+    it('should describe unnamed rules by their match', () => {
+      expect(
+        describeEmailFilterRule(
+          block({ type: 'header', name: 'X-Mailer', pattern: 'bulk' }),
+        ),
+      ).toBe('block header X-Mailer /bulk/');
+      expect(
+        describeEmailFilterRule({
+          action: 'allow',
+          match: { type: 'senderDomain', domain: 'partner.example' },
+        }),
+      ).toBe('allow senderDomain partner.example');
+    });
+  });
+});
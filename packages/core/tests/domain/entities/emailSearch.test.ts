@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEmailSearchDocument,
+  type Email,
+  type EmailSearchDocument,
+  isEmptySearchQuery,
+  matchesEmailSearchQuery,
+  parseEmailSearchQuery,
+} from '@/domain/entities';
+
+describe('emailSearch', () => {
+  const email: Email = {
+    messageId: 'invoice-1@billing.example',
+    from: { name: 'Billing', address: 'billing@vendor.example' },
+    to: [{ address: 'support@example.com' }],
+    cc: [{ name: 'Alice', address: 'alice@example.com' }],
+    subject: 'Invoice #42',
+    body: { text: 'Your invoice is past due.' },
+    date: new Date('2026-03-15T09:00:00Z'),
+    attachments: [
+      { filename: 'invoice-42.pdf', contentType: 'application/pdf', size: 10 },
+    ],
+  };
+
+  describe('createEmailSearchDocument', () => {
+    it('should keep the searchable fields and the post location', () => {
+      expect(createEmailSearchDocument(email, 'C123', '100.001')).toEqual({
+        messageId: 'invoice-1@billing.example',
+        from: 'Billing <billing@vendor.example>',
+        to: ['support@example.com', 'Alice <alice@example.com>'],
+        subject: 'Invoice #42',
+        body: 'Your invoice is past due.',
+        date: new Date('2026-03-15T09:00:00Z'),
+        attachments: ['invoice-42.pdf'],
+        channel: 'C123',
+        messageTs: '100.001',
+      });
+    });
+
+    it('should index the text of HTML-only bodies', () => {
+      const document = createEmailSearchDocument(
+        {
+          ...email,
+          body: {
+            html: '<style>p { color: red; }</style><p>Past&nbsp;due &amp; <b>unpaid</b></p>',
+          },
+        },
+        'C123',
+        '100.001',
+      );
+
+      expect(document.body).toBe('Past due & unpaid');
+    });
+  });
+
+  describe('parseEmailSearchQuery', () => {
+    it('should parse words, phrases and qualifiers', () => {
+      expect(
+        parseEmailSearchQuery(
+          'Invoice "Past Due" from:Billing subject:"invoice #42" filename:pdf after:2026-01-01 before:2026-04-01',
+        ),
+      ).toEqual({
+        terms: ['invoice', 'past due'],
+        from: ['billing'],
+        subject: ['invoice #42'],
+        filename: ['pdf'],
+        after: new Date('2026-01-01T00:00:00Z'),
+        before: new Date('2026-04-01T00:00:00Z'),
+      });
+    });
+
+    it('should treat unknown qualifiers and invalid dates as words', () => {
+      expect(
+        parseEmailSearchQuery('re:meeting after:yesterday https://example.com'),
+      ).toEqual({
+        terms: ['re:meeting', 'after:yesterday', 'https://example.com'],
+      });
+    });
+
+    it('should report queries without conditions as empty', () => {
+      expect(isEmptySearchQuery(parseEmailSearchQuery('  '))).toBe(true);
+      expect(isEmptySearchQuery(parseEmailSearchQuery('from:alice'))).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('matchesEmailSearchQuery', () => {
+    const document: EmailSearchDocument = createEmailSearchDocument(
+      email,
+      'C123',
+      '100.001',
+    );
+    const matches = (text: string) =>
+      matchesEmailSearchQuery(document, parseEmailSearchQuery(text));
+
+    it('should match words in any field, case-insensitively', () => {
+      expect(matches('PAST due')).toBe(true);
+      expect(matches('alice')).toBe(true);
+      expect(matches('invoice-42.pdf')).toBe(true);
+      expect(matches('past refund')).toBe(false);
+    });
+
+    it('should match qualifiers against their field only', () => {
+      expect(matches('from:billing to:alice filename:.pdf')).toBe(true);
+      expect(matches('from:alice')).toBe(false);
+      expect(matches('subject:"past due"')).toBe(false);
+    });
+
+    it('should match dates with an inclusive after and exclusive before', () => {
+      expect(matches('after:2026-03-15 before:2026-03-16')).toBe(true);
+      expect(matches('after:2026-03-16')).toBe(false);
+      expect(matches('before:2026-03-15')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type Email,
+  findInstallationsForEmail,
+  getInstallationId,
+  isDomainApproved,
+  type WorkspaceInstallation,
+} from '@/domain/entities';
+
+describe('installation', () => {
+  const installation = (
+    teamId: string,
+    emailDomain?: string,
+  ): WorkspaceInstallation => ({
+    teamId,
+    isEnterpriseInstall: false,
+    botToken: `xoxb-${teamId}`,
+    botUserId: `U_BOT_${teamId}`,
+    botScopes: ['chat:write'],
+    installerUserId: 'U_ADMIN',
+    installedAt: new Date('2025-01-01T00:00:00Z'),
+    config: { channel: 'C123', emailDomain },
+  });
+
+  describe('getInstallationId', () => {
+    it('should use the team ID, or the enterprise ID for org-wide installs', () => {
+      expect(getInstallationId({ teamId: 'T1', enterpriseId: 'E1' })).toBe(
+        'T1',
+      );
+      expect(
+        getInstallationId({
+          teamId: 'T1',
+          enterpriseId: 'E1',
+          isEnterpriseInstall: true,
+        }),
+      ).toBe('E1');
+    });
+
+    it('should throw when the ID is missing', () => {
+      expect(() => getInstallationId({ enterpriseId: 'E1' })).toThrow(
+        'teamId is required',
+      );
+      expect(() =>
+        getInstallationId({ teamId: 'T1', isEnterpriseInstall: true }),
+      ).toThrow('enterpriseId is required for enterprise installs');
+    });
+  });
+
+  describe('isDomainApproved', () => {
+    it('should check the domains approved for the installation', () => {
+      const approved = { T1: ['acme.example'], E1: ['globex.example'] };
+
+      expect(isDomainApproved(approved, { teamId: 'T1' }, 'ACME.example')).toBe(
+        true,
+      );
+      expect(isDomainApproved(approved, { teamId: 'T2' }, 'acme.example')).toBe(
+        false,
+      );
+      expect(
+        isDomainApproved(
+          approved,
+          { teamId: 'T1', enterpriseId: 'E1', isEnterpriseInstall: true },
+          'globex.example',
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('findInstallationsForEmail', () => {
+    const email = (to: string, cc?: string): Email => ({
+      messageId: 'a@client.example',
+      from: { address: 'sender@client.example' },
+      to: [{ address: to }],
+      ...(cc && { cc: [{ address: cc }] }),
+      subject: 'Hello',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    });
+    const installations = [
+      installation('T1', 'acme.example'),
+      installation('T2', 'Globex.example'),
+      installation('T3'),
+    ];
+    const teamIds = (matches: WorkspaceInstallation[]) =>
+      matches.map((match) => match.teamId);
+
+    it('should match a recipient domain, case-insensitively', () => {
+      expect(
+        teamIds(
+          findInstallationsForEmail(
+            email('support@ACME.example'),
+            installations,
+          ),
+        ),
+      ).toEqual(['T1']);
+      expect(
+        teamIds(
+          findInstallationsForEmail(
+            email('someone@other.example', 'sales@globex.example'),
+            installations,
+          ),
+        ),
+      ).toEqual(['T2']);
+    });
+
+    it('should return every workspace a recipient belongs to', () => {
+      expect(
+        teamIds(
+          findInstallationsForEmail(
+            email('support@acme.example', 'sales@globex.example'),
+            installations,
+          ),
+        ),
+      ).toEqual(['T1', 'T2']);
+    });
+
+    it('should return nothing when no domain matches', () => {
+      expect(
+        findInstallationsForEmail(email('a@other.example'), installations),
+      ).toEqual([]);
+    });
+  });
+});
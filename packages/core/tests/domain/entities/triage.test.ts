@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyTriageAction,
+  matchesTriageQuery,
+  type TriageState,
+} from '@/domain/entities';
+
+describe('triage', () => {
+  const state: TriageState = {
+    channel: 'C123',
+    messageTs: '100.001',
+    messageId: 'a@client.example',
+    status: 'open',
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+  };
+  const now = new Date('2025-01-02T00:00:00Z');
+
+  describe('applyTriageAction', () => {
+    it('should assign, close and reopen, recording who changed it', () => {
+      const assigned = applyTriageAction(
+        state,
+        { type: 'assign', assignee: 'U_BOB' },
+        'U_ALICE',
+        now,
+      );
+      const done = applyTriageAction(assigned, { type: 'done' }, 'U_BOB', now);
+      const reopened = applyTriageAction(done, { type: 'reopen' }, 'U_ALICE');
+
+      expect(assigned).toMatchObject({
+        assignee: 'U_BOB',
+        status: 'open',
+        updatedBy: 'U_ALICE',
+        updatedAt: now,
+      });
+      expect(done).toMatchObject({ assignee: 'U_BOB', status: 'done' });
+      expect(reopened).toMatchObject({ assignee: 'U_BOB', status: 'open' });
+      expect(state.assignee).toBeUndefined();
+    });
+  });
+
+  describe('matchesTriageQuery', () => {
+    it('should match all given conditions', () => {
+      expect(matchesTriageQuery(state, {})).toBe(true);
+      expect(
+        matchesTriageQuery(state, { channel: 'C123', status: 'open' }),
+      ).toBe(true);
+      expect(matchesTriageQuery(state, { status: 'done' })).toBe(false);
+    });
+
+    it('should match unassigned emails with a null assignee', () => {
+      expect(matchesTriageQuery(state, { assignee: null })).toBe(true);
+      expect(matchesTriageQuery(state, { assignee: 'U_BOB' })).toBe(false);
+      expect(
+        matchesTriageQuery(
+          { ...state, assignee: 'U_BOB' },
+          { assignee: 'U_BOB' },
+        ),
+      ).toBe(true);
+    });
+  });
+});
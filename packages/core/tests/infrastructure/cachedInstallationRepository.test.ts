@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { WorkspaceInstallation } from '@/domain/entities';
+import {
+  CachedInstallationRepository,
+  InMemoryInstallationRepository,
+} from '@/infrastructure';
+
+describe('CachedInstallationRepository', () => {
+  const installation = (teamId: string): WorkspaceInstallation => ({
+    teamId,
+    isEnterpriseInstall: false,
+    botToken: `xoxb-${teamId}`,
+    botUserId: 'U_BOT',
+    botScopes: [],
+    installerUserId: 'U_ADMIN',
+    installedAt: new Date('2025-01-01T00:00:00Z'),
+    config: {},
+  });
+
+  it('lists installations once until cleared', async () => {
+    const inner = new InMemoryInstallationRepository();
+    await inner.saveInstallation(installation('T1'));
+    const list = vi.spyOn(inner, 'listInstallations');
+    const repository = new CachedInstallationRepository(inner);
+
+    await repository.listInstallations();
+    await repository.listInstallations();
+    expect(list).toHaveBeenCalledTimes(1);
+
+    repository.clear();
+    await repository.listInstallations();
+    expect(list).toHaveBeenCalledTimes(2);
+  });
+
+  it('lists again after an installation changed', async () => {
+    const repository = new CachedInstallationRepository(
+      new InMemoryInstallationRepository(),
+    );
+    expect(await repository.listInstallations()).toEqual([]);
+
+    await repository.saveInstallation(installation('T1'));
+    expect(await repository.listInstallations()).toHaveLength(1);
+
+    await repository.deleteInstallation({ teamId: 'T1' });
+    expect(await repository.listInstallations()).toEqual([]);
+  });
+
+  it('lists again after a failed list', async () => {
+    const inner = new InMemoryInstallationRepository();
+    vi.spyOn(inner, 'listInstallations').mockRejectedValueOnce(
+      new Error('S3 unavailable'),
+    );
+    const repository = new CachedInstallationRepository(inner);
+
+    await expect(repository.listInstallations()).rejects.toThrow(
+      'S3 unavailable',
+    );
+    expect(await repository.listInstallations()).toEqual([]);
+  });
+});
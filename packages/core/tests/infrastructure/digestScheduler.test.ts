@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DigestSchedulerConfig } from '@/infrastructure';
+import { DigestScheduler } from '@/infrastructure';
+
+describe('DigestScheduler', () => {
+  let publish: ReturnType<typeof vi.fn<DigestSchedulerConfig['publish']>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 10:30 local time
+    vi.setSystemTime(new Date(2026, 0, 1, 10, 30));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    publish = vi
+      .fn<DigestSchedulerConfig['publish']>()
+      .mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should publish hourly digests at every full hour', async () => {
+    const scheduler = new DigestScheduler({ publish });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(29 * 60 * 1000);
+    expect(publish).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(60 * 1000);
+    expect(publish).toHaveBeenCalledWith('hourly');
+
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(publish).toHaveBeenCalledTimes(2);
+    await scheduler.stop();
+  });
+
+  it('should publish the daily digest at the configured hour', async () => {
+    const scheduler = new DigestScheduler({ publish, dailyHour: 12 });
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(90 * 60 * 1000);
+
+    // 11:00 hourly, 12:00 hourly and daily
+    expect(publish.mock.calls.map(([schedule]) => schedule).sort()).toEqual([
+      'daily',
+      'hourly',
+      'hourly',
+    ]);
+    await scheduler.stop();
+  });
+
+  it('should stop publishing once stopped', async () => {
+    const scheduler = new DigestScheduler({ publish });
+    scheduler.start();
+    await scheduler.stop();
+
+    await vi.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(publish).not.toHaveBeenCalled();
+  });
+
+  it('should keep running after a failed digest', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    publish.mockRejectedValueOnce(new Error('Slack down'));
+    const scheduler = new DigestScheduler({ publish });
+
+    await scheduler.flush();
+
+    expect(publish.mock.calls.map(([schedule]) => schedule)).toEqual([
+      'hourly',
+      'daily',
+    ]);
+  });
+
+  it('should reject invalid hours', () => {
+    expect(() => new DigestScheduler({ publish, dailyHour: 24 })).toThrow(
+      'dailyHour must be an hour between 0 and 23: 24',
+    );
+  });
+});
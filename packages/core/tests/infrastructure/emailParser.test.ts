@@ -1,8 +1,10 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
 import { MailparserEmailParser } from '@/infrastructure';
 
 describe('MailparserEmailParser', () => {
-  const parser = new MailparserEmailParser();
+  const parser = new MailparserEmailParser({
+    trustedAuthServIds: ['amazonses.com'],
+  });
 
   it('parses a simple email', async () => {
     const raw = `From: sender@example.com
@@ -140,4 +142,399 @@ Body`;
       { name: 'Jane Doe', address: 'jane@example.com' },
     ]);
   });
+
+  it('parses attachments', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Attachment Test
+Message-ID: <attach@example.com>
+Content-Type: multipart/mixed; boundary="boundary123"
+
+--boundary123
+Content-Type: text/plain; charset="UTF-8"
+
+See attached.
+
+--boundary123
+Content-Type: application/pdf; name="report.pdf"
+Content-Disposition: attachment; filename="report.pdf"
+Content-Transfer-Encoding: base64
+
+JVBERi0xLjQK
+
+--boundary123--`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments?.[0]).toMatchObject({
+      filename: 'report.pdf',
+      contentType: 'application/pdf',
+      size: 9,
+    });
+    expect(email.attachments?.[0].content?.toString()).toBe('%PDF-1.4\n');
+    expect(email.attachments?.[0].inline).toBeUndefined();
+  });
+
+  it('parses Reply-To, Bcc and Delivered-To', async () => {
+    const raw = `From: Sender <sender@example.com>
+To: list@lists.example.org
+Bcc: audit@example.com
+Reply-To: "Support" <help@example.com>
+Delivered-To: support@example.com
+Delivered-To: <support@example.com>
+X-Original-To: other@example.com
+Subject: Test
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.replyTo).toEqual({
+      name: 'Support',
+      address: 'help@example.com',
+    });
+    expect(email.bcc).toEqual([{ address: 'audit@example.com' }]);
+    expect(email.deliveredTo).toEqual([{ address: 'support@example.com' }]);
+  });
+
+  it('falls back to X-Original-To for deliveredTo', async () => {
+    const raw = `From: sender@example.com
+To: list@lists.example.org
+X-Original-To: support@example.com
+Subject: Test
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.deliveredTo).toEqual([{ address: 'support@example.com' }]);
+    expect(email.replyTo).toBeUndefined();
+  });
+
+  it('keeps all headers by lowercased name, unfolded', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Received: from a.example.com
+Received: from b.example.com
+List-Id: Developers
+ <dev.lists.example.org>
+Auto-Submitted: auto-generated
+Subject: Test
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.headers?.received).toEqual([
+      'from a.example.com',
+      'from b.example.com',
+    ]);
+    expect(email.headers?.['list-id']).toEqual([
+      'Developers <dev.lists.example.org>',
+    ]);
+    expect(email.headers?.['auto-submitted']).toEqual(['auto-generated']);
+  });
+
+  it('parses calendar invitations and keeps one invite.ics', async () => {
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'SUMMARY:Kickoff',
+      'DTSTART:20250106T010000Z',
+      'ORGANIZER;CN=Taro:mailto:taro@example.com',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+    const raw = `From: taro@example.com
+To: recipient@example.com
+Subject: Invitation: Kickoff
+Message-ID: <invite@example.com>
+Content-Type: multipart/mixed; boundary="mixed"
+
+--mixed
+Content-Type: multipart/alternative; boundary="alt"
+
+--alt
+Content-Type: text/plain; charset="UTF-8"
+
+You have been invited.
+--alt
+Content-Type: text/calendar; charset="UTF-8"; method=REQUEST
+
+${calendar}
+--alt--
+--mixed
+Content-Type: application/ics; name="invite.ics"
+Content-Disposition: attachment; filename="invite.ics"
+Content-Transfer-Encoding: base64
+
+${Buffer.from(`${calendar}\r\n`).toString('base64')}
+--mixed--`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.calendarEvents).toHaveLength(1);
+    expect(email.calendarEvents?.[0]).toMatchObject({
+      method: 'REQUEST',
+      summary: 'Kickoff',
+      start: new Date('2025-01-06T01:00:00Z'),
+      organizer: { name: 'Taro', address: 'taro@example.com' },
+    });
+    expect(email.attachments).toHaveLength(1);
+    expect(email.attachments?.[0]).toMatchObject({
+      filename: 'invite.ics',
+      contentType: 'text/calendar',
+    });
+  });
+
+  it('skips calendar parts that cannot be read', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const raw = `From: taro@example.com
+To: recipient@example.com
+Subject: Invitation: Weekly sync
+Message-ID: <bad-invite@example.com>
+Content-Type: multipart/mixed; boundary="mixed"
+
+--mixed
+Content-Type: text/plain; charset="UTF-8"
+
+You have been invited.
+--mixed
+Content-Type: text/calendar; charset="UTF-8"; method=REQUEST
+
+BEGIN:VCALENDAR
+BEGIN:VEVENT
+SUMMARY:Weekly sync
+DTSTART:20250106T010000Z
+RRULE:FREQ=BOGUS
+END:VEVENT
+END:VCALENDAR
+--mixed--`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.body.text).toContain('You have been invited.');
+    expect(email.calendarEvents).toBeUndefined();
+    expect(email.attachments).toHaveLength(1);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  describe('raw bytes', () => {
+    const headers = (contentType: string) =>
+      Buffer.from(
+        'From: sender@example.com\r\n' +
+          'To: recipient@example.com\r\n' +
+          'Subject: Charset Test\r\n' +
+          'Message-ID: <charset@example.com>\r\n' +
+          `Content-Type: ${contentType}\r\n` +
+          'Content-Transfer-Encoding: 8bit\r\n' +
+          '\r\n',
+      );
+
+    it('decodes 8-bit Shift_JIS bodies', async () => {
+      // "こんにちは" in Shift_JIS
+      const raw = Buffer.concat([
+        headers('text/plain; charset=Shift_JIS'),
+        Buffer.from('82b182f182c982bf82cd', 'hex'),
+      ]);
+
+      const email = await parser.parse(raw);
+
+      expect(email.body.text).toBe('こんにちは');
+    });
+
+    it('decodes 8-bit ISO-8859-1 bodies', async () => {
+      // "café" in ISO-8859-1
+      const raw = Buffer.concat([
+        headers('text/plain; charset=ISO-8859-1'),
+        Buffer.from('636166e9', 'hex'),
+      ]);
+
+      const email = await parser.parse(raw);
+
+      expect(email.body.text).toBe('café');
+    });
+
+    it('keeps 8-bit attachment content byte for byte', async () => {
+      const content = Buffer.from([0x00, 0x80, 0xe9, 0xfe, 0xff, 0x82, 0xb1]);
+      const raw = Buffer.concat([
+        headers('multipart/mixed; boundary="b"'),
+        Buffer.from(
+          '--b\r\n' +
+            'Content-Type: text/plain; charset=UTF-8\r\n\r\n' +
+            'See attached.\r\n' +
+            '--b\r\n' +
+            'Content-Type: application/octet-stream; name="data.bin"\r\n' +
+            'Content-Disposition: attachment; filename="data.bin"\r\n' +
+            'Content-Transfer-Encoding: 8bit\r\n\r\n',
+        ),
+        content,
+        Buffer.from('\r\n--b--\r\n'),
+      ]);
+
+      const email = await parser.parse(raw);
+
+      expect(email.attachments?.[0].content?.equals(content)).toBe(true);
+    });
+  });
+
+  it('leaves attachments undefined for plain emails', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Plain
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.attachments).toBeUndefined();
+  });
+
+  it('parses SES spam and virus verdicts', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Win a prize
+X-SES-Spam-Verdict: FAIL
+X-SES-Virus-Verdict: PASS
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.verdicts).toEqual({ spam: 'FAIL', virus: 'PASS' });
+  });
+
+  it('does not let a repeated verdict header hide a FAIL', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Win a prize
+X-SES-Spam-Verdict: FAIL
+X-SES-Spam-Verdict: PASS
+X-SES-Virus-Verdict: PASS
+X-SES-Virus-Verdict: FAIL
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.verdicts).toEqual({ spam: 'FAIL', virus: 'FAIL' });
+  });
+
+  it('uses the topmost of repeated verdict headers', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Hello
+X-SES-Spam-Verdict: GRAY
+X-SES-Spam-Verdict: PASS
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.verdicts).toEqual({ spam: 'GRAY', virus: undefined });
+  });
+
+  it('ignores unknown verdict values', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Hello
+X-SES-Spam-Verdict: maybe
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.verdicts).toBeUndefined();
+  });
+
+  it('parses SPF/DKIM/DMARC results from Authentication-Results', async () => {
+    const raw = `From: partner@partner.example
+To: recipient@example.com
+Subject: Invoice
+Authentication-Results: amazonses.com;
+ spf=pass (spfCheck: domain of partner.example designates 1.2.3.4 as permitted sender) smtp.mailfrom=partner@partner.example;
+ dkim=fail header.i=@partner.example;
+ dkim=pass header.i=@mailer.example;
+ dmarc=fail header.from=partner.example;
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.authentication).toEqual({
+      spf: 'pass',
+      dkim: 'pass',
+      dmarc: 'fail',
+    });
+  });
+
+  it('only trusts the topmost Authentication-Results header', async () => {
+    const raw = `From: ceo@partner.example
+To: recipient@example.com
+Subject: Urgent wire transfer
+Authentication-Results: amazonses.com; spf=fail smtp.mailfrom=ceo@partner.example; dmarc=fail header.from=partner.example
+Authentication-Results: amazonses.com; spf=pass; dkim=pass; dmarc=pass
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.authentication).toEqual({ spf: 'fail', dmarc: 'fail' });
+  });
+
+  it('ignores Authentication-Results from untrusted authserv-ids', async () => {
+    const raw = `From: ceo@partner.example
+To: recipient@example.com
+Subject: Urgent wire transfer
+Authentication-Results: forged.example; spf=pass; dkim=pass; dmarc=pass
+Authentication-Results: AmazonSES.com 1; spf=fail smtp.mailfrom=ceo@partner.example
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.authentication).toEqual({ spf: 'fail' });
+  });
+
+  it('leaves authentication unknown without trusted authserv-ids', async () => {
+    const raw = `From: ceo@partner.example
+To: recipient@example.com
+Subject: Urgent wire transfer
+Authentication-Results: x; spf=pass dkim=pass dmarc=pass
+Received-SPF: pass (spfCheck: forged) client-ip=1.2.3.4;
+
+Body`;
+
+    const email = await new MailparserEmailParser().parse(raw);
+
+    expect(email.authentication).toBeUndefined();
+  });
+
+  it('ignores Received-SPF headers, which senders can forge', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Hello
+Received-SPF: pass (spfCheck: forged) client-ip=1.2.3.4;
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.authentication).toBeUndefined();
+  });
+
+  it('leaves authentication undefined without result headers', async () => {
+    const raw = `From: sender@example.com
+To: recipient@example.com
+Subject: Hello
+
+Body`;
+
+    const email = await parser.parse(raw);
+
+    expect(email.authentication).toBeUndefined();
+  });
 });
@@ -0,0 +1,74 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { DeadLetterRecord } from '@/domain/repositories';
+import { FileDeadLetterRepository } from '@/infrastructure';
+
+describe('FileDeadLetterRepository', () => {
+  let directory: string;
+
+  const record = (id: string, failedAt: string): DeadLetterRecord => ({
+    id,
+    storageKey: `emails/${id}`,
+    messageId: `${id}@example.com`,
+    from: 'sender@example.com',
+    subject: 'Hello',
+    channel: 'C123',
+    error: 'Channel not found',
+    errorCode: 'channel_not_found',
+    attempts: 1,
+    failedAt: new Date(failedAt),
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'dead-letter-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns an empty list when the directory does not exist', async () => {
+    const repository = new FileDeadLetterRepository(join(directory, 'none'));
+
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('saves and finds records', async () => {
+    const repository = new FileDeadLetterRepository(join(directory, 'dl'));
+    await repository.save(record('a', '2025-01-01T00:00:00Z'));
+
+    expect(await repository.find('a')).toEqual(
+      record('a', '2025-01-01T00:00:00Z'),
+    );
+    expect(await repository.find('missing')).toBeUndefined();
+  });
+
+  it('lists records oldest first', async () => {
+    const repository = new FileDeadLetterRepository(directory);
+    await repository.save(record('new', '2025-01-02T00:00:00Z'));
+    await repository.save(record('old', '2025-01-01T00:00:00Z'));
+
+    const records = await repository.list();
+
+    expect(records.map((r) => r.id)).toEqual(['old', 'new']);
+  });
+
+  it('removes records', async () => {
+    const repository = new FileDeadLetterRepository(directory);
+    await repository.save(record('a', '2025-01-01T00:00:00Z'));
+
+    await repository.remove('a');
+    await repository.remove('a');
+
+    expect(await repository.list()).toEqual([]);
+  });
+
+  it('keeps IDs from user input inside the directory', async () => {
+    const repository = new FileDeadLetterRepository(directory);
+    await repository.save(record('../escape', '2025-01-01T00:00:00Z'));
+
+    expect(await readdir(directory)).toEqual(['..%2Fescape.json']);
+  });
+});
@@ -0,0 +1,131 @@
+import { mkdtemp, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { WorkspaceInstallation } from '@/domain/entities';
+import {
+  FileInstallationRepository,
+  InMemoryInstallationRepository,
+} from '@/infrastructure';
+
+describe('FileInstallationRepository', () => {
+  let directory: string;
+
+  const installation = (
+    teamId: string,
+    installedAt: string,
+  ): WorkspaceInstallation => ({
+    teamId,
+    isEnterpriseInstall: false,
+    teamName: 'Acme',
+    botToken: `xoxb-${teamId}`,
+    botUserId: 'U_BOT',
+    botScopes: ['chat:write', 'commands'],
+    installerUserId: 'U_ADMIN',
+    installedAt: new Date(installedAt),
+    config: { channel: 'C123', emailDomain: 'acme.example' },
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'installations-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns an empty list when the directory does not exist', async () => {
+    const repository = new FileInstallationRepository(join(directory, 'none'));
+
+    expect(await repository.listInstallations()).toEqual([]);
+  });
+
+  it('saves and finds installations', async () => {
+    const repository = new FileInstallationRepository(join(directory, 'i'));
+    await repository.saveInstallation(
+      installation('T1', '2025-01-01T00:00:00Z'),
+    );
+
+    expect(await repository.findInstallation({ teamId: 'T1' })).toEqual(
+      installation('T1', '2025-01-01T00:00:00Z'),
+    );
+    expect(await repository.findInstallation({ teamId: 'T2' })).toBeUndefined();
+  });
+
+  it('keeps the files private', async () => {
+    const repository = new FileInstallationRepository(join(directory, 'i'));
+    await repository.saveInstallation(
+      installation('T1', '2025-01-01T00:00:00Z'),
+    );
+
+    expect((await stat(join(directory, 'i'))).mode & 0o777).toBe(0o700);
+    expect((await stat(join(directory, 'i', 'T1.json'))).mode & 0o777).toBe(
+      0o600,
+    );
+  });
+
+  it('lists installations oldest first', async () => {
+    const repository = new FileInstallationRepository(directory);
+    await repository.saveInstallation(
+      installation('T_NEW', '2025-01-02T00:00:00Z'),
+    );
+    await repository.saveInstallation(
+      installation('T_OLD', '2025-01-01T00:00:00Z'),
+    );
+
+    const installations = await repository.listInstallations();
+
+    expect(installations.map((i) => i.teamId)).toEqual(['T_OLD', 'T_NEW']);
+  });
+
+  it('deletes installations', async () => {
+    const repository = new FileInstallationRepository(directory);
+    await repository.saveInstallation(
+      installation('T1', '2025-01-01T00:00:00Z'),
+    );
+
+    await repository.deleteInstallation({ teamId: 'T1' });
+    await repository.deleteInstallation({ teamId: 'T1' });
+
+    expect(await repository.listInstallations()).toEqual([]);
+  });
+
+  it('keeps IDs from requests inside the directory', async () => {
+    const repository = new FileInstallationRepository(directory);
+    await repository.saveInstallation(
+      installation('../escape', '2025-01-01T00:00:00Z'),
+    );
+
+    expect(await readdir(directory)).toEqual(['..%2Fescape.json']);
+  });
+});
+
+describe('InMemoryInstallationRepository', () => {
+  it('keys enterprise installs by enterprise ID', async () => {
+    const repository = new InMemoryInstallationRepository();
+    await repository.saveInstallation({
+      enterpriseId: 'E1',
+      isEnterpriseInstall: true,
+      botToken: 'xoxb-e1',
+      botUserId: 'U_BOT',
+      botScopes: [],
+      installerUserId: 'U_ADMIN',
+      installedAt: new Date('2025-01-01T00:00:00Z'),
+      config: {},
+    });
+
+    expect(
+      await repository.findInstallation({
+        teamId: 'T1',
+        enterpriseId: 'E1',
+        isEnterpriseInstall: true,
+      }),
+    ).toMatchObject({ botToken: 'xoxb-e1' });
+
+    await repository.deleteInstallation({
+      enterpriseId: 'E1',
+      isEnterpriseInstall: true,
+    });
+    expect(await repository.listInstallations()).toEqual([]);
+  });
+});
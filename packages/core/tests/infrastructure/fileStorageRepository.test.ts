@@ -0,0 +1,50 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileStorageRepository } from '@/infrastructure';
+
+describe('FileStorageRepository', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads raw email bytes by relative key', async () => {
+    // "café" in ISO-8859-1
+    const raw = Buffer.from('Subject: Test\r\n\r\ncaf\xe9', 'latin1');
+    await mkdir(join(directory, 'emails'));
+    await writeFile(join(directory, 'emails', 'test.eml'), raw);
+
+    const repository = new FileStorageRepository(directory);
+    const result = await repository.fetchRawEmail('emails/test.eml');
+
+    expect(result.equals(raw)).toBe(true);
+  });
+
+  it('throws for missing emails', async () => {
+    const repository = new FileStorageRepository(directory);
+
+    await expect(repository.fetchRawEmail('missing.eml')).rejects.toThrow(
+      'ENOENT',
+    );
+  });
+
+  it.each([
+    '',
+    '../outside.eml',
+    'emails/../../outside.eml',
+    '/etc/passwd',
+  ])('rejects keys outside the root directory: %j', async (key) => {
+    const repository = new FileStorageRepository(directory);
+
+    await expect(repository.fetchRawEmail(key)).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { parseICalendar } from '@/infrastructure/icalendarParser';
+
+function ics(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join(
+    '\r\n',
+  );
+}
+
+describe('parseICalendar', () => {
+  it('parses a meeting invitation', () => {
+    const events = parseICalendar(
+      ics(
+        'METHOD:REQUEST',
+        'BEGIN:VEVENT',
+        'UID:abc123@example.com',
+        'SUMMARY:Quarterly review\\, Q1',
+        'DESCRIPTION:Agenda:\\n1. Numbers\\n2. Plans',
+        'LOCATION:Room 4F',
+        'DTSTART:20250106T010000Z',
+        'DTEND:20250106T020000Z',
+        'ORGANIZER;CN=Taro Yamada:mailto:taro@example.com',
+        'ATTENDEE;CN="Doe, John";PARTSTAT=ACCEPTED;RSVP=TRUE:mailto:john@example.com',
+        'ATTENDEE;PARTSTAT=NEEDS-ACTION:MAILTO:hanako@example.com',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(events).toEqual([
+      {
+        method: 'REQUEST',
+        uid: 'abc123@example.com',
+        summary: 'Quarterly review, Q1',
+        description: 'Agenda:\n1. Numbers\n2. Plans',
+        location: 'Room 4F',
+        start: new Date('2025-01-06T01:00:00Z'),
+        end: new Date('2025-01-06T02:00:00Z'),
+        allDay: false,
+        timezone: undefined,
+        organizer: { name: 'Taro Yamada', address: 'taro@example.com' },
+        attendees: [
+          {
+            name: 'Doe, John',
+            address: 'john@example.com',
+            status: 'ACCEPTED',
+          },
+          {
+            name: undefined,
+            address: 'hanako@example.com',
+            status: 'NEEDS-ACTION',
+          },
+        ],
+        cancelled: undefined,
+      },
+    ]);
+  });
+
+  it('unfolds long lines', () => {
+    const [event] = parseICalendar(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART:20250106T010000Z',
+        'SUMMARY:A very long',
+        '  meeting title',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(event.summary).toBe('A very long meeting title');
+  });
+
+  it('converts times with an IANA TZID to UTC', () => {
+    const [winter, summer] = parseICalendar(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/New_York:20250106T090000',
+        'DTEND;TZID=America/New_York:20250106T100000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/New_York:20250707T090000',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(winter.start).toEqual(new Date('2025-01-06T14:00:00Z'));
+    expect(winter.end).toEqual(new Date('2025-01-06T15:00:00Z'));
+    expect(winter.timezone).toBe('America/New_York');
+    expect(summer.start).toEqual(new Date('2025-07-07T13:00:00Z'));
+  });
+
+  it('accepts prefixed IANA TZIDs', () => {
+    const [event] = parseICalendar(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=/mozilla.org/20050126_1/Asia/Tokyo:20250106T100000',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(event.start).toEqual(new Date('2025-01-06T01:00:00Z'));
+    expect(event.timezone).toBe('Asia/Tokyo');
+  });
+
+  it('converts times with a VTIMEZONE definition (Outlook)', () => {
+    const vtimezone = [
+      'BEGIN:VTIMEZONE',
+      'TZID:Pacific Standard Time',
+      'BEGIN:STANDARD',
+      'DTSTART:16010101T020000',
+      'TZOFFSETFROM:-0700',
+      'TZOFFSETTO:-0800',
+      'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=1SU;BYMONTH=11',
+      'END:STANDARD',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:16010101T020000',
+      'TZOFFSETFROM:-0800',
+      'TZOFFSETTO:-0700',
+      'RRULE:FREQ=YEARLY;INTERVAL=1;BYDAY=2SU;BYMONTH=3',
+      'END:DAYLIGHT',
+      'END:VTIMEZONE',
+    ];
+    const [winter, summer] = parseICalendar(
+      ics(
+        ...vtimezone,
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Pacific Standard Time:20250106T090000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=Pacific Standard Time:20250707T090000',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(winter.start).toEqual(new Date('2025-01-06T17:00:00Z'));
+    expect(summer.start).toEqual(new Date('2025-07-07T16:00:00Z'));
+    expect(summer.timezone).toBe('America/Los_Angeles');
+  });
+
+  it('handles last-weekday rules in VTIMEZONE definitions', () => {
+    const [beforeChange, afterChange] = parseICalendar(
+      ics(
+        'BEGIN:VTIMEZONE',
+        'TZID:W. Europe Standard Time',
+        'BEGIN:STANDARD',
+        'DTSTART:16010101T030000',
+        'TZOFFSETTO:+0100',
+        'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:16010101T020000',
+        'TZOFFSETTO:+0200',
+        'RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3',
+        'END:DAYLIGHT',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=W. Europe Standard Time:20250329T120000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=W. Europe Standard Time:20250330T120000',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(beforeChange.start).toEqual(new Date('2025-03-29T11:00:00Z'));
+    expect(afterChange.start).toEqual(new Date('2025-03-30T10:00:00Z'));
+  });
+
+  it('parses all-day events', () => {
+    const [event] = parseICalendar(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20250106',
+        'DTEND;VALUE=DATE:20250108',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(event.allDay).toBe(true);
+    expect(event.start).toEqual(new Date('2025-01-06T00:00:00Z'));
+    expect(event.end).toEqual(new Date('2025-01-08T00:00:00Z'));
+  });
+
+  it('computes the end from DURATION', () => {
+    const [event] = parseICalendar(
+      ics(
+        'BEGIN:VEVENT',
+        'DTSTART:20250106T010000Z',
+        'DURATION:PT1H30M',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(event.end).toEqual(new Date('2025-01-06T02:30:00Z'));
+  });
+
+  it('parses cancellations', () => {
+    const [event] = parseICalendar(
+      ics(
+        'METHOD:CANCEL',
+        'BEGIN:VEVENT',
+        'DTSTART:20250106T010000Z',
+        'STATUS:CANCELLED',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(event.method).toBe('CANCEL');
+    expect(event.cancelled).toBe(true);
+    expect(event.summary).toBe('(no title)');
+  });
+
+  it('skips events without a valid start and ignores other components', () => {
+    const events = parseICalendar(
+      ics(
+        'METHOD:X-CUSTOM',
+        'BEGIN:VTODO',
+        'DTSTART:20250106T010000Z',
+        'END:VTODO',
+        'BEGIN:VEVENT',
+        'SUMMARY:No start',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20250106T010000Z',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'END:VALARM',
+        'END:VEVENT',
+      ),
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0].method).toBeUndefined();
+  });
+
+  it('returns no events for content that is not iCalendar', () => {
+    expect(parseICalendar('not a calendar')).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { EventEmitter } from 'node:events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  type EmailReceivedCallback,
+  ReceiveMailUseCase,
+  type ReceiveMailUseCaseDeps,
+} from '@/application';
+import {
+  createImapStorageKey,
+  type ImapClient,
+  ImapPoller,
+  type ImapPollerConfig,
+  InMemoryProcessedEmailRepository,
+  MailparserEmailParser,
+  parseImapStorageKey,
+} from '@/infrastructure';
+
+const rawEmail = (id: string) =>
+  Buffer.from(
+    `Message-ID: <${id}@example.com>\r\n` +
+      'From: sender@example.com\r\n' +
+      'To: support@example.com\r\n' +
+      `Subject: ${id}\r\n` +
+      '\r\n' +
+      'Hello',
+  );
+
+/**
+ * In-memory stand-in for an IMAP server mailbox, speaking the ImapClient
+ * subset of ImapFlow
+ */
+class MockImapClient extends EventEmitter implements ImapClient {
+  usable = false;
+  mailbox: { path: string; uidValidity: bigint } | false = false;
+  readonly messages = new Map<
+    number,
+    { source: Buffer; flags: Set<string>; mailbox: string }
+  >();
+  connect = vi.fn(async () => {
+    this.usable = true;
+  });
+  logout = vi.fn(async () => {
+    this.usable = false;
+  });
+  getMailboxLock = vi.fn(async (path: string) => {
+    this.mailbox = { path, uidValidity: 42n };
+    return { release: vi.fn() };
+  });
+  search = vi.fn(async (query: { seen?: boolean }) =>
+    [...this.messages.entries()]
+      .filter(
+        ([, message]) =>
+          message.mailbox === 'INBOX' &&
+          message.flags.has('\\Seen') === query.seen,
+      )
+      .map(([uid]) => uid),
+  );
+  fetchOne = vi.fn(async (uid: string) => {
+    const message = this.messages.get(Number(uid));
+    return message ? { source: message.source } : false;
+  });
+  messageFlagsAdd = vi.fn(async (uid: string, flags: string[]) => {
+    for (const flag of flags) {
+      this.messages.get(Number(uid))?.flags.add(flag);
+    }
+    return true;
+  });
+  messageMove = vi.fn(async (uid: string, destination: string) => {
+    const message = this.messages.get(Number(uid));
+    if (message) {
+      message.mailbox = destination;
+    }
+    return true;
+  });
+
+  deliver(uid: number, source: Buffer): void {
+    this.messages.set(uid, { source, flags: new Set(), mailbox: 'INBOX' });
+  }
+}
+
+describe('ImapPoller', () => {
+  let client: MockImapClient;
+  let onEmailReceived: ReturnType<typeof vi.fn<EmailReceivedCallback>>;
+  let poller: ImapPoller;
+
+  const createPoller = (
+    config: Partial<ImapPollerConfig> = {},
+    deps: Partial<ReceiveMailUseCaseDeps> = {},
+  ) =>
+    new ImapPoller({
+      createClient: () => client,
+      createReceiveMailUseCase: (storageRepository) =>
+        new ReceiveMailUseCase({
+          storageRepository,
+          emailParser: new MailparserEmailParser(),
+          onEmailReceived,
+          ...deps,
+        }),
+      pollIntervalMs: 60_000,
+      ...config,
+    });
+
+  beforeEach(() => {
+    client = new MockImapClient();
+    onEmailReceived = vi
+      .fn<EmailReceivedCallback>()
+      .mockResolvedValue(undefined);
+    poller = createPoller();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await poller.stop();
+  });
+
+  it('posts unseen messages on start, oldest first, then marks them seen', async () => {
+    client.deliver(2, rawEmail('two'));
+    client.deliver(1, rawEmail('one'));
+
+    await poller.start();
+
+    expect(onEmailReceived.mock.calls.map(([email]) => email.subject)).toEqual([
+      'one',
+      'two',
+    ]);
+    expect(onEmailReceived).toHaveBeenCalledWith(expect.anything(), {
+      storageKey: 'imap/INBOX/42/1',
+    });
+    expect(client.messages.get(1)?.flags.has('\\Seen')).toBe(true);
+    expect(client.messages.get(2)?.flags.has('\\Seen')).toBe(true);
+  });
+
+  it('moves posted messages when moveTo is set', async () => {
+    poller = createPoller({ moveTo: 'Slack' });
+    client.deliver(1, rawEmail('one'));
+
+    await poller.start();
+
+    expect(client.messageMove).toHaveBeenCalledWith('1', 'Slack', {
+      uid: true,
+    });
+    expect(client.messages.get(1)?.mailbox).toBe('Slack');
+  });
+
+  it('redacts messages before posting them', async () => {
+    poller = createPoller({}, { redaction: [{ type: 'creditCard' }] });
+    client.deliver(1, rawEmail('card 4111 1111 1111 1111'));
+
+    await poller.start();
+
+    expect(onEmailReceived).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subject: 'card [REDACTED card number]',
+      }),
+      {
+        storageKey: 'imap/INBOX/42/1',
+        redactions: [{ label: 'card number', count: 1 }],
+      },
+    );
+  });
+
+  it('drops messages blocked by a filter and marks them seen', async () => {
+    poller = createPoller(
+      {},
+      {
+        filters: [
+          { action: 'block', match: { type: 'subject', pattern: '^spam$' } },
+        ],
+      },
+    );
+    client.deliver(1, rawEmail('spam'));
+    client.deliver(2, rawEmail('two'));
+
+    await poller.start();
+
+    expect(onEmailReceived.mock.calls.map(([email]) => email.subject)).toEqual([
+      'two',
+    ]);
+    expect(client.messages.get(1)?.flags.has('\\Seen')).toBe(true);
+  });
+
+  it('leaves failed messages unseen and does not retry them', async () => {
+    onEmailReceived.mockRejectedValueOnce(new Error('Channel not found'));
+    client.deliver(1, rawEmail('one'));
+    client.deliver(2, rawEmail('two'));
+    await poller.start();
+
+    expect(client.messages.get(1)?.flags.has('\\Seen')).toBe(false);
+    expect(client.messages.get(2)?.flags.has('\\Seen')).toBe(true);
+    expect(await poller.processUnseen()).toEqual({
+      processed: [],
+      failed: [],
+    });
+    expect(onEmailReceived).toHaveBeenCalledTimes(2);
+  });
+
+  it('processes new mail announced by IDLE', async () => {
+    await poller.start();
+
+    client.deliver(1, rawEmail('one'));
+    client.emit('exists');
+
+    await vi.waitFor(() => {
+      expect(onEmailReceived).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('skips messages already delivered', async () => {
+    poller = createPoller(
+      {},
+      { processedEmails: new InMemoryProcessedEmailRepository() },
+    );
+    client.deliver(1, rawEmail('one'));
+    client.deliver(2, rawEmail('one'));
+
+    await poller.start();
+
+    expect(onEmailReceived).toHaveBeenCalledTimes(1);
+    expect(client.messages.get(2)?.flags.has('\\Seen')).toBe(true);
+  });
+
+  it('reconnects after the connection closes', async () => {
+    vi.useFakeTimers();
+    try {
+      poller = createPoller({ reconnectDelayMs: 1000 });
+      await poller.start();
+      client.usable = false;
+      client.emit('close');
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(client.connect).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('logs out on stop', async () => {
+    await poller.start();
+    await poller.stop();
+
+    expect(client.logout).toHaveBeenCalled();
+  });
+});
+
+describe('IMAP storage keys', () => {
+  it('round-trips mailbox, UIDVALIDITY and UID', () => {
+    const key = createImapStorageKey('Support/Inbox', 42n, 7);
+
+    expect(key).toBe('imap/Support%2FInbox/42/7');
+    expect(parseImapStorageKey(key)).toEqual({
+      mailbox: 'Support/Inbox',
+      uidValidity: '42',
+      uid: 7,
+    });
+  });
+
+  it('rejects other keys', () => {
+    expect(() => parseImapStorageKey('emails/abc')).toThrow(
+      'Invalid IMAP storage key',
+    );
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { DigestEntry } from '@/domain/entities';
+import { InMemoryDigestBufferRepository } from '@/infrastructure';
+
+describe('InMemoryDigestBufferRepository', () => {
+  const entry = (overrides: Partial<DigestEntry>): DigestEntry => ({
+    storageKey: 'emails/a',
+    messageId: 'a@news.example',
+    from: 'news@news.example',
+    subject: 'Weekly news',
+    date: new Date('2026-01-01T00:00:00Z'),
+    channel: 'C123',
+    schedule: 'daily',
+    bufferedAt: new Date(),
+    ...overrides,
+  });
+
+  it('should list the entries of a schedule, oldest email first', async () => {
+    const buffer = new InMemoryDigestBufferRepository();
+    await buffer.addToDigest(
+      entry({
+        storageKey: 'emails/b',
+        date: new Date('2026-01-02T00:00:00Z'),
+      }),
+    );
+    await buffer.addToDigest(entry({}));
+    await buffer.addToDigest(
+      entry({ storageKey: 'emails/c', schedule: 'hourly' }),
+    );
+
+    const daily = await buffer.listDigest('daily');
+
+    expect(daily.map((e) => e.storageKey)).toEqual(['emails/a', 'emails/b']);
+    expect(await buffer.listDigest('hourly')).toHaveLength(1);
+  });
+
+  it('should replace and remove entries by schedule and storage key', async () => {
+    const buffer = new InMemoryDigestBufferRepository();
+    await buffer.addToDigest(entry({}));
+    await buffer.addToDigest(entry({ subject: 'Updated' }));
+
+    expect(await buffer.listDigest('daily')).toEqual([
+      expect.objectContaining({ subject: 'Updated' }),
+    ]);
+
+    await buffer.removeFromDigest(entry({}));
+    await buffer.removeFromDigest(entry({ storageKey: 'emails/unknown' }));
+
+    expect(await buffer.listDigest('daily')).toEqual([]);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryProcessedEmailRepository } from '@/infrastructure';
+
+describe('InMemoryProcessedEmailRepository', () => {
+  it('returns false for unknown emails', async () => {
+    const repository = new InMemoryProcessedEmailRepository();
+
+    expect(
+      await repository.hasProcessed({
+        storageKey: 'emails/1',
+        messageId: '1@example.com',
+      }),
+    ).toBe(false);
+  });
+
+  it('matches by storage key or Message-ID', async () => {
+    const repository = new InMemoryProcessedEmailRepository();
+    await repository.markProcessed({
+      storageKey: 'emails/1',
+      messageId: '1@example.com',
+    });
+
+    expect(
+      await repository.hasProcessed({
+        storageKey: 'emails/1',
+        messageId: 'other@example.com',
+      }),
+    ).toBe(true);
+    expect(
+      await repository.hasProcessed({
+        storageKey: 'emails/copy-of-1',
+        messageId: '1@example.com',
+      }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type EmailSearchDocument,
+  parseEmailSearchQuery,
+} from '@/domain/entities';
+import { InMemorySearchIndexRepository } from '@/infrastructure';
+
+describe('InMemorySearchIndexRepository', () => {
+  const document = (
+    overrides: Partial<EmailSearchDocument>,
+  ): EmailSearchDocument => ({
+    messageId: 'a@client.example',
+    from: 'alice@example.com',
+    to: ['support@example.com'],
+    subject: 'Invoice',
+    body: '',
+    date: new Date('2026-01-01T00:00:00Z'),
+    attachments: [],
+    channel: 'C123',
+    messageTs: '100.001',
+    ...overrides,
+  });
+
+  it('should return matching documents, newest email first', async () => {
+    const repository = new InMemorySearchIndexRepository();
+    await repository.indexEmail(document({ messageId: 'old' }));
+    await repository.indexEmail(
+      document({ messageId: 'new', date: new Date('2026-02-01T00:00:00Z') }),
+    );
+    await repository.indexEmail(
+      document({ messageId: 'other', subject: 'Lunch' }),
+    );
+
+    const results = await repository.search(parseEmailSearchQuery('invoice'));
+
+    expect(results.map((result) => result.messageId)).toEqual(['new', 'old']);
+  });
+
+  it('should replace documents with the same Message-ID and apply the limit', async () => {
+    const repository = new InMemorySearchIndexRepository();
+    await repository.indexEmail(document({ messageTs: '100.001' }));
+    await repository.indexEmail(document({ messageTs: '200.002' }));
+    await repository.indexEmail(document({ messageId: 'b@client.example' }));
+
+    const results = await repository.search(
+      parseEmailSearchQuery('invoice'),
+      1,
+    );
+
+    expect(results).toHaveLength(1);
+    expect(
+      await repository.search(parseEmailSearchQuery('from:alice')),
+    ).toContainEqual(expect.objectContaining({ messageTs: '200.002' }));
+    expect(
+      await repository.search(parseEmailSearchQuery('from:alice')),
+    ).toHaveLength(2);
+  });
+});
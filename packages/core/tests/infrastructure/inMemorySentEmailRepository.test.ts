@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { SentEmailRecord } from '@/domain/repositories';
+import { InMemorySentEmailRepository } from '@/infrastructure';
+
+describe('InMemorySentEmailRepository', () => {
+  const record: SentEmailRecord = {
+    messageId: 'ses-123',
+    channel: 'C123',
+    messageTs: '111.222',
+    recipients: ['customer@client.example'],
+    subject: 'Hello',
+    sentAt: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  it('returns undefined for unknown message IDs', async () => {
+    const repository = new InMemorySentEmailRepository();
+
+    expect(await repository.findSentEmail('unknown')).toBeUndefined();
+  });
+
+  it('finds a saved record by message ID', async () => {
+    const repository = new InMemorySentEmailRepository();
+    await repository.saveSentEmail(record);
+
+    expect(await repository.findSentEmail('ses-123')).toEqual(record);
+  });
+
+  it('updates a record from the current one', async () => {
+    const repository = new InMemorySentEmailRepository();
+    await repository.saveSentEmail(record);
+
+    const updated = await repository.updateSentEmail('ses-123', (current) => ({
+      ...current,
+      subject: `${current.subject} again`,
+    }));
+
+    expect(updated?.subject).toBe('Hello again');
+    expect(await repository.findSentEmail('ses-123')).toEqual(updated);
+    expect(
+      await repository.updateSentEmail('unknown', (current) => current),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { InMemoryThreadIndexRepository } from '@/infrastructure';
+
+describe('InMemoryThreadIndexRepository', () => {
+  it('returns undefined for unknown message IDs', async () => {
+    const repository = new InMemoryThreadIndexRepository();
+
+    expect(await repository.findThread(['unknown@example.com'])).toBe(
+      undefined,
+    );
+  });
+
+  it('finds a saved thread', async () => {
+    const repository = new InMemoryThreadIndexRepository();
+    await repository.saveThread('123@example.com', {
+      channel: 'C123',
+      threadTs: '111.222',
+    });
+
+    expect(await repository.findThread(['123@example.com'])).toEqual({
+      channel: 'C123',
+      threadTs: '111.222',
+    });
+  });
+
+  it('returns the thread of the first indexed message ID', async () => {
+    const repository = new InMemoryThreadIndexRepository();
+    await repository.saveThread('old@example.com', {
+      channel: 'C1',
+      threadTs: '1.1',
+    });
+    await repository.saveThread('new@example.com', {
+      channel: 'C2',
+      threadTs: '2.2',
+    });
+
+    expect(
+      await repository.findThread([
+        'missing@example.com',
+        'new@example.com',
+        'old@example.com',
+      ]),
+    ).toEqual({ channel: 'C2', threadTs: '2.2' });
+  });
+});
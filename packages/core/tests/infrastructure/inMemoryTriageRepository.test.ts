@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import type { TriageState } from '@/domain/entities';
+import { InMemoryTriageRepository } from '@/infrastructure';
+
+describe('InMemoryTriageRepository', () => {
+  const state = (overrides: Partial<TriageState>): TriageState => ({
+    channel: 'C123',
+    messageTs: '100.001',
+    messageId: 'a@client.example',
+    status: 'open',
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  it('should find a saved state by channel and message timestamp', async () => {
+    const repository = new InMemoryTriageRepository();
+    await repository.saveTriage(state({ assignee: 'U1' }));
+
+    expect(await repository.findTriage('C123', '100.001')).toMatchObject({
+      assignee: 'U1',
+    });
+    expect(await repository.findTriage('C999', '100.001')).toBeUndefined();
+  });
+
+  it('should list states matching the query, oldest post first', async () => {
+    const repository = new InMemoryTriageRepository();
+    await repository.saveTriage(
+      state({ messageTs: '100.010', messageId: 'b', assignee: 'U1' }),
+    );
+    await repository.saveTriage(
+      state({ messageTs: '100.002', messageId: 'a' }),
+    );
+    await repository.saveTriage(
+      state({ messageTs: '100.003', messageId: 'c', status: 'done' }),
+    );
+
+    const open = await repository.listTriage({ status: 'open' });
+    const unassigned = await repository.listTriage({ assignee: null });
+    const mine = await repository.listTriage({ assignee: 'U1' });
+
+    expect(open.map((s) => s.messageId)).toEqual(['a', 'b']);
+    expect(unassigned.map((s) => s.messageId)).toEqual(['a', 'c']);
+    expect(mine.map((s) => s.messageId)).toEqual(['b']);
+    expect(await repository.listTriage()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,95 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MaildirStorageRepository } from '@/infrastructure';
+
+describe('MaildirStorageRepository', () => {
+  let directory: string;
+  let maildir: MaildirStorageRepository;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'maildir-'));
+    maildir = new MaildirStorageRepository(directory);
+    await maildir.ensureDirectories();
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('creates tmp/, new/ and cur/', async () => {
+    expect((await readdir(directory)).sort()).toEqual(['cur', 'new', 'tmp']);
+  });
+
+  it('lists messages in new/ oldest first, ignoring cur/, tmp/ and dotfiles', async () => {
+    await writeFile(join(directory, 'new', '1700000002.M2.host'), 'b');
+    await writeFile(join(directory, 'new', '1700000001.M1.host'), 'a');
+    await writeFile(join(directory, 'new', '.hidden'), 'x');
+    await writeFile(join(directory, 'cur', '1700000000.M0.host:2,S'), 'c');
+    await writeFile(join(directory, 'tmp', '1700000003.M3.host'), 'd');
+
+    expect(await maildir.listPending()).toEqual([
+      '1700000001.M1.host',
+      '1700000002.M2.host',
+    ]);
+  });
+
+  it('delivers messages through tmp/ into new/', async () => {
+    const first = await maildir.deliver(Buffer.from('first'));
+    const second = await maildir.deliver(Buffer.from('second'));
+
+    expect(first).not.toBe(second);
+    expect(await readdir(join(directory, 'tmp'))).toEqual([]);
+    expect(await maildir.listPending()).toEqual([first, second].sort());
+    expect((await maildir.fetchRawEmail(second)).toString()).toBe('second');
+  });
+
+  it('fetches messages from new/ and cur/ by unique name', async () => {
+    await writeFile(join(directory, 'new', 'a.host'), 'new message');
+    await writeFile(join(directory, 'cur', 'b.host:2,RS'), 'cur message');
+
+    expect((await maildir.fetchRawEmail('a.host')).toString()).toBe(
+      'new message',
+    );
+    expect((await maildir.fetchRawEmail('b.host')).toString()).toBe(
+      'cur message',
+    );
+  });
+
+  it('moves processed messages to cur/ with the seen flag', async () => {
+    await writeFile(join(directory, 'new', 'a.host'), 'message');
+
+    await maildir.markProcessed('a.host');
+
+    expect(await readdir(join(directory, 'new'))).toEqual([]);
+    expect(await readdir(join(directory, 'cur'))).toEqual(['a.host:2,S']);
+    expect(await maildir.listPending()).toEqual([]);
+    expect((await maildir.fetchRawEmail('a.host')).toString()).toBe('message');
+  });
+
+  it('moves failed messages to cur/ with the flagged flag, keeping existing flags', async () => {
+    await writeFile(join(directory, 'cur', 'a.host:2,R'), 'message');
+
+    await maildir.markFailed('a.host');
+
+    expect(await readdir(join(directory, 'cur'))).toEqual(['a.host:2,FR']);
+  });
+
+  it('throws for unknown keys', async () => {
+    await expect(maildir.fetchRawEmail('missing.host')).rejects.toThrow(
+      'Email not found in Maildir: missing.host',
+    );
+  });
+
+  it.each([
+    '',
+    '../cur/a.host',
+    '.hidden',
+    'a.host:2,S',
+  ])('rejects keys that are not unique names: %j', async (key) => {
+    await expect(maildir.fetchRawEmail(key)).rejects.toThrow(
+      'Invalid Maildir key',
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type EmailReceivedCallback, ReceiveMailUseCase } from '@/application';
+import {
+  MaildirStorageRepository,
+  MaildirWatcher,
+  MailparserEmailParser,
+} from '@/infrastructure';
+
+const rawEmail = (id: string) =>
+  `Message-ID: <${id}@example.com>\r\n` +
+  'From: sender@example.com\r\n' +
+  'To: recipient@example.com\r\n' +
+  `Subject: ${id}\r\n` +
+  '\r\n' +
+  'Hello';
+
+describe('MaildirWatcher', () => {
+  let directory: string;
+  let maildir: MaildirStorageRepository;
+  let onEmailReceived: ReturnType<typeof vi.fn<EmailReceivedCallback>>;
+  let watcher: MaildirWatcher;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'maildir-'));
+    maildir = new MaildirStorageRepository(directory);
+    await maildir.ensureDirectories();
+    onEmailReceived = vi
+      .fn<EmailReceivedCallback>()
+      .mockResolvedValue(undefined);
+    watcher = new MaildirWatcher({
+      maildir,
+      receiveMailUseCase: new ReceiveMailUseCase({
+        storageRepository: maildir,
+        emailParser: new MailparserEmailParser(),
+        onEmailReceived,
+      }),
+      pollIntervalMs: 50,
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await watcher.stop();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('posts pending messages and moves them to cur/', async () => {
+    await writeFile(join(directory, 'new', '1.host'), rawEmail('one'));
+    await writeFile(join(directory, 'new', '2.host'), rawEmail('two'));
+
+    const result = await watcher.processPending();
+
+    expect(result).toEqual({ processed: ['1.host', '2.host'], failed: [] });
+    expect(onEmailReceived.mock.calls.map(([email]) => email.subject)).toEqual([
+      'one',
+      'two',
+    ]);
+    expect(onEmailReceived).toHaveBeenCalledWith(expect.anything(), {
+      storageKey: '1.host',
+    });
+    expect((await readdir(join(directory, 'cur'))).sort()).toEqual([
+      '1.host:2,S',
+      '2.host:2,S',
+    ]);
+  });
+
+  it('flags failed messages and continues with the rest', async () => {
+    onEmailReceived.mockRejectedValueOnce(new Error('Channel not found'));
+    await writeFile(join(directory, 'new', '1.host'), rawEmail('one'));
+    await writeFile(join(directory, 'new', '2.host'), rawEmail('two'));
+
+    const result = await watcher.processPending();
+
+    expect(result).toEqual({ processed: ['2.host'], failed: ['1.host'] });
+    expect((await readdir(join(directory, 'cur'))).sort()).toEqual([
+      '1.host:2,F',
+      '2.host:2,S',
+    ]);
+    expect(await watcher.processPending()).toEqual({
+      processed: [],
+      failed: [],
+    });
+  });
+
+  it('processes waiting messages on start and new deliveries afterwards', async () => {
+    await writeFile(join(directory, 'new', '1.host'), rawEmail('one'));
+
+    await watcher.start();
+    expect(onEmailReceived).toHaveBeenCalledTimes(1);
+
+    await writeFile(join(directory, 'new', '2.host'), rawEmail('two'));
+
+    await vi.waitFor(
+      async () => {
+        expect(await readdir(join(directory, 'cur'))).toHaveLength(2);
+      },
+      { timeout: 2000 },
+    );
+    expect(onEmailReceived).toHaveBeenCalledTimes(2);
+  });
+});
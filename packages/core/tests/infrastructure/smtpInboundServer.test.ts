@@ -0,0 +1,141 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import nodemailer from 'nodemailer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type EmailReceivedCallback, ReceiveMailUseCase } from '@/application';
+import {
+  MaildirStorageRepository,
+  MailparserEmailParser,
+  SmtpInboundServer,
+} from '@/infrastructure';
+import { readSmtpData } from '@/infrastructure/smtpInboundServer';
+
+describe('SmtpInboundServer', () => {
+  let directory: string;
+  let maildir: MaildirStorageRepository;
+  let onEmailReceived: ReturnType<typeof vi.fn<EmailReceivedCallback>>;
+  let server: SmtpInboundServer;
+  let port: number;
+
+  const send = (message: Record<string, unknown>) =>
+    nodemailer
+      .createTransport({ host: '127.0.0.1', port, secure: false })
+      .sendMail({
+        from: 'sender@external.example',
+        subject: 'Hello',
+        text: 'Hello from SMTP',
+        ...message,
+      });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'smtp-'));
+    maildir = new MaildirStorageRepository(directory);
+    onEmailReceived = vi
+      .fn<EmailReceivedCallback>()
+      .mockResolvedValue(undefined);
+    server = new SmtpInboundServer({
+      domains: ['example.com'],
+      maildir,
+      receiveMailUseCase: new ReceiveMailUseCase({
+        storageRepository: maildir,
+        emailParser: new MailparserEmailParser(),
+        onEmailReceived,
+      }),
+      maxMessageSize: 10_000,
+      maxRecipients: 2,
+    });
+    ({ port } = await server.listen(0, '127.0.0.1'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('stores accepted messages and posts them through ReceiveMailUseCase', async () => {
+    const info = await send({ to: 'Support@Example.com' });
+    await server.close();
+
+    expect(info.accepted).toHaveLength(1);
+    expect(onEmailReceived).toHaveBeenCalledTimes(1);
+    const [email, context] = onEmailReceived.mock.calls[0];
+    expect(email.subject).toBe('Hello');
+    expect(email.body.text?.trim()).toBe('Hello from SMTP');
+    expect(await readdir(join(directory, 'cur'))).toEqual([
+      `${context.storageKey}:2,S`,
+    ]);
+  });
+
+  it('flags messages that fail to be posted but still accepts them', async () => {
+    onEmailReceived.mockRejectedValue(new Error('Channel not found'));
+
+    const info = await send({ to: 'support@example.com' });
+    await server.close();
+
+    expect(info.accepted).toEqual(['support@example.com']);
+    const [file] = await readdir(join(directory, 'cur'));
+    expect(file).toMatch(/:2,F$/);
+  });
+
+  it('rejects recipients outside the configured domains', async () => {
+    await expect(send({ to: 'someone@other.example' })).rejects.toMatchObject({
+      responseCode: 550,
+    });
+    expect(onEmailReceived).not.toHaveBeenCalled();
+  });
+
+  it('accepts only allowed recipients of a mixed message', async () => {
+    const info = await send({
+      to: ['support@example.com', 'someone@other.example'],
+    });
+
+    expect(info.accepted).toEqual(['support@example.com']);
+    expect(info.rejected).toEqual(['someone@other.example']);
+  });
+
+  it('limits the number of recipients', async () => {
+    const info = await send({
+      to: ['a@example.com', 'b@example.com', 'c@example.com'],
+    });
+
+    expect(info.accepted).toEqual(['a@example.com', 'b@example.com']);
+    expect(info.rejected).toEqual(['c@example.com']);
+  });
+
+  it('rejects messages over the size limit', async () => {
+    await expect(
+      send({ to: 'support@example.com', text: 'x'.repeat(20_000) }),
+    ).rejects.toMatchObject({ responseCode: 552 });
+    await server.close();
+
+    expect(onEmailReceived).not.toHaveBeenCalled();
+    expect(await readdir(join(directory))).toEqual([]);
+  });
+
+  describe('readSmtpData', () => {
+    async function* chunks(count: number, read: { count: number }) {
+      for (let i = 0; i < count; i++) {
+        read.count++;
+        yield Buffer.alloc(1000, 'x');
+      }
+    }
+
+    it('returns the message within the limit', async () => {
+      const message = await readSmtpData(chunks(3, { count: 0 }), 3000);
+
+      expect(message.length).toBe(3000);
+    });
+
+    it('drains the rest of an oversized message and rejects it', async () => {
+      const read = { count: 0 };
+
+      await expect(readSmtpData(chunks(100, read), 3000)).rejects.toMatchObject(
+        { responseCode: 552 },
+      );
+      expect(read.count).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, expect, it } from 'vitest';
+import type { Email } from '@/domain/entities';
+import {
+  type ChannelRoute,
+  ChannelRouteConfigError,
+  parseChannelRoutes,
+  resolveChannel,
+} from '@/presentation/channelRouter';
+
+describe('channelRouter', () => {
+  const baseEmail: Email = {
+    messageId: 'test-123',
+    from: { address: 'customer@client.example' },
+    to: [{ address: 'someone@example.com' }],
+    subject: 'Hello',
+    body: { text: 'Hello' },
+    date: new Date('2025-01-01'),
+  };
+
+  const emailTo = (address: string, cc?: string): Email => ({
+    ...baseEmail,
+    to: [{ address }],
+    cc: cc ? [{ address: cc }] : undefined,
+  });
+
+  describe('resolveChannel', () => {
+    const routes: ChannelRoute[] = [
+      {
+        match: { type: 'address', address: 'support@example.com' },
+        channel: 'C_SUPPORT',
+      },
+      {
+        match: { type: 'address', address: 'billing@example.com' },
+        channel: 'C_BILLING',
+      },
+      { match: { type: 'plusTag', tag: 'urgent' }, channel: 'C_URGENT' },
+      {
+        match: { type: 'wildcard', pattern: 'alerts*@example.com' },
+        channel: 'C_ALERTS',
+      },
+      {
+        match: { type: 'senderDomain', domain: 'partner.example' },
+        channel: 'C_PARTNER',
+      },
+    ];
+
+    it('should route by exact recipient address', () => {
+      expect(
+        resolveChannel(emailTo('support@example.com'), routes, 'C_DEFAULT'),
+      ).toBe('C_SUPPORT');
+      expect(
+        resolveChannel(emailTo('billing@example.com'), routes, 'C_DEFAULT'),
+      ).toBe('C_BILLING');
+    });
+
+    it('should compare addresses case-insensitively', () => {
+      expect(
+        resolveChannel(emailTo('Support@Example.COM'), routes, 'C_DEFAULT'),
+      ).toBe('C_SUPPORT');
+    });
+
+    it('should match exact address rules ignoring the plus tag', () => {
+      expect(
+        resolveChannel(
+          emailTo('billing+invoices@example.com'),
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_BILLING');
+    });
+
+    it('should route by plus-address tag', () => {
+      expect(
+        resolveChannel(
+          emailTo('inbox+urgent@example.com'),
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_URGENT');
+    });
+
+    it('should route by wildcard pattern', () => {
+      expect(
+        resolveChannel(emailTo('alerts-prod@example.com'), routes, 'C_DEFAULT'),
+      ).toBe('C_ALERTS');
+      expect(
+        resolveChannel(emailTo('alerts@example.org'), routes, 'C_DEFAULT'),
+      ).toBe('C_DEFAULT');
+    });
+
+    it('should route by sender domain', () => {
+      const email: Email = {
+        ...baseEmail,
+        from: { address: 'alice@Partner.Example' },
+      };
+      expect(resolveChannel(email, routes, 'C_DEFAULT')).toBe('C_PARTNER');
+    });
+
+    it('should consider Cc recipients', () => {
+      expect(
+        resolveChannel(
+          emailTo('someone@example.com', 'billing@example.com'),
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_BILLING');
+    });
+
+    it('should consider Bcc and Delivered-To recipients', () => {
+      expect(
+        resolveChannel(
+          {
+            ...emailTo('dev@lists.example.org'),
+            deliveredTo: [{ address: 'support@example.com' }],
+          },
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_SUPPORT');
+      expect(
+        resolveChannel(
+          { ...baseEmail, bcc: [{ address: 'billing@example.com' }] },
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_BILLING');
+    });
+
+    it('should use the first matching route', () => {
+      expect(
+        resolveChannel(
+          emailTo('support@example.com', 'billing@example.com'),
+          routes,
+          'C_DEFAULT',
+        ),
+      ).toBe('C_SUPPORT');
+    });
+
+    it('should fall back to the catch-all channel', () => {
+      expect(resolveChannel(baseEmail, routes, 'C_DEFAULT')).toBe('C_DEFAULT');
+      expect(resolveChannel(baseEmail, [], 'C_DEFAULT')).toBe('C_DEFAULT');
+    });
+
+    it('should treat regex characters in wildcard patterns literally', () => {
+      const dotRoutes: ChannelRoute[] = [
+        {
+          match: { type: 'wildcard', pattern: '*@a.example.com' },
+          channel: 'C_DOT',
+        },
+      ];
+      expect(
+        resolveChannel(emailTo('x@abexample.com'), dotRoutes, 'C_DEFAULT'),
+      ).toBe('C_DEFAULT');
+    });
+  });
+
+  describe('parseChannelRoutes', () => {
+    it('should parse a valid route list', () => {
+      const routes = parseChannelRoutes(
+        JSON.stringify([
+          {
+            match: { type: 'address', address: 'support@example.com' },
+            channel: 'C_SUPPORT',
+          },
+          { match: { type: 'plusTag', tag: 'urgent' }, channel: ' C_URGENT ' },
+        ]),
+      );
+
+      expect(routes).toEqual([
+        {
+          match: { type: 'address', address: 'support@example.com' },
+          channel: 'C_SUPPORT',
+        },
+        { match: { type: 'plusTag', tag: 'urgent' }, channel: 'C_URGENT' },
+      ]);
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => parseChannelRoutes('{')).toThrow(ChannelRouteConfigError);
+    });
+
+    it('should reject non-array JSON', () => {
+      expect(() => parseChannelRoutes('{}')).toThrow(
+        'Channel routes must be a JSON array',
+      );
+    });
+
+    it('should reject routes without a channel', () => {
+      expect(() =>
+        parseChannelRoutes(
+          JSON.stringify([{ match: { type: 'plusTag', tag: 'urgent' } }]),
+        ),
+      ).toThrow('Invalid route at index 0: channel is required');
+    });
+
+    it('should reject unknown match types', () => {
+      expect(() =>
+        parseChannelRoutes(
+          JSON.stringify([{ match: { type: 'regex' }, channel: 'C1' }]),
+        ),
+      ).toThrow('unknown match type "regex"');
+    });
+
+    it('should reject matchers missing their field', () => {
+      expect(() =>
+        parseChannelRoutes(
+          JSON.stringify([{ match: { type: 'wildcard' }, channel: 'C1' }]),
+        ),
+      ).toThrow('match.pattern is required for type "wildcard"');
+    });
+  });
+});
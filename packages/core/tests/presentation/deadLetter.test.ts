@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { DeadLetterRecord } from '@/domain/repositories';
+import {
+  formatDeadLetterList,
+  formatReplayResults,
+  parseReplayCommand,
+  toDeadLetterRecord,
+} from '@/presentation/deadLetter';
+import type { FailedEmailRecord } from '@/presentation/slackApp';
+
+describe('deadLetter', () => {
+  const failed: FailedEmailRecord = {
+    email: {
+      messageId: 'test-123@example.com',
+      from: { address: 'sender@example.com' },
+      to: [{ address: 'support@example.com' }],
+      subject: 'Hello',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    },
+    storageKey: 'emails/abc',
+    channel: 'C123',
+    error: 'Channel not found',
+    errorCode: 'channel_not_found',
+    timestamp: new Date('2025-01-01T00:01:00Z'),
+    attempts: 3,
+  };
+
+  describe('toDeadLetterRecord', () => {
+    it('should convert a failed delivery', () => {
+      const record = toDeadLetterRecord(failed);
+
+      expect(record).toEqual({
+        id: expect.stringMatching(/^[0-9a-f]{12}$/),
+        storageKey: 'emails/abc',
+        messageId: 'test-123@example.com',
+        from: 'sender@example.com',
+        subject: 'Hello',
+        channel: 'C123',
+        error: 'Channel not found',
+        errorCode: 'channel_not_found',
+        attempts: 3,
+        failedAt: new Date('2025-01-01T00:01:00Z'),
+      });
+    });
+
+    it('should give repeated failures of the same email the same ID', () => {
+      const first = toDeadLetterRecord(failed);
+      const second = toDeadLetterRecord({
+        ...failed,
+        timestamp: new Date('2025-01-02T00:00:00Z'),
+      });
+      const other = toDeadLetterRecord({ ...failed, storageKey: 'emails/x' });
+
+      expect(second.id).toBe(first.id);
+      expect(other.id).not.toBe(first.id);
+    });
+  });
+
+  describe('parseReplayCommand', () => {
+    it('should list by default', () => {
+      expect(parseReplayCommand('')).toEqual({ type: 'list' });
+      expect(parseReplayCommand(' list ')).toEqual({ type: 'list' });
+    });
+
+    it('should replay all records', () => {
+      expect(parseReplayCommand('all')).toEqual({ type: 'replay' });
+    });
+
+    it('should replay the given IDs', () => {
+      expect(parseReplayCommand('abc  def')).toEqual({
+        type: 'replay',
+        ids: ['abc', 'def'],
+      });
+    });
+  });
+
+  describe('formatDeadLetterList', () => {
+    const record: DeadLetterRecord = {
+      ...toDeadLetterRecord(failed),
+      id: 'abc123',
+    };
+
+    it('should list records with how to replay them', () => {
+      expect(formatDeadLetterList([record])).toBe(
+        [
+          '*1 failed email(s)*',
+          '• `abc123` Hello from sender@example.com → <#C123> (channel_not_found, 2025-01-01T00:01:00.000Z)',
+          'Replay with `/mail-replay <id>` or `/mail-replay all`.',
+        ].join('\n'),
+      );
+    });
+
+    it('should mark records without a storage key', () => {
+      expect(
+        formatDeadLetterList([{ ...record, storageKey: undefined }]),
+      ).toContain('_not replayable_');
+    });
+
+    it('should report an empty store', () => {
+      expect(formatDeadLetterList([])).toBe(
+        ':white_check_mark: No failed emails.',
+      );
+    });
+  });
+
+  describe('formatReplayResults', () => {
+    it('should describe each result', () => {
+      expect(
+        formatReplayResults([
+          { id: 'a', status: 'replayed' },
+          { id: 'b', status: 'failed', error: 'Channel not found' },
+        ]),
+      ).toBe(
+        '• `a` :white_check_mark: replayed\n• `b` :x: failed: Channel not found',
+      );
+    });
+
+    it('should suggest replaying the records left for the next command', () => {
+      expect(
+        formatReplayResults([{ id: 'a', status: 'replayed' }], ['b', 'c']),
+      ).toBe(
+        '• `a` :white_check_mark: replayed\n_2 more not replayed yet (10 per command); continue with `/mail-replay b c`._',
+      );
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeliveryFeedback } from '@/domain/entities';
+import { InMemorySentEmailRepository } from '@/infrastructure';
+import {
+  buildDeliveryFeedbackMessage,
+  createDeliveryFeedbackHandler,
+} from '@/presentation/deliveryFeedback';
+
+describe('deliveryFeedback', () => {
+  const bounce: DeliveryFeedback = {
+    type: 'bounce',
+    messageId: 'ses-123',
+    bounceType: 'Permanent',
+    bounceSubType: 'General',
+    recipients: [
+      {
+        address: 'missing@client.example',
+        status: '5.1.1',
+        diagnostic: 'smtp; 550 5.1.1 <missing@client.example>: user unknown',
+      },
+    ],
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+    subject: 'Invoice',
+    from: 'billing@example.com',
+  };
+
+  const complaint: DeliveryFeedback = {
+    type: 'complaint',
+    messageId: 'ses-123',
+    complaintType: 'abuse',
+    recipients: [{ address: 'customer@client.example' }],
+    timestamp: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  describe('buildDeliveryFeedbackMessage', () => {
+    it('should describe bounces with status and diagnostic', () => {
+      const { text, blocks } = buildDeliveryFeedbackMessage(bounce, {
+        messageId: 'ses-123',
+        channel: 'C123',
+        messageTs: '111.222',
+        recipients: ['missing@client.example'],
+        subject: 'Invoice',
+        sentAt: new Date(),
+      });
+
+      expect(text).toBe('Email to missing@client.example bounced');
+      expect((blocks[0] as { text: { text: string } }).text.text).toBe(
+        ':x: *Email bounced* (Permanent: General)\n' +
+          '• missing@client.example `5.1.1`\n' +
+          '> smtp; 550 5.1.1 &lt;missing@client.example&gt;: user unknown',
+      );
+    });
+
+    it('should include the subject when posted outside the thread', () => {
+      const { blocks } = buildDeliveryFeedbackMessage(bounce);
+
+      expect((blocks[0] as { text: { text: string } }).text.text).toContain(
+        '*Subject:* Invoice\n*From:* billing@example.com',
+      );
+    });
+
+    it('should describe complaints and soft bounces', () => {
+      expect(buildDeliveryFeedbackMessage(complaint).text).toBe(
+        'Spam complaint from customer@client.example',
+      );
+      expect(JSON.stringify(buildDeliveryFeedbackMessage(complaint))).toContain(
+        ':warning: *Recipient marked the email as spam* (abuse)',
+      );
+      expect(
+        JSON.stringify(
+          buildDeliveryFeedbackMessage({
+            ...bounce,
+            bounceType: 'Transient',
+            bounceSubType: 'MailboxFull',
+          }),
+        ),
+      ).toContain(':hourglass: *Email soft-bounced* (Transient: MailboxFull)');
+    });
+  });
+
+  describe('createDeliveryFeedbackHandler', () => {
+    let app: App;
+    let postMessage: ReturnType<typeof vi.fn>;
+    let sentEmails: InMemorySentEmailRepository;
+
+    beforeEach(() => {
+      postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '333.444' });
+      app = { client: { chat: { postMessage } } } as unknown as App;
+      sentEmails = new InMemorySentEmailRepository();
+    });
+
+    it('should post into the thread of the send confirmation', async () => {
+      await sentEmails.saveSentEmail({
+        messageId: 'ses-123',
+        channel: 'C123',
+        messageTs: '111.222',
+        recipients: ['missing@client.example'],
+        subject: 'Invoice',
+        sentAt: new Date(),
+      });
+      const handler = createDeliveryFeedbackHandler(app, {
+        sentEmails,
+        fallbackChannel: 'C_DEFAULT',
+      });
+
+      await handler(bounce);
+
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C123', thread_ts: '111.222' }),
+      );
+    });
+
+    it('should keep replies to threaded confirmations in that thread', async () => {
+      await sentEmails.saveSentEmail({
+        messageId: 'ses-123',
+        channel: 'C123',
+        messageTs: '111.333',
+        threadTs: '111.222',
+        recipients: ['customer@client.example'],
+        subject: 'Re: Order',
+        sentAt: new Date(),
+      });
+
+      await createDeliveryFeedbackHandler(app, { sentEmails })(complaint);
+
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C123', thread_ts: '111.222' }),
+      );
+    });
+
+    it('should post unknown emails to the fallback channel', async () => {
+      await createDeliveryFeedbackHandler(app, {
+        sentEmails,
+        fallbackChannel: 'C_DEFAULT',
+      })(bounce);
+
+      const args = postMessage.mock.calls[0][0];
+      expect(args.channel).toBe('C_DEFAULT');
+      expect(args.thread_ts).toBeUndefined();
+    });
+
+    it('should post with the app of the workspace the email was sent from', async () => {
+      await sentEmails.saveSentEmail({
+        messageId: 'ses-123',
+        channel: 'C123',
+        messageTs: '111.222',
+        recipients: ['missing@client.example'],
+        subject: 'Invoice',
+        sentAt: new Date(),
+        installation: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+      const resolveApp = vi.fn().mockResolvedValue(app);
+
+      await createDeliveryFeedbackHandler(undefined, {
+        sentEmails,
+        resolveApp,
+      })(bounce);
+
+      expect(resolveApp).toHaveBeenCalledWith({
+        teamId: 'T1',
+        isEnterpriseInstall: false,
+      });
+      expect(postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C123', thread_ts: '111.222' }),
+      );
+    });
+
+    it('should skip unknown emails without a fallback channel', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await createDeliveryFeedbackHandler(app, { sentEmails })(bounce);
+
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+  });
+});
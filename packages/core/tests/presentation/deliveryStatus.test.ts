@@ -0,0 +1,191 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DeliveryEvent } from '@/domain/entities';
+import { InMemorySentEmailRepository } from '@/infrastructure';
+import {
+  buildSentEmailConfirmation,
+  createDeliveryStatusHandler,
+  DELIVERY_STATUS_BLOCK_ID,
+} from '@/presentation/deliveryStatus';
+
+type Block = { block_id?: string; text?: { text: string } };
+
+describe('deliveryStatus', () => {
+  const sent = {
+    messageId: 'ses-123',
+    recipients: ['a@client.example', 'b@client.example'],
+    subject: 'Invoice',
+    from: 'billing@example.com',
+  };
+
+  describe('buildSentEmailConfirmation', () => {
+    it('should build the send confirmation without a status block', () => {
+      const { text, blocks } = buildSentEmailConfirmation(sent);
+
+      expect(text).toBe(
+        'Email sent successfully to a@client.example, b@client.example',
+      );
+      expect(blocks).toHaveLength(2);
+      expect((blocks[0] as Block).text?.text).toBe(
+        '*:white_check_mark: Email Sent Successfully*\n\n' +
+          '*To:* a@client.example, b@client.example\n' +
+          '*From:* billing@example.com\n' +
+          '*Subject:* Invoice',
+      );
+    });
+
+    it('should build the reply confirmation with the sender', () => {
+      const { text, blocks } = buildSentEmailConfirmation({
+        ...sent,
+        isReply: true,
+        sentBy: 'U123',
+      });
+
+      expect(text).toBe('Reply sent to a@client.example, b@client.example');
+      expect((blocks[0] as Block).text?.text).toContain(
+        '*:white_check_mark: Reply Sent*',
+      );
+      expect((blocks[0] as Block).text?.text).toContain('*Sent by:* <@U123>');
+    });
+
+    it('should list the delivery status per recipient', () => {
+      const { blocks } = buildSentEmailConfirmation({
+        ...sent,
+        deliveries: {
+          'a@client.example': {
+            status: 'delivered',
+            timestamp: new Date(),
+          },
+          'cc@client.example': {
+            status: 'bounced',
+            timestamp: new Date(),
+            detail: 'Permanent: General',
+          },
+        },
+      });
+
+      const status = blocks.find(
+        (block) => (block as Block).block_id === DELIVERY_STATUS_BLOCK_ID,
+      ) as Block;
+      expect(status.text?.text).toBe(
+        '*Delivery:*\n' +
+          '• a@client.example: :white_check_mark: Delivered\n' +
+          '• b@client.example: :hourglass_flowing_sand: Pending\n' +
+          '• cc@client.example: :x: Bounced (Permanent: General)',
+      );
+    });
+  });
+
+  describe('createDeliveryStatusHandler', () => {
+    let app: App;
+    let update: ReturnType<typeof vi.fn>;
+    let sentEmails: InMemorySentEmailRepository;
+
+    const delivery: DeliveryEvent = {
+      type: 'delivery',
+      messageId: 'ses-123',
+      recipients: ['a@client.example'],
+      timestamp: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    beforeEach(() => {
+      update = vi.fn().mockResolvedValue({ ok: true });
+      app = { client: { chat: { update } } } as unknown as App;
+      sentEmails = new InMemorySentEmailRepository();
+    });
+
+    it('should record the event and update the confirmation in place', async () => {
+      await sentEmails.saveSentEmail({
+        ...sent,
+        channel: 'C123',
+        messageTs: '111.333',
+        threadTs: '111.222',
+        sentAt: new Date(),
+      });
+
+      await createDeliveryStatusHandler(app, { sentEmails })(delivery);
+
+      expect(
+        (await sentEmails.findSentEmail('ses-123'))?.deliveries,
+      ).toMatchObject({ 'a@client.example': { status: 'delivered' } });
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C123', ts: '111.333' }),
+      );
+      expect(JSON.stringify(update.mock.calls[0][0].blocks)).toContain(
+        'a@client.example: :white_check_mark: Delivered',
+      );
+    });
+
+    it('should keep the statuses of concurrent events', async () => {
+      await sentEmails.saveSentEmail({
+        ...sent,
+        channel: 'C123',
+        messageTs: '111.333',
+        sentAt: new Date(),
+      });
+      const handler = createDeliveryStatusHandler(app, { sentEmails });
+
+      await Promise.all([
+        handler(delivery),
+        handler({ ...delivery, recipients: ['b@client.example'] }),
+      ]);
+
+      expect(
+        (await sentEmails.findSentEmail('ses-123'))?.deliveries,
+      ).toMatchObject({
+        'a@client.example': { status: 'delivered' },
+        'b@client.example': { status: 'delivered' },
+      });
+    });
+
+    it('should update with the app of the workspace the email was sent from', async () => {
+      await sentEmails.saveSentEmail({
+        ...sent,
+        channel: 'C123',
+        messageTs: '111.333',
+        sentAt: new Date(),
+        installation: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+      const resolveApp = vi.fn().mockResolvedValue(app);
+
+      await createDeliveryStatusHandler(undefined, { sentEmails, resolveApp })(
+        delivery,
+      );
+
+      expect(resolveApp).toHaveBeenCalledWith({
+        teamId: 'T1',
+        isEnterpriseInstall: false,
+      });
+      expect(update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only record the event once the workspace is uninstalled', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      await sentEmails.saveSentEmail({
+        ...sent,
+        channel: 'C123',
+        messageTs: '111.333',
+        sentAt: new Date(),
+        installation: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+
+      await createDeliveryStatusHandler(app, {
+        sentEmails,
+        resolveApp: vi.fn().mockResolvedValue(undefined),
+      })(delivery);
+
+      expect(
+        (await sentEmails.findSentEmail('ses-123'))?.deliveries,
+      ).toMatchObject({ 'a@client.example': { status: 'delivered' } });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should ignore events for unknown emails', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await createDeliveryStatusHandler(app, { sentEmails })(delivery);
+
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
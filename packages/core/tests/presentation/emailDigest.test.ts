@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import type { DigestEntry, Email } from '@/domain/entities';
+import {
+  DigestRuleConfigError,
+  formatDigestMessage,
+  parseDigestRules,
+  resolveDigestSchedule,
+} from '@/presentation/emailDigest';
+
+describe('emailDigest', () => {
+  const email: Email = {
+    messageId: 'weekly@news.example',
+    from: { address: 'digest@news.example' },
+    to: [{ address: 'team@example.com' }],
+    subject: 'Weekly news',
+    body: { text: 'News' },
+    date: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  describe('parseDigestRules', () => {
+    it('should parse route matchers and bulk rules', () => {
+      expect(
+        parseDigestRules(
+          JSON.stringify([
+            { match: { type: 'bulk' }, schedule: 'daily' },
+            {
+              match: { type: 'senderDomain', domain: 'github.com' },
+              schedule: 'hourly',
+            },
+          ]),
+        ),
+      ).toEqual([
+        { match: { type: 'bulk' }, schedule: 'daily' },
+        {
+          match: { type: 'senderDomain', domain: 'github.com' },
+          schedule: 'hourly',
+        },
+      ]);
+    });
+
+    it('should reject malformed rules', () => {
+      expect(() => parseDigestRules('{')).toThrow(DigestRuleConfigError);
+      expect(() => parseDigestRules('{}')).toThrow(
+        'Digest rules must be a JSON array',
+      );
+      expect(() =>
+        parseDigestRules(
+          '[{ "match": { "type": "bulk" }, "schedule": "weekly" }]',
+        ),
+      ).toThrow(
+        'Invalid digest rule at index 0: schedule must be "hourly" or "daily"',
+      );
+      expect(() =>
+        parseDigestRules(
+          '[{ "match": { "type": "address" }, "schedule": "daily" }]',
+        ),
+      ).toThrow(
+        new DigestRuleConfigError(
+          'Invalid digest rule at index 0: match.address is required for type "address"',
+        ),
+      );
+    });
+  });
+
+  describe('resolveDigestSchedule', () => {
+    const rules = parseDigestRules(
+      JSON.stringify([
+        {
+          match: { type: 'senderDomain', domain: 'news.example' },
+          schedule: 'hourly',
+        },
+        { match: { type: 'bulk' }, schedule: 'daily' },
+      ]),
+    );
+
+    it('should use the first matching rule', () => {
+      expect(resolveDigestSchedule(email, rules)).toBe('hourly');
+      expect(
+        resolveDigestSchedule(
+          {
+            ...email,
+            from: { address: 'noreply@shop.example' },
+            headers: { 'list-unsubscribe': ['<https://shop.example/u>'] },
+          },
+          rules,
+        ),
+      ).toBe('daily');
+    });
+
+    it('should not digest emails without a matching rule', () => {
+      expect(
+        resolveDigestSchedule(
+          { ...email, from: { address: 'alice@client.example' } },
+          rules,
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('formatDigestMessage', () => {
+    const entry = (storageKey: string, subject: string): DigestEntry => ({
+      storageKey,
+      messageId: `${storageKey}@news.example`,
+      from: 'digest@news.example',
+      subject,
+      date: new Date('2026-01-01T00:00:00Z'),
+      channel: 'C123',
+      schedule: 'daily',
+      bufferedAt: new Date(),
+    });
+
+    it('should list sender and subject, linking posted emails', () => {
+      const { text, blocks } = formatDigestMessage(
+        'daily',
+        [entry('a', 'Weekly <news>'), entry('b', '')],
+        new Map([['a', 'https://slack.example/p1']]),
+      );
+
+      expect(text).toBe('Daily digest: 2 emails');
+      expect(blocks[1]).toEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: [
+            '• *<https://slack.example/p1|Weekly &lt;news&gt;>* — digest@news.example',
+            '• *(no subject)* — digest@news.example',
+          ].join('\n'),
+        },
+      });
+    });
+
+    it('should split long digests into several sections', () => {
+      const entries = Array.from({ length: 25 }, (_, i) =>
+        entry(`k${i}`, `Subject ${i}`),
+      );
+
+      const { blocks } = formatDigestMessage('hourly', entries, new Map());
+
+      // Header, 3 sections of up to 10 emails, footer
+      expect(blocks).toHaveLength(5);
+      expect(JSON.stringify(blocks[0])).toContain(
+        ':newspaper: *Hourly digest* · 25 emails',
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EmailFilterConfigError,
+  parseEmailFilterRules,
+} from '@/presentation/emailFilter';
+
+describe('parseEmailFilterRules', () => {
+  it('should parse every matcher type', () => {
+    expect(
+      parseEmailFilterRules(
+        JSON.stringify([
+          {
+            action: 'allow',
+            match: { type: 'sender', address: ' ceo@partner.example ' },
+          },
+          {
+            name: 'partner',
+            action: 'block',
+            match: { type: 'senderDomain', domain: 'partner.example' },
+          },
+          {
+            action: 'block',
+            match: { type: 'subject', pattern: '^\\[SPAM\\]' },
+          },
+          { action: 'block', match: { type: 'body', pattern: 'unsubscribe' } },
+          { action: 'block', match: { type: 'header', name: 'List-Id' } },
+          {
+            action: 'block',
+            match: { type: 'header', name: 'X-Spam-Flag', pattern: '^yes$' },
+          },
+        ]),
+      ),
+    ).toEqual([
+      {
+        action: 'allow',
+        match: { type: 'sender', address: 'ceo@partner.example' },
+      },
+      {
+        name: 'partner',
+        action: 'block',
+        match: { type: 'senderDomain', domain: 'partner.example' },
+      },
+      { action: 'block', match: { type: 'subject', pattern: '^\\[SPAM\\]' } },
+      { action: 'block', match: { type: 'body', pattern: 'unsubscribe' } },
+      { action: 'block', match: { type: 'header', name: 'List-Id' } },
+      {
+        action: 'block',
+        match: { type: 'header', name: 'X-Spam-Flag', pattern: '^yes$' },
+      },
+    ]);
+  });
+
+  it.each([
+    ['not json', 'Filter rules must be valid JSON'],
+    ['{}', 'Filter rules must be a JSON array'],
+    [
+      '[{"action":"drop","match":{"type":"sender","address":"a@b.c"}}]',
+      'Invalid filter rule at index 0: action must be "allow" or "block"',
+    ],
+    [
+      '[{"action":"block"}]',
+      'Invalid filter rule at index 0: match is required',
+    ],
+    [
+      '[{"action":"block","match":{"type":"toString"}}]',
+      'Invalid filter rule at index 0: unknown match type "toString"',
+    ],
+    [
+      '[{"action":"block","match":{"type":"senderDomain"}}]',
+      'Invalid filter rule at index 0: match.domain is required for type "senderDomain"',
+    ],
+    [
+      '[{"action":"block","match":{"type":"subject","pattern":"("}}]',
+      'Invalid filter rule at index 0: invalid pattern "("',
+    ],
+    [
+      '[{"action":"block","match":{"type":"header","name":"X-A","pattern":""}}]',
+      'Invalid filter rule at index 0: match.pattern must be a non-empty string',
+    ],
+    [
+      '[{"name":1,"action":"block","match":{"type":"body","pattern":"x"}}]',
+      'Invalid filter rule at index 0: name must be a non-empty string',
+    ],
+  ])('should reject %s', (json, message) => {
+    expect(() => parseEmailFilterRules(json)).toThrow(EmailFilterConfigError);
+    expect(() => parseEmailFilterRules(json)).toThrow(message);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it } from 'vitest';
-import type { Email } from '@/domain/entities';
+import type { CalendarEvent, Email } from '@/domain/entities';
 import {
   formatEmailAddress,
   formatEmailAddresses,
@@ -82,6 +82,39 @@ describe('emailFormatter', () => {
       expect(sectionBlock.fields[1].text).toContain('recipient@example.com');
     });
 
+    it('should show Reply-To when it differs from From', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        replyTo: { name: 'Support', address: 'help@example.com' },
+      });
+
+      const sectionBlock = result.blocks[1] as { fields: { text: string }[] };
+      expect(sectionBlock.fields[2].text).toBe(
+        '*Reply-To:*\nSupport &lt;help@example.com&gt;',
+      );
+    });
+
+    it('should escape the Reply-To name', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        replyTo: { name: '<!channel> & co', address: 'help@example.com' },
+      });
+
+      const sectionBlock = result.blocks[1] as { fields: { text: string }[] };
+      expect(sectionBlock.fields[2].text).toBe(
+        '*Reply-To:*\n&lt;!channel&gt; &amp; co &lt;help@example.com&gt;',
+      );
+    });
+
+    it('should not show Reply-To when it matches From', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        replyTo: { address: 'SENDER@example.com' },
+      });
+
+      expect(JSON.stringify(result.blocks)).not.toContain('Reply-To');
+    });
+
     it('should include cc when present', () => {
       const emailWithCc: Email = {
         ...email,
@@ -109,6 +142,32 @@ describe('emailFormatter', () => {
       expect(bodyBlock).toBeDefined();
     });
 
+    it('should render HTML-only bodies as mrkdwn with links', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        body: {
+          html: '<p>Your <b>invoice</b> is <a href="https://example.com/inv/1">ready</a>.</p>',
+        },
+      });
+
+      const bodyBlock = result.blocks.find(
+        (b) => (b as { block_id?: string }).block_id === 'email_body',
+      ) as { text: { text: string } };
+      expect(bodyBlock.text.text).toBe(
+        'Your *invoice* is <https://example.com/inv/1|ready>.',
+      );
+    });
+
+    it('should attach long HTML bodies as plain text with link URLs', () => {
+      const html = `<p><a href="https://example.com">Home</a></p>${'<p>Lorem <b>ipsum</b> dolor sit amet.</p>'.repeat(150)}`;
+
+      const result = formatEmailForSlack({ ...email, body: { html } });
+
+      expect(result.bodyAsFile?.content).toMatch(
+        /^Home \[https:\/\/example\.com\]\n\nLorem ipsum dolor sit amet\./,
+      );
+    });
+
     it('should truncate long subject line (>140 chars)', () => {
       const longSubject = 'A'.repeat(200); // 200 characters
       const emailWithLongSubject: Email = {
@@ -152,6 +211,25 @@ describe('emailFormatter', () => {
       expect(bodyBlock).toBeDefined();
     });
 
+    it('should hide quoted history and attach the full message', () => {
+      const body =
+        'Sounds good.\n\nOn Mon, Jan 6, 2025 at 10:00 AM Taro <taro@example.com> wrote:\n> Meet Tuesday?';
+
+      const result = formatEmailForSlack({ ...email, body: { text: body } });
+
+      const bodyBlock = result.blocks.find(
+        (b) => (b as { block_id?: string }).block_id === 'email_body',
+      ) as { text: { text: string } };
+      expect(bodyBlock.text.text).toBe(
+        'Sounds good.\n\n_Quoted text hidden. See "Show full message" in the thread._',
+      );
+      expect(result.bodyAsFile).toEqual({
+        content: body,
+        filename: `email-body-${email.messageId}.txt`,
+        title: 'Show full message',
+      });
+    });
+
     it('should not return bodyAsFile when body is within limit', () => {
       const shortBody = 'Short email body.';
       const emailWithShortBody: Email = {
@@ -163,5 +241,226 @@ describe('emailFormatter', () => {
 
       expect(result.bodyAsFile).toBeUndefined();
     });
+
+    it('should list attachments with their sizes', () => {
+      const emailWithAttachments: Email = {
+        ...email,
+        attachments: [
+          {
+            filename: 'report.pdf',
+            contentType: 'application/pdf',
+            size: 2048,
+          },
+          {
+            filename: 'logo.png',
+            contentType: 'image/png',
+            size: 100,
+            inline: true,
+          },
+        ],
+      };
+
+      const result = formatEmailForSlack(emailWithAttachments);
+
+      const attachmentBlock = result.blocks.find(
+        (b) =>
+          b.type === 'context' &&
+          (b as { elements: { text: string }[] }).elements[0].text.includes(
+            'Attachments:',
+          ),
+      ) as { elements: { text: string }[] } | undefined;
+      expect(attachmentBlock?.elements[0].text).toBe(
+        ':paperclip: *Attachments:* `report.pdf` (2.0 KB)',
+      );
+    });
+
+    it('should show a warning banner when the spam scan failed', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        verdicts: { spam: 'FAIL', virus: 'PASS' },
+      });
+
+      expect(result.blocks[1]).toEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: ':warning: *Failed the spam scan.* Be careful with links and attachments.',
+        },
+      });
+    });
+
+    it('should show a stronger warning when the virus scan failed', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        verdicts: { spam: 'FAIL', virus: 'FAIL' },
+      });
+
+      expect((result.blocks[1] as { text: { text: string } }).text.text).toBe(
+        ':rotating_light: *Failed the spam and virus scan.* Do not open attachments or links.',
+      );
+    });
+
+    it('should show SPF/DKIM/DMARC results in a context block', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        authentication: { spf: 'pass', dkim: 'fail', dmarc: 'none' },
+      });
+
+      expect(result.blocks).toContainEqual({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: ':white_check_mark: *SPF:* pass   :x: *DKIM:* fail   :grey_question: *DMARC:* none',
+          },
+        ],
+      });
+      expect(JSON.stringify(result.blocks)).not.toContain('DMARC failed');
+    });
+
+    it('should show a prominent warning when DMARC fails', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        authentication: { spf: 'pass', dkim: 'pass', dmarc: 'fail' },
+      });
+
+      expect(result.blocks[1]).toEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: ':rotating_light: *DMARC failed:* this email may not really be from `example.com`. Verify the sender before replying, clicking links or opening attachments.',
+        },
+      });
+    });
+
+    it('should not show authentication results when unknown', () => {
+      const result = formatEmailForSlack(email);
+
+      expect(JSON.stringify(result.blocks)).not.toContain('*SPF:*');
+    });
+
+    it('should not show a warning for passed or inconclusive scans', () => {
+      const result = formatEmailForSlack({
+        ...email,
+        verdicts: { spam: 'GRAY', virus: 'PASS' },
+      });
+
+      expect(JSON.stringify(result.blocks)).not.toContain('Failed the');
+    });
+
+    describe('calendar events', () => {
+      const event: CalendarEvent = {
+        method: 'REQUEST',
+        summary: 'Kickoff <@U123>',
+        location: 'Room 4F',
+        start: new Date('2025-01-06T01:00:00Z'),
+        end: new Date('2025-01-06T02:00:00Z'),
+        allDay: false,
+        timezone: 'Asia/Tokyo',
+        organizer: { name: 'Taro', address: 'taro@example.com' },
+        attendees: [
+          { address: 'john@example.com', status: 'ACCEPTED' },
+          { address: 'hanako@example.com', status: 'NEEDS-ACTION' },
+        ],
+      };
+
+      function findEventBlock(blocks: unknown[]) {
+        return blocks.find((b) =>
+          (b as { text?: { text: string } }).text?.text?.startsWith(
+            ':calendar:',
+          ),
+        ) as { text: { text: string }; fields: { text: string }[] };
+      }
+
+      it('should render invitations as an event card', () => {
+        const result = formatEmailForSlack({
+          ...email,
+          calendarEvents: [event],
+        });
+
+        const block = findEventBlock(result.blocks);
+        expect(block.text.text).toBe(
+          ':calendar: *Invitation:* Kickoff &lt;@U123&gt;',
+        );
+        expect(block.fields.map((field) => field.text)).toEqual([
+          '*When:*\n<!date^1736125200^{date_short_pretty} {time}|2025-01-06 01:00 UTC> – <!date^1736128800^{time}|2025-01-06 02:00 UTC> (Asia/Tokyo)',
+          '*Where:*\nRoom 4F',
+          '*Organizer:*\nTaro &lt;taro@example.com&gt;',
+          '*Attendees:*\njohn@example.com (accepted)\nhanako@example.com',
+        ]);
+      });
+
+      it('should escape organizer and attendee names', () => {
+        const block = findEventBlock(
+          formatEmailForSlack({
+            ...email,
+            calendarEvents: [
+              {
+                ...event,
+                organizer: { name: '<!channel>', address: 'taro@example.com' },
+                attendees: [
+                  { name: '<@U123> & co', address: 'john@example.com' },
+                ],
+              },
+            ],
+          }).blocks,
+        );
+
+        expect(block.fields[2].text).toBe(
+          '*Organizer:*\n&lt;!channel&gt; &lt;taro@example.com&gt;',
+        );
+        expect(block.fields[3].text).toBe(
+          '*Attendees:*\n&lt;@U123&gt; &amp; co &lt;john@example.com&gt;',
+        );
+      });
+
+      it('should mark cancellations', () => {
+        const result = formatEmailForSlack({
+          ...email,
+          calendarEvents: [{ ...event, method: 'CANCEL' }],
+        });
+
+        expect(JSON.stringify(result.blocks)).toContain(
+          ':x: *Cancelled:* Kickoff',
+        );
+      });
+
+      it('should show all-day events as dates', () => {
+        const block = findEventBlock(
+          formatEmailForSlack({
+            ...email,
+            calendarEvents: [
+              {
+                ...event,
+                allDay: true,
+                timezone: undefined,
+                start: new Date('2025-01-06T00:00:00Z'),
+                end: new Date('2025-01-08T00:00:00Z'),
+              },
+            ],
+          }).blocks,
+        );
+
+        expect(block.fields[0].text).toBe(
+          '*When:*\nMon, Jan 6, 2025 – Tue, Jan 7, 2025 (all day)',
+        );
+      });
+
+      it('should shorten long attendee lists', () => {
+        const attendees = Array.from({ length: 12 }, (_, index) => ({
+          address: `user${index}@example.com`,
+        }));
+
+        const block = findEventBlock(
+          formatEmailForSlack({
+            ...email,
+            calendarEvents: [{ ...event, attendees }],
+          }).blocks,
+        );
+
+        expect(block.fields[3].text).toContain('user9@example.com\nand 2 more');
+        expect(block.fields[3].text).not.toContain('user10@example.com');
+      });
+    });
   });
 });
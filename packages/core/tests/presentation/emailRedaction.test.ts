@@ -0,0 +1,102 @@
+import type { KnownBlock } from '@slack/web-api';
+import { describe, expect, it } from 'vitest';
+import {
+  addRedactionNoticeToBlocks,
+  buildRedactionNoticeBlock,
+  formatRedactionSummary,
+  parseRedactionRules,
+  RedactionConfigError,
+} from '@/presentation/emailRedaction';
+
+describe('parseRedactionRules', () => {
+  it('should parse built-in and pattern rules', () => {
+    expect(
+      parseRedactionRules(
+        JSON.stringify([
+          { type: 'creditCard' },
+          { type: 'apiKey' },
+          { type: 'phone' },
+          { type: 'pattern', name: ' password ', pattern: 'password:\\s*\\S+' },
+        ]),
+      ),
+    ).toEqual([
+      { type: 'creditCard' },
+      { type: 'apiKey' },
+      { type: 'phone' },
+      { type: 'pattern', name: 'password', pattern: 'password:\\s*\\S+' },
+    ]);
+  });
+
+  it.each([
+    ['not json', 'Redaction rules must be valid JSON'],
+    ['{}', 'Redaction rules must be a JSON array'],
+    [
+      '[{"type":"ssn"}]',
+      'Invalid redaction rule at index 0: unknown type "ssn"',
+    ],
+    [
+      '[{"type":"pattern","pattern":"x+"}]',
+      'Invalid redaction rule at index 0: name is required for type "pattern"',
+    ],
+    [
+      '[{"type":"pattern","name":"x"}]',
+      'Invalid redaction rule at index 0: pattern is required for type "pattern"',
+    ],
+    [
+      '[{"type":"pattern","name":"x","pattern":"("}]',
+      'Invalid redaction rule at index 0: invalid pattern "("',
+    ],
+    [
+      '[{"type":"pattern","name":"x","pattern":"a*"}]',
+      'Invalid redaction rule at index 0: pattern must not match empty text',
+    ],
+  ])('should reject %s', (json, message) => {
+    expect(() => parseRedactionRules(json)).toThrow(RedactionConfigError);
+    expect(() => parseRedactionRules(json)).toThrow(message);
+  });
+});
+
+describe('redaction notice', () => {
+  const redactions = [
+    { label: 'card number', count: 2 },
+    { label: 'API key', count: 1 },
+  ];
+
+  it('should summarize the redactions', () => {
+    expect(formatRedactionSummary(redactions)).toBe(
+      'card number (2), API key (1)',
+    );
+  });
+
+  it('should offer View original with the storage key', () => {
+    expect(buildRedactionNoticeBlock(redactions, 'emails/abc')).toMatchObject({
+      block_id: 'email_redaction',
+      text: { text: ':lock: *Redacted:* card number (2), API key (1)' },
+      accessory: { action_id: 'view_redacted_email', value: 'emails/abc' },
+    });
+  });
+
+  it('should omit the button when the storage key is unknown', () => {
+    expect(buildRedactionNoticeBlock(redactions)).not.toHaveProperty(
+      'accessory',
+    );
+  });
+
+  it('should add the notice below the email body', () => {
+    const blocks: KnownBlock[] = [
+      { type: 'divider' },
+      {
+        type: 'section',
+        block_id: 'email_body',
+        text: { type: 'mrkdwn', text: 'body' },
+      },
+      { type: 'actions', block_id: 'email_actions', elements: [] },
+    ];
+
+    expect(
+      addRedactionNoticeToBlocks(blocks, redactions).map(
+        (block) => block.block_id,
+      ),
+    ).toEqual([undefined, 'email_body', 'email_redaction', 'email_actions']);
+  });
+});
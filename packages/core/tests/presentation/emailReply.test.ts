@@ -0,0 +1,280 @@
+import { describe, expect, it } from 'vitest';
+import type { Email } from '@/domain/entities';
+import { formatEmailForSlack } from '@/presentation/emailFormatter';
+import {
+  buildReplyModal,
+  buildReplySubject,
+  createReplyContext,
+  decodeReplyContext,
+  EmailReplyError,
+  encodeReplyContext,
+  extractPostedBodyText,
+  parseReplyDraftMetadata,
+  parseReplySubmission,
+  quoteEmailBody,
+  selectReplySender,
+} from '@/presentation/emailReply';
+
+describe('emailReply', () => {
+  const email: Email = {
+    messageId: 'original@client.example',
+    from: { name: 'Customer', address: 'customer@client.example' },
+    to: [{ address: 'support@example.com' }],
+    cc: [{ address: 'colleague@client.example' }],
+    subject: 'Question about my order',
+    body: { text: 'Where is my order?' },
+    date: new Date('2025-01-01T09:00:00Z'),
+    references: ['earlier@client.example'],
+  };
+
+  describe('createReplyContext', () => {
+    it('should reply to the sender', () => {
+      const context = createReplyContext(email);
+
+      expect(context).toEqual({
+        messageId: 'original@client.example',
+        replyTo: { name: 'Customer', address: 'customer@client.example' },
+        subject: 'Question about my order',
+        references: ['earlier@client.example'],
+        recipients: ['support@example.com', 'colleague@client.example'],
+        date: '2025-01-01T09:00:00.000Z',
+      });
+    });
+
+    it('should prefer Reply-To over From', () => {
+      const context = createReplyContext({
+        ...email,
+        replyTo: { address: 'orders@client.example' },
+      });
+
+      expect(context.replyTo).toEqual({ address: 'orders@client.example' });
+    });
+  });
+
+  describe('encodeReplyContext / decodeReplyContext', () => {
+    it('should round-trip the context', () => {
+      const context = createReplyContext(email);
+
+      expect(decodeReplyContext(encodeReplyContext(context))).toEqual(context);
+    });
+
+    it('should drop oldest references to fit the button value limit', () => {
+      const references = Array.from(
+        { length: 100 },
+        (_, i) => `reference-${i}@client.example`,
+      );
+      const context = createReplyContext({ ...email, references });
+
+      const value = encodeReplyContext(context);
+      const decoded = decodeReplyContext(value);
+
+      expect(value.length).toBeLessThanOrEqual(2000);
+      expect(decoded.references.at(-1)).toBe('reference-99@client.example');
+      expect(decoded.references.length).toBeLessThan(100);
+    });
+
+    it('should shorten an oversized display name to fit the button value limit', () => {
+      const context = createReplyContext({
+        ...email,
+        from: {
+          name: '"\u0001'.repeat(5000),
+          address: 'customer@client.example',
+        },
+        subject: '\u0001'.repeat(500),
+      });
+
+      const value = encodeReplyContext(context);
+      const decoded = decodeReplyContext(value);
+
+      expect(value.length).toBeLessThanOrEqual(2000);
+      expect(decoded.replyTo.address).toBe('customer@client.example');
+      expect(decoded.messageId).toBe('original@client.example');
+      expect(decoded.subject.length).toBeGreaterThan(0);
+    });
+
+    it('should reject malformed values', () => {
+      expect(() => decodeReplyContext('not json')).toThrow(EmailReplyError);
+      expect(() => decodeReplyContext('{}')).toThrow(
+        'Missing original email data in button action',
+      );
+    });
+  });
+
+  describe('buildReplySubject', () => {
+    it('should prefix the subject with Re:', () => {
+      expect(buildReplySubject('Hello')).toBe('Re: Hello');
+    });
+
+    it('should not add Re: twice', () => {
+      expect(buildReplySubject('RE: Hello')).toBe('RE: Hello');
+    });
+  });
+
+  describe('selectReplySender', () => {
+    it('should reply from the original recipient in our domain', () => {
+      const context = createReplyContext(email);
+
+      expect(selectReplySender(context, 'noreply@example.com')).toEqual({
+        address: 'support@example.com',
+      });
+    });
+
+    it('should fall back to the default sender', () => {
+      const context = createReplyContext({
+        ...email,
+        to: [{ address: 'someone@other.example' }],
+        cc: undefined,
+      });
+
+      expect(selectReplySender(context, 'noreply@example.com')).toEqual({
+        address: 'noreply@example.com',
+      });
+    });
+  });
+
+  describe('extractPostedBodyText', () => {
+    it('should read the body from a formatted post and unescape it', () => {
+      const { blocks } = formatEmailForSlack(email);
+      const posted = blocks.map((block) =>
+        block.block_id === 'email_body'
+          ? {
+              ...block,
+              text: { type: 'mrkdwn', text: 'a &lt;b&gt; &amp; c' },
+            }
+          : block,
+      );
+
+      expect(extractPostedBodyText(posted)).toBe('a <b> & c');
+    });
+
+    it('should strip the file attachment note from long bodies', () => {
+      const blocks = [
+        {
+          block_id: 'email_body',
+          text: { text: 'Preview...\n\n_Full email body attached as file._' },
+        },
+      ];
+
+      expect(extractPostedBodyText(blocks)).toBe('Preview...');
+    });
+
+    it('should strip the hidden quote note', () => {
+      const blocks = [
+        {
+          block_id: 'email_body',
+          text: {
+            text: 'Sounds good.\n\n_Quoted text hidden. See "Show full message" in the thread._',
+          },
+        },
+      ];
+
+      expect(extractPostedBodyText(blocks)).toBe('Sounds good.');
+    });
+
+    it('should turn mrkdwn links back into plain text', () => {
+      const blocks = [
+        {
+          block_id: 'email_body',
+          text: {
+            text: 'See <https://example.com/a?b=1&amp;c=2|the docs> or <https://example.com> or <mailto:help@example.com|help@example.com>',
+          },
+        },
+      ];
+
+      expect(extractPostedBodyText(blocks)).toBe(
+        'See the docs (https://example.com/a?b=1&c=2) or https://example.com or help@example.com (help@example.com)',
+      );
+    });
+
+    it('should return an empty string when there is no body block', () => {
+      expect(extractPostedBodyText(undefined)).toBe('');
+    });
+  });
+
+  describe('quoteEmailBody', () => {
+    it('should quote each line with an attribution', () => {
+      const context = createReplyContext(email);
+
+      expect(quoteEmailBody('Line 1\n\nLine 2', context)).toBe(
+        '\n\nOn Wed, 01 Jan 2025 09:00:00 GMT, Customer <customer@client.example> wrote:\n> Line 1\n>\n> Line 2',
+      );
+    });
+  });
+
+  describe('buildReplyModal', () => {
+    it('should prefill the modal and carry threading data', () => {
+      const context = createReplyContext(email);
+
+      const view = buildReplyModal({
+        context,
+        from: { address: 'support@example.com' },
+        quotedBody: '\n\n> Where is my order?',
+        channel: 'C123',
+        threadTs: '111.222',
+      });
+
+      expect(view.callback_id).toBe('reply_email_submit');
+      const metadata = parseReplyDraftMetadata(view.private_metadata ?? '');
+      expect(metadata).toEqual({
+        from: { address: 'support@example.com' },
+        inReplyTo: 'original@client.example',
+        references: ['earlier@client.example', 'original@client.example'],
+        channel: 'C123',
+        threadTs: '111.222',
+      });
+
+      const initialValues = Object.fromEntries(
+        view.blocks
+          .filter((block) => block.type === 'input')
+          .map((block) => [
+            block.block_id,
+            (block as { element: { initial_value?: string } }).element
+              .initial_value,
+          ]),
+      );
+      expect(initialValues).toEqual({
+        reply_to: 'Customer <customer@client.example>',
+        reply_subject: 'Re: Question about my order',
+        reply_body: '\n\n> Where is my order?',
+      });
+    });
+  });
+
+  describe('parseReplySubmission', () => {
+    const values = (to: string, subject: string, body: string) => ({
+      reply_to: { value: { value: to } },
+      reply_subject: { value: { value: subject } },
+      reply_body: { value: { value: body } },
+    });
+
+    it('should parse valid submissions', () => {
+      const result = parseReplySubmission(
+        values(
+          'Customer <customer@client.example>, other@client.example',
+          'Re: Hi',
+          'Thanks!',
+        ),
+      );
+
+      expect(result.submission).toEqual({
+        to: [
+          { name: 'Customer', address: 'customer@client.example' },
+          { address: 'other@client.example' },
+        ],
+        subject: 'Re: Hi',
+        body: 'Thanks!',
+      });
+    });
+
+    it('should return field errors for invalid submissions', () => {
+      const result = parseReplySubmission(values('not-an-address', '', ''));
+
+      expect(result.submission).toBeUndefined();
+      expect(result.errors).toEqual({
+        reply_to: 'Enter one or more valid email addresses',
+        reply_subject: 'Subject is required',
+        reply_body: 'Message is required',
+      });
+    });
+  });
+});
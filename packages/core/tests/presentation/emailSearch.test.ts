@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createEmailSearchDocument,
+  parseEmailSearchQuery,
+} from '@/domain/entities';
+import {
+  buildSearchSnippet,
+  formatSearchResults,
+  SEARCH_RESULT_LIMIT,
+} from '@/presentation/emailSearch';
+
+describe('emailSearch', () => {
+  describe('buildSearchSnippet', () => {
+    it('should show the start of short bodies', () => {
+      expect(buildSearchSnippet('Hello\n\nworld', ['refund'])).toBe(
+        'Hello world',
+      );
+    });
+
+    it('should show the text around the first match in long bodies', () => {
+      const body = `${'a '.repeat(200)}the refund was issued ${'b '.repeat(200)}`;
+
+      const snippet = buildSearchSnippet(body, ['refund']);
+
+      expect(snippet).toMatch(/^\.\.\.a a .*the refund was issued b .*\.\.\.$/);
+      expect(snippet.length).toBe(160 + 6);
+    });
+  });
+
+  describe('formatSearchResults', () => {
+    const document = createEmailSearchDocument(
+      {
+        messageId: 'a@client.example',
+        from: { address: 'alice@client.example' },
+        to: [{ address: 'support@example.com' }],
+        subject: 'Q1 <report>',
+        body: { text: 'Numbers attached' },
+        date: new Date('2026-03-15T09:00:00Z'),
+        attachments: [
+          { filename: 'q1.xlsx', contentType: 'application/xlsx', size: 1 },
+        ],
+      },
+      'C123',
+      '100.001',
+    );
+    const query = parseEmailSearchQuery('numbers');
+
+    it('should list results with sender, date, channel and attachments', () => {
+      const { blocks } = formatSearchResults(
+        'numbers',
+        query,
+        [document],
+        new Map([['a@client.example', 'https://slack.example/p1']]),
+      );
+
+      expect(blocks[1]).toEqual({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: [
+            '*<https://slack.example/p1|Q1 &lt;report&gt;>*',
+            'From: alice@client.example · 2026-03-15 · <#C123>',
+            ':paperclip: q1.xlsx',
+            '>Numbers attached',
+          ].join('\n'),
+        },
+      });
+    });
+
+    it('should hint at refining the search when the limit is reached', () => {
+      const { blocks } = formatSearchResults(
+        'numbers',
+        query,
+        Array.from({ length: SEARCH_RESULT_LIMIT }, () => document),
+        new Map(),
+      );
+
+      expect(JSON.stringify(blocks[0])).toContain(
+        `${SEARCH_RESULT_LIMIT} emails found for \`numbers\` (newest first; refine the search to find older ones)`,
+      );
+    });
+  });
+});
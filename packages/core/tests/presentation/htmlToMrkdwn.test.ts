@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { convertHtmlToMrkdwn, escapeMrkdwn } from '@/presentation/htmlToMrkdwn';
+
+describe('convertHtmlToMrkdwn', () => {
+  describe('links', () => {
+    it('should keep links as <url|label>', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<p>See <a href="https://example.com/a?b=1&amp;c=2">our <b>site</b></a>.</p>',
+        ),
+      ).toBe('See <https://example.com/a?b=1&c=2|our site>.');
+    });
+
+    it('should show bare links when the label is the URL', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<a href="https://example.com">https://example.com</a>',
+        ),
+      ).toBe('<https://example.com>');
+    });
+
+    it('should label mailto links with the address', () => {
+      expect(
+        convertHtmlToMrkdwn('<a href="mailto:help@example.com"></a>'),
+      ).toBe('<mailto:help@example.com|help@example.com>');
+    });
+
+    it('should keep only the label of unsupported links', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<a href="javascript:alert(1)">Click</a> <a href="#top">Top</a> <a href="/relative">Page</a>',
+        ),
+      ).toBe('Click Top Page');
+    });
+
+    it('should not let labels or URLs break out of the link', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<a href="https://example.com/?q=a|b>c">a | b &lt;@U123&gt;</a>',
+        ),
+      ).toBe('<https://example.com/?q=a%7Cb%3Ec|a ¦ b &lt;@U123&gt;>');
+    });
+  });
+
+  describe('inline formatting', () => {
+    it('should convert bold, italic, strikethrough and code', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<p><b>bold</b> <strong>strong</strong> <i>italic</i> <em>em</em> <del>gone</del> <code>x = 1</code></p>',
+        ),
+      ).toBe('*bold* *strong* _italic_ _em_ ~gone~ `x = 1`');
+    });
+
+    it('should keep whitespace outside the markers', () => {
+      expect(
+        convertHtmlToMrkdwn('<p>Hello <b>bold </b>and<i> italic</i>!</p>'),
+      ).toBe('Hello *bold* and _italic_!');
+    });
+
+    it('should nest formatting', () => {
+      expect(convertHtmlToMrkdwn('<b>very <i>important</i></b>')).toBe(
+        '*very _important_*',
+      );
+    });
+
+    it('should drop markers around empty elements', () => {
+      expect(convertHtmlToMrkdwn('<p><b></b>a<i> </i>b</p>')).toBe('a b');
+    });
+  });
+
+  describe('blocks', () => {
+    it('should render headings as bold lines', () => {
+      expect(
+        convertHtmlToMrkdwn('<h1>Invoice</h1><p>Thanks.</p><h2>Items</h2>'),
+      ).toBe('*Invoice*\n\nThanks.\n\n*Items*');
+    });
+
+    it('should render lists', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul><ol><li>First</li><li>Second</li></ol>',
+        ),
+      ).toBe('• One\n• Two\n  • Nested\n\n 1. First\n 2. Second');
+    });
+
+    it('should render blockquotes and preformatted text', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<blockquote>quoted</blockquote><pre>a &lt; b\n  indented</pre>',
+        ),
+      ).toBe('> quoted\n\n```\na &lt; b\n  indented\n```');
+    });
+
+    it('should skip images', () => {
+      expect(
+        convertHtmlToMrkdwn('<p>Logo: <img src="logo.png" alt="Logo"></p>'),
+      ).toBe('Logo:');
+    });
+  });
+
+  describe('tables', () => {
+    it('should render simple tables row by row', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<table><tr><th>Item</th><th>Price</th></tr><tr><td>Widget</td><td>$5</td></tr><tr><td></td><td>Total: $5</td></tr></table>',
+        ),
+      ).toBe('*Item* | *Price*\nWidget | $5\nTotal: $5');
+    });
+
+    it('should render layout tables as blocks', () => {
+      expect(
+        convertHtmlToMrkdwn(
+          '<table><tr><td><p>Newsletter</p></td><td><div>Sidebar</div></td></tr></table>',
+        ),
+      ).toBe('Newsletter\n\nSidebar');
+    });
+  });
+
+  it('should escape text so it cannot inject mentions', () => {
+    expect(
+      convertHtmlToMrkdwn('<p>&lt;!channel&gt; &amp; &lt;@U123&gt;</p>'),
+    ).toBe('&lt;!channel&gt; &amp; &lt;@U123&gt;');
+  });
+
+  it('should fall back to text content for unsupported markup', () => {
+    expect(
+      convertHtmlToMrkdwn(
+        '<custom-tag>Custom</custom-tag> <span style="color:red">span</span> <font>font</font>',
+      ),
+    ).toBe('Custom span font');
+  });
+});
+
+describe('escapeMrkdwn', () => {
+  it('should escape &, < and >', () => {
+    expect(escapeMrkdwn('a < b && c > d')).toBe('a &lt; b &amp;&amp; c &gt; d');
+  });
+});
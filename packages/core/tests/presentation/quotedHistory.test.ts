@@ -0,0 +1,189 @@
+import { describe, expect, it } from 'vitest';
+import { stripQuotedHistory } from '@/presentation/quotedHistory';
+
+describe('stripQuotedHistory', () => {
+  describe('quoted history', () => {
+    it('should strip Gmail-style "On ... wrote:" quotes', () => {
+      const text = [
+        'Sounds good, see you then.',
+        '',
+        'On Mon, Jan 6, 2025 at 10:00 AM Taro <taro@example.com> wrote:',
+        '> Can we meet on Tuesday?',
+        '>',
+        '> > Earlier message',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text)).toEqual({
+        content: 'Sounds good, see you then.',
+        stripped: true,
+      });
+    });
+
+    it('should handle attributions wrapped over two lines', () => {
+      const text = [
+        'Thanks!',
+        '',
+        'On Mon, Jan 6, 2025 at 10:00 AM Taro Yamada <taro.yamada@example.com>',
+        'wrote:',
+        '',
+        '> Hello',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Thanks!');
+    });
+
+    it('should strip quotes converted from HTML (escaped attribution)', () => {
+      const text = [
+        'Confirmed.',
+        '',
+        'On Mon, Jan 6, 2025 at 10:00 AM Taro &lt;<mailto:taro@example.com|taro@example.com>&gt; wrote:',
+        '',
+        '> Please confirm.',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Confirmed.');
+    });
+
+    it('should strip Outlook "Original Message" history', () => {
+      const text = [
+        'Please see below.',
+        '',
+        '-----Original Message-----',
+        'From: Taro <taro@example.com>',
+        'Sent: Monday, January 6, 2025 10:00 AM',
+        'Subject: Question',
+        '',
+        'Unprefixed quoted text',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Please see below.');
+    });
+
+    it('should strip Outlook history below an underscore rule', () => {
+      const text = [
+        'Approved.',
+        '',
+        '________________________________',
+        'From: Taro <taro@example.com>',
+        'Sent: Monday, January 6, 2025 10:00 AM',
+        'To: Hanako <hanako@example.com>',
+        '',
+        'Request',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Approved.');
+    });
+
+    it('should strip Japanese Outlook headers', () => {
+      const text = [
+        '承知しました。',
+        '',
+        '差出人: 山田太郎 <taro@example.com>',
+        '送信日時: 2025年1月6日 10:00',
+        '宛先: 佐藤花子 <hanako@example.com>',
+        '件名: 打ち合わせ',
+        '',
+        'よろしくお願いします。',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('承知しました。');
+    });
+
+    it.each([
+      '2025年1月6日(月) 10:00 山田太郎 <taro@example.com>:',
+      '2025/01/06 10:00、山田太郎 <taro@example.com>のメール:',
+      '山田太郎 さんは書きました:',
+    ])('should strip quotes under the Japanese attribution "%s"', (attribution) => {
+      const text = [
+        '了解です。',
+        '',
+        attribution,
+        '',
+        '> 明日は来られますか？',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('了解です。');
+    });
+
+    it('should strip a trailing quote block with an unknown attribution', () => {
+      const text = ['Yes.', '', 'Taro wrote:', '> Ready?'].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Yes.');
+    });
+
+    it('should keep inline replies', () => {
+      const text = [
+        'On Mon, Jan 6, 2025 at 10:00 AM Taro <taro@example.com> wrote:',
+        '> Can you make it on Tuesday?',
+        'Yes.',
+        '> And bring the slides?',
+        'Sure.',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text)).toEqual({
+        content: text,
+        stripped: false,
+      });
+    });
+  });
+
+  describe('signatures', () => {
+    it('should strip a signature after the "-- " delimiter', () => {
+      const text = ['See you.', '', '-- ', 'Taro Yamada', 'Example Inc.'].join(
+        '\n',
+      );
+
+      expect(stripQuotedHistory(text)).toEqual({
+        content: 'See you.',
+        stripped: true,
+      });
+    });
+
+    it('should not treat a delimiter far from the end as a signature', () => {
+      const text = ['Intro', '--', ...Array(20).fill('content')].join('\n');
+
+      expect(stripQuotedHistory(text).stripped).toBe(false);
+    });
+
+    it.each([
+      'Sent from my iPhone',
+      'Get Outlook for Android',
+      'iPhoneから送信',
+    ])('should strip the mobile signature "%s"', (signature) => {
+      const text = `On my way.\n\n${signature}`;
+
+      expect(stripQuotedHistory(text).content).toBe('On my way.');
+    });
+
+    it('should strip the signature above quoted history', () => {
+      const text = [
+        'Thanks!',
+        '--',
+        'Taro',
+        '',
+        'On Mon, Jan 6, 2025 at 10:00 AM Hanako <hanako@example.com> wrote:',
+        '> Done.',
+      ].join('\n');
+
+      expect(stripQuotedHistory(text).content).toBe('Thanks!');
+    });
+  });
+
+  it('should leave bodies without quotes or signatures unchanged', () => {
+    const text = 'Hello,\n\nJust a normal message: nothing quoted.';
+
+    expect(stripQuotedHistory(text)).toEqual({
+      content: text,
+      stripped: false,
+    });
+  });
+
+  it('should keep the body when everything is quoted', () => {
+    const text = '> Forwarded\n> text';
+
+    expect(stripQuotedHistory(text)).toEqual({
+      content: text,
+      stripped: false,
+    });
+  });
+});
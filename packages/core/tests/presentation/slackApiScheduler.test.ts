@@ -0,0 +1,194 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  getSlackRetryAfterMs,
+  SlackApiScheduler,
+} from '@/presentation/slackApiScheduler';
+
+const rateLimited = (retryAfter?: number) =>
+  Object.assign(new Error('A rate-limit has been reached'), {
+    code: 'slack_webapi_rate_limited_error',
+    retryAfter,
+  });
+
+describe('SlackApiScheduler', () => {
+  let log: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run a burst right away, then throttle to the method rate', async () => {
+    const scheduler = new SlackApiScheduler({
+      limits: { 'chat.postMessage': { perMinute: 60, burst: 2 } },
+    });
+    const request = vi.fn().mockResolvedValue({ ok: true });
+
+    const calls = [1, 2, 3].map(() =>
+      scheduler.call('chat.postMessage', request),
+    );
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(3);
+    await Promise.all(calls);
+
+    expect(log).toHaveBeenCalledWith('Slack API call delayed:', {
+      method: 'chat.postMessage',
+      delayMs: 1000,
+      queuedBehind: 2,
+    });
+  });
+
+  it('should throttle each method separately', async () => {
+    const scheduler = new SlackApiScheduler({
+      limits: {
+        'chat.postMessage': { perMinute: 1, burst: 1 },
+        'files.uploadV2': { perMinute: 1, burst: 1 },
+      },
+    });
+    const request = vi.fn().mockResolvedValue({ ok: true });
+
+    await scheduler.call('chat.postMessage', request);
+    await scheduler.call('files.uploadV2', request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pause the method for Retry-After and retry', async () => {
+    const scheduler = new SlackApiScheduler();
+    const first = vi
+      .fn()
+      .mockRejectedValueOnce(rateLimited(5))
+      .mockResolvedValue({ ok: true, ts: '1' });
+    const second = vi.fn().mockResolvedValue({ ok: true, ts: '2' });
+
+    const calls = Promise.all([
+      scheduler.call('chat.postMessage', first),
+      (async () => {
+        // Queued while the method is paused
+        await vi.advanceTimersByTimeAsync(10);
+        return scheduler.call('chat.postMessage', second);
+      })(),
+    ]);
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(first).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(await calls).toEqual([
+      { ok: true, ts: '1' },
+      { ok: true, ts: '2' },
+    ]);
+    expect(console.warn).toHaveBeenCalledWith(
+      'Slack API rate limited, pausing method:',
+      { method: 'chat.postMessage', retryAfterMs: 5000, attempt: 1 },
+    );
+  });
+
+  it('should not retry other errors', async () => {
+    const scheduler = new SlackApiScheduler();
+    const error = Object.assign(new Error('channel_not_found'), {
+      code: 'slack_webapi_platform_error',
+      data: { error: 'channel_not_found' },
+    });
+    const request = vi.fn().mockRejectedValue(error);
+
+    await expect(scheduler.call('chat.postMessage', request)).rejects.toBe(
+      error,
+    );
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up when Retry-After is too long or retries run out', async () => {
+    const scheduler = new SlackApiScheduler({
+      maxRateLimitRetries: 1,
+      maxRetryAfterMs: 10_000,
+    });
+
+    const tooLong = vi.fn().mockRejectedValue(rateLimited(30));
+    await expect(scheduler.call('chat.update', tooLong)).rejects.toMatchObject({
+      retryAfter: 30,
+    });
+    expect(tooLong).toHaveBeenCalledTimes(1);
+
+    const limited = vi.fn().mockRejectedValue(rateLimited(1));
+    const call = expect(
+      scheduler.call('chat.postMessage', limited),
+    ).rejects.toMatchObject({ code: 'slack_webapi_rate_limited_error' });
+    await vi.advanceTimersByTimeAsync(1000);
+    await call;
+    expect(limited).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the Retry-After waits add up to too long', async () => {
+    const scheduler = new SlackApiScheduler({ maxRetryAfterMs: 10_000 });
+
+    const request = vi.fn().mockRejectedValue(rateLimited(6));
+    const call = expect(
+      scheduler.call('chat.postMessage', request),
+    ).rejects.toMatchObject({ retryAfter: 6 });
+    await vi.advanceTimersByTimeAsync(6000);
+    await call;
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not wait longer than a Lambda timeout by default', async () => {
+    const scheduler = new SlackApiScheduler();
+
+    const request = vi.fn().mockRejectedValue(rateLimited(30));
+    await expect(
+      scheduler.call('chat.postMessage', request),
+    ).rejects.toMatchObject({ retryAfter: 30 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject invalid limits', () => {
+    expect(
+      () =>
+        new SlackApiScheduler({
+          limits: { 'chat.postMessage': { perMinute: 0, burst: 1 } },
+        }),
+    ).toThrow('Invalid Slack rate limit for chat.postMessage');
+  });
+});
+
+describe('getSlackRetryAfterMs', () => {
+  it('should read Retry-After from rate-limited errors', () => {
+    expect(getSlackRetryAfterMs(rateLimited(3))).toBe(3000);
+    expect(
+      getSlackRetryAfterMs({
+        code: 'slack_webapi_platform_error',
+        data: { error: 'ratelimited', response_metadata: { retryAfter: 2 } },
+      }),
+    ).toBe(2000);
+    expect(
+      getSlackRetryAfterMs({
+        code: 'slack_webapi_platform_error',
+        data: { error: 'ratelimited' },
+      }),
+    ).toBe(1000);
+  });
+
+  it('should ignore other errors', () => {
+    expect(
+      getSlackRetryAfterMs({
+        code: 'slack_webapi_platform_error',
+        data: { error: 'not_in_channel' },
+      }),
+    ).toBeUndefined();
+    expect(getSlackRetryAfterMs(new Error('boom'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,198 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import {
+  createEmailReceivedHandler,
+  postEmailToSlack,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for forwarding inbound email attachments to the Slack thread
+ *
+ * Strategy:
+ * - Post the main message first, then upload each attachment with thread_ts
+ * - Inline parts (e.g., logos embedded in HTML) are not uploaded
+ * - A failed upload does not stop the remaining uploads; the message is
+ *   updated once with the failed filenames and each failure is noted in the
+ *   thread. The post still succeeds, so the email is not posted again.
+ */
+
+describe('Slack Upload for Email Attachments', () => {
+  let mockApp: App;
+  let testEmail: Email;
+
+  beforeEach(() => {
+    mockApp = {
+      client: {
+        chat: {
+          postMessage: vi.fn().mockResolvedValue({ ok: true, ts: '12345.67' }),
+          update: vi.fn().mockResolvedValue({ ok: true }),
+        },
+        files: {
+          uploadV2: vi.fn().mockResolvedValue({ ok: true }),
+        },
+      },
+    } as unknown as App;
+
+    testEmail = {
+      messageId: 'test-123@example.com',
+      from: { address: 'sender@example.com', name: 'Sender' },
+      to: [{ address: 'recipient@example.com', name: 'Recipient' }],
+      subject: 'Invoice',
+      body: {
+        text: 'Please find the invoice attached.',
+      },
+      date: new Date('2025-01-01T00:00:00Z'),
+      attachments: [
+        {
+          filename: 'invoice.pdf',
+          contentType: 'application/pdf',
+          size: 4,
+          content: Buffer.from('%PDF'),
+        },
+        {
+          filename: 'photo.png',
+          contentType: 'image/png',
+          size: 3,
+          content: Buffer.from([0x89, 0x50, 0x4e]),
+        },
+      ],
+    };
+  });
+
+  test('should upload each attachment as a threaded reply', async () => {
+    await postEmailToSlack(mockApp, 'C12345', testEmail);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledOnce();
+    expect(mockApp.client.files.uploadV2).toHaveBeenCalledTimes(2);
+    expect(mockApp.client.files.uploadV2).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel_id: 'C12345',
+        file: Buffer.from('%PDF'),
+        filename: 'invoice.pdf',
+        thread_ts: '12345.67',
+      }),
+    );
+    expect(mockApp.client.files.uploadV2).toHaveBeenCalledWith(
+      expect.objectContaining({
+        filename: 'photo.png',
+        thread_ts: '12345.67',
+      }),
+    );
+    expect(mockApp.client.chat.update).not.toHaveBeenCalled();
+  });
+
+  test('should skip inline attachments', async () => {
+    const emailWithInline: Email = {
+      ...testEmail,
+      attachments: [
+        {
+          filename: 'logo.png',
+          contentType: 'image/png',
+          size: 3,
+          content: Buffer.from([0x89, 0x50, 0x4e]),
+          contentId: 'logo@example.com',
+          inline: true,
+        },
+      ],
+    };
+
+    await postEmailToSlack(mockApp, 'C12345', emailWithInline);
+
+    expect(mockApp.client.files.uploadV2).not.toHaveBeenCalled();
+  });
+
+  test('should continue uploading after a failure and report failed files', async () => {
+    (mockApp.client.files.uploadV2 as ReturnType<typeof vi.fn>)
+      .mockRejectedValueOnce(new Error('file too large'))
+      .mockResolvedValueOnce({ ok: true });
+
+    const ts = await postEmailToSlack(mockApp, 'C12345', testEmail);
+
+    expect(ts).toBe('12345.67');
+    expect(mockApp.client.files.uploadV2).toHaveBeenCalledTimes(2);
+
+    expect(mockApp.client.chat.update).toHaveBeenCalledOnce();
+    expect(mockApp.client.chat.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'C12345',
+        ts: '12345.67',
+        text: expect.stringContaining('1 attachment(s) failed to upload'),
+        blocks: expect.arrayContaining([
+          expect.objectContaining({
+            type: 'context',
+            elements: [
+              expect.objectContaining({
+                text: ':warning: *Attachment failed to upload:* `invoice.pdf`',
+              }),
+            ],
+          }),
+        ]),
+      }),
+    );
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledTimes(2);
+    expect(mockApp.client.chat.postMessage).toHaveBeenLastCalledWith({
+      channel: 'C12345',
+      thread_ts: '12345.67',
+      text: ':warning: Failed to upload `invoice.pdf`: file too large',
+    });
+  });
+
+  test('should not post the email again when an upload fails', async () => {
+    (
+      mockApp.client.files.uploadV2 as ReturnType<typeof vi.fn>
+    ).mockRejectedValue(new Error('file too large'));
+    const onFailure = vi.fn();
+    const handler = createEmailReceivedHandler(mockApp, 'C12345', {
+      initialBackoffMs: 0,
+      onFailure,
+    });
+
+    await expect(handler(testEmail)).resolves.toEqual({
+      channel: 'C12345',
+      messageTs: '12345.67',
+    });
+
+    const posts = (
+      mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>
+    ).mock.calls.filter(([args]) => !args.thread_ts);
+    expect(posts).toHaveLength(1);
+    expect(onFailure).not.toHaveBeenCalled();
+  });
+
+  test('should not fail the post when reporting the failure fails', async () => {
+    (
+      mockApp.client.files.uploadV2 as ReturnType<typeof vi.fn>
+    ).mockRejectedValue(new Error('file too large'));
+    (mockApp.client.chat.update as ReturnType<typeof vi.fn>).mockRejectedValue(
+      new Error('message_not_found'),
+    );
+
+    await expect(postEmailToSlack(mockApp, 'C12345', testEmail)).resolves.toBe(
+      '12345.67',
+    );
+  });
+
+  test('should report attachments without content', async () => {
+    const emailWithoutContent: Email = {
+      ...testEmail,
+      attachments: [
+        {
+          filename: 'archive.zip',
+          contentType: 'application/zip',
+          size: 1024,
+        },
+      ],
+    };
+
+    await postEmailToSlack(mockApp, 'C12345', emailWithoutContent);
+
+    expect(mockApp.client.files.uploadV2).not.toHaveBeenCalled();
+    expect(mockApp.client.chat.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        thread_ts: '12345.67',
+        text: ':warning: Failed to upload `archive.zip`: Attachment content is not available',
+      }),
+    );
+  });
+});
@@ -0,0 +1,259 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { ReplayFailedEmailsUseCase } from '@/application/usecases/replayFailedEmailsUseCase';
+import type { Email } from '@/domain/entities';
+import { InMemoryDeadLetterRepository } from '@/infrastructure';
+import {
+  createDeadLetterHandler,
+  createEmailReceivedHandler,
+  registerDeadLetterListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for the dead-letter store of failed deliveries
+ *
+ * - createDeadLetterHandler stores FailedEmailRecord with its storage key
+ * - /mail-replay lists and replays records (admins only)
+ * - Multi-workspace apps see only the records of their workspace's channels
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Dead-letter Store', () => {
+  let deadLetters: InMemoryDeadLetterRepository;
+
+  const testEmail: Email = {
+    messageId: 'test-123@example.com',
+    from: { address: 'sender@example.com' },
+    to: [{ address: 'support@example.com' }],
+    subject: 'Hello',
+    body: { text: 'Hello' },
+    date: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    deadLetters = new InMemoryDeadLetterRepository();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('should store emails that exhausted their retries with the storage key', async () => {
+    const app = {
+      client: {
+        chat: {
+          postMessage: vi
+            .fn()
+            .mockResolvedValue({ ok: false, error: 'channel_not_found' }),
+        },
+      },
+    } as unknown as App;
+    const handler = createEmailReceivedHandler(app, 'C123', {
+      onFailure: createDeadLetterHandler(deadLetters),
+    });
+
+    await expect(
+      handler(testEmail, { storageKey: 'emails/abc' }),
+    ).rejects.toThrow();
+
+    const records = await deadLetters.list();
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      storageKey: 'emails/abc',
+      messageId: 'test-123@example.com',
+      channel: 'C123',
+      errorCode: 'channel_not_found',
+      attempts: 1,
+    });
+  });
+
+  test('should not throw when the dead-letter store fails', async () => {
+    const handler = createDeadLetterHandler({
+      ...deadLetters,
+      save: vi.fn().mockRejectedValue(new Error('S3 down')),
+      list: vi.fn(),
+      find: vi.fn(),
+      remove: vi.fn(),
+    });
+
+    await expect(
+      handler({
+        email: testEmail,
+        channel: 'C123',
+        error: 'Channel not found',
+        timestamp: new Date(),
+        attempts: 1,
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  describe('/mail-replay', () => {
+    let commands: Record<string, Handler>;
+    let respond: ReturnType<typeof vi.fn>;
+    let mockExecute: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      commands = {};
+      respond = vi.fn().mockResolvedValue(undefined);
+      mockExecute = vi.fn().mockResolvedValue({
+        results: [{ id: 'abc', status: 'replayed' }],
+      });
+      const app = {
+        command: vi.fn((name: string, handler: Handler) => {
+          commands[name] = handler;
+        }),
+      } as unknown as App;
+
+      registerDeadLetterListeners(app, {
+        deadLetters,
+        replayUseCase: {
+          execute: mockExecute,
+        } as unknown as ReplayFailedEmailsUseCase,
+        adminUserIds: ['U_ADMIN'],
+      });
+    });
+
+    const run = (text: string, userId = 'U_ADMIN') =>
+      commands['/mail-replay']({
+        ack: vi.fn(),
+        respond,
+        command: { text, user_id: userId },
+      });
+
+    test('should reject non-admin users', async () => {
+      await run('all', 'U_OTHER');
+
+      expect(mockExecute).not.toHaveBeenCalled();
+      expect(respond).toHaveBeenCalledWith({
+        response_type: 'ephemeral',
+        text: ':no_entry: Only admins can use `/mail-replay`.',
+      });
+    });
+
+    test('should list stored records', async () => {
+      await run('');
+
+      expect(respond).toHaveBeenCalledWith({
+        response_type: 'ephemeral',
+        text: ':white_check_mark: No failed emails.',
+      });
+    });
+
+    test('should replay the given records', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await run('abc');
+
+      expect(mockExecute).toHaveBeenCalledWith({ ids: ['abc'] });
+      expect(respond).toHaveBeenCalledWith({
+        response_type: 'ephemeral',
+        text: '• `abc` :white_check_mark: replayed',
+      });
+    });
+
+    test('should replay a bounded batch and report how many remain', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      for (let i = 0; i < 12; i++) {
+        await createDeadLetterHandler(deadLetters)({
+          email: { ...testEmail, messageId: `test-${i}@example.com` },
+          storageKey: `emails/${i}`,
+          channel: 'C123',
+          error: 'Channel not found',
+          timestamp: new Date(),
+          attempts: 1,
+        });
+      }
+
+      await run('all');
+
+      expect(mockExecute.mock.calls[0][0].ids).toHaveLength(10);
+      expect(respond.mock.calls[0][0].text).toContain(
+        '_2 more not replayed yet (10 per command); continue with `/mail-replay all`._',
+      );
+    });
+  });
+
+  describe('/mail-replay in multi-workspace apps', () => {
+    let commands: Record<string, Handler>;
+    let respond: ReturnType<typeof vi.fn>;
+    let mockExecute: ReturnType<typeof vi.fn>;
+
+    const record = (id: string, channel: string) => ({
+      id,
+      storageKey: `emails/${id}`,
+      messageId: `${id}@example.com`,
+      from: 'sender@example.com',
+      subject: `Subject ${id}`,
+      channel,
+      error: 'channel_not_found',
+      errorCode: 'channel_not_found',
+      attempts: 1,
+      failedAt: new Date('2025-01-01T00:00:00Z'),
+    });
+
+    beforeEach(async () => {
+      commands = {};
+      respond = vi.fn().mockResolvedValue(undefined);
+      mockExecute = vi.fn().mockResolvedValue({
+        results: [{ id: 'own', status: 'replayed' }],
+      });
+      await deadLetters.save(record('own', 'C_T1'));
+      await deadLetters.save(record('other', 'C_T2'));
+      const app = {
+        command: vi.fn((name: string, handler: Handler) => {
+          commands[name] = handler;
+        }),
+      } as unknown as App;
+
+      registerDeadLetterListeners(app, {
+        deadLetters,
+        replayUseCase: {
+          execute: mockExecute,
+        } as unknown as ReplayFailedEmailsUseCase,
+        resolveScope: async (query) =>
+          query.teamId === 'T1'
+            ? { adminUserIds: ['U_T1_ADMIN'], channels: ['C_T1'] }
+            : { adminUserIds: [] },
+      });
+    });
+
+    const run = (text: string, userId = 'U_T1_ADMIN') =>
+      commands['/mail-replay']({
+        ack: vi.fn(),
+        respond,
+        command: { text, user_id: userId },
+        context: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+
+    test('should use the admins of the workspace', async () => {
+      await run('all', 'U_ADMIN');
+
+      expect(mockExecute).not.toHaveBeenCalled();
+      expect(respond).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining(':no_entry:'),
+        }),
+      );
+    });
+
+    test('should list only the records of the workspace', async () => {
+      await run('');
+
+      const { text } = respond.mock.calls[0][0];
+      expect(text).toContain('Subject own');
+      expect(text).not.toContain('Subject other');
+    });
+
+    test('should not replay records of other workspaces', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await run('all');
+      expect(mockExecute).toHaveBeenLastCalledWith({ ids: ['own'] });
+
+      await run('own other');
+      expect(mockExecute).toHaveBeenLastCalledWith({ ids: ['own'] });
+      expect(respond).toHaveBeenLastCalledWith({
+        response_type: 'ephemeral',
+        text: '• `own` :white_check_mark: replayed\n• `other` :grey_question: not found',
+      });
+    });
+  });
+});
@@ -0,0 +1,268 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import type { EmailParser } from '@/domain/entities/emailParser';
+import type { StorageRepository } from '@/domain/repositories';
+import {
+  InMemoryDigestBufferRepository,
+  InMemorySearchIndexRepository,
+} from '@/infrastructure';
+import {
+  createDigestEntry,
+  parseDigestRules,
+} from '@/presentation/emailDigest';
+import {
+  createDigestPublisher,
+  createEmailReceivedHandler,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for digest mode
+ *
+ * - Emails matching a digest rule are buffered instead of posted
+ * - The publisher posts one digest per channel, the full emails in its
+ *   thread, and links each email from the digest
+ * - Emails that cannot be read or posted stay buffered
+ */
+
+describe('Email Digest', () => {
+  let buffer: InMemoryDigestBufferRepository;
+  const rules = parseDigestRules(
+    JSON.stringify([{ match: { type: 'bulk' }, schedule: 'daily' }]),
+  );
+  const newsletter: Email = {
+    messageId: 'weekly@news.example',
+    from: { address: 'digest@news.example' },
+    to: [{ address: 'team@example.com' }],
+    subject: 'Weekly news',
+    body: { text: 'This week...' },
+    date: new Date('2026-01-01T00:00:00Z'),
+    headers: { 'list-id': ['<weekly.news.example>'] },
+  };
+
+  beforeEach(() => {
+    buffer = new InMemoryDigestBufferRepository();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('buffering', () => {
+    let postMessage: ReturnType<typeof vi.fn>;
+    let mockApp: App;
+
+    beforeEach(() => {
+      postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '100.001' });
+      mockApp = { client: { chat: { postMessage } } } as unknown as App;
+    });
+
+    test('should buffer matching emails instead of posting them', async () => {
+      const handler = createEmailReceivedHandler(mockApp, 'C123', {
+        digest: { rules, buffer },
+      });
+
+      await expect(
+        handler(newsletter, { storageKey: 'emails/weekly' }),
+      ).resolves.toBeUndefined();
+
+      expect(postMessage).not.toHaveBeenCalled();
+      expect(await buffer.listDigest('daily')).toEqual([
+        expect.objectContaining({
+          storageKey: 'emails/weekly',
+          subject: 'Weekly news',
+          channel: 'C123',
+        }),
+      ]);
+    });
+
+    test('should post other emails right away', async () => {
+      const handler = createEmailReceivedHandler(mockApp, 'C123', {
+        digest: { rules, buffer },
+      });
+
+      await handler(
+        { ...newsletter, headers: {} },
+        { storageKey: 'emails/personal' },
+      );
+
+      expect(postMessage).toHaveBeenCalledOnce();
+      expect(await buffer.listDigest('daily')).toEqual([]);
+    });
+
+    test('should post right away when the email cannot be re-read later', async () => {
+      const handler = createEmailReceivedHandler(mockApp, 'C123', {
+        digest: { rules, buffer },
+      });
+
+      await handler(newsletter);
+
+      expect(postMessage).toHaveBeenCalledOnce();
+    });
+
+    test('should post right away when buffering fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(buffer, 'addToDigest').mockRejectedValue(new Error('S3 down'));
+      const handler = createEmailReceivedHandler(mockApp, 'C123', {
+        digest: { rules, buffer },
+      });
+
+      await handler(newsletter, { storageKey: 'emails/weekly' });
+
+      expect(postMessage).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('publishing', () => {
+    let postMessage: ReturnType<typeof vi.fn>;
+    let update: ReturnType<typeof vi.fn>;
+    let mockApp: App;
+    let storageRepository: StorageRepository;
+    let emailParser: EmailParser;
+    const emails = new Map<string, Email>([
+      ['emails/a', { ...newsletter, messageId: 'a@news.example' }],
+      [
+        'emails/b',
+        { ...newsletter, messageId: 'b@news.example', subject: 'Release' },
+      ],
+    ]);
+
+    beforeEach(async () => {
+      let ts = 0;
+      postMessage = vi.fn(async () => ({ ok: true, ts: `200.00${++ts}` }));
+      update = vi.fn().mockResolvedValue({ ok: true });
+      mockApp = {
+        client: {
+          chat: {
+            postMessage,
+            update,
+            getPermalink: vi.fn(async ({ message_ts }) => ({
+              ok: true,
+              permalink: `https://slack.example/p${message_ts}`,
+            })),
+          },
+        },
+      } as unknown as App;
+      storageRepository = {
+        fetchRawEmail: vi.fn(async (key: string) => Buffer.from(key)),
+      };
+      emailParser = {
+        parse: vi.fn(async (raw: Buffer) => {
+          const email = emails.get(raw.toString());
+          if (!email) {
+            throw new Error('No such email');
+          }
+          return email;
+        }),
+      };
+      for (const [key, email] of emails) {
+        await buffer.addToDigest(
+          createDigestEntry(email, key, 'C123', 'daily'),
+        );
+      }
+    });
+
+    test('should post a digest with the full emails in its thread', async () => {
+      const searchIndex = new InMemorySearchIndexRepository();
+      const publish = createDigestPublisher(mockApp, {
+        buffer,
+        storageRepository,
+        emailParser,
+        searchIndex,
+      });
+
+      await expect(publish('daily')).resolves.toEqual({
+        posted: 2,
+        failed: 0,
+      });
+
+      const [digest, ...posts] = postMessage.mock.calls.map(([args]) => args);
+      expect(digest).toMatchObject({
+        channel: 'C123',
+        text: 'Daily digest: 2 emails',
+      });
+      expect(posts).toHaveLength(2);
+      expect(posts[0]).toMatchObject({ channel: 'C123', thread_ts: '200.001' });
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'C123', ts: '200.001' }),
+      );
+      const updated = JSON.stringify(update.mock.calls[0][0].blocks);
+      expect(updated).toContain('<https://slack.example/p200.002|Weekly news>');
+      expect(updated).toContain('<https://slack.example/p200.003|Release>');
+      expect(await buffer.listDigest('daily')).toEqual([]);
+      expect(
+        (await searchIndex.search({ terms: ['release'] }))[0],
+      ).toMatchObject({ channel: 'C123', messageTs: '200.003' });
+    });
+
+    test('should redact the emails posted in the thread', async () => {
+      const publish = createDigestPublisher(mockApp, {
+        buffer,
+        storageRepository,
+        emailParser,
+        redaction: [{ type: 'pattern', name: 'codename', pattern: 'release' }],
+      });
+
+      await publish('daily');
+
+      const release = postMessage.mock.calls[2][0];
+      expect(release.text).toContain('[REDACTED codename]');
+      expect(release.blocks).toContainEqual(
+        expect.objectContaining({
+          block_id: 'email_redaction',
+          accessory: expect.objectContaining({ value: 'emails/b' }),
+        }),
+      );
+    });
+
+    test('should keep emails that cannot be read buffered', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await buffer.addToDigest(
+        createDigestEntry(newsletter, 'emails/missing', 'C123', 'daily'),
+      );
+      const publish = createDigestPublisher(mockApp, {
+        buffer,
+        storageRepository,
+        emailParser,
+      });
+
+      await expect(publish('daily')).resolves.toEqual({
+        posted: 2,
+        failed: 1,
+      });
+
+      expect(postMessage.mock.calls[0][0].text).toBe('Daily digest: 2 emails');
+      expect(await buffer.listDigest('daily')).toEqual([
+        expect.objectContaining({ storageKey: 'emails/missing' }),
+      ]);
+    });
+
+    test('should keep the emails buffered when the digest cannot be posted', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      postMessage.mockResolvedValue({ ok: false, error: 'not_in_channel' });
+      const publish = createDigestPublisher(mockApp, {
+        buffer,
+        storageRepository,
+        emailParser,
+      });
+
+      await expect(publish('daily')).resolves.toEqual({
+        posted: 0,
+        failed: 2,
+      });
+
+      expect(await buffer.listDigest('daily')).toHaveLength(2);
+    });
+
+    test('should do nothing when no emails are buffered', async () => {
+      const publish = createDigestPublisher(mockApp, {
+        buffer,
+        storageRepository,
+        emailParser,
+      });
+
+      await expect(publish('hourly')).resolves.toEqual({
+        posted: 0,
+        failed: 0,
+      });
+      expect(postMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,450 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, type Mock, test, vi } from 'vitest';
+import type { SendMailUseCase } from '@/application/usecases/sendMailUseCase';
+import type { Email, WorkspaceInstallation } from '@/domain/entities';
+import {
+  InMemoryDeadLetterRepository,
+  InMemoryInstallationRepository,
+  InMemoryProcessedEmailRepository,
+  InMemorySentEmailRepository,
+} from '@/infrastructure';
+import {
+  createDeadLetterHandler,
+  createSlackApp,
+  createWorkspaceEmailRouter,
+  type MailSendingConfig,
+  registerInstallationListeners,
+  registerMailSendingListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for multi-workspace apps
+ *
+ * Strategy:
+ * - /mail-setup shows and changes the settings of the command's workspace
+ *   (installer only, approved domains only, one workspace per domain)
+ * - Uninstalling removes the installation
+ * - Emails go to every workspace set up for their recipients' domains,
+ *   each deduplicated on its own; others are dead-lettered
+ * - Sending uses the settings of the request's workspace
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Multi-workspace', () => {
+  let installations: InMemoryInstallationRepository;
+
+  const installation = (
+    teamId: string,
+    config: WorkspaceInstallation['config'] = {},
+  ): WorkspaceInstallation => ({
+    teamId,
+    isEnterpriseInstall: false,
+    botToken: `xoxb-${teamId}`,
+    botUserId: 'U_BOT',
+    botScopes: [],
+    installerUserId: 'U_ADMIN',
+    installedAt: new Date('2025-01-01T00:00:00Z'),
+    config,
+  });
+
+  beforeEach(async () => {
+    installations = new InMemoryInstallationRepository();
+    await installations.saveInstallation(installation('T1'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('should require a bot token or an installation store', () => {
+    expect(() => createSlackApp({ signingSecret: 'secret' })).toThrow(
+      'Either botToken or installations is required',
+    );
+  });
+
+  describe('/mail-setup', () => {
+    let commands: Record<string, Handler>;
+    let events: Record<string, Handler>;
+    let respond: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      commands = {};
+      events = {};
+      respond = vi.fn().mockResolvedValue(undefined);
+      const app = {
+        command: vi.fn((name: string, handler: Handler) => {
+          commands[name] = handler;
+        }),
+        event: vi.fn((name: string, handler: Handler) => {
+          events[name] = handler;
+        }),
+      } as unknown as App;
+
+      registerInstallationListeners(app, {
+        installations,
+        approvedDomains: { T1: ['acme.example'], T2: ['globex.example'] },
+      });
+    });
+
+    const run = (text: string, userId = 'U_ADMIN') =>
+      commands['/mail-setup']({
+        ack: vi.fn(),
+        respond,
+        command: { text, user_id: userId, channel_id: 'C_MAIL' },
+        context: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+
+    test('should set the channel and domain of the workspace', async () => {
+      await run('channel');
+      await run('domain acme.example');
+
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config,
+      ).toEqual({ channel: 'C_MAIL', emailDomain: 'acme.example' });
+      expect(respond).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          response_type: 'ephemeral',
+          text: expect.stringContaining('Settings updated'),
+        }),
+      );
+    });
+
+    test('should set and clear the quarantine channel', async () => {
+      await run('quarantine');
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config
+          .quarantineChannel,
+      ).toBe('C_MAIL');
+
+      await run('quarantine off');
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config
+          .quarantineChannel,
+      ).toBeUndefined();
+    });
+
+    test('should set the admins and redaction viewers of the workspace', async () => {
+      await run('admins <@U111|one> U222');
+      await run('viewers <@U333>');
+
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config,
+      ).toEqual({
+        adminUserIds: ['U111', 'U222'],
+        redactionViewerUserIds: ['U333'],
+      });
+
+      await run('admins none');
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config
+          .adminUserIds,
+      ).toEqual([]);
+    });
+
+    test('should reject domains not approved for the workspace', async () => {
+      await run('domain globex.example');
+
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config,
+      ).toEqual({});
+      expect(respond).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining(
+            'globex.example is not approved for this workspace',
+          ),
+        }),
+      );
+    });
+
+    test('should let only the installer change the settings', async () => {
+      await run('channel', 'U_OTHER');
+
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config,
+      ).toEqual({});
+      expect(respond).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('Only <@U_ADMIN>'),
+        }),
+      );
+    });
+
+    test('should show the settings to anyone', async () => {
+      await run('', 'U_OTHER');
+
+      expect(respond).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining('Channel: _not set_'),
+        }),
+      );
+    });
+
+    test('should reject a domain used by another workspace', async () => {
+      await installations.saveInstallation(
+        installation('T2', { emailDomain: 'acme.example' }),
+      );
+
+      await run('domain acme.example');
+
+      expect(
+        (await installations.findInstallation({ teamId: 'T1' }))?.config,
+      ).toEqual({});
+      expect(respond).toHaveBeenCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining(
+            'acme.example is already used by another workspace',
+          ),
+        }),
+      );
+    });
+
+    test('should remove the installation when the app is uninstalled', async () => {
+      await events.tokens_revoked({
+        event: { tokens: { oauth: ['U_ADMIN'] } },
+        context: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+      expect(await installations.listInstallations()).toHaveLength(1);
+
+      await events.app_uninstalled({
+        context: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+      expect(await installations.listInstallations()).toEqual([]);
+    });
+  });
+
+  describe('createWorkspaceEmailRouter', () => {
+    const email = (to: string): Email => ({
+      messageId: 'a@client.example',
+      from: { address: 'sender@client.example' },
+      to: [{ address: to }],
+      subject: 'Hello',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    });
+
+    test('should deliver to the channel of the workspace for the domain', async () => {
+      await installations.saveInstallation(
+        installation('T2', { channel: 'C2', emailDomain: 'acme.example' }),
+      );
+      const deliver = vi
+        .fn()
+        .mockResolvedValue({ channel: 'C2', messageTs: '1.2' });
+      const getHandler = vi.fn().mockReturnValue(deliver);
+      const router = createWorkspaceEmailRouter({
+        installations,
+        approvedDomains: { T2: ['acme.example'] },
+        getHandler,
+      });
+
+      const location = await router(email('support@acme.example'), {
+        storageKey: 'emails/a',
+      });
+
+      expect(location).toEqual({ channel: 'C2', messageTs: '1.2' });
+      expect(getHandler).toHaveBeenCalledWith(
+        expect.objectContaining({ teamId: 'T2' }),
+        'C2',
+      );
+    });
+
+    test('should deliver to every workspace a recipient belongs to', async () => {
+      await installations.saveInstallation(
+        installation('T2', { channel: 'C2', emailDomain: 'acme.example' }),
+      );
+      await installations.saveInstallation(
+        installation('T3', { channel: 'C3', emailDomain: 'globex.example' }),
+      );
+      const deliver = vi
+        .fn()
+        .mockResolvedValueOnce({ channel: 'C2', messageTs: '1.2' })
+        .mockResolvedValueOnce({ channel: 'C3', messageTs: '1.3' });
+      const getHandler = vi.fn().mockReturnValue(deliver);
+      const router = createWorkspaceEmailRouter({
+        installations,
+        approvedDomains: { T2: ['acme.example'], T3: ['globex.example'] },
+        getHandler,
+      });
+
+      const location = await router(
+        {
+          ...email('support@acme.example'),
+          cc: [{ address: 'sales@globex.example' }],
+        },
+        { storageKey: 'emails/a' },
+      );
+
+      expect(location).toEqual({ channel: 'C2', messageTs: '1.2' });
+      expect(getHandler.mock.calls.map(([, channel]) => channel)).toEqual([
+        'C2',
+        'C3',
+      ]);
+    });
+
+    test('should deduplicate per workspace and retry only the failed one', async () => {
+      await installations.saveInstallation(
+        installation('T2', { channel: 'C2', emailDomain: 'acme.example' }),
+      );
+      await installations.saveInstallation(
+        installation('T3', { channel: 'C3', emailDomain: 'globex.example' }),
+      );
+      const processed = new Map<string, InMemoryProcessedEmailRepository>();
+      const deliverT2 = vi
+        .fn()
+        .mockResolvedValue({ channel: 'C2', messageTs: '1.2' });
+      const deliverT3 = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('channel_not_found'))
+        .mockResolvedValue({ channel: 'C3', messageTs: '1.3' });
+      const router = createWorkspaceEmailRouter({
+        installations,
+        approvedDomains: { T2: ['acme.example'], T3: ['globex.example'] },
+        getHandler: (workspace) =>
+          workspace.teamId === 'T2' ? deliverT2 : deliverT3,
+        getProcessedEmails: (workspace) => {
+          const id = workspace.teamId as string;
+          if (!processed.has(id)) {
+            processed.set(id, new InMemoryProcessedEmailRepository());
+          }
+          return processed.get(id);
+        },
+      });
+      const received = {
+        ...email('support@acme.example'),
+        cc: [{ address: 'sales@globex.example' }],
+      };
+
+      await expect(
+        router(received, { storageKey: 'emails/a' }),
+      ).rejects.toThrow('channel_not_found');
+      expect(deliverT2).toHaveBeenCalledTimes(1);
+
+      // The same Message-ID under another key reaches the failed workspace
+      await router(received, { storageKey: 'emails/b' });
+      expect(deliverT2).toHaveBeenCalledTimes(1);
+      expect(deliverT3).toHaveBeenCalledTimes(2);
+    });
+
+    test('should dead-letter emails no workspace is set up for', async () => {
+      // A domain without a channel is not set up yet
+      await installations.saveInstallation(
+        installation('T2', { emailDomain: 'acme.example' }),
+      );
+      const deadLetters = new InMemoryDeadLetterRepository();
+      const router = createWorkspaceEmailRouter({
+        installations,
+        approvedDomains: { T2: ['acme.example'] },
+        getHandler: vi.fn(),
+        onFailure: createDeadLetterHandler(deadLetters),
+      });
+
+      await expect(
+        router(email('support@acme.example'), { storageKey: 'emails/a' }),
+      ).rejects.toMatchObject({ code: 'no_installation' });
+
+      expect(await deadLetters.list()).toEqual([
+        expect.objectContaining({
+          storageKey: 'emails/a',
+          errorCode: 'no_installation',
+        }),
+      ]);
+    });
+
+    test('should not route domains that are no longer approved', async () => {
+      await installations.saveInstallation(
+        installation('T2', { channel: 'C2', emailDomain: 'acme.example' }),
+      );
+      const getHandler = vi.fn();
+      const router = createWorkspaceEmailRouter({
+        installations,
+        approvedDomains: {},
+        getHandler,
+      });
+
+      await expect(
+        router(email('support@acme.example'), { storageKey: 'emails/a' }),
+      ).rejects.toMatchObject({ code: 'no_installation' });
+      expect(getHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sending', () => {
+    let actions: Record<string, Handler>;
+    let resolveSender: Mock<NonNullable<MailSendingConfig['resolveSender']>>;
+    let mockExecute: ReturnType<typeof vi.fn>;
+    let sentEmails: InMemorySentEmailRepository;
+
+    const confirm = (respond: ReturnType<typeof vi.fn>) =>
+      actions.send_email_confirm({
+        ack: vi.fn(),
+        respond,
+        body: {
+          actions: [
+            {
+              value: JSON.stringify({
+                from: { address: 'support@acme.example' },
+                to: [{ address: 'customer@client.example' }],
+                subject: 'Hello',
+                body: 'Hi there',
+              }),
+            },
+          ],
+          channel: { id: 'C_SEND' },
+          message: { ts: '111.222' },
+        },
+        context: { teamId: 'T1', isEnterpriseInstall: false },
+      });
+
+    beforeEach(() => {
+      actions = {};
+      sentEmails = new InMemorySentEmailRepository();
+      const app = {
+        message: vi.fn(),
+        view: vi.fn(),
+        action: vi.fn((id: string, handler: Handler) => {
+          actions[id] = handler;
+        }),
+      } as unknown as App;
+      mockExecute = vi.fn().mockResolvedValue({ messageId: 'ses-123' });
+      resolveSender = vi.fn<NonNullable<MailSendingConfig['resolveSender']>>();
+      resolveSender.mockResolvedValue({
+        sendMailUseCase: { execute: mockExecute } as unknown as SendMailUseCase,
+        defaultSenderAddress: 'noreply@acme.example',
+      });
+
+      registerMailSendingListeners(app, { resolveSender, sentEmails });
+    });
+
+    test('should send with the settings of the workspace', async () => {
+      await confirm(vi.fn());
+
+      expect(resolveSender).toHaveBeenCalledWith({
+        teamId: 'T1',
+        isEnterpriseInstall: false,
+      });
+      expect(mockExecute).toHaveBeenCalledTimes(1);
+    });
+
+    test('should record the workspace with the sent email', async () => {
+      await confirm(vi.fn());
+
+      expect((await sentEmails.findSentEmail('ses-123'))?.installation).toEqual(
+        { teamId: 'T1', isEnterpriseInstall: false },
+      );
+    });
+
+    test('should fail in workspaces without a domain', async () => {
+      resolveSender.mockResolvedValue(undefined);
+      const respond = vi.fn();
+
+      await confirm(respond);
+
+      expect(mockExecute).not.toHaveBeenCalled();
+      expect(respond).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          text: expect.stringContaining(
+            'Email sending is not set up for this workspace',
+          ),
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import type { EmailParser } from '@/domain/entities/emailParser';
+import type { StorageRepository } from '@/domain/repositories';
+import {
+  createEmailReceivedHandler,
+  registerQuarantineListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for quarantining emails flagged by the SES spam/virus scan
+ *
+ * - With quarantineChannel: flagged emails go there, body hidden, no uploads
+ * - Without quarantineChannel: flagged emails are posted as usual with a banner
+ * - "Reveal" (reveal_quarantined_email) shows the redacted body ephemerally
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Quarantine of Flagged Emails', () => {
+  let mockApp: App;
+  let flaggedEmail: Email;
+
+  beforeEach(() => {
+    mockApp = {
+      client: {
+        chat: {
+          postMessage: vi.fn().mockResolvedValue({ ok: true, ts: '12345.67' }),
+        },
+        files: {
+          uploadV2: vi.fn().mockResolvedValue({ ok: true }),
+        },
+      },
+    } as unknown as App;
+
+    flaggedEmail = {
+      messageId: 'spam-1@spammer.example',
+      from: { address: 'prize@spammer.example' },
+      to: [{ address: 'support@example.com' }],
+      subject: 'You won!',
+      body: { text: 'Click http://malicious.example now' },
+      date: new Date('2025-01-01T00:00:00Z'),
+      verdicts: { spam: 'FAIL', virus: 'FAIL' },
+      attachments: [
+        {
+          filename: 'invoice.exe',
+          contentType: 'application/octet-stream',
+          size: 10,
+          content: Buffer.from('MZ'),
+        },
+      ],
+    };
+  });
+
+  test('should post flagged emails to the quarantine channel with the body hidden', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      quarantineChannel: 'C_QUARANTINE',
+    });
+
+    await handler(flaggedEmail, { storageKey: 'emails/spam-1' });
+
+    const call = (mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(call.channel).toBe('C_QUARANTINE');
+    expect(JSON.stringify(call.blocks)).not.toContain('malicious.example');
+    expect(call.blocks).toContainEqual(
+      expect.objectContaining({
+        type: 'actions',
+        elements: [
+          expect.objectContaining({
+            action_id: 'reveal_quarantined_email',
+            value: 'emails/spam-1',
+          }),
+        ],
+      }),
+    );
+    expect(mockApp.client.files.uploadV2).not.toHaveBeenCalled();
+  });
+
+  test('should omit the Reveal button when the storage key is unknown', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      quarantineChannel: 'C_QUARANTINE',
+    });
+
+    await handler(flaggedEmail);
+
+    const call = (mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(
+      call.blocks.some((block: { type: string }) => block.type === 'actions'),
+    ).toBe(false);
+  });
+
+  test('should post clean emails to the routed channel', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      quarantineChannel: 'C_QUARANTINE',
+    });
+
+    await handler({ ...flaggedEmail, verdicts: { spam: 'PASS' } });
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C_DEFAULT' }),
+    );
+  });
+
+  test('should post flagged emails with a warning when no quarantine channel is set', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT');
+
+    await handler(flaggedEmail);
+
+    const call = (mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(call.channel).toBe('C_DEFAULT');
+    expect(call.blocks[1].text.text).toContain(
+      'Failed the spam and virus scan',
+    );
+  });
+
+  describe('Reveal', () => {
+    let actions: Record<string, Handler>;
+    let client: { chat: { postEphemeral: ReturnType<typeof vi.fn> } };
+    let storageRepository: StorageRepository;
+    let emailParser: EmailParser;
+
+    beforeEach(() => {
+      actions = {};
+      const app = {
+        action: vi.fn((id: string, handler: Handler) => {
+          actions[id] = handler;
+        }),
+      } as unknown as App;
+      client = {
+        chat: { postEphemeral: vi.fn().mockResolvedValue({ ok: true }) },
+      };
+      storageRepository = {
+        fetchRawEmail: vi.fn().mockResolvedValue(Buffer.from('raw email')),
+      };
+      emailParser = { parse: vi.fn().mockResolvedValue(flaggedEmail) };
+
+      registerQuarantineListeners(app, { storageRepository, emailParser });
+    });
+
+    const clickReveal = () =>
+      actions.reveal_quarantined_email({
+        ack: vi.fn(),
+        client,
+        body: {
+          user: { id: 'U123' },
+          channel: { id: 'C_QUARANTINE' },
+          actions: [{ value: 'emails/spam-1' }],
+        },
+      });
+
+    test('should show the body only to the user who clicked', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      await clickReveal();
+
+      expect(storageRepository.fetchRawEmail).toHaveBeenCalledWith(
+        'emails/spam-1',
+      );
+      const call = client.chat.postEphemeral.mock.calls[0][0];
+      expect(call.channel).toBe('C_QUARANTINE');
+      expect(call.user).toBe('U123');
+      expect(JSON.stringify(call.blocks)).toContain('malicious.example');
+    });
+
+    test('should redact the revealed email', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      flaggedEmail = {
+        ...flaggedEmail,
+        subject: 'Card 4111 1111 1111 1111',
+        body: { text: 'Send 4111 1111 1111 1111 to claim your prize' },
+      };
+      emailParser.parse = vi.fn().mockResolvedValue(flaggedEmail);
+      registerQuarantineListeners(
+        {
+          action: vi.fn((id: string, handler: Handler) => {
+            actions[id] = handler;
+          }),
+        } as unknown as App,
+        { storageRepository, emailParser, redaction: [{ type: 'creditCard' }] },
+      );
+
+      await clickReveal();
+
+      const call = client.chat.postEphemeral.mock.calls[0][0];
+      const posted = JSON.stringify(call);
+      expect(posted).not.toContain('4111');
+      expect(call.text).toContain('[REDACTED card number]');
+      expect(posted).toContain('view_redacted_email');
+    });
+
+    test('should report errors to the user', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      (
+        storageRepository.fetchRawEmail as ReturnType<typeof vi.fn>
+      ).mockRejectedValue(new Error('NoSuchKey'));
+
+      await clickReveal();
+
+      expect(client.chat.postEphemeral).toHaveBeenCalledWith({
+        channel: 'C_QUARANTINE',
+        user: 'U123',
+        text: ':x: Failed to reveal email: NoSuchKey',
+      });
+    });
+  });
+});
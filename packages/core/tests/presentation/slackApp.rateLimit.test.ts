@@ -0,0 +1,128 @@
+import type { App } from '@slack/bolt';
+import { WebClient } from '@slack/web-api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import {
+  createEmailReceivedHandler,
+  createSlackApp,
+  postEmailToSlack,
+  SlackPostError,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for rate-limited posting
+ *
+ * Strategy:
+ * - Slack API calls go through the app's shared scheduler
+ * - A rate-limited call is retried after Retry-After instead of failing
+ * - Calls still rate limited after the scheduler's retries fail with
+ *   code "rate_limited"
+ * - Only the scheduled calls reject rate limits; other calls keep the
+ *   client's own retries
+ */
+
+const rateLimited = (retryAfter: number) =>
+  Object.assign(new Error('A rate-limit has been reached'), {
+    code: 'slack_webapi_rate_limited_error',
+    retryAfter,
+  });
+
+describe('Slack rate limits', () => {
+  let mockApp: App;
+  let postMessage: ReturnType<typeof vi.fn>;
+  const email: Email = {
+    messageId: 'blast@list.example',
+    from: { address: 'list@list.example' },
+    to: [{ address: 'team@example.com' }],
+    subject: 'Announcement',
+    body: { text: 'Hello' },
+    date: new Date('2026-01-01T00:00:00Z'),
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '100.001' });
+    mockApp = {
+      client: { chat: { postMessage } },
+    } as unknown as App;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should post after the Retry-After of a rate-limited call', async () => {
+    postMessage.mockRejectedValueOnce(rateLimited(2));
+
+    const post = postEmailToSlack(mockApp, 'C123', email);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(postMessage).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await post).toBe('100.001');
+    expect(postMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share the pause between concurrent emails', async () => {
+    postMessage.mockRejectedValueOnce(rateLimited(3));
+    const handler = createEmailReceivedHandler(mockApp, 'C123');
+
+    const posts = Promise.all([
+      handler(email),
+      handler({ ...email, messageId: 'second@list.example' }),
+    ]);
+    await vi.advanceTimersByTimeAsync(2999);
+    // The second email was posted before the rate limit was known
+    expect(postMessage).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(postMessage).toHaveBeenCalledTimes(3);
+
+    await expect(posts).resolves.toHaveLength(2);
+  });
+
+  it('should fail with rate_limited once the retries run out', async () => {
+    postMessage.mockRejectedValue(rateLimited(1));
+
+    const post = postEmailToSlack(mockApp, 'C123', email);
+    const failure = expect(post).rejects.toMatchObject({
+      name: 'SlackPostError',
+      code: 'rate_limited',
+    });
+    await vi.advanceTimersByTimeAsync(10_000);
+    await failure;
+    await expect(post).rejects.toBeInstanceOf(SlackPostError);
+    // First call plus three retries
+    expect(postMessage).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject rate limits only on the client posting emails', async () => {
+    const clients: WebClient[] = [];
+    vi.spyOn(WebClient.prototype, 'apiCall').mockImplementation(async function (
+      this: WebClient,
+      method: string,
+    ) {
+      if (method === 'chat.postMessage') {
+        clients.push(this);
+      }
+      return { ok: true, ts: '100.001' };
+    });
+    const { app } = createSlackApp({
+      signingSecret: 'secret',
+      botToken: 'xoxb-test',
+    });
+
+    await postEmailToSlack(app, 'C123', email);
+
+    const rejectsRateLimits = (client: WebClient) =>
+      (client as unknown as { rejectRateLimitedCalls: boolean })
+        .rejectRateLimitedCalls;
+    expect(clients).toHaveLength(1);
+    expect(clients[0]).not.toBe(app.client);
+    expect(rejectsRateLimits(clients[0])).toBe(true);
+    expect(rejectsRateLimits(app.client)).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import type { EmailParser } from '@/domain/entities/emailParser';
+import type { StorageRepository } from '@/domain/repositories';
+import {
+  createEmailReceivedHandler,
+  registerRedactionListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for posting redacted emails
+ *
+ * - The redactions passed by ReceiveMailUseCase add a notice to the post
+ * - "View original" (view_redacted_email) shows the unredacted email
+ *   ephemerally, only to allowed users
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Redacted Emails', () => {
+  const redactedEmail: Email = {
+    messageId: 'card@example.com',
+    from: { address: 'customer@example.com' },
+    to: [{ address: 'support@example.com' }],
+    subject: 'Refund',
+    body: { text: 'My card [REDACTED card number] was charged twice' },
+    date: new Date('2025-01-01T00:00:00Z'),
+  };
+
+  test('should post the redaction notice with View original', async () => {
+    const postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '100.001' });
+    const app = { client: { chat: { postMessage } } } as unknown as App;
+    const handler = createEmailReceivedHandler(app, 'C123');
+
+    await handler(redactedEmail, {
+      storageKey: 'emails/card',
+      redactions: [{ label: 'card number', count: 1 }],
+    });
+
+    expect(postMessage.mock.calls[0][0].blocks).toContainEqual(
+      expect.objectContaining({
+        block_id: 'email_redaction',
+        text: expect.objectContaining({
+          text: ':lock: *Redacted:* card number (1)',
+        }),
+        accessory: expect.objectContaining({
+          action_id: 'view_redacted_email',
+          value: 'emails/card',
+        }),
+      }),
+    );
+  });
+
+  test('should not add a notice when nothing was redacted', async () => {
+    const postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '100.001' });
+    const app = { client: { chat: { postMessage } } } as unknown as App;
+    const handler = createEmailReceivedHandler(app, 'C123');
+
+    await handler(redactedEmail, { storageKey: 'emails/card' });
+
+    expect(JSON.stringify(postMessage.mock.calls[0][0].blocks)).not.toContain(
+      'email_redaction',
+    );
+  });
+
+  describe('View original', () => {
+    let actions: Record<string, Handler>;
+    let client: { chat: { postEphemeral: ReturnType<typeof vi.fn> } };
+    let storageRepository: StorageRepository;
+    let emailParser: EmailParser;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      actions = {};
+      const app = {
+        action: vi.fn((id: string, handler: Handler) => {
+          actions[id] = handler;
+        }),
+      } as unknown as App;
+      client = {
+        chat: { postEphemeral: vi.fn().mockResolvedValue({ ok: true }) },
+      };
+      storageRepository = {
+        fetchRawEmail: vi.fn().mockResolvedValue(Buffer.from('raw email')),
+      };
+      emailParser = {
+        parse: vi.fn().mockResolvedValue({
+          ...redactedEmail,
+          body: { text: 'My card 4111 1111 1111 1111 was charged twice' },
+        }),
+      };
+
+      registerRedactionListeners(app, {
+        storageRepository,
+        emailParser,
+        viewerUserIds: ['U_ADMIN'],
+      });
+    });
+
+    const clickViewOriginal = (user: string) =>
+      actions.view_redacted_email({
+        ack: vi.fn(),
+        client,
+        body: {
+          user: { id: user },
+          channel: { id: 'C123' },
+          actions: [{ value: 'emails/card' }],
+        },
+      });
+
+    test('should show the original only to the allowed user', async () => {
+      await clickViewOriginal('U_ADMIN');
+
+      expect(storageRepository.fetchRawEmail).toHaveBeenCalledWith(
+        'emails/card',
+      );
+      const call = client.chat.postEphemeral.mock.calls[0][0];
+      expect(call).toMatchObject({ channel: 'C123', user: 'U_ADMIN' });
+      expect(JSON.stringify(call.blocks)).toContain('4111 1111 1111 1111');
+      expect(console.log).toHaveBeenCalledWith('Viewing unredacted email:', {
+        storageKey: 'emails/card',
+        user: 'U_ADMIN',
+      });
+    });
+
+    test('should refuse other users', async () => {
+      await clickViewOriginal('U_OTHER');
+
+      expect(storageRepository.fetchRawEmail).not.toHaveBeenCalled();
+      expect(client.chat.postEphemeral).toHaveBeenCalledWith({
+        channel: 'C123',
+        user: 'U_OTHER',
+        text: ':no_entry: You are not allowed to view redacted content.',
+      });
+    });
+
+    test("should use the viewers of the request's workspace", async () => {
+      const resolveViewerUserIds = vi.fn().mockResolvedValue(['U_T1_VIEWER']);
+      registerRedactionListeners(
+        {
+          action: vi.fn((id: string, handler: Handler) => {
+            actions[id] = handler;
+          }),
+        } as unknown as App,
+        { storageRepository, emailParser, resolveViewerUserIds },
+      );
+      const click = (user: string) =>
+        actions.view_redacted_email({
+          ack: vi.fn(),
+          client,
+          body: {
+            user: { id: user },
+            channel: { id: 'C123' },
+            actions: [{ value: 'emails/card' }],
+          },
+          context: { teamId: 'T1', isEnterpriseInstall: false },
+        });
+
+      await click('U_ADMIN');
+      expect(storageRepository.fetchRawEmail).not.toHaveBeenCalled();
+
+      await click('U_T1_VIEWER');
+      expect(resolveViewerUserIds).toHaveBeenCalledWith({
+        teamId: 'T1',
+        isEnterpriseInstall: false,
+      });
+      expect(storageRepository.fetchRawEmail).toHaveBeenCalledWith(
+        'emails/card',
+      );
+    });
+  });
+});
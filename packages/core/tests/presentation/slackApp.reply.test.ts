@@ -0,0 +1,258 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { SendMailUseCase } from '@/application/usecases/sendMailUseCase';
+import type { Email } from '@/domain/entities';
+import { InMemorySentEmailRepository } from '@/infrastructure';
+import { formatEmailForSlack } from '@/presentation/emailFormatter';
+import { registerMailSendingListeners } from '@/presentation/slackApp';
+
+/**
+ * Test suite for replying to an inbound email from its Slack thread
+ *
+ * Flow:
+ * - "Reply" button (reply_email_open) opens a prefilled modal
+ * - Modal submission (reply_email_submit) sends via SendMailUseCase with
+ *   In-Reply-To/References and confirms in the email's thread
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Reply to Email from Slack', () => {
+  let actions: Record<string, Handler>;
+  let views: Record<string, Handler>;
+  let mockApp: App;
+  let mockExecute: ReturnType<typeof vi.fn>;
+  let client: {
+    views: { open: ReturnType<typeof vi.fn> };
+    chat: {
+      postMessage: ReturnType<typeof vi.fn>;
+      postEphemeral: ReturnType<typeof vi.fn>;
+    };
+  };
+
+  const email: Email = {
+    messageId: 'original@client.example',
+    from: { name: 'Customer', address: 'customer@client.example' },
+    to: [{ address: 'support@example.com' }],
+    subject: 'Order status',
+    body: { text: 'Where is my order?' },
+    date: new Date('2025-01-01T09:00:00Z'),
+  };
+
+  beforeEach(() => {
+    actions = {};
+    views = {};
+    mockApp = {
+      message: vi.fn(),
+      action: vi.fn((id: string, handler: Handler) => {
+        actions[id] = handler;
+      }),
+      view: vi.fn((id: string, handler: Handler) => {
+        views[id] = handler;
+      }),
+    } as unknown as App;
+
+    client = {
+      views: { open: vi.fn().mockResolvedValue({ ok: true }) },
+      chat: {
+        postMessage: vi.fn().mockResolvedValue({ ok: true }),
+        postEphemeral: vi.fn().mockResolvedValue({ ok: true }),
+      },
+    };
+
+    mockExecute = vi.fn().mockResolvedValue({ messageId: 'ses-123' });
+    registerMailSendingListeners(mockApp, {
+      sendMailUseCase: {
+        execute: mockExecute,
+      } as unknown as SendMailUseCase,
+      defaultSenderAddress: 'noreply@example.com',
+    });
+  });
+
+  const clickReply = async () => {
+    const { blocks } = formatEmailForSlack(email);
+    const button = blocks
+      .filter((block) => block.type === 'actions')
+      .flatMap(
+        (block) =>
+          (block as { elements: { action_id: string; value: string }[] })
+            .elements,
+      )
+      .find((element) => element.action_id === 'reply_email_open');
+
+    await actions.reply_email_open({
+      ack: vi.fn(),
+      client,
+      body: {
+        trigger_id: 'trigger-1',
+        actions: [{ value: button?.value }],
+        channel: { id: 'C123' },
+        message: { ts: '111.222', blocks },
+      },
+    });
+
+    return client.views.open.mock.calls[0][0].view;
+  };
+
+  test('should add a Reply button to email posts', () => {
+    const { blocks } = formatEmailForSlack(email);
+
+    expect(blocks).toContainEqual(
+      expect.objectContaining({
+        type: 'actions',
+        elements: [
+          expect.objectContaining({
+            action_id: 'reply_email_open',
+            text: { type: 'plain_text', text: 'Reply' },
+          }),
+        ],
+      }),
+    );
+  });
+
+  test('should open a modal prefilled from the original email', async () => {
+    const view = await clickReply();
+
+    expect(client.views.open).toHaveBeenCalledWith(
+      expect.objectContaining({ trigger_id: 'trigger-1' }),
+    );
+    const bodyInput = view.blocks.find(
+      (block: { block_id?: string }) => block.block_id === 'reply_body',
+    );
+    expect(bodyInput.element.initial_value).toContain(
+      'Customer <customer@client.example> wrote:\n> Where is my order?',
+    );
+  });
+
+  test('should send the reply with threading headers and confirm in thread', async () => {
+    const view = await clickReply();
+    const ack = vi.fn();
+
+    await views.reply_email_submit({
+      ack,
+      client,
+      body: { user: { id: 'U123' } },
+      view: {
+        private_metadata: view.private_metadata,
+        state: {
+          values: {
+            reply_to: { value: { value: 'customer@client.example' } },
+            reply_subject: { value: { value: 'Re: Order status' } },
+            reply_body: { value: { value: 'It ships today.' } },
+          },
+        },
+      },
+    });
+
+    expect(ack).toHaveBeenCalledWith();
+    expect(mockExecute).toHaveBeenCalledWith({
+      from: { address: 'support@example.com' },
+      to: [{ address: 'customer@client.example' }],
+      subject: 'Re: Order status',
+      body: { text: 'It ships today.' },
+      inReplyTo: 'original@client.example',
+      references: ['original@client.example'],
+    });
+    expect(client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'C123',
+        thread_ts: '111.222',
+        text: 'Reply sent to customer@client.example',
+      }),
+    );
+  });
+
+  test('should record the confirmation for delivery feedback', async () => {
+    const sentEmails = new InMemorySentEmailRepository();
+    registerMailSendingListeners(mockApp, {
+      sendMailUseCase: {
+        execute: mockExecute,
+      } as unknown as SendMailUseCase,
+      defaultSenderAddress: 'noreply@example.com',
+      sentEmails,
+    });
+    client.chat.postMessage.mockResolvedValue({ ok: true, ts: '111.333' });
+    const view = await clickReply();
+
+    await views.reply_email_submit({
+      ack: vi.fn(),
+      client,
+      body: { user: { id: 'U123' } },
+      view: {
+        private_metadata: view.private_metadata,
+        state: {
+          values: {
+            reply_to: { value: { value: 'customer@client.example' } },
+            reply_subject: { value: { value: 'Re: Order status' } },
+            reply_body: { value: { value: 'It ships today.' } },
+          },
+        },
+      },
+    });
+
+    expect(await sentEmails.findSentEmail('ses-123')).toMatchObject({
+      channel: 'C123',
+      messageTs: '111.333',
+      threadTs: '111.222',
+      recipients: ['customer@client.example'],
+      subject: 'Re: Order status',
+    });
+  });
+
+  test('should return validation errors to the modal', async () => {
+    const view = await clickReply();
+    const ack = vi.fn();
+
+    await views.reply_email_submit({
+      ack,
+      client,
+      body: { user: { id: 'U123' } },
+      view: {
+        private_metadata: view.private_metadata,
+        state: {
+          values: {
+            reply_to: { value: { value: 'invalid' } },
+            reply_subject: { value: { value: 'Re: Order status' } },
+            reply_body: { value: { value: 'Hi' } },
+          },
+        },
+      },
+    });
+
+    expect(ack).toHaveBeenCalledWith({
+      response_action: 'errors',
+      errors: { reply_to: 'Enter one or more valid email addresses' },
+    });
+    expect(mockExecute).not.toHaveBeenCalled();
+  });
+
+  test('should notify the user when sending fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockExecute.mockRejectedValue(new Error('SES rejected'));
+    const view = await clickReply();
+
+    await views.reply_email_submit({
+      ack: vi.fn(),
+      client,
+      body: { user: { id: 'U123' } },
+      view: {
+        private_metadata: view.private_metadata,
+        state: {
+          values: {
+            reply_to: { value: { value: 'customer@client.example' } },
+            reply_subject: { value: { value: 'Re: Order status' } },
+            reply_body: { value: { value: 'It ships today.' } },
+          },
+        },
+      },
+    });
+
+    expect(client.chat.postEphemeral).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'C123',
+        user: 'U123',
+        text: ':x: Failed to send reply: SES rejected',
+      }),
+    );
+  });
+});
@@ -0,0 +1,95 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import { createEmailReceivedHandler } from '@/presentation/slackApp';
+
+/**
+ * Test suite for recipient-based routing in createEmailReceivedHandler
+ *
+ * The channel passed to the handler acts as the catch-all; configured routes
+ * are evaluated against To/Cc before posting.
+ */
+
+describe('Email Received Handler Routing', () => {
+  let mockApp: App;
+  let testEmail: Email;
+
+  beforeEach(() => {
+    mockApp = {
+      client: {
+        chat: {
+          postMessage: vi.fn().mockResolvedValue({ ok: true, ts: '12345.67' }),
+        },
+      },
+    } as unknown as App;
+
+    testEmail = {
+      messageId: 'test-123@example.com',
+      from: { address: 'customer@client.example' },
+      to: [{ address: 'billing@example.com' }],
+      subject: 'Invoice question',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    };
+  });
+
+  test('should post to the channel of the matching route', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      routes: [
+        {
+          match: { type: 'address', address: 'billing@example.com' },
+          channel: 'C_BILLING',
+        },
+      ],
+    });
+
+    await handler(testEmail);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C_BILLING' }),
+    );
+  });
+
+  test('should post to the catch-all channel when no route matches', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      routes: [
+        {
+          match: { type: 'address', address: 'support@example.com' },
+          channel: 'C_SUPPORT',
+        },
+      ],
+    });
+
+    await handler(testEmail);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C_DEFAULT' }),
+    );
+  });
+
+  test('should record the routed channel when delivery fails', async () => {
+    (
+      mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>
+    ).mockResolvedValue({ ok: false, error: 'channel_not_found' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const onFailure = vi.fn().mockResolvedValue(undefined);
+
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      routes: [
+        {
+          match: { type: 'address', address: 'billing@example.com' },
+          channel: 'C_BILLING',
+        },
+      ],
+      onFailure,
+    });
+
+    await expect(handler(testEmail)).rejects.toThrow();
+    expect(onFailure).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'C_BILLING',
+        errorCode: 'channel_not_found',
+      }),
+    );
+  });
+});
@@ -0,0 +1,241 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { createEmailSearchDocument, type Email } from '@/domain/entities';
+import { InMemorySearchIndexRepository } from '@/infrastructure';
+import {
+  createEmailReceivedHandler,
+  registerSearchListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for full-text search over received emails
+ *
+ * - The email received handler reports where each email was posted
+ *   (ReceiveMailUseCase indexes it with that location)
+ * - /mail-search responds with matching emails linking to their posts
+ * - Only emails in channels the user is a member of are shown
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Email Search', () => {
+  const email: Email = {
+    messageId: 'invoice-1@billing.example',
+    from: { name: 'Billing', address: 'billing@vendor.example' },
+    to: [{ address: 'support@example.com' }],
+    subject: 'Invoice #42',
+    body: { text: 'Your invoice is past due.' },
+    date: new Date('2026-03-15T09:00:00Z'),
+  };
+
+  describe('posting', () => {
+    test('should report where the email was posted', async () => {
+      const postMessage = vi
+        .fn()
+        .mockResolvedValue({ ok: true, ts: '100.001' });
+      const handler = createEmailReceivedHandler(
+        { client: { chat: { postMessage } } } as unknown as App,
+        'C123',
+      );
+
+      await expect(handler(email)).resolves.toEqual({
+        channel: 'C123',
+        messageTs: '100.001',
+      });
+    });
+
+    test('should not report quarantined emails', async () => {
+      const postMessage = vi
+        .fn()
+        .mockResolvedValue({ ok: true, ts: '100.001' });
+      const handler = createEmailReceivedHandler(
+        { client: { chat: { postMessage } } } as unknown as App,
+        'C123',
+        { quarantineChannel: 'C_QUARANTINE' },
+      );
+
+      await expect(
+        handler({ ...email, verdicts: { spam: 'FAIL' } }),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('/mail-search', () => {
+    let searchIndex: InMemorySearchIndexRepository;
+    let commands: Record<string, Handler>;
+    let respond: ReturnType<typeof vi.fn>;
+    let getPermalink: ReturnType<typeof vi.fn>;
+    let members: ReturnType<typeof vi.fn>;
+
+    const run = (text: string) =>
+      commands['/mail-search']({
+        ack: vi.fn(),
+        respond,
+        client: { chat: { getPermalink }, conversations: { members } },
+        command: { text, user_id: 'U_ALICE' },
+      });
+
+    beforeEach(async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      searchIndex = new InMemorySearchIndexRepository();
+      await searchIndex.indexEmail(
+        createEmailSearchDocument(email, 'C123', '100.001'),
+      );
+      commands = {};
+      respond = vi.fn().mockResolvedValue(undefined);
+      members = vi.fn(async ({ channel }: { channel: string }) => ({
+        ok: true,
+        members: channel === 'C123' ? ['U_BOB', 'U_ALICE'] : ['U_BOB'],
+      }));
+      getPermalink = vi.fn().mockResolvedValue({
+        ok: true,
+        permalink: 'https://example.slack.com/archives/C123/p100001',
+      });
+      const app = {
+        command: vi.fn((name: string, handler: Handler) => {
+          commands[name] = handler;
+        }),
+      } as unknown as App;
+
+      registerSearchListeners(app, { searchIndex });
+    });
+
+    test('should respond with matching emails linking to their posts', async () => {
+      await run('invoice from:billing');
+
+      expect(getPermalink).toHaveBeenCalledWith({
+        channel: 'C123',
+        message_ts: '100.001',
+      });
+      const response = respond.mock.calls[0][0];
+      expect(response).toMatchObject({
+        response_type: 'ephemeral',
+        text: '1 email found for "invoice from:billing"',
+      });
+      const blocks = JSON.stringify(response.blocks);
+      expect(blocks).toContain(
+        '<https://example.slack.com/archives/C123/p100001|Invoice #42>',
+      );
+      expect(blocks).toContain('past due');
+    });
+
+    test('should only show emails in channels the user is a member of', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await searchIndex.indexEmail(
+        createEmailSearchDocument(
+          {
+            ...email,
+            messageId: 'invoice-2@billing.example',
+            subject: 'Invoice #43',
+          },
+          'C_PRIVATE',
+          '100.002',
+        ),
+      );
+      await searchIndex.indexEmail(
+        createEmailSearchDocument(
+          {
+            ...email,
+            messageId: 'invoice-3@billing.example',
+            subject: 'Invoice #44',
+          },
+          'C_UNREADABLE',
+          '100.003',
+        ),
+      );
+      members.mockImplementation(async ({ channel }: { channel: string }) => {
+        if (channel === 'C_UNREADABLE') {
+          throw new Error('channel_not_found');
+        }
+        return {
+          ok: true,
+          members: channel === 'C123' ? ['U_ALICE'] : ['U_BOB'],
+        };
+      });
+
+      await run('invoice');
+
+      const response = respond.mock.calls[0][0];
+      expect(response.text).toBe('1 email found for "invoice"');
+      const blocks = JSON.stringify(response.blocks);
+      expect(blocks).toContain('Invoice #42');
+      expect(blocks).not.toContain('Invoice #43');
+      expect(blocks).not.toContain('Invoice #44');
+      expect(getPermalink).toHaveBeenCalledTimes(1);
+    });
+
+    test('should check the membership of each channel once', async () => {
+      for (const n of [2, 3, 4]) {
+        await searchIndex.indexEmail(
+          createEmailSearchDocument(
+            { ...email, messageId: `invoice-${n}@billing.example` },
+            'C123',
+            `100.00${n}`,
+          ),
+        );
+      }
+
+      await run('invoice');
+
+      expect(members).toHaveBeenCalledTimes(1);
+      expect(getPermalink).toHaveBeenCalledTimes(4);
+      expect(respond.mock.calls[0][0].text).toBe(
+        '4 emails found for "invoice"',
+      );
+    });
+
+    test('should check membership through every page of members', async () => {
+      members
+        .mockResolvedValueOnce({
+          ok: true,
+          members: ['U_BOB'],
+          response_metadata: { next_cursor: 'page2' },
+        })
+        .mockResolvedValueOnce({ ok: true, members: ['U_ALICE'] });
+
+      await run('invoice');
+
+      expect(members).toHaveBeenLastCalledWith(
+        expect.objectContaining({ channel: 'C123', cursor: 'page2' }),
+      );
+      expect(respond.mock.calls[0][0].text).toBe('1 email found for "invoice"');
+    });
+
+    test('should show results without a link when the permalink fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      getPermalink.mockRejectedValue(new Error('message_not_found'));
+
+      await run('invoice');
+
+      const blocks = JSON.stringify(respond.mock.calls[0][0].blocks);
+      expect(blocks).toContain('*Invoice #42*');
+    });
+
+    test('should tell the user when nothing matches', async () => {
+      await run('refund');
+
+      expect(respond.mock.calls[0][0].text).toBe(
+        'No emails found for "refund"',
+      );
+      expect(getPermalink).not.toHaveBeenCalled();
+    });
+
+    test('should show the usage for an empty query', async () => {
+      await run('');
+
+      expect(respond.mock.calls[0][0].text).toContain('*Usage:* `/mail-search');
+    });
+
+    test('should tell the user when the search fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(searchIndex, 'search').mockRejectedValue(new Error('S3 down'));
+
+      await run('invoice');
+
+      expect(respond).toHaveBeenCalledWith({
+        response_type: 'ephemeral',
+        text: ':x: Search failed: S3 down',
+      });
+    });
+  });
+});
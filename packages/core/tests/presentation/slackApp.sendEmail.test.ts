@@ -0,0 +1,97 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { SendMailUseCase } from '@/application/usecases/sendMailUseCase';
+import { InMemorySentEmailRepository } from '@/infrastructure';
+import { registerMailSendingListeners } from '@/presentation/slackApp';
+
+/**
+ * Test suite for the "Send Email" confirmation button
+ *
+ * - Sends via SendMailUseCase and replaces the button message with
+ *   "Email Sent Successfully"
+ * - Records the confirmation so bounces can be posted into its thread
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+describe('Send Email confirmation', () => {
+  let actions: Record<string, Handler>;
+  let mockExecute: ReturnType<typeof vi.fn>;
+  let sentEmails: InMemorySentEmailRepository;
+
+  const emailData = {
+    from: { address: 'support@example.com' },
+    to: [{ address: 'customer@client.example' }],
+    subject: 'Hello',
+    body: 'Hi there',
+  };
+
+  beforeEach(() => {
+    actions = {};
+    const mockApp = {
+      message: vi.fn(),
+      view: vi.fn(),
+      action: vi.fn((id: string, handler: Handler) => {
+        actions[id] = handler;
+      }),
+    } as unknown as App;
+    mockExecute = vi.fn().mockResolvedValue({ messageId: 'ses-123' });
+    sentEmails = new InMemorySentEmailRepository();
+
+    registerMailSendingListeners(mockApp, {
+      sendMailUseCase: { execute: mockExecute } as unknown as SendMailUseCase,
+      defaultSenderAddress: 'noreply@example.com',
+      sentEmails,
+    });
+  });
+
+  test('should send the email and record the confirmation message', async () => {
+    const respond = vi.fn();
+
+    await actions.send_email_confirm({
+      ack: vi.fn(),
+      respond,
+      body: {
+        actions: [{ value: JSON.stringify(emailData) }],
+        channel: { id: 'C123' },
+        message: { ts: '111.222' },
+      },
+    });
+
+    expect(respond).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        text: 'Email sent successfully to customer@client.example',
+      }),
+    );
+    expect(await sentEmails.findSentEmail('ses-123')).toMatchObject({
+      channel: 'C123',
+      messageTs: '111.222',
+      threadTs: undefined,
+      recipients: ['customer@client.example'],
+      subject: 'Hello',
+    });
+  });
+
+  test('should not fail the send when recording fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(sentEmails, 'saveSentEmail').mockRejectedValue(
+      new Error('S3 down'),
+    );
+    const respond = vi.fn();
+
+    await actions.send_email_confirm({
+      ack: vi.fn(),
+      respond,
+      body: {
+        actions: [{ value: JSON.stringify(emailData) }],
+        channel: { id: 'C123' },
+        message: { ts: '111.222' },
+      },
+    });
+
+    expect(respond).toHaveBeenCalledTimes(2);
+    expect(respond).not.toHaveBeenCalledWith(
+      expect.objectContaining({ replace_original: false }),
+    );
+  });
+});
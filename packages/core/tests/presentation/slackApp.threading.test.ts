@@ -0,0 +1,158 @@
+import type { App } from '@slack/bolt';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import type { ThreadIndexRepository } from '@/domain/repositories';
+import { InMemoryThreadIndexRepository } from '@/infrastructure';
+import { createEmailReceivedHandler } from '@/presentation/slackApp';
+
+/**
+ * Test suite for posting email replies into the original Slack thread
+ *
+ * Strategy:
+ * - Every posted email is indexed as Message-ID → { channel, threadTs }
+ * - Emails carrying In-Reply-To/References are posted with thread_ts of the
+ *   first message of the conversation, in that message's channel
+ * - Index failures never prevent delivery
+ */
+
+describe('Email Received Handler Threading', () => {
+  let mockApp: App;
+  let threadIndex: InMemoryThreadIndexRepository;
+  let original: Email;
+  let reply: Email;
+
+  beforeEach(() => {
+    mockApp = {
+      client: {
+        chat: {
+          postMessage: vi
+            .fn()
+            .mockResolvedValueOnce({ ok: true, ts: '100.001' })
+            .mockResolvedValueOnce({ ok: true, ts: '100.002' })
+            .mockResolvedValueOnce({ ok: true, ts: '100.003' }),
+        },
+      },
+    } as unknown as App;
+
+    threadIndex = new InMemoryThreadIndexRepository();
+
+    original = {
+      messageId: 'original@example.com',
+      from: { address: 'customer@client.example' },
+      to: [{ address: 'support@example.com' }],
+      subject: 'Question',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    };
+
+    reply = {
+      messageId: 'reply@example.com',
+      from: { address: 'customer@client.example' },
+      to: [{ address: 'support@example.com' }],
+      subject: 'Re: Question',
+      body: { text: 'Any update?' },
+      date: new Date('2025-01-02T00:00:00Z'),
+      inReplyTo: 'original@example.com',
+      references: ['original@example.com'],
+    };
+  });
+
+  test('should post the first email as a top-level message and index it', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      threadIndex,
+    });
+
+    await handler(original);
+
+    const call = (mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(call.thread_ts).toBeUndefined();
+    expect(await threadIndex.findThread(['original@example.com'])).toEqual({
+      channel: 'C_DEFAULT',
+      threadTs: '100.001',
+    });
+  });
+
+  test('should post a reply into the original thread', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      threadIndex,
+    });
+
+    await handler(original);
+    await handler(reply);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        channel: 'C_DEFAULT',
+        thread_ts: '100.001',
+      }),
+    );
+  });
+
+  test('should keep later replies under the first message', async () => {
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      threadIndex,
+    });
+    const secondReply: Email = {
+      ...reply,
+      messageId: 'reply-2@example.com',
+      inReplyTo: 'reply@example.com',
+      references: ['original@example.com', 'reply@example.com'],
+    };
+
+    await handler(original);
+    await handler(reply);
+    await handler(secondReply);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ thread_ts: '100.001' }),
+    );
+    expect(await threadIndex.findThread(['reply-2@example.com'])).toEqual({
+      channel: 'C_DEFAULT',
+      threadTs: '100.001',
+    });
+  });
+
+  test('should keep replies in the conversation channel regardless of routing', async () => {
+    await threadIndex.saveThread('original@example.com', {
+      channel: 'C_SUPPORT',
+      threadTs: '50.001',
+    });
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      threadIndex,
+      routes: [
+        {
+          match: { type: 'senderDomain', domain: 'client.example' },
+          channel: 'C_CLIENTS',
+        },
+      ],
+    });
+
+    await handler(reply);
+
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'C_SUPPORT', thread_ts: '50.001' }),
+    );
+  });
+
+  test('should post top-level when the thread lookup fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failingIndex: ThreadIndexRepository = {
+      findThread: vi.fn().mockRejectedValue(new Error('S3 unavailable')),
+      saveThread: vi.fn().mockRejectedValue(new Error('S3 unavailable')),
+    };
+    const handler = createEmailReceivedHandler(mockApp, 'C_DEFAULT', {
+      threadIndex: failingIndex,
+    });
+
+    await expect(handler(reply)).resolves.toEqual({
+      channel: 'C_DEFAULT',
+      messageTs: '100.001',
+    });
+
+    const call = (mockApp.client.chat.postMessage as ReturnType<typeof vi.fn>)
+      .mock.calls[0][0];
+    expect(call.thread_ts).toBeUndefined();
+    expect(mockApp.client.chat.postMessage).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,227 @@
+import type { App } from '@slack/bolt';
+import type { KnownBlock } from '@slack/web-api';
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Email } from '@/domain/entities';
+import { InMemoryTriageRepository } from '@/infrastructure';
+import { TRIAGE_STATUS_BLOCK_ID } from '@/presentation/emailTriage';
+import {
+  createEmailReceivedHandler,
+  registerTriageListeners,
+} from '@/presentation/slackApp';
+
+/**
+ * Test suite for shared-inbox triage on email posts
+ *
+ * - With a triage store, top-level posts get triage controls and an open,
+ *   unassigned state is saved
+ * - Triage actions update the stored state and the post in place
+ * - The stored state wins over what the post shows (e.g. after edits)
+ */
+
+type Handler = (args: Record<string, unknown>) => Promise<void>;
+
+const statusText = (blocks: KnownBlock[]) =>
+  (
+    blocks.find((block) => block.block_id === TRIAGE_STATUS_BLOCK_ID) as {
+      elements: { text: string }[];
+    }
+  ).elements[0].text;
+
+describe('Email Triage', () => {
+  let triage: InMemoryTriageRepository;
+  let email: Email;
+
+  beforeEach(() => {
+    triage = new InMemoryTriageRepository();
+    email = {
+      messageId: 'question@client.example',
+      from: { address: 'customer@client.example' },
+      to: [{ address: 'support@example.com' }],
+      subject: 'Question',
+      body: { text: 'Hello' },
+      date: new Date('2025-01-01T00:00:00Z'),
+    };
+  });
+
+  describe('posting', () => {
+    let postMessage: ReturnType<typeof vi.fn>;
+    let mockApp: App;
+
+    beforeEach(() => {
+      postMessage = vi.fn().mockResolvedValue({ ok: true, ts: '100.001' });
+      mockApp = { client: { chat: { postMessage } } } as unknown as App;
+    });
+
+    test('should add triage controls and save an open state', async () => {
+      const handler = createEmailReceivedHandler(mockApp, 'C123', { triage });
+
+      await handler(email);
+
+      const { blocks } = postMessage.mock.calls[0][0];
+      expect(statusText(blocks)).toBe(
+        ':large_green_circle: *Open* · Unassigned',
+      );
+      expect(JSON.stringify(blocks)).toContain('triage_assign_me');
+      expect(await triage.findTriage('C123', '100.001')).toMatchObject({
+        messageId: 'question@client.example',
+        subject: 'Question',
+        status: 'open',
+      });
+    });
+
+    test('should not add triage controls without a triage store', async () => {
+      await createEmailReceivedHandler(mockApp, 'C123')(email);
+
+      expect(JSON.stringify(postMessage.mock.calls[0][0].blocks)).not.toContain(
+        'triage_',
+      );
+    });
+  });
+
+  describe('actions', () => {
+    let actions: Record<string, Handler>;
+    let client: {
+      chat: {
+        update: ReturnType<typeof vi.fn>;
+        postEphemeral: ReturnType<typeof vi.fn>;
+      };
+    };
+    let postedBlocks: KnownBlock[];
+
+    const click = (
+      actionId: string,
+      extra: Record<string, unknown> = {},
+      user = 'U_ALICE',
+    ) =>
+      actions[actionId]({
+        ack: vi.fn(),
+        client,
+        body: {
+          user: { id: user },
+          channel: { id: 'C123' },
+          actions: [{ action_id: actionId, ...extra }],
+          message: { ts: '100.001', text: 'New email', blocks: postedBlocks },
+        },
+      });
+
+    beforeEach(async () => {
+      actions = {};
+      const mockApp = {
+        action: vi.fn((id: string, handler: Handler) => {
+          actions[id] = handler;
+        }),
+      } as unknown as App;
+      registerTriageListeners(mockApp, { triage });
+
+      const postMessage = vi
+        .fn()
+        .mockResolvedValue({ ok: true, ts: '100.001' });
+      await createEmailReceivedHandler(
+        { client: { chat: { postMessage } } } as unknown as App,
+        'C123',
+        { triage },
+      )(email);
+      postedBlocks = postMessage.mock.calls[0][0].blocks;
+
+      client = {
+        chat: {
+          update: vi.fn().mockResolvedValue({ ok: true }),
+          postEphemeral: vi.fn().mockResolvedValue({ ok: true }),
+        },
+      };
+    });
+
+    test('should assign the email to the user who clicked', async () => {
+      await click('triage_assign_me');
+
+      expect(await triage.findTriage('C123', '100.001')).toMatchObject({
+        assignee: 'U_ALICE',
+        updatedBy: 'U_ALICE',
+      });
+      const args = client.chat.update.mock.calls[0][0];
+      expect(args).toMatchObject({ channel: 'C123', ts: '100.001' });
+      expect(statusText(args.blocks)).toBe(
+        ':large_green_circle: *Open* · Assigned to <@U_ALICE>',
+      );
+      // The Reply button is kept
+      expect(JSON.stringify(args.blocks)).toContain('reply_email_open');
+    });
+
+    test('should assign the email to the selected user', async () => {
+      await click('triage_assign', { selected_user: 'U_BOB' });
+
+      expect((await triage.findTriage('C123', '100.001'))?.assignee).toBe(
+        'U_BOB',
+      );
+    });
+
+    test('should mark the email done and reopen it', async () => {
+      await click('triage_done');
+
+      expect((await triage.findTriage('C123', '100.001'))?.status).toBe('done');
+      const doneBlocks = client.chat.update.mock.calls[0][0].blocks;
+      expect(statusText(doneBlocks)).toBe(
+        ':white_check_mark: *Done* · Unassigned · Closed by <@U_ALICE>',
+      );
+      expect(JSON.stringify(doneBlocks)).toContain('triage_reopen');
+      expect(JSON.stringify(doneBlocks)).not.toContain('triage_done');
+
+      postedBlocks = doneBlocks;
+      await click('triage_reopen');
+
+      expect((await triage.findTriage('C123', '100.001'))?.status).toBe('open');
+    });
+
+    test('should apply actions to the stored state, not the shown one', async () => {
+      await click('triage_assign', { selected_user: 'U_BOB' });
+
+      // The post still shows the original (unassigned) state
+      await click('triage_done', {}, 'U_CAROL');
+
+      const args = client.chat.update.mock.calls[1][0];
+      expect(statusText(args.blocks)).toBe(
+        ':white_check_mark: *Done* · Assigned to <@U_BOB> · Closed by <@U_CAROL>',
+      );
+      expect(
+        args.blocks.filter(
+          (block: KnownBlock) => block.block_id === TRIAGE_STATUS_BLOCK_ID,
+        ),
+      ).toHaveLength(1);
+    });
+
+    test('should create the state from the post when none is stored', async () => {
+      triage = new InMemoryTriageRepository();
+      actions = {};
+      registerTriageListeners(
+        {
+          action: vi.fn((id: string, handler: Handler) => {
+            actions[id] = handler;
+          }),
+        } as unknown as App,
+        { triage },
+      );
+
+      await click('triage_assign_me');
+
+      expect(await triage.findTriage('C123', '100.001')).toMatchObject({
+        messageId: 'question@client.example',
+        assignee: 'U_ALICE',
+      });
+    });
+
+    test('should tell the user when the update fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(triage, 'saveTriage').mockRejectedValue(new Error('S3 down'));
+
+      await click('triage_done');
+
+      expect(client.chat.update).not.toHaveBeenCalled();
+      expect(client.chat.postEphemeral).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user: 'U_ALICE',
+          text: ':x: Failed to update the email: S3 down',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import type { WebClient } from '@slack/web-api';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { InMemoryInstallationRepository } from '@/infrastructure';
+import {
+  createOAuthState,
+  createSlackOAuthHandlers,
+  verifyOAuthState,
+} from '@/presentation/slackOAuth';
+
+/**
+ * Test suite for the Slack OAuth install flow
+ *
+ * Strategy:
+ * - The state is signed, expires and must match the cookie set by /slack/install
+ * - The redirect exchanges the code and stores the installation,
+ *   keeping the settings of a previous install
+ */
+
+describe('slackOAuth', () => {
+  const secret = 'state-secret';
+
+  describe('OAuth state', () => {
+    it('should accept its own states until they expire', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      const state = createOAuthState(secret, now);
+
+      expect(verifyOAuthState(state, secret, now + 60_000)).toBe(true);
+      expect(verifyOAuthState(state, secret, now + 11 * 60_000)).toBe(false);
+    });
+
+    it('should reject forged or malformed states', () => {
+      const state = createOAuthState(secret);
+
+      expect(verifyOAuthState(state, 'other-secret')).toBe(false);
+      expect(verifyOAuthState(`9${state}`, secret)).toBe(false);
+      expect(verifyOAuthState('garbage', secret)).toBe(false);
+    });
+  });
+
+  describe('createSlackOAuthHandlers', () => {
+    let installations: InMemoryInstallationRepository;
+    let access: ReturnType<typeof vi.fn>;
+
+    const createHandlers = () =>
+      createSlackOAuthHandlers({
+        clientId: 'client-id',
+        clientSecret: 'client-secret',
+        stateSecret: secret,
+        redirectUri: 'https://mail.example/slack/oauth_redirect',
+        installations,
+        client: {
+          oauth: { v2: { access } },
+          auth: { test: vi.fn().mockResolvedValue({ bot_id: 'B1' }) },
+        } as unknown as WebClient,
+      });
+
+    /** Start the install and follow Slack's redirect back with a code */
+    const install = async () => {
+      const handlers = createHandlers();
+      const start = await handlers.handleInstall({ query: {} });
+      const state = new URL(start.headers.Location).searchParams.get(
+        'state',
+      ) as string;
+      return handlers.handleOAuthRedirect({
+        query: { code: 'code-1', state },
+        cookie: `other=1; ${start.headers['Set-Cookie'].split(';')[0]}`,
+      });
+    };
+
+    beforeEach(() => {
+      installations = new InMemoryInstallationRepository();
+      access = vi.fn().mockResolvedValue({
+        ok: true,
+        access_token: 'xoxb-new',
+        bot_user_id: 'U_BOT',
+        scope: 'chat:write,commands',
+        team: { id: 'T1', name: 'Acme' },
+        authed_user: { id: 'U_ADMIN' },
+        is_enterprise_install: false,
+      });
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    it('should redirect to Slack with the scopes and a state cookie', async () => {
+      const response = await createHandlers().handleInstall({ query: {} });
+
+      expect(response.statusCode).toBe(302);
+      const url = new URL(response.headers.Location);
+      expect(url.origin + url.pathname).toBe(
+        'https://slack.com/oauth/v2/authorize',
+      );
+      expect(url.searchParams.get('client_id')).toBe('client-id');
+      expect(url.searchParams.get('scope')).toContain('chat:write');
+      expect(response.headers['Set-Cookie']).toContain(
+        `slackmail-oauth-state=${url.searchParams.get('state')};`,
+      );
+    });
+
+    it('should store the installation', async () => {
+      const response = await install();
+
+      expect(response.statusCode).toBe(200);
+      expect(access).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'code-1',
+          client_secret: 'client-secret',
+        }),
+      );
+      expect(await installations.findInstallation({ teamId: 'T1' })).toEqual({
+        teamId: 'T1',
+        enterpriseId: undefined,
+        isEnterpriseInstall: false,
+        teamName: 'Acme',
+        botToken: 'xoxb-new',
+        botUserId: 'U_BOT',
+        botId: 'B1',
+        botScopes: ['chat:write', 'commands'],
+        installerUserId: 'U_ADMIN',
+        installedAt: expect.any(Date),
+        config: {},
+      });
+    });
+
+    it('should keep the settings when the app is installed again', async () => {
+      await installations.saveInstallation({
+        teamId: 'T1',
+        isEnterpriseInstall: false,
+        botToken: 'xoxb-old',
+        botUserId: 'U_BOT',
+        botScopes: [],
+        installerUserId: 'U_ADMIN',
+        installedAt: new Date('2025-01-01T00:00:00Z'),
+        config: { channel: 'C123', emailDomain: 'acme.example' },
+      });
+
+      await install();
+
+      expect(
+        await installations.findInstallation({ teamId: 'T1' }),
+      ).toMatchObject({
+        botToken: 'xoxb-new',
+        config: { channel: 'C123', emailDomain: 'acme.example' },
+      });
+    });
+
+    it('should reject a state that does not match the cookie', async () => {
+      const response = await createHandlers().handleOAuthRedirect({
+        query: { code: 'code-1', state: createOAuthState(secret) },
+        cookie: `slackmail-oauth-state=${createOAuthState(secret)}`,
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(access).not.toHaveBeenCalled();
+    });
+
+    it('should report a cancelled installation', async () => {
+      const response = await createHandlers().handleOAuthRedirect({
+        query: { error: 'access_denied' },
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(response.body).toContain('access_denied');
+    });
+
+    it('should not store anything when Slack rejects the code', async () => {
+      access.mockRejectedValue(new Error('invalid_code'));
+
+      const response = await install();
+
+      expect(response.statusCode).toBe(500);
+      expect(await installations.listInstallations()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkspaceInstallation } from '@/domain/entities';
+import {
+  ApprovedDomainsConfigError,
+  formatWorkspaceConfig,
+  parseApprovedDomains,
+  parseSetupCommand,
+  WorkspaceSetupError,
+} from '@/presentation/workspaceSetup';
+
+describe('workspaceSetup', () => {
+  describe('parseSetupCommand', () => {
+    it('should parse the commands', () => {
+      expect(parseSetupCommand('')).toEqual({ type: 'show' });
+      expect(parseSetupCommand(' show ')).toEqual({ type: 'show' });
+      expect(parseSetupCommand('channel')).toEqual({ type: 'channel' });
+      expect(parseSetupCommand('domain Mail.Acme.example')).toEqual({
+        type: 'domain',
+        domain: 'mail.acme.example',
+      });
+      expect(parseSetupCommand('quarantine')).toEqual({
+        type: 'quarantine',
+        enabled: true,
+      });
+      expect(parseSetupCommand('quarantine off')).toEqual({
+        type: 'quarantine',
+        enabled: false,
+      });
+      expect(parseSetupCommand('admins <@U123|alice> W456')).toEqual({
+        type: 'admins',
+        userIds: ['U123', 'W456'],
+      });
+      expect(parseSetupCommand('viewers none')).toEqual({
+        type: 'viewers',
+        userIds: [],
+      });
+    });
+
+    it('should reject invalid domains and unknown commands', () => {
+      expect(() => parseSetupCommand('domain not_a_domain')).toThrow(
+        new WorkspaceSetupError('Invalid domain: not_a_domain'),
+      );
+      expect(() => parseSetupCommand('domain a@acme.example')).toThrow(
+        WorkspaceSetupError,
+      );
+      expect(() => parseSetupCommand('reset all')).toThrow(
+        'Unknown command: reset all',
+      );
+      expect(() => parseSetupCommand('quarantine maybe')).toThrow(
+        'Unknown command: quarantine maybe',
+      );
+      expect(() => parseSetupCommand('admins @alice')).toThrow(
+        'Invalid user: @alice',
+      );
+    });
+  });
+
+  describe('parseApprovedDomains', () => {
+    it('should parse the domains of each workspace', () => {
+      expect(
+        parseApprovedDomains(
+          '{"T1": ["Acme.example"], "E1": ["globex.example"]}',
+        ),
+      ).toEqual({ T1: ['acme.example'], E1: ['globex.example'] });
+    });
+
+    it('should reject invalid and shared domains', () => {
+      expect(() => parseApprovedDomains('["acme.example"]')).toThrow(
+        ApprovedDomainsConfigError,
+      );
+      expect(() => parseApprovedDomains('{"T1": ["not_a_domain"]}')).toThrow(
+        'Invalid domain: not_a_domain',
+      );
+      expect(() =>
+        parseApprovedDomains(
+          '{"T1": ["acme.example"], "T2": ["acme.example"]}',
+        ),
+      ).toThrow('acme.example is approved for both T1 and T2');
+    });
+  });
+
+  describe('formatWorkspaceConfig', () => {
+    const installation: WorkspaceInstallation = {
+      teamId: 'T1',
+      isEnterpriseInstall: false,
+      botToken: 'xoxb-1',
+      botUserId: 'U_BOT',
+      botScopes: [],
+      installerUserId: 'U_ADMIN',
+      installedAt: new Date('2025-01-01T00:00:00Z'),
+      config: { channel: 'C123' },
+    };
+
+    it('should show the settings and what is missing', () => {
+      const text = formatWorkspaceConfig(installation, {});
+
+      expect(text).toContain('Channel: <#C123>');
+      expect(text).toContain('Email domain: _not set_');
+      expect(text).toContain('Quarantine channel: _not set_');
+      expect(text).toContain('/mail-setup domain example.com');
+    });
+
+    it('should flag a domain that is not approved', () => {
+      const text = formatWorkspaceConfig(
+        {
+          ...installation,
+          config: { channel: 'C123', emailDomain: 'acme.example' },
+        },
+        { T1: ['globex.example'] },
+      );
+
+      expect(text).toContain('acme.example _(not approved');
+      expect(text).toContain('Approved domains: globex.example');
+      expect(text).toContain('/mail-setup domain example.com');
+    });
+
+    it('should omit the usage once everything is set', () => {
+      const text = formatWorkspaceConfig(
+        {
+          ...installation,
+          config: {
+            channel: 'C123',
+            emailDomain: 'acme.example',
+            quarantineChannel: 'C_QUARANTINE',
+            adminUserIds: ['U_ADMIN'],
+          },
+        },
+        { T1: ['acme.example'] },
+      );
+
+      expect(text).toContain('Email domain: acme.example\n');
+      expect(text).toContain('Admins: <@U_ADMIN>');
+      expect(text).toContain('Redaction viewers: _none_');
+      expect(text).toContain('Quarantine channel: <#C_QUARANTINE>');
+      expect(text).not.toContain('/mail-setup');
+    });
+  });
+});